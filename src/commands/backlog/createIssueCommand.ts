@@ -0,0 +1,139 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { Entity } from 'backlog-js';
+import { ServiceContainer } from '../../container';
+import { IssueCreateDefaults } from '../../types/backlog';
+import { showIssueCreateForm } from './issueCreateForm';
+import { getGitPermalink } from '../../utils/gitPermalink';
+
+/**
+ * 選択範囲から課題の説明を組み立てる（ファイルパス・行範囲・コードブロック・permalink）。
+ */
+async function buildSelectionDescription(
+  document: vscode.TextDocument,
+  lines: { start: number; end: number },
+  relativePath: string
+): Promise<string> {
+  const startLine = lines.start + 1;
+  const endLine = lines.end + 1;
+  const lineLabel = startLine === endLine ? `L${startLine}` : `L${startLine}-L${endLine}`;
+  const snippet = document.getText(new vscode.Range(lines.start, 0, lines.end + 1, 0));
+  const fence = snippet.includes('```') ? '~~~' : '```';
+
+  const body = [
+    `\`${relativePath}\` (${lineLabel})`,
+    '',
+    `${fence}${document.languageId}`,
+    snippet.replace(/\r?\n$/, ''),
+    fence,
+  ];
+
+  const permalink = document.isUntitled
+    ? undefined
+    : await getGitPermalink(document.uri.fsPath, startLine, endLine);
+  if (permalink) {
+    body.push('', permalink);
+  }
+  return body.join('\n');
+}
+
+export function registerCreateIssueCommands(c: ServiceContainer): vscode.Disposable[] {
+  return [
+    // 作成した課題を返すので、他の機能からも executeCommand 経由で利用できる
+    vscode.commands.registerCommand(
+      'nulab.createIssue',
+      async (defaults?: IssueCreateDefaults): Promise<Entity.Issue.Issue | undefined> => {
+        if (!(await c.backlogConfig.isConfigured())) {
+          vscode.window.showWarningMessage('[Nulab] Backlog の設定が必要です。');
+          return undefined;
+        }
+
+        try {
+          const params = await showIssueCreateForm(c.backlogApi, defaults);
+          if (!params) {
+            return undefined;
+          }
+
+          const issue = await vscode.window.withProgress(
+            { location: vscode.ProgressLocation.Notification, title: '[Nulab] 課題を作成中...' },
+            () => c.backlogApi.postIssue(params)
+          );
+          c.backlogIssuesProvider.refresh();
+          c.myTasksProvider.refresh();
+
+          vscode.window
+            .showInformationMessage(`[Nulab] ${issue.issueKey} を作成しました`, '開く')
+            .then((choice) => {
+              if (choice === '開く') {
+                vscode.commands.executeCommand('nulab.openIssue', issue);
+              }
+            });
+          return issue;
+        } catch (error) {
+          console.error('Error creating issue:', error);
+          vscode.window.showErrorMessage(`[Nulab] 課題の作成に失敗しました: ${error}`);
+          return undefined;
+        }
+      }
+    ),
+
+    vscode.commands.registerCommand('nulab.createIssueFromSelection', async () => {
+      const editor = vscode.window.activeTextEditor;
+      if (!editor || editor.selection.isEmpty) {
+        vscode.window.showWarningMessage('[Nulab] 課題にするコードを選択してください。');
+        return;
+      }
+      const { document, selection } = editor;
+      // 行全体を選択したとき（終端が次の行の先頭）はその行を含めない
+      const lines = {
+        start: selection.start.line,
+        end:
+          selection.end.character === 0 && selection.end.line > selection.start.line
+            ? selection.end.line - 1
+            : selection.end.line,
+      };
+      const root = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+      const relativePath = root
+        ? path.relative(root, document.uri.fsPath).split(path.sep).join('/')
+        : path.basename(document.uri.fsPath);
+
+      // 件名は選択範囲の先頭行（コメント記号などは除く）
+      const firstLine = document.lineAt(lines.start).text.trim();
+      const summary =
+        firstLine
+          .replace(/^(\/\/+|#+|\/\*+|\*+|--|<!--)\s*/, '')
+          .replace(/\s*(\*\/|-->)$/, '')
+          .substring(0, 100) || `${relativePath}:${lines.start + 1}`;
+
+      const issue = await vscode.commands.executeCommand<Entity.Issue.Issue | undefined>(
+        'nulab.createIssue',
+        {
+          summary,
+          description: await buildSelectionDescription(document, lines, relativePath),
+        }
+      );
+      if (!issue || document.uri.scheme !== 'file' || !root) {
+        return;
+      }
+
+      c.fileStore.addCodeIssueLink({
+        issueKey: issue.issueKey,
+        summary: issue.summary,
+        path: relativePath,
+        startLine: lines.start,
+        endLine: lines.end,
+        anchorText: firstLine,
+        createdAt: new Date().toISOString(),
+      });
+      c.codeIssueCodeLensProvider.refresh();
+    }),
+
+    vscode.commands.registerCommand(
+      'nulab.removeCodeIssueLink',
+      (issueKey: string, linkPath: string) => {
+        c.fileStore.removeCodeIssueLink(issueKey, linkPath);
+        c.codeIssueCodeLensProvider.refresh();
+      }
+    ),
+  ];
+}
@@ -0,0 +1,134 @@
+import * as vscode from 'vscode';
+import { Entity, Option } from 'backlog-js';
+import { BacklogApiService } from '../../services/backlogApi';
+import { IssueCreateDefaults } from '../../types/backlog';
+
+const FORM_TITLE = '課題を作成';
+const FORM_STEPS = 5;
+
+interface IdPickItem extends vscode.QuickPickItem {
+  id: number | undefined;
+}
+
+/**
+ * プロジェクトを選択する。preferredKey に一致するプロジェクトを先頭に表示する。
+ */
+export async function pickProject(
+  backlogApi: BacklogApiService,
+  preferredKey?: string,
+  step?: number
+): Promise<Entity.Project.Project | undefined> {
+  const projects = await backlogApi.getProjects();
+  const preferred = preferredKey?.toUpperCase();
+  const sorted = [...projects].sort(
+    (a, b) => Number(b.projectKey === preferred) - Number(a.projectKey === preferred)
+  );
+  const picked = await vscode.window.showQuickPick(
+    sorted.map((p) => ({ label: p.name, description: p.projectKey, project: p })),
+    {
+      title: step ? `${FORM_TITLE} (${step}/${FORM_STEPS})` : 'プロジェクトを選択',
+      placeHolder: 'プロジェクトを選択',
+      matchOnDescription: true,
+      ignoreFocusOut: true,
+    }
+  );
+  return picked?.project;
+}
+
+/**
+ * 既定値の項目を先頭に置いて 1 つ選ばせる。
+ */
+async function pickOne(
+  step: number,
+  placeHolder: string,
+  items: IdPickItem[],
+  defaultId: number | undefined
+): Promise<IdPickItem | undefined> {
+  const sorted = [...items].sort((a, b) => Number(b.id === defaultId) - Number(a.id === defaultId));
+  return vscode.window.showQuickPick(sorted, {
+    title: `${FORM_TITLE} (${step}/${FORM_STEPS})`,
+    placeHolder,
+    matchOnDescription: true,
+    ignoreFocusOut: true,
+  });
+}
+
+/**
+ * プロジェクト / 件名 / 種別 / 優先度 / 担当者を順に入力する課題作成フォーム。
+ * キャンセルされた場合は undefined を返す。
+ */
+export async function showIssueCreateForm(
+  backlogApi: BacklogApiService,
+  defaults: IssueCreateDefaults = {}
+): Promise<Option.Issue.PostIssueParams | undefined> {
+  let projectId = defaults.projectId;
+  if (!projectId) {
+    const project = await pickProject(backlogApi, defaults.projectKey, 1);
+    if (!project) {
+      return undefined;
+    }
+    projectId = project.id;
+  }
+
+  const summary = await vscode.window.showInputBox({
+    title: `${FORM_TITLE} (2/${FORM_STEPS})`,
+    prompt: '件名',
+    value: defaults.summary,
+    ignoreFocusOut: true,
+    validateInput: (value) => (value.trim() ? null : '件名を入力してください'),
+  });
+  if (!summary) {
+    return undefined;
+  }
+
+  const [issueTypes, priorities, users] = await Promise.all([
+    backlogApi.getIssueTypes(projectId),
+    backlogApi.getPriorities(),
+    backlogApi.getProjectUsers(projectId),
+  ]);
+
+  const issueType = await pickOne(
+    3,
+    '種別を選択',
+    issueTypes.map((t) => ({ label: t.name, id: t.id })),
+    defaults.issueTypeId ?? issueTypes[0]?.id
+  );
+  if (!issueType?.id) {
+    return undefined;
+  }
+
+  // 既定の優先度は「中」
+  const defaultPriority =
+    defaults.priorityId ?? priorities.find((p) => p.name === '中' || p.id === 3)?.id;
+  const priority = await pickOne(
+    4,
+    '優先度を選択',
+    priorities.map((p) => ({ label: p.name, id: p.id })),
+    defaultPriority
+  );
+  if (!priority?.id) {
+    return undefined;
+  }
+
+  const assignee = await pickOne(
+    5,
+    '担当者を選択',
+    [
+      { label: '未割当', id: undefined },
+      ...users.map((u) => ({ label: u.name, description: u.userId, id: u.id })),
+    ],
+    defaults.assigneeId
+  );
+  if (!assignee) {
+    return undefined;
+  }
+
+  return {
+    projectId,
+    summary: summary.trim(),
+    issueTypeId: issueType.id,
+    priorityId: priority.id,
+    ...(defaults.description ? { description: defaults.description } : {}),
+    ...(assignee.id ? { assigneeId: assignee.id } : {}),
+  };
+}
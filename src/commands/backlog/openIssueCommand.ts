@@ -3,8 +3,36 @@ import { Entity } from 'backlog-js';
 import { ServiceContainer } from '../../container';
 import { IssueWebview } from '../../webviews/issueWebview';
 import { WebviewHelper } from '../../webviews/common';
+import { IssueEditOptions } from '../../types/backlog';
 
 export function registerOpenIssueCommands(c: ServiceContainer): vscode.Disposable[] {
+  // 編集フォームの選択肢が取得できない場合は閲覧のみで表示する
+  const loadEditOptions = async (projectId: number): Promise<IssueEditOptions | undefined> => {
+    try {
+      return await c.backlogApi.getIssueEditOptions(projectId);
+    } catch (error) {
+      console.error('Error loading issue edit options:', error);
+      return undefined;
+    }
+  };
+
+  const renderIssue = async (
+    webview: vscode.Webview,
+    issueDetail: Entity.Issue.Issue,
+    issueComments: Entity.Issue.Comment[],
+    baseUrl?: string
+  ): Promise<string> => {
+    return IssueWebview.getWebviewContent(
+      webview,
+      c.context.extensionUri,
+      issueDetail,
+      issueComments,
+      baseUrl,
+      c.backlogApi,
+      await loadEditOptions(issueDetail.projectId)
+    );
+  };
+
   const setupIssueMessageHandler = (
     panel: vscode.WebviewPanel,
     issue: Entity.Issue.Issue
@@ -41,19 +69,53 @@ export function registerOpenIssueCommands(c: ServiceContainer): vscode.Disposabl
               vscode.window.showErrorMessage(`[Nulab] スターの追加に失敗しました: ${error}`);
             }
             break;
+          case 'updateIssue':
+            try {
+              const result = await c.backlogApi.updateIssue(
+                message.issueId,
+                message.changes,
+                message.updated
+              );
+              if (result.updated) {
+                c.backlogIssuesProvider.refresh();
+                c.myTasksProvider.refresh();
+              } else {
+                const updatedBy = result.current.updatedUser?.name || '他のユーザー';
+                vscode.window.showWarningMessage(
+                  `[Nulab] ${issue.issueKey} は ${updatedBy} によって更新されていたため、変更を保存しませんでした。最新の内容を読み込んだので、もう一度編集してください。`
+                );
+              }
+            } catch (error) {
+              console.error('Error updating issue:', error);
+              vscode.window.showErrorMessage(`[Nulab] 課題の更新に失敗しました: ${error}`);
+            }
+            // 成功・競合・失敗いずれの場合も最新の状態で再描画する
+            try {
+              const [latestIssue, latestComments] = await Promise.all([
+                c.backlogApi.getIssue(message.issueId),
+                c.backlogApi.getIssueComments(message.issueId),
+              ]);
+              panel.webview.html = await renderIssue(
+                panel.webview,
+                latestIssue,
+                latestComments,
+                c.backlogConfig.getBaseUrl()
+              );
+            } catch (error) {
+              console.error('Error refreshing issue:', error);
+            }
+            break;
           case 'refreshIssue':
             try {
               const [refreshedIssue, refreshedComments] = await Promise.all([
                 c.backlogApi.getIssue(message.issueId),
                 c.backlogApi.getIssueComments(message.issueId),
               ]);
-              panel.webview.html = await IssueWebview.getWebviewContent(
+              panel.webview.html = await renderIssue(
                 panel.webview,
-                c.context.extensionUri,
                 refreshedIssue,
                 refreshedComments,
-                c.backlogConfig.getBaseUrl(),
-                c.backlogApi
+                c.backlogConfig.getBaseUrl()
               );
             } catch (error) {
               console.error('Error refreshing issue:', error);
@@ -92,13 +154,10 @@ export function registerOpenIssueCommands(c: ServiceContainer): vscode.Disposabl
         try {
           const issueDetail = await c.backlogApi.getIssue(issue.id);
           const issueComments = await c.backlogApi.getIssueComments(issue.id);
-          existingPanel.webview.html = await IssueWebview.getWebviewContent(
+          existingPanel.webview.html = await renderIssue(
             existingPanel.webview,
-            c.context.extensionUri,
             issueDetail,
-            issueComments,
-            undefined,
-            c.backlogApi
+            issueComments
           );
         } catch (error) {
           existingPanel.webview.html = WebviewHelper.getErrorWebviewContent(
@@ -114,13 +173,11 @@ export function registerOpenIssueCommands(c: ServiceContainer): vscode.Disposabl
         const issueDetail = await c.backlogApi.getIssue(issue.id);
         const issueComments = await c.backlogApi.getIssueComments(issue.id);
 
-        panel.webview.html = await IssueWebview.getWebviewContent(
+        panel.webview.html = await renderIssue(
           panel.webview,
-          c.context.extensionUri,
           issueDetail,
           issueComments,
-          c.backlogConfig.getBaseUrl(),
-          c.backlogApi
+          c.backlogConfig.getBaseUrl()
         );
 
         setupIssueMessageHandler(panel, issueDetail);
@@ -129,20 +186,23 @@ export function registerOpenIssueCommands(c: ServiceContainer): vscode.Disposabl
       }
     }),
 
-    vscode.commands.registerCommand('nulab.openIssueByKey', async () => {
-      const issueKey = await vscode.window.showInputBox({
-        prompt: 'Enter Backlog issue key to open',
-        placeHolder: 'e.g., PROJ-123, DEV-456',
-        validateInput: (value) => {
-          if (!value || value.trim().length === 0) {
-            return 'Issue key cannot be empty';
-          }
-          if (!/^[A-Z][A-Z0-9_]*-\d+$/i.test(value.trim())) {
-            return 'Issue key should be in format: PROJECT-123';
-          }
-          return null;
-        },
-      });
+    vscode.commands.registerCommand('nulab.openIssueByKey', async (issueKeyArg?: string) => {
+      const issueKey =
+        typeof issueKeyArg === 'string'
+          ? issueKeyArg
+          : await vscode.window.showInputBox({
+              prompt: 'Enter Backlog issue key to open',
+              placeHolder: 'e.g., PROJ-123, DEV-456',
+              validateInput: (value) => {
+                if (!value || value.trim().length === 0) {
+                  return 'Issue key cannot be empty';
+                }
+                if (!/^[A-Z][A-Z0-9_]*-\d+$/i.test(value.trim())) {
+                  return 'Issue key should be in format: PROJECT-123';
+                }
+                return null;
+              },
+            });
 
       if (!issueKey) {
         return;
@@ -190,13 +250,11 @@ export function registerOpenIssueCommands(c: ServiceContainer): vscode.Disposabl
               c.backlogApi.getIssueComments(issueSearchResult.id),
             ]);
 
-            panel.webview.html = await IssueWebview.getWebviewContent(
+            panel.webview.html = await renderIssue(
               panel.webview,
-              c.context.extensionUri,
               issueDetail,
               issueComments,
-              c.backlogConfig.getBaseUrl(),
-              c.backlogApi
+              c.backlogConfig.getBaseUrl()
             );
 
             setupIssueMessageHandler(panel, issueDetail);
@@ -231,25 +289,15 @@ export function registerOpenIssueCommands(c: ServiceContainer): vscode.Disposabl
           if (existingPanel) {
             existingPanel.reveal(vscode.ViewColumn.One);
             const issueComments = await c.backlogApi.getIssueComments(numericIssueId);
-            existingPanel.webview.html = await IssueWebview.getWebviewContent(
+            existingPanel.webview.html = await renderIssue(
               existingPanel.webview,
-              c.context.extensionUri,
               issueDetail,
-              issueComments,
-              undefined,
-              c.backlogApi
+              issueComments
             );
           } else {
             const panel = createIssuePanel(resolvedIssueKey);
             const issueComments = await c.backlogApi.getIssueComments(numericIssueId);
-            panel.webview.html = await IssueWebview.getWebviewContent(
-              panel.webview,
-              c.context.extensionUri,
-              issueDetail,
-              issueComments,
-              undefined,
-              c.backlogApi
-            );
+            panel.webview.html = await renderIssue(panel.webview, issueDetail, issueComments);
 
             setupIssueMessageHandler(panel, issueDetail);
           }
@@ -0,0 +1,261 @@
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { Entity } from 'backlog-js';
+import { ServiceContainer } from '../../container';
+import { PullRequestsTreeViewProvider } from '../../providers/pullRequestsTreeViewProvider';
+import { GitRevisionContentProvider } from '../../providers/gitRevisionContentProvider';
+import { PullRequestWebview } from '../../webviews/pullRequestWebview';
+import { WebviewHelper } from '../../webviews/common';
+import {
+  LocalGitRepository,
+  PullRequestChangedFile,
+  PullRequestFilter,
+  PullRequestRange,
+} from '../../types/backlog';
+import {
+  findLocalRepository,
+  getCurrentBranch,
+  listChangedFiles,
+  resolvePullRequestRange,
+} from '../../utils/gitRevision';
+
+const TITLE_BASE = 'Backlog: Pull Requests';
+
+export function registerPullRequestCommands(
+  c: ServiceContainer,
+  treeView: vscode.TreeView<any>
+): vscode.Disposable[] {
+  const updateTitle = () => {
+    const filter = c.pullRequestsProvider.getFilter();
+    treeView.title =
+      filter === 'all'
+        ? TITLE_BASE
+        : `${TITLE_BASE} (${PullRequestsTreeViewProvider.getFilterLabel(filter)})`;
+  };
+  updateTitle();
+
+  return [
+    vscode.commands.registerCommand('workspace.refreshPullRequests', () => {
+      c.pullRequestsProvider.refresh();
+    }),
+
+    vscode.commands.registerCommand('workspace.setPullRequestFilter', async () => {
+      const current = c.pullRequestsProvider.getFilter();
+      const options: PullRequestFilter[] = ['all', 'assigned', 'created'];
+      const pick = await vscode.window.showQuickPick(
+        options.map((filter) => ({
+          label: PullRequestsTreeViewProvider.getFilterLabel(filter),
+          description: filter === current ? '(現在)' : undefined,
+          filter,
+        })),
+        { placeHolder: 'プルリクエストの絞り込み' }
+      );
+      if (pick) {
+        await c.pullRequestsProvider.setFilter(pick.filter);
+        updateTitle();
+      }
+    }),
+
+    vscode.commands.registerCommand(
+      'nulab.openPullRequest',
+      async (projectKey: string, repoName: string, number: number) => {
+        await openPullRequestPanel(c, projectKey, repoName, number);
+      }
+    ),
+  ];
+}
+
+async function openPullRequestPanel(
+  c: ServiceContainer,
+  projectKey: string,
+  repoName: string,
+  number: number
+): Promise<void> {
+  const { panel, isNew } = c.pullRequestPanels.revealOrCreate(
+    `${projectKey}/${repoName}/${number}`,
+    () =>
+      vscode.window.createWebviewPanel(
+        'backlogPullRequest',
+        `PR ${repoName} #${number}`,
+        vscode.ViewColumn.One,
+        {
+          enableScripts: true,
+          retainContextWhenHidden: true,
+          localResourceRoots: [c.context.extensionUri],
+        }
+      )
+  );
+  if (!isNew) {
+    return;
+  }
+
+  let pr: Entity.PullRequest.PullRequest | undefined;
+  // ローカルの差分（loadFiles のたびに求め直す）
+  let local: LocalGitRepository | undefined;
+  let range: PullRequestRange | undefined;
+  let files: PullRequestChangedFile[] = [];
+
+  const load = async () => {
+    panel.webview.html = WebviewHelper.getLoadingWebviewContent('Loading pull request...');
+    try {
+      const [detail, comments] = await Promise.all([
+        c.backlogApi.getPullRequest(projectKey, repoName, number),
+        c.backlogApi.getPullRequestComments(projectKey, repoName, number),
+      ]);
+      pr = detail;
+      panel.title = `PR ${repoName} #${number}`;
+      panel.webview.html = await PullRequestWebview.getWebviewContent(
+        panel.webview,
+        c.context.extensionUri,
+        projectKey,
+        repoName,
+        detail,
+        comments,
+        c.backlogConfig.getBaseUrl(),
+        c.backlogApi
+      );
+    } catch (error) {
+      panel.webview.html = WebviewHelper.getErrorWebviewContent(
+        `Failed to load pull request: ${error}`
+      );
+    }
+  };
+
+  const loadFiles = async (fetch: boolean) => {
+    if (!pr) {
+      return;
+    }
+    files = [];
+    try {
+      const repository =
+        c.pullRequestsProvider.findRepository(projectKey, repoName) ||
+        (await c.backlogApi.getGitRepositories(projectKey)).find((r) => r.name === repoName);
+      const folders = (vscode.workspace.workspaceFolders || []).map((f) => f.uri.fsPath);
+      local = repository ? await findLocalRepository(folders, projectKey, repository) : undefined;
+      if (!local) {
+        panel.webview.postMessage({
+          type: 'files',
+          state: 'no-clone',
+          message:
+            'ワークスペースにこのリポジトリの clone が見つからないため、変更ファイルを表示できません。',
+        });
+        return;
+      }
+
+      range = await resolvePullRequestRange(local, pr, { fetch });
+      if (!range) {
+        panel.webview.postMessage({
+          type: 'files',
+          state: 'missing-refs',
+          message: `ローカルに ${pr.base} / ${pr.branch} がありません。Fetch を押して取得してください。`,
+        });
+        return;
+      }
+
+      files = await listChangedFiles(local.root, range);
+      const checkedOut = (await getCurrentBranch(local.root)) === pr.branch;
+      panel.webview.postMessage({
+        type: 'files',
+        state: 'ok',
+        files,
+        message: checkedOut
+          ? `${pr.branch} をチェックアウト中のため、作業ツリーのファイルと比較します。`
+          : '',
+      });
+    } catch (error) {
+      c.log(`pull request files failed: ${error}`);
+      panel.webview.postMessage({
+        type: 'files',
+        state: 'error',
+        message: `変更ファイルの取得に失敗しました: ${
+          error instanceof Error ? error.message : error
+        }`,
+      });
+    }
+  };
+
+  const openDiff = async (file: PullRequestChangedFile) => {
+    if (!pr || !local || !range) {
+      return;
+    }
+    const root = local.root;
+    const left = GitRevisionContentProvider.buildUri(
+      root,
+      file.status === 'A' ? '' : range.base,
+      file.oldPath || file.path
+    );
+    // PR のブランチをチェックアウト中なら、右側は編集できる作業ツリーのファイルにする
+    const checkedOut = (await getCurrentBranch(root)) === pr.branch;
+    const right =
+      file.status === 'D'
+        ? GitRevisionContentProvider.buildUri(root, '', file.path)
+        : checkedOut
+        ? vscode.Uri.file(path.join(root, file.path))
+        : GitRevisionContentProvider.buildUri(root, range.head, file.path);
+    await vscode.commands.executeCommand(
+      'vscode.diff',
+      left,
+      right,
+      `${path.posix.basename(file.path)} (#${pr.number} ${pr.base} ↔ ${pr.branch})`,
+      { preview: true }
+    );
+  };
+
+  panel.webview.onDidReceiveMessage(
+    async (message) => {
+      switch (message.command) {
+        case 'loadFiles':
+          await loadFiles(false);
+          break;
+
+        case 'fetch':
+          await loadFiles(true);
+          break;
+
+        case 'openDiff': {
+          const file = files[message.index];
+          if (file) {
+            await openDiff(file);
+          }
+          break;
+        }
+
+        case 'postComment':
+          try {
+            await c.backlogApi.postPullRequestComment(
+              projectKey,
+              repoName,
+              number,
+              message.content
+            );
+          } catch (error) {
+            vscode.window.showErrorMessage(`[Nulab] コメントの投稿に失敗しました: ${error}`);
+            panel.webview.postMessage({ type: 'commentFailed' });
+            break;
+          }
+          await load();
+          break;
+
+        case 'openIssue':
+          if (pr?.issue) {
+            vscode.commands.executeCommand('nulab.openIssue', pr.issue);
+          }
+          break;
+
+        case 'refresh':
+          await load();
+          break;
+
+        case 'openExternal':
+          if (message.url) {
+            vscode.env.openExternal(vscode.Uri.parse(message.url));
+          }
+          break;
+      }
+    },
+    undefined,
+    c.context.subscriptions
+  );
+
+  await load();
+}
@@ -4,21 +4,55 @@ import * as path from 'path';
 import { CacooApiService } from '../services/cacooApi';
 import { CacooConfig } from '../config/cacooConfig';
 import { CacooSyncService } from '../services/cacooSyncService';
+import { CacooSheetCache } from '../services/cacooSheetCache';
+import { findCacooReferences } from '../utils/cacooReference';
 import { CacooSheetWebview } from '../webviews/cacooSheetWebview';
-import { CacooSyncMapping, CacooPinnedSheet } from '../types/cacoo';
+import {
+  CacooDiagram,
+  CacooDiagramDetail,
+  CacooPinnedSheet,
+  CacooSheetReference,
+  CacooSyncManifest,
+  CacooSyncManifestEntry,
+  CacooSyncMapping,
+} from '../types/cacoo';
 import {
   CacooFolderItem,
   CacooDiagramItem,
   CacooSheetItem,
 } from '../providers/cacooTreeViewProvider';
 
+/** マッピングの無いピン留めシートの保存先（ワークスペースからの相対パス） */
+const DEFAULT_LOCAL_PATH = 'cacoo-sheets';
+const DIAGRAMS_PAGE_SIZE = 100;
+
+interface PullSummary {
+  pulled: number;
+  unchanged: number;
+  renamed: number;
+  removed: number;
+  skipped: number;
+  /** 内容が変わり、前回の画像と比較できるファイル（絶対パス） */
+  changed: string[];
+}
+
+const emptySummary = (): PullSummary => ({
+  pulled: 0,
+  unchanged: 0,
+  renamed: 0,
+  removed: 0,
+  skipped: 0,
+  changed: [],
+});
+
 export class CacooCommands {
   private isPulling = false;
 
   constructor(
     private cacooApi: CacooApiService,
     private configService: CacooConfig,
-    private syncService: CacooSyncService
+    private syncService: CacooSyncService,
+    private sheetCache: CacooSheetCache
   ) {}
 
   // ---- API Key Setup ----
@@ -107,11 +141,65 @@ export class CacooCommands {
 
     openPanels.set(panelKey, panel);
 
+    // シートを切り替えて戻ったときに取り直さないよう、画像はパネルごとに持つ
+    const images = new Map<string, string>();
+    let currentSheetUid = sheetUid;
+    let diagram: CacooDiagramDetail | undefined;
+
+    const render = async (reloadDiagram: boolean) => {
+      if (reloadDiagram || !diagram) {
+        diagram = await this.cacooApi.getDiagramDetail(diagramId);
+      }
+      let base64 = images.get(currentSheetUid);
+      if (!base64) {
+        const buffer = await this.cacooApi.downloadSheetImage(diagramId, currentSheetUid);
+        base64 = buffer.toString('base64');
+        images.set(currentSheetUid, base64);
+      }
+      const sheet = diagram.sheets.find((s) => s.uid === currentSheetUid);
+      panel.title = `Cacoo: ${diagram.title} / ${sheet?.name || ''}`;
+      panel.webview.html = CacooSheetWebview.getWebviewContent(
+        panel.webview,
+        context.extensionUri,
+        diagram,
+        currentSheetUid,
+        base64
+      );
+    };
+
+    const showError = (error: unknown) => {
+      panel.webview.html = `<html><body><p>Error: ${
+        error instanceof Error ? error.message : error
+      }</p></body></html>`;
+    };
+
     // Message handler
     panel.webview.onDidReceiveMessage(
       async (message) => {
-        if (message.command === 'openExternal' && message.url) {
-          await vscode.env.openExternal(vscode.Uri.parse(message.url));
+        switch (message.command) {
+          case 'openExternal':
+            if (message.url) {
+              await vscode.env.openExternal(vscode.Uri.parse(message.url));
+            }
+            break;
+
+          case 'switchSheet':
+            if (message.sheetUid && message.sheetUid !== currentSheetUid) {
+              currentSheetUid = message.sheetUid;
+              await render(false).catch(showError);
+            }
+            break;
+
+          case 'postComment':
+            try {
+              await this.cacooApi.postComment(diagramId, message.content);
+            } catch (error) {
+              vscode.window.showErrorMessage(`[Nulab] コメントの投稿に失敗しました: ${error}`);
+              panel.webview.postMessage({ type: 'commentFailed' });
+              break;
+            }
+            await render(true).catch(showError);
+            break;
         }
       },
       undefined,
@@ -119,24 +207,8 @@ export class CacooCommands {
     );
 
     // Download and show
-    try {
-      panel.webview.html = '<html><body><p>Loading...</p></body></html>';
-      const buffer = await this.cacooApi.downloadSheetImage(diagramId, sheetUid);
-      const base64 = buffer.toString('base64');
-      const diagramUrl = `https://cacoo.com/diagrams/${diagramId}`;
-
-      panel.webview.html = CacooSheetWebview.getWebviewContent(
-        panel.webview,
-        context.extensionUri,
-        title,
-        base64,
-        diagramUrl
-      );
-    } catch (error) {
-      panel.webview.html = `<html><body><p>Error: ${
-        error instanceof Error ? error.message : error
-      }</p></body></html>`;
-    }
+    panel.webview.html = '<html><body><p>Loading...</p></body></html>';
+    await render(true).catch(showError);
   }
 
   // ---- Open in Browser ----
@@ -217,30 +289,49 @@ export class CacooCommands {
       return;
     }
 
+    const exportPick = await vscode.window.showQuickPick(
+      [
+        { label: 'PNG', description: '原寸', format: 'png' as const, scale: 1 },
+        { label: 'PNG (2x)', description: '高解像度', format: 'png' as const, scale: 2 },
+        { label: 'SVG', description: 'ベクター形式', format: 'svg' as const, scale: 1 },
+      ],
+      { placeHolder: '同期する画像の形式' }
+    );
+    if (!exportPick) {
+      return;
+    }
+
     const mapping: CacooSyncMapping = {
       localPath,
       organizationKey,
       folderId,
       folderName,
+      format: exportPick.format,
+      ...(exportPick.scale !== 1 ? { scale: exportPick.scale } : {}),
     };
     await this.configService.addSyncMapping(mapping);
     vscode.window.showInformationMessage(
-      `[Nulab] マッピングを設定しました: ${folderName} → ${localPath}`
+      `[Nulab] マッピングを設定しました: ${folderName} → ${localPath}（Pull でフォルダ全体を同期します）`
     );
   }
 
-  // ---- Pull (pinned sheets only) ----
+  // ---- Pull ----
 
+  /**
+   * マッピングごとに Cacoo フォルダ全体をローカルへミラーし、
+   * どのマッピングにも含まれないピン留めシートは既定のディレクトリへ取得する。
+   */
   async pull(): Promise<void> {
     if (this.isPulling) {
       vscode.window.showWarningMessage('[Nulab] Pull is already in progress.');
       return;
     }
 
+    const mappings = this.configService.getSyncMappings();
     const pinnedSheets = this.configService.getPinnedSheets();
-    if (pinnedSheets.length === 0) {
+    if (mappings.length === 0 && pinnedSheets.length === 0) {
       vscode.window.showWarningMessage(
-        '[Nulab] ピン留めされたシートがありません。ツリーからシートをピン留めしてください。'
+        '[Nulab] 同期するフォルダもピン留めされたシートもありません。フォルダのマッピングを設定するか、シートをピン留めしてください。'
       );
       return;
     }
@@ -250,96 +341,594 @@ export class CacooCommands {
       return;
     }
 
-    // Determine local directory: use mapping if exists, otherwise default
-    const mappings = this.configService.getSyncMappings();
-    const localPath = mappings.length > 0 ? mappings[0].localPath : 'cacoo-sheets';
-    const localDir = path.join(workspaceRoot, localPath);
-
     this.isPulling = true;
 
     try {
       await vscode.window.withProgress(
         {
           location: vscode.ProgressLocation.Notification,
-          title: 'Pulling pinned Cacoo sheets...',
+          title: 'Pulling Cacoo sheets...',
           cancellable: true,
         },
         async (progress, token) => {
-          const manifest = this.syncService.loadManifest(localDir);
-          let pulled = 0;
-          let unchanged = 0;
-          let skipped = 0;
-          const total = pinnedSheets.length;
+          const results: string[] = [];
+          const changed: string[] = [];
+          const syncedDiagramIds = new Set<string>();
 
-          for (let i = 0; i < pinnedSheets.length; i++) {
+          // マッピングは互いに独立して同期する（1 つが失敗しても残りは続ける）
+          for (const mapping of mappings) {
             if (token.isCancellationRequested) {
               break;
             }
-            const pin = pinnedSheets[i];
+            try {
+              const { summary, diagramIds } = await this.syncFolder(
+                path.join(workspaceRoot, mapping.localPath),
+                mapping,
+                progress,
+                token
+              );
+              diagramIds.forEach((id) => syncedDiagramIds.add(id));
+              changed.push(...summary.changed);
+              results.push(`${mapping.folderName}: ${this.formatSummary(summary)}`);
+            } catch (error) {
+              console.error(`[Cacoo] Failed to sync folder ${mapping.folderName}:`, error);
+              results.push(
+                `${mapping.folderName}: 失敗 (${error instanceof Error ? error.message : error})`
+              );
+            }
+          }
+
+          const pins = pinnedSheets.filter((pin) => !syncedDiagramIds.has(pin.diagramId));
+          if (pins.length > 0 && !token.isCancellationRequested) {
+            const summary = await this.pullPinnedSheets(
+              path.join(workspaceRoot, DEFAULT_LOCAL_PATH),
+              pins,
+              progress,
+              token
+            );
+            changed.push(...summary.changed);
+            results.push(`ピン留め: ${this.formatSummary(summary)}`);
+          }
+
+          const message = `[Nulab] Cacoo Pull 完了: ${results.join(' / ')}`;
+          if (changed.length === 0) {
+            vscode.window.showInformationMessage(message);
+            return;
+          }
+          // 通知は待たずに進捗を閉じる
+          vscode.window.showInformationMessage(message, 'Compare with Previous').then((action) => {
+            if (action) {
+              vscode.commands.executeCommand(
+                'cacoo.compareWithPrevious',
+                changed.length === 1 ? vscode.Uri.file(changed[0]) : undefined
+              );
+            }
+          });
+        }
+      );
+    } finally {
+      this.isPulling = false;
+    }
+  }
 
-            progress.report({
-              increment: (1 / total) * 100,
-              message: `${pin.label} (${i + 1}/${total})`,
-            });
+  /**
+   * フォルダ内の全ダイアグラム・全シートを localDir に同期する。
+   * 更新日時（remote_updated_at）が変わっていないダイアグラムは詳細を取得せずに済ませ、
+   * リモートで削除されたシートはローカルからも消し、名前が変わったシートはファイルを移動する。
+   */
+  private async syncFolder(
+    localDir: string,
+    mapping: CacooSyncMapping,
+    progress: vscode.Progress<{ message?: string; increment?: number }>,
+    token: vscode.CancellationToken
+  ): Promise<{ summary: PullSummary; diagramIds: string[] }> {
+    const summary = emptySummary();
+    const format = mapping.format || 'png';
+    const scale = format === 'png' ? mapping.scale || 1 : 1;
+    // 形式・倍率を変えたシートは取り直す（前回の画像との比較対象にはしない）
+    const sameExport = (entry?: CacooSyncManifestEntry) =>
+      !!entry && (entry.format || 'png') === format && (entry.scale || 1) === scale;
+    const diagrams = await this.listFolderDiagrams(mapping);
+    const manifest = this.syncService.loadManifest(localDir);
+    const next: CacooSyncManifest = {};
+
+    // diagramId:sheetUid → 前回のパス
+    const previousPaths = new Map<string, string>();
+    for (const [relativePath, entry] of Object.entries(manifest)) {
+      previousPaths.set(`${entry.diagramId}:${entry.sheetUid}`, relativePath);
+    }
+    // 名前の入れ替えなどで移動先にまだ移動前の別シートがある場合は、一時ファイルへ退避してから移動する
+    // 前回のパス → 退避先
+    const parked = new Map<string, string>();
+
+    // 同じタイトルのダイアグラムが複数あればディレクトリ名に ID を付けて区別する
+    const titleCounts = new Map<string, number>();
+    for (const d of diagrams) {
+      titleCounts.set(d.title, (titleCounts.get(d.title) || 0) + 1);
+    }
 
-            // Parse label "DiagramTitle / SheetName" for file path
-            const parts = pin.label.split(' / ');
-            const diagramTitle = parts.length > 1 ? parts.slice(0, -1).join(' / ') : pin.diagramId;
-            const sheetName = parts.length > 1 ? parts[parts.length - 1] : pin.sheetUid;
+    // シート一覧を確定できたダイアグラム（これに含まれないシートは削除してよい）
+    const resolved = new Set<string>();
 
-            const relativePath = path.relative(
-              localDir,
-              this.syncService.resolveSheetPath(localDir, diagramTitle, sheetName)
-            );
+    for (let i = 0; i < diagrams.length; i++) {
+      if (token.isCancellationRequested) {
+        break;
+      }
+      const diagram = diagrams[i];
+      progress.report({
+        message: `${mapping.folderName}: ${diagram.title} (${i + 1}/${diagrams.length})`,
+      });
+
+      const directory =
+        (titleCounts.get(diagram.title) || 0) > 1
+          ? `${diagram.title} (${diagram.diagramId})`
+          : diagram.title;
+      const previous = Object.entries(manifest).filter(
+        ([, entry]) => entry.diagramId === diagram.diagramId
+      );
 
-            try {
-              const buffer = await this.cacooApi.downloadSheetImage(pin.diagramId, pin.sheetUid);
-
-              // Check if content changed via hash
-              const newHash = this.syncService.computeImageHash(buffer);
-              const existing = manifest[relativePath];
-              if (existing && existing.content_hash === newHash) {
-                unchanged++;
-                continue;
-              }
+      // 更新が無く、ファイルも揃っていればシートの取得を省く
+      if (
+        previous.length > 0 &&
+        previous.length === diagram.sheetCount &&
+        previous.every(
+          ([relativePath, entry]) =>
+            entry.remote_updated_at === diagram.updated &&
+            sameExport(entry) &&
+            path.dirname(relativePath) === this.syncService.sanitizeFileName(directory) &&
+            fs.existsSync(path.join(localDir, relativePath))
+        )
+      ) {
+        for (const [relativePath, entry] of previous) {
+          next[relativePath] = entry;
+        }
+        summary.unchanged += previous.length;
+        resolved.add(diagram.diagramId);
+        continue;
+      }
 
-              const absolutePath = path.join(localDir, relativePath);
-              fs.mkdirSync(path.dirname(absolutePath), { recursive: true });
-              fs.writeFileSync(absolutePath, buffer);
-
-              manifest[relativePath] = {
-                diagramId: pin.diagramId,
-                sheetUid: pin.sheetUid,
-                sheetName: sheetName,
-                diagramTitle: diagramTitle,
-                synced_at: new Date().toISOString(),
-                remote_updated_at: new Date().toISOString(),
-                content_hash: newHash,
-              };
-              pulled++;
-            } catch (error) {
-              console.error(`[Cacoo] Failed to download ${pin.label}:`, error);
-              skipped++;
-            }
+      let detail: CacooDiagramDetail;
+      try {
+        detail = await this.cacooApi.getDiagramDetail(diagram.diagramId);
+      } catch (error) {
+        console.error(`[Cacoo] Failed to load diagram ${diagram.title}:`, error);
+        // シート一覧が分からないので前回の状態を残す
+        for (const [relativePath, entry] of previous) {
+          next[relativePath] = entry;
+        }
+        summary.skipped++;
+        continue;
+      }
+      resolved.add(diagram.diagramId);
+
+      const nameCounts = new Map<string, number>();
+      for (const sheet of detail.sheets) {
+        nameCounts.set(sheet.name, (nameCounts.get(sheet.name) || 0) + 1);
+      }
 
-            await this.delay(100);
+      for (const sheet of detail.sheets) {
+        if (token.isCancellationRequested) {
+          break;
+        }
+        const sheetName =
+          (nameCounts.get(sheet.name) || 0) > 1 ? `${sheet.name} (${sheet.uid})` : sheet.name;
+        const relativePath = path.relative(
+          localDir,
+          this.syncService.resolveSheetPath(localDir, directory, sheetName, format)
+        );
+        const previousPath = previousPaths.get(`${diagram.diagramId}:${sheet.uid}`);
+        const previousEntry = previousPath ? manifest[previousPath] : undefined;
+        const reusable = sameExport(previousEntry);
+        const source = (previousPath && parked.get(previousPath)) || previousPath;
+
+        if (
+          reusable &&
+          previousPath &&
+          source &&
+          previousPath !== relativePath &&
+          fs.existsSync(path.join(localDir, source))
+        ) {
+          try {
+            if (
+              manifest[relativePath] &&
+              !parked.has(relativePath) &&
+              fs.existsSync(path.join(localDir, relativePath))
+            ) {
+              parked.set(relativePath, this.syncService.parkSheetFile(localDir, relativePath));
+            }
+            this.syncService.moveSheetFile(localDir, source, relativePath);
+            parked.delete(previousPath);
+            summary.renamed++;
+          } catch (error) {
+            console.error(`[Cacoo] Failed to move ${previousPath}:`, error);
           }
+        }
 
-          this.syncService.saveManifest(localDir, manifest);
+        const exists = fs.existsSync(path.join(localDir, relativePath));
+        const entry: CacooSyncManifestEntry = {
+          diagramId: diagram.diagramId,
+          sheetUid: sheet.uid,
+          sheetName: sheet.name,
+          diagramTitle: detail.title,
+          synced_at: previousEntry?.synced_at || new Date().toISOString(),
+          remote_updated_at: diagram.updated,
+          content_hash: previousEntry?.content_hash || '',
+          format,
+          scale,
+          previous_path: previousEntry?.previous_path,
+        };
+
+        if (exists && reusable && previousEntry?.remote_updated_at === diagram.updated) {
+          next[relativePath] = entry;
+          summary.unchanged++;
+          continue;
+        }
 
-          const summary = [`${pulled} 件ダウンロード`];
-          if (unchanged > 0) {
-            summary.push(`${unchanged} 件変更なし`);
+        try {
+          const buffer = await this.cacooApi.downloadSheetImage(
+            diagram.diagramId,
+            sheet.uid,
+            scale !== 1 ? Math.round(sheet.width * scale) : undefined,
+            scale !== 1 ? Math.round(sheet.height * scale) : undefined,
+            format
+          );
+          const newHash = this.syncService.computeImageHash(buffer);
+          if (exists && reusable && previousEntry?.content_hash === newHash) {
+            summary.unchanged++;
+          } else {
+            const absolutePath = path.join(localDir, relativePath);
+            // 図が変わった場合は上書き前の画像を履歴に残す
+            if (exists && reusable) {
+              entry.previous_path = this.syncService.archiveSheetFile(
+                localDir,
+                relativePath,
+                previousEntry?.previous_path
+              );
+              if (entry.previous_path) {
+                summary.changed.push(absolutePath);
+              }
+            }
+            fs.mkdirSync(path.dirname(absolutePath), { recursive: true });
+            fs.writeFileSync(absolutePath, buffer);
+            entry.synced_at = new Date().toISOString();
+            entry.content_hash = newHash;
+            summary.pulled++;
           }
-          if (skipped > 0) {
-            summary.push(`${skipped} 件スキップ`);
+          next[relativePath] = entry;
+        } catch (error) {
+          console.error(`[Cacoo] Failed to download ${detail.title} / ${sheet.name}:`, error);
+          // 次回取り直すよう、更新日時は前回のままにする
+          if (exists && previousEntry) {
+            next[relativePath] = { ...entry, remote_updated_at: previousEntry.remote_updated_at };
           }
-          vscode.window.showInformationMessage(`[Nulab] Cacoo Pull 完了: ${summary.join(', ')}`);
+          summary.skipped++;
         }
+
+        await this.delay(100);
+      }
+    }
+
+    // 退避したまま移動先の無かったファイル（削除されたシートなど）
+    for (const parkedPath of parked.values()) {
+      this.syncService.removeSheetFile(localDir, parkedPath);
+    }
+
+    // リモートで削除されたシート・フォルダから無くなったダイアグラム
+    const folderDiagramIds = new Set(diagrams.map((d) => d.diagramId));
+    for (const [relativePath, entry] of Object.entries(manifest)) {
+      if (next[relativePath]) {
+        continue;
+      }
+      const gone = resolved.has(entry.diagramId) || !folderDiagramIds.has(entry.diagramId);
+      if (!gone) {
+        // キャンセル・取得失敗で確認できなかったもの
+        next[relativePath] = entry;
+        continue;
+      }
+      // 別のパスで追跡を続けるシート（リネーム）は、移動し損ねた古いファイルだけ消す
+      const stillTracked = Object.values(next).some(
+        (e) => e.diagramId === entry.diagramId && e.sheetUid === entry.sheetUid
       );
-    } finally {
-      this.isPulling = false;
+      this.syncService.removeSheetFile(localDir, relativePath);
+      if (!stillTracked) {
+        if (entry.previous_path) {
+          this.syncService.removeSheetFile(localDir, entry.previous_path);
+        }
+        summary.removed++;
+      }
     }
+
+    this.syncService.saveManifest(localDir, next);
+    return { summary, diagramIds: [...folderDiagramIds] };
+  }
+
+  /** フォルダ内のダイアグラムをページングしてすべて取得する */
+  private async listFolderDiagrams(mapping: CacooSyncMapping): Promise<CacooDiagram[]> {
+    const diagrams: CacooDiagram[] = [];
+    for (;;) {
+      const page = await this.cacooApi.getDiagrams({
+        organizationKey: mapping.organizationKey || undefined,
+        folderId: mapping.folderId,
+        limit: DIAGRAMS_PAGE_SIZE,
+        offset: diagrams.length,
+      });
+      diagrams.push(...page.result);
+      if (page.result.length < DIAGRAMS_PAGE_SIZE || diagrams.length >= page.count) {
+        return diagrams;
+      }
+    }
+  }
+
+  /** ピン留めしたシートだけを取得する（マッピングの無いシート用） */
+  private async pullPinnedSheets(
+    localDir: string,
+    pinnedSheets: CacooPinnedSheet[],
+    progress: vscode.Progress<{ message?: string; increment?: number }>,
+    token: vscode.CancellationToken
+  ): Promise<PullSummary> {
+    const summary = emptySummary();
+    const manifest = this.syncService.loadManifest(localDir);
+    const total = pinnedSheets.length;
+
+    for (let i = 0; i < pinnedSheets.length; i++) {
+      if (token.isCancellationRequested) {
+        break;
+      }
+      const pin = pinnedSheets[i];
+
+      progress.report({
+        message: `${pin.label} (${i + 1}/${total})`,
+      });
+
+      // Parse label "DiagramTitle / SheetName" for file path
+      const parts = pin.label.split(' / ');
+      const diagramTitle = parts.length > 1 ? parts.slice(0, -1).join(' / ') : pin.diagramId;
+      const sheetName = parts.length > 1 ? parts[parts.length - 1] : pin.sheetUid;
+
+      const relativePath = path.relative(
+        localDir,
+        this.syncService.resolveSheetPath(localDir, diagramTitle, sheetName)
+      );
+
+      try {
+        const buffer = await this.cacooApi.downloadSheetImage(pin.diagramId, pin.sheetUid);
+
+        // Check if content changed via hash
+        const newHash = this.syncService.computeImageHash(buffer);
+        const existing = manifest[relativePath];
+        if (existing && existing.content_hash === newHash) {
+          summary.unchanged++;
+          continue;
+        }
+
+        const absolutePath = path.join(localDir, relativePath);
+        const previousPath = existing
+          ? this.syncService.archiveSheetFile(localDir, relativePath, existing.previous_path)
+          : undefined;
+        if (previousPath) {
+          summary.changed.push(absolutePath);
+        }
+        fs.mkdirSync(path.dirname(absolutePath), { recursive: true });
+        fs.writeFileSync(absolutePath, buffer);
+
+        manifest[relativePath] = {
+          diagramId: pin.diagramId,
+          sheetUid: pin.sheetUid,
+          sheetName: sheetName,
+          diagramTitle: diagramTitle,
+          synced_at: new Date().toISOString(),
+          remote_updated_at: new Date().toISOString(),
+          content_hash: newHash,
+          previous_path: previousPath ?? existing?.previous_path,
+        };
+        summary.pulled++;
+      } catch (error) {
+        console.error(`[Cacoo] Failed to download ${pin.label}:`, error);
+        summary.skipped++;
+      }
+
+      await this.delay(100);
+    }
+
+    this.syncService.saveManifest(localDir, manifest);
+    return summary;
+  }
+
+  private formatSummary(summary: PullSummary): string {
+    const parts = [`${summary.pulled} 件ダウンロード`];
+    if (summary.unchanged > 0) {
+      parts.push(`${summary.unchanged} 件変更なし`);
+    }
+    if (summary.renamed > 0) {
+      parts.push(`${summary.renamed} 件リネーム`);
+    }
+    if (summary.removed > 0) {
+      parts.push(`${summary.removed} 件削除`);
+    }
+    if (summary.skipped > 0) {
+      parts.push(`${summary.skipped} 件スキップ`);
+    }
+    return parts.join(', ');
+  }
+
+  // ---- Compare with Previous ----
+
+  /**
+   * 同期したシート画像を、Pull で上書きされる前の画像と比較する。
+   * target が無ければ比較できるシートから選ばせる。
+   */
+  async compareWithPrevious(
+    context: vscode.ExtensionContext,
+    openPanels: import('../panels/panelManager').PanelManager,
+    target?: vscode.Uri
+  ): Promise<void> {
+    const workspaceRoot = this.getWorkspaceRoot();
+    if (!workspaceRoot) {
+      return;
+    }
+
+    const candidates = this.collectComparableSheets(workspaceRoot);
+    let selected = target
+      ? candidates.find((c) => path.join(c.localDir, c.relativePath) === target.fsPath)
+      : undefined;
+    if (target && !selected) {
+      vscode.window.showInformationMessage(
+        '[Nulab] このファイルには比較できる前回の画像がありません。'
+      );
+      return;
+    }
+    if (!selected) {
+      if (candidates.length === 0) {
+        vscode.window.showInformationMessage('[Nulab] 比較できる前回の画像がありません。');
+        return;
+      }
+      const pick = await vscode.window.showQuickPick(
+        candidates
+          .sort((a, b) => b.entry.synced_at.localeCompare(a.entry.synced_at))
+          .map((c) => ({
+            label: `${c.entry.diagramTitle} / ${c.entry.sheetName}`,
+            description: path.relative(workspaceRoot, path.join(c.localDir, c.relativePath)),
+            detail: `更新: ${new Date(c.entry.synced_at).toLocaleString('ja-JP')}`,
+            candidate: c,
+          })),
+        { placeHolder: '前回の画像と比較するシートを選択' }
+      );
+      if (!pick) {
+        return;
+      }
+      selected = pick.candidate;
+    }
+
+    const { localDir, relativePath, entry } = selected;
+    const title = `${entry.diagramTitle} / ${entry.sheetName}`;
+    const { panel, isNew } = openPanels.revealOrCreate(
+      `compare:${path.join(localDir, relativePath)}`,
+      () =>
+        vscode.window.createWebviewPanel(
+          'cacooSheetCompare',
+          `Cacoo: ${title} (比較)`,
+          vscode.ViewColumn.One,
+          {
+            enableScripts: true,
+            localResourceRoots: [context.extensionUri],
+          }
+        )
+    );
+    if (isNew) {
+      panel.webview.onDidReceiveMessage(
+        async (message) => {
+          if (message.command === 'openExternal' && message.url) {
+            await vscode.env.openExternal(vscode.Uri.parse(message.url));
+          }
+        },
+        undefined,
+        context.subscriptions
+      );
+    }
+
+    try {
+      panel.webview.html = CacooSheetWebview.getCompareWebviewContent(
+        panel.webview,
+        context.extensionUri,
+        title,
+        { src: this.toDataUrl(path.join(localDir, entry.previous_path!)), label: '前回' },
+        {
+          src: this.toDataUrl(path.join(localDir, relativePath)),
+          label: `最新 (${new Date(entry.synced_at).toLocaleString('ja-JP')})`,
+        },
+        `https://cacoo.com/diagrams/${entry.diagramId}`
+      );
+    } catch (error) {
+      panel.webview.html = `<html><body><p>Error: ${
+        error instanceof Error ? error.message : error
+      }</p></body></html>`;
+    }
+  }
+
+  /** 同期先（マッピングと既定のディレクトリ）のうち、前回の画像が残っているシート */
+  private collectComparableSheets(
+    workspaceRoot: string
+  ): { localDir: string; relativePath: string; entry: CacooSyncManifestEntry }[] {
+    const localPaths = new Set([
+      ...this.configService.getSyncMappings().map((m) => m.localPath),
+      DEFAULT_LOCAL_PATH,
+    ]);
+    const result: { localDir: string; relativePath: string; entry: CacooSyncManifestEntry }[] = [];
+    for (const localPath of localPaths) {
+      const localDir = path.join(workspaceRoot, localPath);
+      const manifest = this.syncService.loadManifest(localDir);
+      for (const [relativePath, entry] of Object.entries(manifest)) {
+        if (
+          entry.previous_path &&
+          fs.existsSync(path.join(localDir, entry.previous_path)) &&
+          fs.existsSync(path.join(localDir, relativePath))
+        ) {
+          result.push({ localDir, relativePath, entry });
+        }
+      }
+    }
+    return result;
+  }
+
+  private toDataUrl(filePath: string): string {
+    const mime = path.extname(filePath).toLowerCase() === '.svg' ? 'image/svg+xml' : 'image/png';
+    return `data:${mime};base64,${fs.readFileSync(filePath).toString('base64')}`;
+  }
+
+  // ---- Markdown References ----
+
+  /**
+   * ワークスペースの Markdown から cacoo: 参照を集め、更新されたシートの画像を取り直す。
+   */
+  async pullReferences(): Promise<void> {
+    if (!(await this.cacooApi.isConfigured())) {
+      vscode.window.showWarningMessage('[Nulab] Cacoo API Key を設定してください。');
+      return;
+    }
+
+    await vscode.window.withProgress(
+      {
+        location: vscode.ProgressLocation.Notification,
+        title: 'Updating Cacoo references...',
+        cancellable: true,
+      },
+      async (progress, token) => {
+        progress.report({ message: 'Markdown を検索中...' });
+        const files = await vscode.workspace.findFiles(
+          '**/*.{md,markdown,bdoc}',
+          '**/node_modules/**'
+        );
+        const refs: CacooSheetReference[] = [];
+        for (const file of files) {
+          if (token.isCancellationRequested) {
+            return;
+          }
+          try {
+            const content = Buffer.from(await vscode.workspace.fs.readFile(file)).toString('utf-8');
+            refs.push(...findCacooReferences(content));
+          } catch {
+            // 読めないファイルは飛ばす
+          }
+        }
+        if (refs.length === 0) {
+          vscode.window.showInformationMessage(
+            '[Nulab] Cacoo の参照（![alt](cacoo:diagramId/sheetUid)）が見つかりませんでした。'
+          );
+          return;
+        }
+
+        progress.report({ message: `${refs.length} 件の参照を確認中...` });
+        const result = await this.sheetCache.pull(refs, { token });
+        const summary = [`${result.pulled} 件更新`];
+        if (result.unchanged > 0) {
+          summary.push(`${result.unchanged} 件変更なし`);
+        }
+        if (result.failed > 0) {
+          summary.push(`${result.failed} 件失敗`);
+        }
+        vscode.window.showInformationMessage(`[Nulab] Cacoo 参照の更新: ${summary.join(', ')}`);
+      }
+    );
   }
 
   // ---- Helpers ----
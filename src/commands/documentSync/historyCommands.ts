@@ -0,0 +1,117 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import { ServiceContainer } from '../../container';
+import { SnapshotItem } from '../../providers/documentHistoryTreeViewProvider';
+import { DocumentHistoryContentProvider } from '../../providers/documentHistoryContentProvider';
+
+export function registerHistoryCommands(c: ServiceContainer): vscode.Disposable[] {
+  return [
+    vscode.commands.registerCommand(
+      'nulab.documentHistory.show',
+      async (item?: vscode.Uri | { resourceUri?: vscode.Uri }) => {
+        const uri = item instanceof vscode.Uri ? item : item?.resourceUri;
+        const filePath = uri?.fsPath || vscode.window.activeTextEditor?.document.uri.fsPath;
+        if (!filePath || !filePath.endsWith('.bdoc')) {
+          vscode.window.showWarningMessage(
+            '[Nulab] 履歴を表示する .bdoc ファイルを選択してください。'
+          );
+          return;
+        }
+        c.documentHistoryProvider.setTarget(filePath);
+        await vscode.commands.executeCommand('workspaceDocumentHistory.focus');
+      }
+    ),
+
+    vscode.commands.registerCommand('nulab.documentHistory.refresh', () => {
+      c.documentHistoryProvider.refresh();
+    }),
+
+    // 2 件選択時はその 2 つを、1 件のみなら現在のファイルと比較する
+    vscode.commands.registerCommand(
+      'nulab.documentHistory.compare',
+      async (item?: SnapshotItem, selected?: SnapshotItem[]) => {
+        if (!item) {
+          return;
+        }
+        const items = selected && selected.length > 1 ? selected : [item];
+        if (items.length > 2) {
+          vscode.window.showWarningMessage(
+            '[Nulab] 比較するバージョンは 2 つまで選択してください。'
+          );
+          return;
+        }
+
+        if (items.length === 1) {
+          await vscode.commands.executeCommand(
+            'vscode.diff',
+            DocumentHistoryContentProvider.buildSnapshotUri(
+              item.snapshot.hash,
+              item.snapshot.title
+            ),
+            DocumentHistoryContentProvider.buildWorkingUri(item.filePath, item.snapshot.title),
+            `${item.snapshot.title} (${item.snapshot.hash.substring(0, 7)} ↔ Working)`
+          );
+          return;
+        }
+
+        const [older, newer] = [...items].sort((a, b) =>
+          a.snapshot.createdAt.localeCompare(b.snapshot.createdAt)
+        );
+        await vscode.commands.executeCommand(
+          'vscode.diff',
+          DocumentHistoryContentProvider.buildSnapshotUri(
+            older.snapshot.hash,
+            older.snapshot.title
+          ),
+          DocumentHistoryContentProvider.buildSnapshotUri(
+            newer.snapshot.hash,
+            newer.snapshot.title
+          ),
+          `${newer.snapshot.title} (${older.snapshot.hash.substring(
+            0,
+            7
+          )} ↔ ${newer.snapshot.hash.substring(0, 7)})`
+        );
+      }
+    ),
+
+    vscode.commands.registerCommand(
+      'nulab.documentHistory.restore',
+      async (item?: SnapshotItem) => {
+        if (!item) {
+          return;
+        }
+        const content = c.syncService.loadSnapshotContent(item.snapshot.hash);
+        if (content === undefined || !fs.existsSync(item.filePath)) {
+          vscode.window.showErrorMessage('[Nulab] スナップショットが見つかりません。');
+          return;
+        }
+
+        const createdAt = new Date(item.snapshot.createdAt).toLocaleString();
+        const confirm = await vscode.window.showWarningMessage(
+          `[Nulab] "${item.snapshot.title}" を ${createdAt} の状態に戻しますか？現在の内容は履歴に保存されます。`,
+          { modal: true },
+          'Restore'
+        );
+        if (confirm !== 'Restore') {
+          return;
+        }
+
+        // frontmatter（同期情報）は維持し、本文のみ差し替える
+        const text = fs.readFileSync(item.filePath, 'utf-8');
+        const { body } = c.syncService.parseFrontmatter(text);
+        const frontmatter = text.substring(0, text.length - body.length);
+
+        c.syncService.recordLocalSnapshot(item.documentId, item.filePath, item.snapshot.title);
+        fs.writeFileSync(item.filePath, frontmatter + content, 'utf-8');
+
+        c.syncDecorationProvider.refresh();
+        c.documentFilesProvider.refresh();
+        c.documentHistoryProvider.refresh();
+        vscode.window.showInformationMessage(
+          `[Nulab] "${item.snapshot.title}" を復元しました。Backlog に反映するには Push してください。`
+        );
+      }
+    ),
+  ];
+}
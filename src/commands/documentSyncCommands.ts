@@ -7,9 +7,32 @@ import { BacklogConfig } from '../config/backlogConfig';
 import { SyncService } from '../services/syncService';
 import { BacklogRemoteContentProvider } from '../providers/backlogRemoteContentProvider';
 import { SyncFileDecorationProvider } from '../providers/syncFileDecorationProvider';
-import { DocumentSyncMapping, SyncManifest } from '../types/backlog';
+import { DocumentSyncMapping, PushPlanAction, PushPlanItem, SyncManifest } from '../types/backlog';
 import { Entity } from 'backlog-js';
-import { proseMirrorToMarkdown } from '../utils/prosemirrorToMarkdown';
+import { proseMirrorToMarkdown, ImageReference } from '../utils/prosemirrorToMarkdown';
+import { markdownToDocumentContent } from '../utils/markdownToProsemirror';
+import { mergeThreeWay } from '../utils/threeWayMerge';
+
+/** 自動マージできず、マージエディタでの解決待ちのファイル */
+interface PendingMerge {
+  absolutePath: string;
+  relativePath: string;
+  localDir: string;
+  projectKey: string;
+  documentId: string;
+  title: string;
+  remoteUpdatedAt: string;
+  base: string;
+  local: string;
+  remote: string;
+  /** 競合マーカー付きのマージ結果 */
+  merged: string;
+}
+
+type MergeOutcome =
+  | { kind: 'unchanged' }
+  | { kind: 'merged' }
+  | { kind: 'conflict'; pending: PendingMerge };
 
 export class DocumentSyncCommands {
   private syncService: SyncService;
@@ -23,7 +46,7 @@ export class DocumentSyncCommands {
     private remoteContentProvider: BacklogRemoteContentProvider,
     private decorationProvider?: SyncFileDecorationProvider
   ) {
-    this.syncService = new SyncService();
+    this.syncService = new SyncService(fileStore.getNulabDir());
   }
 
   /**
@@ -89,17 +112,37 @@ export class DocumentSyncCommands {
           let unchanged = 0;
           let skipped = 0;
           let deleted = 0;
-          const conflictPaths: string[] = [];
+          let merged = 0;
+          const pendingMerges: PendingMerge[] = [];
+
+          // ローカル変更のあるファイルはリモート変更を 3-way マージで取り込む
+          const mergeInto = async (documentId: string, relPath: string): Promise<void> => {
+            const outcome = await this.mergeDocument(
+              documentId,
+              relPath,
+              localDir,
+              resolved.projectKey,
+              manifest
+            );
+            if (outcome.kind === 'merged') {
+              merged++;
+            } else if (outcome.kind === 'conflict') {
+              pendingMerges.push(outcome.pending);
+            } else {
+              unchanged++;
+            }
+          };
 
           // Build lookup: backlog_id → { relativePath, remote_updated_at }
           const manifestByBacklogId = new Map<
             string,
-            { updatedAt: string; relativePath: string }
+            { updatedAt: string; relativePath: string; conflict: boolean }
           >();
           for (const [relPath, entry] of Object.entries(manifest)) {
             manifestByBacklogId.set(String(entry.backlog_id), {
               updatedAt: entry.remote_updated_at,
               relativePath: relPath,
+              conflict: !!entry.conflict,
             });
           }
 
@@ -121,10 +164,10 @@ export class DocumentSyncCommands {
           remoteIds.add(resolved.documentNodeId);
 
           // Root node as index.bdoc
-          if (hasLocalChanges('index.bdoc')) {
-            conflictPaths.push(path.join(localDir, 'index.bdoc'));
-          } else {
-            try {
+          try {
+            if (hasLocalChanges('index.bdoc')) {
+              await mergeInto(resolved.documentNodeId, 'index.bdoc');
+            } else {
               await this.pullRootDocument(
                 resolved.documentNodeId,
                 localDir,
@@ -132,13 +175,10 @@ export class DocumentSyncCommands {
                 manifest
               );
               pulled++;
-            } catch (error) {
-              console.error(
-                `[DocumentSync] FAILED root node: id=${resolved.documentNodeId}:`,
-                error
-              );
-              skipped++;
             }
+          } catch (error) {
+            console.error(`[DocumentSync] FAILED root node: id=${resolved.documentNodeId}:`, error);
+            skipped++;
           }
 
           const total = flatNodes.length + 1;
@@ -153,22 +193,28 @@ export class DocumentSyncCommands {
             progress.report({
               increment: (1 / total) * 100,
               message: `${node.name || node.id} (${
-                pulled + unchanged + skipped + conflictPaths.length + 1
+                pulled + unchanged + skipped + merged + pendingMerges.length + 1
               }/${total})`,
             });
 
             const existing = manifestByBacklogId.get(String(node.id));
 
             if (existing) {
-              // ローカル変更あり → 競合
-              if (hasLocalChanges(existing.relativePath)) {
-                conflictPaths.push(path.join(localDir, existing.relativePath));
+              // リモート変更なし → スキップ（ローカル変更はそのまま残す）。未解決の競合は除く
+              if (!existing.conflict && node.updated && existing.updatedAt === node.updated) {
+                unchanged++;
                 continue;
               }
 
-              // リモートも変更なし → スキップ
-              if (node.updated && existing.updatedAt === node.updated) {
-                unchanged++;
+              // 両側で変更あり → 3-way マージ
+              if (hasLocalChanges(existing.relativePath)) {
+                try {
+                  await mergeInto(node.id, existing.relativePath);
+                } catch (error) {
+                  console.error(`[DocumentSync] Merge FAILED: id=${node.id}:`, error);
+                  skipped++;
+                }
+                await this.delay(100);
                 continue;
               }
             }
@@ -210,12 +256,15 @@ export class DocumentSyncCommands {
           this.remoteContentProvider.invalidateCache();
           this.decorationProvider?.refresh();
 
-          // 競合ファイルを diff エディタで開く
-          for (const conflictPath of conflictPaths) {
-            await this.diff(conflictPath);
+          // 自動マージできなかったファイルだけマージエディタで開く
+          for (const pending of pendingMerges) {
+            await this.openMergeEditor(pending);
           }
 
           const parts = [`${pulled} 件更新`];
+          if (merged > 0) {
+            parts.push(`${merged} 件自動マージ`);
+          }
           if (unchanged > 0) {
             parts.push(`${unchanged} 件変更なし`);
           }
@@ -225,8 +274,8 @@ export class DocumentSyncCommands {
           if (skipped > 0) {
             parts.push(`${skipped} 件スキップ`);
           }
-          if (conflictPaths.length > 0) {
-            parts.push(`${conflictPaths.length} 件競合（マージエディタを確認してください）`);
+          if (pendingMerges.length > 0) {
+            parts.push(`${pendingMerges.length} 件競合（マージエディタを確認してください）`);
           }
           vscode.window.showInformationMessage(`[Nulab] Pull 完了: ${parts.join(', ')}`);
         }
@@ -293,52 +342,10 @@ export class DocumentSyncCommands {
     fs.mkdirSync(dir, { recursive: true });
 
     // ProseMirror JSON → Markdown 変換（画像参照を含む）
-    let content = doc.plain || '';
-    const jsonContent = doc.json
-      ? typeof doc.json === 'string'
-        ? JSON.parse(doc.json)
-        : doc.json
-      : null;
+    const { content, images } = this.convertRemoteContent(doc);
 
-    if (jsonContent && jsonContent.type === 'doc') {
-      const imagesDir = path.join(dir, '.images');
-      const { markdown, images } = proseMirrorToMarkdown(jsonContent, (src) => {
-        const idMatch = src.match(/\/file\/(\d+)/);
-        if (idMatch) {
-          return `.images/${idMatch[1]}`;
-        }
-        return src;
-      });
-
-      // 画像をローカルにダウンロード
-      if (images.length > 0) {
-        fs.mkdirSync(imagesDir, { recursive: true });
-        await Promise.all(
-          images.map(async (img) => {
-            if (!img.attachmentId || !doc.id) {
-              return;
-            }
-            const localImagePath = path.join(imagesDir, String(img.attachmentId));
-            if (fs.existsSync(localImagePath)) {
-              return;
-            }
-            try {
-              const buffer = await this.backlogApi.downloadDocumentAttachment(
-                doc.id,
-                img.attachmentId
-              );
-              fs.writeFileSync(localImagePath, buffer);
-            } catch (e) {
-              console.error(`[DocumentSync] Failed to download image ${img.attachmentId}:`, e);
-            }
-          })
-        );
-      }
-
-      if (markdown.trim()) {
-        content = markdown;
-      }
-    }
+    // 画像をローカルにダウンロード
+    await this.downloadImages(doc, dir, images, false);
 
     const now = new Date().toISOString();
     const frontmatter = this.syncService.buildFrontmatter({
@@ -349,9 +356,11 @@ export class DocumentSyncCommands {
       updated_at: doc.updated || now,
     });
 
+    this.syncService.recordLocalSnapshot(doc.id, absolutePath, title);
     fs.writeFileSync(absolutePath, frontmatter + content, 'utf-8');
+    this.syncService.recordSnapshot(doc.id, absolutePath, content, { action: 'pull', title });
 
-    const contentHash = this.syncService.computeHash(content);
+    const contentHash = this.syncService.saveBaseContent(localDir, content);
     manifest[relativePath] = {
       backlog_id: doc.id,
       backlog_path: title,
@@ -362,6 +371,157 @@ export class DocumentSyncCommands {
     };
   }
 
+  /**
+   * ローカル変更のあるファイルにリモートの変更を 3-way マージで取り込む。
+   * ベースは前回同期時の本文 (.sync-base/{content_hash})。
+   * 自動マージできた場合のみファイルを書き換え、競合時は manifest に conflict を記録する。
+   */
+  private async mergeDocument(
+    documentId: string,
+    relativePath: string,
+    localDir: string,
+    projectKey: string,
+    manifest: SyncManifest
+  ): Promise<MergeOutcome> {
+    const entry = manifest[relativePath];
+    const absolutePath = path.join(localDir, relativePath);
+    const doc = await this.backlogApi.getDocument(documentId);
+
+    // 前回のマージを解決せずに閉じた場合はリモートが変わっていなくても開き直す
+    if (!entry.conflict && doc.updated && doc.updated === entry.remote_updated_at) {
+      return { kind: 'unchanged' };
+    }
+
+    const { content: remote, images } = this.convertRemoteContent(doc);
+    await this.downloadImages(doc, path.dirname(absolutePath), images, false);
+
+    const { body: local } = this.syncService.parseFrontmatter(
+      fs.readFileSync(absolutePath, 'utf-8')
+    );
+    const base = this.syncService.loadBaseContent(localDir, entry.content_hash);
+
+    const pending: PendingMerge = {
+      absolutePath,
+      relativePath,
+      localDir,
+      projectKey,
+      documentId: doc.id,
+      title: doc.title || entry.backlog_path,
+      remoteUpdatedAt: doc.updated || new Date().toISOString(),
+      base: base ?? '',
+      local,
+      remote,
+      merged: '',
+    };
+
+    // ベースが無い（本機能以前に Pull したファイル）場合は全体を 1 つの競合として扱う
+    const result = mergeThreeWay(base ?? '', local, remote);
+    if (base === undefined || result.conflicts > 0) {
+      pending.merged = result.merged;
+      entry.conflict = true;
+      return { kind: 'conflict', pending };
+    }
+
+    this.writeMergedResult(pending, result.merged, manifest);
+    return { kind: 'merged' };
+  }
+
+  /**
+   * マージ結果を .bdoc に書き込み、manifest のベースをリモート版に進める。
+   */
+  private writeMergedResult(pending: PendingMerge, body: string, manifest: SyncManifest): void {
+    const now = new Date().toISOString();
+    const frontmatter = this.syncService.buildFrontmatter({
+      title: pending.title,
+      backlog_id: pending.documentId,
+      project: pending.projectKey,
+      synced_at: now,
+      updated_at: pending.remoteUpdatedAt,
+    });
+    this.syncService.recordLocalSnapshot(pending.documentId, pending.absolutePath, pending.title);
+    fs.writeFileSync(pending.absolutePath, frontmatter + body, 'utf-8');
+    this.syncService.recordSnapshot(pending.documentId, pending.absolutePath, body, {
+      action: 'pull',
+      title: pending.title,
+    });
+
+    manifest[pending.relativePath] = {
+      backlog_id: pending.documentId,
+      backlog_path: pending.title,
+      project: pending.projectKey,
+      synced_at: now,
+      remote_updated_at: pending.remoteUpdatedAt,
+      content_hash: this.syncService.saveBaseContent(pending.localDir, pending.remote),
+    };
+  }
+
+  /**
+   * 自動マージできなかったファイルを VS Code のマージエディタで開く。
+   * 結果を保存すると .bdoc に書き戻し、競合状態を解除する。
+   */
+  private async openMergeEditor(pending: PendingMerge): Promise<void> {
+    const tmpDir = path.join(require('os').tmpdir(), 'backlog-merge');
+    fs.mkdirSync(tmpDir, { recursive: true });
+    const safeName = this.syncService.sanitizeFileName(pending.title);
+    const writeTemp = (suffix: string, content: string): vscode.Uri => {
+      const tmpPath = path.join(tmpDir, `${safeName}.${suffix}.md`);
+      fs.writeFileSync(tmpPath, content, 'utf-8');
+      return vscode.Uri.file(tmpPath);
+    };
+
+    const baseUri = writeTemp('base', pending.base);
+    const localUri = writeTemp('local', pending.local);
+    const remoteUri = writeTemp('remote', pending.remote);
+    const outputUri = writeTemp('merged', pending.merged);
+
+    const saveWatcher = vscode.workspace.onDidSaveTextDocument((doc) => {
+      if (doc.uri.fsPath !== outputUri.fsPath) {
+        return;
+      }
+      const text = doc.getText();
+      if (/^<<<<<<< /m.test(text)) {
+        vscode.window.showWarningMessage(
+          `[Nulab] "${pending.title}" に未解決の競合が残っています。`
+        );
+        return;
+      }
+      const manifest = this.syncService.loadManifest(pending.localDir);
+      this.writeMergedResult(pending, text, manifest);
+      this.syncService.saveManifest(pending.localDir, manifest);
+      this.decorationProvider?.refresh();
+      vscode.window.showInformationMessage(
+        `[Nulab] "${pending.title}" のマージ結果を保存しました。`
+      );
+    });
+
+    const closeWatcher = vscode.workspace.onDidCloseTextDocument((doc) => {
+      if (doc.uri.fsPath !== outputUri.fsPath) {
+        return;
+      }
+      saveWatcher.dispose();
+      closeWatcher.dispose();
+      for (const uri of [baseUri, localUri, remoteUri, outputUri]) {
+        try {
+          fs.unlinkSync(uri.fsPath);
+        } catch {
+          /* ignore */
+        }
+      }
+    });
+
+    try {
+      await vscode.commands.executeCommand('_open.mergeEditor', {
+        base: baseUri,
+        input1: { uri: localUri, title: 'Local' },
+        input2: { uri: remoteUri, title: 'Backlog (Remote)' },
+        output: outputUri,
+      });
+    } catch {
+      // マージエディタが使えない場合は競合マーカー付きのテキストを開く
+      await vscode.window.showTextDocument(outputUri);
+    }
+  }
+
   async status(mapping?: DocumentSyncMapping): Promise<void> {
     const resolved = mapping || (await this.resolveMapping());
     if (!resolved) {
@@ -377,23 +537,7 @@ export class DocumentSyncCommands {
     const manifest = this.syncService.loadManifest(localDir);
 
     // リモートの更新日時を取得
-    const remoteUpdates = new Map<string, string>();
-    try {
-      const projectId = await this.resolveProjectId(resolved.projectKey);
-      if (projectId) {
-        const flatNodes = await this.backlogApi.getDocumentSubtree(
-          projectId,
-          resolved.documentNodeId
-        );
-        for (const node of flatNodes) {
-          if (node.updated) {
-            remoteUpdates.set(node.id, node.updated);
-          }
-        }
-      }
-    } catch (error) {
-      console.error('Failed to fetch remote updates:', error);
-    }
+    const remoteUpdates = await this.fetchRemoteUpdates(resolved);
 
     const statuses = this.syncService.getAllStatuses(localDir, manifest, remoteUpdates);
 
@@ -441,7 +585,11 @@ export class DocumentSyncCommands {
     }
   }
 
-  async diff(filePath?: string): Promise<void> {
+  /**
+   * @param mergedRemoteUpdatedAt 指定時、保存した内容はこのリモート版とマージ済みとして
+   *   frontmatter の updated_at を更新する（更新 Push の競合解消用）。
+   */
+  async diff(filePath?: string, mergedRemoteUpdatedAt?: string): Promise<void> {
     const targetPath = filePath || this.getActiveFilePath();
     if (!targetPath) {
       vscode.window.showWarningMessage('[Nulab] 差分を表示するファイルを選択してください。');
@@ -499,7 +647,7 @@ export class DocumentSyncCommands {
             backlog_id: meta.backlog_id,
             project: meta.project || projectKey,
             synced_at: meta.synced_at || new Date().toISOString(),
-            updated_at: meta.updated_at || new Date().toISOString(),
+            updated_at: mergedRemoteUpdatedAt || meta.updated_at || new Date().toISOString(),
           });
           fs.writeFileSync(targetPath, frontmatter + newBody, 'utf-8');
         }
@@ -574,9 +722,7 @@ export class DocumentSyncCommands {
     const { meta, body } = this.syncService.parseFrontmatter(text);
 
     if (meta.backlog_id) {
-      vscode.window.showWarningMessage(
-        '[Nulab] このファイルは既に Backlog にリンクされています。更新には Copy & Open を使用してください。'
-      );
+      await this.pushUpdate(targetPath, meta, body);
       return;
     }
 
@@ -606,7 +752,7 @@ export class DocumentSyncCommands {
       const created = await this.backlogApi.postDocument({
         projectId,
         title,
-        content: body,
+        content: this.convertLocalContent(body, resolved.projectKey),
         parentId: resolved.documentNodeId,
         addLast: true,
       });
@@ -629,6 +775,10 @@ export class DocumentSyncCommands {
       });
 
       fs.writeFileSync(targetPath, newFrontmatter + body, 'utf-8');
+      this.syncService.recordSnapshot(created.id, targetPath, body, {
+        action: 'push',
+        title: created.title || title,
+      });
 
       // Manifest 更新
       const manifest = this.syncService.loadManifest(localDir);
@@ -639,7 +789,7 @@ export class DocumentSyncCommands {
         project: resolved.projectKey,
         synced_at: now,
         remote_updated_at: created.updated || now,
-        content_hash: this.syncService.computeHash(body),
+        content_hash: this.syncService.saveBaseContent(localDir, body),
       };
       this.syncService.saveManifest(localDir, manifest);
       this.decorationProvider?.refresh();
@@ -652,6 +802,395 @@ export class DocumentSyncCommands {
     }
   }
 
+  /**
+   * 既存ドキュメントへの更新 Push。
+   * - ローカル変更なし → 何もしない
+   * - 前回同期以降にリモートも変更されている → diff でマージするか強制上書きするかを選択
+   */
+  private async pushUpdate(
+    targetPath: string,
+    meta: Record<string, string>,
+    body: string
+  ): Promise<void> {
+    const workspaceRoot = this.getWorkspaceRoot();
+    if (!workspaceRoot) {
+      return;
+    }
+
+    const mapping = this.findMappingForFile(targetPath, workspaceRoot);
+    const localDir = mapping ? path.join(workspaceRoot, mapping.localPath) : undefined;
+    const manifest = localDir ? this.syncService.loadManifest(localDir) : {};
+    const relativePath = localDir ? path.relative(localDir, targetPath) : '';
+    const entry = localDir ? manifest[relativePath] : undefined;
+    const title = meta.title || path.basename(targetPath, '.bdoc');
+    const localHash = this.syncService.computeHash(body);
+    const projectKey = meta.project || mapping?.projectKey || '';
+
+    if (entry && entry.content_hash === localHash) {
+      vscode.window.showInformationMessage(`[Nulab] "${title}" にローカル変更はありません。`);
+      return;
+    }
+
+    // マージ途中の本文でリモートを上書きしないよう、競合が解決されるまで Push しない
+    if (entry?.conflict) {
+      const action = await vscode.window.showWarningMessage(
+        `[Nulab] "${title}" には未解決のマージ競合があります。Pull してマージを完了してから Push してください。`,
+        { modal: true },
+        'Pull してマージ'
+      );
+      if (action === 'Pull してマージ' && mapping) {
+        await this.pull(mapping);
+      }
+      return;
+    }
+
+    try {
+      const remote = await this.backlogApi.getDocument(meta.backlog_id);
+
+      // frontmatter の updated_at はマージ済みのリモート版を指すため manifest より優先する
+      const baseUpdatedAt = meta.updated_at || entry?.remote_updated_at;
+      const remoteChanged = !!remote.updated && remote.updated !== baseUpdatedAt;
+      let conflicting = false;
+      if (remoteChanged) {
+        // 更新日時だけが変わり本文が同期時のままなら競合扱いしない
+        const remoteHash = this.syncService.computeHash(this.convertRemoteContent(remote).content);
+        conflicting = remoteHash !== localHash && remoteHash !== entry?.content_hash;
+      }
+
+      if (conflicting) {
+        const action = await vscode.window.showWarningMessage(
+          `[Nulab] "${title}" は前回の同期 (${
+            meta.synced_at || entry?.synced_at || '-'
+          }) 以降に Backlog 側で更新されています。`,
+          { modal: true },
+          'Diff でマージ',
+          '強制上書き'
+        );
+        if (action === 'Diff でマージ') {
+          await this.diff(targetPath, remote.updated);
+          return;
+        }
+        if (action !== '強制上書き') {
+          return;
+        }
+      } else {
+        const confirm = await vscode.window.showInformationMessage(
+          `[Nulab] "${title}" の変更を Backlog に反映しますか？`,
+          'Update'
+        );
+        if (confirm !== 'Update') {
+          return;
+        }
+      }
+
+      const params: { title?: string; content: string } = {
+        content: this.convertLocalContent(body, projectKey, meta.backlog_id),
+      };
+      if (title !== remote.title) {
+        params.title = title;
+      }
+      const updated = await this.backlogApi.patchDocument(meta.backlog_id, params);
+
+      const now = new Date().toISOString();
+      const remoteUpdatedAt = updated.updated || now;
+
+      const newFrontmatter = this.syncService.buildFrontmatter({
+        title: updated.title || title,
+        backlog_id: meta.backlog_id,
+        project: projectKey,
+        synced_at: now,
+        updated_at: remoteUpdatedAt,
+      });
+      fs.writeFileSync(targetPath, newFrontmatter + body, 'utf-8');
+      this.syncService.recordSnapshot(meta.backlog_id, targetPath, body, {
+        action: 'push',
+        title: updated.title || title,
+      });
+
+      if (localDir) {
+        this.syncService.saveBaseContent(localDir, body);
+        manifest[relativePath] = {
+          backlog_id: meta.backlog_id,
+          backlog_path: entry?.backlog_path || title,
+          project: projectKey,
+          synced_at: now,
+          remote_updated_at: remoteUpdatedAt,
+          content_hash: localHash,
+        };
+        this.syncService.saveManifest(localDir, manifest);
+      }
+      this.remoteContentProvider.invalidateCache(meta.backlog_id);
+      this.decorationProvider?.refresh();
+
+      vscode.window.showInformationMessage(`[Nulab] "${title}" を Backlog に反映しました。`);
+    } catch (error) {
+      vscode.window.showErrorMessage(
+        `[Nulab] Push に失敗しました: ${error instanceof Error ? error.message : error}`
+      );
+    }
+  }
+
+  /**
+   * マッピング配下をまとめて Push する。
+   * manifest と比較した計画（作成・更新・移動・削除）を git status 風に表示し、
+   * 選択された項目だけを Backlog に反映する。
+   */
+  async pushAll(mapping?: DocumentSyncMapping): Promise<void> {
+    const resolved = mapping || (await this.resolveMapping());
+    if (!resolved) {
+      return;
+    }
+
+    const workspaceRoot = this.getWorkspaceRoot();
+    if (!workspaceRoot) {
+      return;
+    }
+
+    const localDir = path.join(workspaceRoot, resolved.localPath);
+    const projectId = await this.resolveProjectId(resolved.projectKey);
+    if (!projectId) {
+      vscode.window.showErrorMessage(
+        `[Nulab] プロジェクト ${resolved.projectKey} が見つかりません。`
+      );
+      return;
+    }
+
+    const manifest = this.syncService.loadManifest(localDir);
+    const remoteUpdates = await this.fetchRemoteUpdates(resolved);
+    const plan = this.syncService.buildPushPlan(localDir, manifest, remoteUpdates);
+
+    if (plan.length === 0) {
+      vscode.window.showInformationMessage('[Nulab] Push する変更はありません。');
+      return;
+    }
+
+    // 競合中・リモート更新ありの項目は上書きを避けるため、Pull してマージするまで Push しない
+    const blocked = plan.filter(
+      (item) => item.remoteChanged || manifest[item.previousPath || item.relativePath]?.conflict
+    );
+    const pushable = plan.filter((item) => !blocked.includes(item));
+    if (blocked.length > 0) {
+      const action = await vscode.window.showWarningMessage(
+        `[Nulab] 未解決のマージ競合があるか、前回の同期以降にリモートが更新された ${blocked.length} 件は Push できません。Pull してマージしてください。`,
+        { modal: true, detail: blocked.map((item) => item.relativePath).join('\n') },
+        'Pull してマージ',
+        ...(pushable.length > 0 ? ['残りを Push'] : [])
+      );
+      if (action === 'Pull してマージ') {
+        await this.pull(resolved);
+        return;
+      }
+      if (action !== '残りを Push') {
+        return;
+      }
+    }
+
+    const markers: Record<PushPlanAction, string> = {
+      create: 'A',
+      update: 'M',
+      move: 'R',
+      delete: 'D',
+    };
+    const picks = pushable.map((item) => ({
+      label: `${markers[item.action]}  ${item.relativePath}`,
+      description:
+        item.action === 'move'
+          ? `← ${item.previousPath}${item.contentChanged ? ' (内容も変更)' : ''}`
+          : item.title,
+      picked: true,
+      item,
+    }));
+
+    const selected = await vscode.window.showQuickPick(picks, {
+      canPickMany: true,
+      title: `Push Plan: ${resolved.documentNodeName || resolved.localPath}`,
+      placeHolder: 'Push する変更を選択 (A: 新規, M: 更新, R: 移動/名前変更, D: 削除)',
+      matchOnDescription: true,
+    });
+    if (!selected || selected.length === 0) {
+      return;
+    }
+
+    const count = (action: PushPlanAction) =>
+      selected.filter((p) => p.item.action === action).length;
+    const confirm = await vscode.window.showWarningMessage(
+      `[Nulab] ${selected.length} 件の変更を Backlog に反映しますか？` +
+        `（新規 ${count('create')} / 更新 ${count('update')} / 移動 ${count('move')} / 削除 ${count(
+          'delete'
+        )}）`,
+      { modal: true },
+      'Push'
+    );
+    if (confirm !== 'Push') {
+      return;
+    }
+
+    // 親の作成 → 移動 → 更新 → 削除の順に反映する
+    const order: PushPlanAction[] = ['create', 'move', 'update', 'delete'];
+    const items = order.flatMap((action) =>
+      selected.filter((p) => p.item.action === action).map((p) => p.item)
+    );
+
+    const failures: string[] = [];
+    let done = 0;
+
+    await vscode.window.withProgress(
+      {
+        location: vscode.ProgressLocation.Notification,
+        title: 'Pushing documents to Backlog...',
+        cancellable: true,
+      },
+      async (progress, token) => {
+        for (const item of items) {
+          if (token.isCancellationRequested) {
+            break;
+          }
+          progress.report({
+            message: `${item.relativePath} (${done + 1}/${items.length})`,
+            increment: 100 / items.length,
+          });
+
+          try {
+            await this.applyPushPlanItem(item, resolved, projectId, localDir, manifest);
+            done++;
+          } catch (error) {
+            console.error(`Failed to push ${item.relativePath}:`, error);
+            failures.push(item.relativePath);
+          }
+
+          // API レート制限対策
+          await this.delay(200);
+        }
+
+        this.syncService.saveManifest(localDir, manifest);
+      }
+    );
+
+    this.decorationProvider?.refresh();
+
+    if (failures.length > 0) {
+      vscode.window.showWarningMessage(
+        `[Nulab] Push: ${done} 件反映、${failures.length} 件失敗 (${failures.join(', ')})`
+      );
+    } else {
+      vscode.window.showInformationMessage(`[Nulab] Push 完了: ${done} 件反映`);
+    }
+  }
+
+  private async applyPushPlanItem(
+    item: PushPlanItem,
+    mapping: DocumentSyncMapping,
+    projectId: number,
+    localDir: string,
+    manifest: SyncManifest
+  ): Promise<void> {
+    if (item.action === 'delete') {
+      await this.backlogApi.deleteDocument(item.backlogId!);
+      delete manifest[item.relativePath];
+      this.remoteContentProvider.invalidateCache(item.backlogId!);
+      return;
+    }
+
+    const absolutePath = path.join(localDir, item.relativePath);
+    const { body } = this.syncService.parseFrontmatter(fs.readFileSync(absolutePath, 'utf-8'));
+    const parentId = this.resolveParentId(localDir, item.parentPath, mapping.documentNodeId);
+
+    let pushed: Entity.Document.Document;
+    if (item.action === 'create') {
+      pushed = await this.backlogApi.postDocument({
+        projectId,
+        title: item.title,
+        content: this.convertLocalContent(body, mapping.projectKey),
+        parentId,
+        addLast: true,
+      });
+    } else {
+      const params: { title?: string; content?: string; parentId?: string } = {};
+      if (item.action === 'move') {
+        params.title = item.title;
+        params.parentId = parentId;
+        delete manifest[item.previousPath!];
+      }
+      if (item.action === 'update' || item.contentChanged) {
+        params.content = this.convertLocalContent(body, mapping.projectKey, item.backlogId);
+      }
+      pushed = await this.backlogApi.patchDocument(item.backlogId!, params);
+      this.remoteContentProvider.invalidateCache(item.backlogId!);
+    }
+
+    const now = new Date().toISOString();
+    const remoteUpdatedAt = pushed.updated || now;
+    const frontmatter = this.syncService.buildFrontmatter({
+      title: pushed.title || item.title,
+      backlog_id: pushed.id || item.backlogId!,
+      project: mapping.projectKey,
+      synced_at: now,
+      updated_at: remoteUpdatedAt,
+    });
+    fs.writeFileSync(absolutePath, frontmatter + body, 'utf-8');
+    this.syncService.recordSnapshot(pushed.id || item.backlogId!, absolutePath, body, {
+      action: 'push',
+      title: pushed.title || item.title,
+    });
+
+    manifest[item.relativePath] = {
+      backlog_id: pushed.id || item.backlogId!,
+      backlog_path: pushed.title || item.title,
+      project: mapping.projectKey,
+      synced_at: now,
+      remote_updated_at: remoteUpdatedAt,
+      content_hash: this.syncService.saveBaseContent(localDir, body),
+    };
+  }
+
+  /**
+   * 親にあたる index.bdoc の backlog_id を返す。未作成ならマッピングのルートを親とする。
+   */
+  private resolveParentId(
+    localDir: string,
+    parentPath: string | undefined,
+    rootId: string
+  ): string {
+    if (!parentPath || parentPath === 'index.bdoc') {
+      return rootId;
+    }
+    const parentFile = path.join(localDir, parentPath);
+    if (!fs.existsSync(parentFile)) {
+      return rootId;
+    }
+    const { meta } = this.syncService.parseFrontmatter(fs.readFileSync(parentFile, 'utf-8'));
+    return meta.backlog_id || rootId;
+  }
+
+  /**
+   * マッピング配下のドキュメントの更新日時 (id → updated) を取得する。
+   */
+  private async fetchRemoteUpdates(mapping: DocumentSyncMapping): Promise<Map<string, string>> {
+    const remoteUpdates = new Map<string, string>();
+    try {
+      const projectId = await this.resolveProjectId(mapping.projectKey);
+      if (projectId) {
+        const flatNodes = await this.backlogApi.getDocumentSubtree(
+          projectId,
+          mapping.documentNodeId
+        );
+        for (const node of flatNodes) {
+          if (node.updated) {
+            remoteUpdates.set(node.id, node.updated);
+          }
+        }
+        // サブツリーにはルート自体 (index.bdoc) が含まれないため個別に取得する
+        const root = await this.backlogApi.getDocument(mapping.documentNodeId);
+        if (root.updated) {
+          remoteUpdates.set(root.id, root.updated);
+        }
+      }
+    } catch (error) {
+      console.error('Failed to fetch remote updates:', error);
+    }
+    return remoteUpdates;
+  }
+
   /**
    * 1ファイルだけ Pull する。確認ダイアログ付き。
    */
@@ -695,48 +1234,9 @@ export class DocumentSyncCommands {
 
       // ProseMirror JSON → Markdown 変換（画像含む）
       const dir = path.dirname(targetPath);
-      let content = doc.plain || '';
-      const jsonContent = doc.json
-        ? typeof doc.json === 'string'
-          ? JSON.parse(doc.json)
-          : doc.json
-        : null;
-
-      if (jsonContent && jsonContent.type === 'doc') {
-        const imagesDir = path.join(dir, '.images');
-        const { markdown, images } = proseMirrorToMarkdown(jsonContent, (src) => {
-          const idMatch = src.match(/\/file\/(\d+)/);
-          if (idMatch) {
-            return `.images/${idMatch[1]}`;
-          }
-          return src;
-        });
-
-        if (images.length > 0) {
-          fs.mkdirSync(imagesDir, { recursive: true });
-          await Promise.all(
-            images.map(async (img) => {
-              if (!img.attachmentId || !doc.id) {
-                return;
-              }
-              const localImagePath = path.join(imagesDir, String(img.attachmentId));
-              try {
-                const buffer = await this.backlogApi.downloadDocumentAttachment(
-                  doc.id,
-                  img.attachmentId
-                );
-                fs.writeFileSync(localImagePath, buffer);
-              } catch (e) {
-                console.error(`[DocumentSync] Failed to download image ${img.attachmentId}:`, e);
-              }
-            })
-          );
-        }
+      const { content, images } = this.convertRemoteContent(doc);
 
-        if (markdown.trim()) {
-          content = markdown;
-        }
-      }
+      await this.downloadImages(doc, dir, images, true);
 
       const now = new Date().toISOString();
       const frontmatter = this.syncService.buildFrontmatter({
@@ -747,7 +1247,13 @@ export class DocumentSyncCommands {
         updated_at: doc.updated || now,
       });
 
+      // 上書きされるローカル変更を履歴に残す
+      this.syncService.recordLocalSnapshot(doc.id, targetPath, title);
       fs.writeFileSync(targetPath, frontmatter + content, 'utf-8');
+      this.syncService.recordSnapshot(doc.id, targetPath, content, {
+        action: 'pull',
+        title: doc.title || title,
+      });
 
       // Manifest 更新
       const resolved = await this.resolveMapping();
@@ -763,7 +1269,7 @@ export class DocumentSyncCommands {
             project: projectKey,
             synced_at: now,
             remote_updated_at: doc.updated || now,
-            content_hash: this.syncService.computeHash(content),
+            content_hash: this.syncService.saveBaseContent(localDir, content),
           };
           this.syncService.saveManifest(localDir, manifest);
           this.decorationProvider?.refresh();
@@ -780,6 +1286,88 @@ export class DocumentSyncCommands {
 
   // ---- Helpers ----
 
+  /**
+   * リモートドキュメントを .bdoc 本文 (Markdown) に変換する。
+   * 画像参照は .images/{attachmentId} に置き換える。
+   */
+  private convertRemoteContent(doc: Entity.Document.Document): {
+    content: string;
+    images: ImageReference[];
+  } {
+    const jsonContent = doc.json
+      ? typeof doc.json === 'string'
+        ? JSON.parse(doc.json)
+        : doc.json
+      : null;
+
+    if (!jsonContent || jsonContent.type !== 'doc') {
+      return { content: doc.plain || '', images: [] };
+    }
+
+    const { markdown, images } = proseMirrorToMarkdown(jsonContent, (src) => {
+      const idMatch = src.match(/\/file\/(\d+)/);
+      if (idMatch) {
+        return `.images/${idMatch[1]}`;
+      }
+      return src;
+    });
+    return { content: markdown.trim() ? markdown : doc.plain || '', images };
+  }
+
+  /**
+   * .bdoc 本文 (Markdown) を Push 用の ProseMirror JSON に変換する。
+   * .images/{attachmentId} 参照は元のドキュメント添付ファイルの URL に戻す。
+   */
+  private convertLocalContent(body: string, projectKey: string, documentId?: string): string {
+    return markdownToDocumentContent(body, (src) => {
+      const idMatch = src.match(/^\.images\/(\d+)$/);
+      if (idMatch && documentId) {
+        return `/document/backend/${projectKey}/${documentId}/file/${idMatch[1]}`;
+      }
+      return src;
+    });
+  }
+
+  private async downloadImages(
+    doc: Entity.Document.Document,
+    dir: string,
+    images: ImageReference[],
+    overwrite: boolean
+  ): Promise<void> {
+    if (images.length === 0) {
+      return;
+    }
+    const imagesDir = path.join(dir, '.images');
+    fs.mkdirSync(imagesDir, { recursive: true });
+    await Promise.all(
+      images.map(async (img) => {
+        if (!img.attachmentId || !doc.id) {
+          return;
+        }
+        const localImagePath = path.join(imagesDir, String(img.attachmentId));
+        if (!overwrite && fs.existsSync(localImagePath)) {
+          return;
+        }
+        try {
+          const buffer = await this.backlogApi.downloadDocumentAttachment(doc.id, img.attachmentId);
+          fs.writeFileSync(localImagePath, buffer);
+        } catch (e) {
+          console.error(`[DocumentSync] Failed to download image ${img.attachmentId}:`, e);
+        }
+      })
+    );
+  }
+
+  private findMappingForFile(
+    filePath: string,
+    workspaceRoot: string
+  ): DocumentSyncMapping | undefined {
+    return this.fileStore.getDocumentSyncMappings().find((m) => {
+      const localDir = path.join(workspaceRoot, m.localPath);
+      return filePath.startsWith(localDir + path.sep);
+    });
+  }
+
   private async resolveMapping(): Promise<DocumentSyncMapping | undefined> {
     const mappings = this.fileStore.getDocumentSyncMappings();
     if (mappings.length === 0) {
@@ -8,6 +8,11 @@ import {
 } from '../../providers/googleCalendarTreeViewProvider';
 import { GoogleDriveFile, GoogleCalendarEvent } from '../../types/google';
 import { CalendarEventWebview } from '../../webviews/calendarEventWebview';
+import { CalendarWeekWebview } from '../../webviews/calendarWeekWebview';
+import { WebviewHelper } from '../../webviews/common';
+import { MeetingPrepService } from '../../services/meetingPrepService';
+import { BacklogApiService } from '../../services/backlogApi';
+import { BacklogConfig } from '../../config/backlogConfig';
 import { MeetingNotesWebview } from '../../webviews/meetingNotesWebview';
 import { TodoTreeViewProvider } from '../../providers/todoTreeViewProvider';
 import { TodoPersistenceService } from '../../services/session/todoPersistenceService';
@@ -21,8 +26,14 @@ export function registerGoogleCalendar(
   googleConfig: GoogleConfig,
   log: (message: string) => void,
   todoProvider?: TodoTreeViewProvider,
-  todoPersistence?: TodoPersistenceService
-): { disposables: vscode.Disposable[]; treeViews: vscode.TreeView<any>[] } {
+  todoPersistence?: TodoPersistenceService,
+  backlogApi?: BacklogApiService,
+  backlogConfig?: BacklogConfig
+): {
+  disposables: vscode.Disposable[];
+  treeViews: vscode.TreeView<any>[];
+  calendarProvider: GoogleCalendarTreeViewProvider;
+} {
   log('registerGoogleCalendar: START');
   const googleApi = new GoogleApiService(googleConfig);
   const calendarProvider = new GoogleCalendarTreeViewProvider(googleApi, context.extensionUri);
@@ -220,6 +231,140 @@ export function registerGoogleCalendar(
     }
   );
 
+  // ---- Week view ----
+
+  let weekPanel: vscode.WebviewPanel | undefined;
+  let weekOffset = 0;
+  let weekEvents: GoogleCalendarEvent[] = [];
+
+  const loadWeek = async (panel: vscode.WebviewPanel) => {
+    const weekStart = CalendarWeekWebview.getWeekStart(new Date());
+    weekStart.setDate(weekStart.getDate() + weekOffset * 7);
+    const weekEnd = new Date(weekStart);
+    weekEnd.setDate(weekEnd.getDate() + 7);
+    try {
+      weekEvents = await googleApi.getEvents(weekStart.toISOString(), weekEnd.toISOString());
+      panel.webview.html = CalendarWeekWebview.getWebviewContent(
+        panel.webview,
+        context.extensionUri,
+        weekStart,
+        weekEvents
+      );
+    } catch (error) {
+      log(`openWeekView: failed to load events - ${error}`);
+      panel.webview.html = WebviewHelper.getErrorWebviewContent(
+        `予定の取得に失敗しました: ${error instanceof Error ? error.message : error}`
+      );
+    }
+  };
+
+  const openWeekViewCmd = vscode.commands.registerCommand('nulab.google.openWeekView', async () => {
+    if (weekPanel) {
+      weekPanel.reveal(vscode.ViewColumn.One);
+      return;
+    }
+
+    const panel = vscode.window.createWebviewPanel(
+      'calendarWeek',
+      'Calendar: Week',
+      vscode.ViewColumn.One,
+      { enableScripts: true, localResourceRoots: [context.extensionUri] }
+    );
+    weekPanel = panel;
+    weekOffset = 0;
+    panel.onDidDispose(() => (weekPanel = undefined));
+
+    panel.webview.onDidReceiveMessage(
+      async (msg) => {
+        switch (msg.command) {
+          case 'navigate':
+            weekOffset = msg.offset === 0 ? 0 : weekOffset + msg.offset;
+            await loadWeek(panel);
+            break;
+          case 'refresh':
+            await loadWeek(panel);
+            break;
+          case 'openEvent': {
+            const event = weekEvents.find((e) => e.id === msg.id);
+            if (event) {
+              vscode.commands.executeCommand('nulab.google.openEventDetail', event);
+            }
+            break;
+          }
+          case 'prepare': {
+            const event = weekEvents.find((e) => e.id === msg.id);
+            if (event) {
+              vscode.commands.executeCommand('nulab.google.prepareMeeting', event);
+            }
+            break;
+          }
+        }
+      },
+      undefined,
+      context.subscriptions
+    );
+
+    panel.webview.html = WebviewHelper.getLoadingWebviewContent('予定を読み込んでいます...');
+    await loadWeek(panel);
+  });
+
+  // ---- Meeting prep ----
+
+  const meetingPrep = new MeetingPrepService(googleApi, backlogApi, backlogConfig);
+
+  const prepareMeetingCmd = vscode.commands.registerCommand(
+    'nulab.google.prepareMeeting',
+    async (target: EventItem | GoogleCalendarEvent) => {
+      const event = target instanceof EventItem ? target.event : target;
+      if (!event) {
+        return;
+      }
+
+      const existing = MeetingPrepService.prepNoteUri(event);
+      if (!existing) {
+        vscode.window.showErrorMessage('ワークスペースが開かれていません。');
+        return;
+      }
+
+      let overwrite = false;
+      try {
+        await vscode.workspace.fs.stat(existing);
+        const action = await vscode.window.showInformationMessage(
+          '[Nulab] この会議の準備ノートは既にあります。',
+          '開く',
+          '作り直す'
+        );
+        if (!action) {
+          return;
+        }
+        overwrite = action === '作り直す';
+      } catch {
+        // No prep note yet
+      }
+
+      try {
+        const fileUri = await vscode.window.withProgress(
+          {
+            location: vscode.ProgressLocation.Notification,
+            title: '[Nulab] 準備ノートを作成しています...',
+          },
+          async () => {
+            const linkedDocs = await calendarProvider.getEventDocuments(event).catch(() => []);
+            return meetingPrep.createPrepNote(event, linkedDocs, { overwrite });
+          }
+        );
+        if (fileUri) {
+          await vscode.window.showTextDocument(fileUri);
+        }
+      } catch (error) {
+        log(`prepareMeeting: error - ${error}`);
+        vscode.window.showErrorMessage(
+          `準備ノートの作成に失敗しました: ${error instanceof Error ? error.message : error}`
+        );
+      }
+    }
+  );
+
   const openSelectedCalendarItemCmd = vscode.commands.registerCommand(
     'nulab.google.openSelectedCalendarItem',
     () => {
@@ -390,6 +535,7 @@ export function registerGoogleCalendar(
   );
 
   return {
+    calendarProvider,
     treeViews: [calendarTreeView, driveTreeView],
     disposables: [
       calendarTreeView,
@@ -402,6 +548,8 @@ export function registerGoogleCalendar(
       refreshMeetingNotesCmd,
       openInBrowserCmd,
       openEventDetailCmd,
+      openWeekViewCmd,
+      prepareMeetingCmd,
       openSelectedCalendarItemCmd,
       addToTodoCmd,
       addToTodoFromDocCmd,
@@ -5,17 +5,26 @@ import { registerSettingsCommands } from './backlog/settingsCommands';
 import { registerProjectCommands } from './backlog/projectCommands';
 import { registerFilterSortCommands } from './backlog/filterSortCommands';
 import { registerOpenIssueCommands } from './backlog/openIssueCommand';
+import { registerCreateIssueCommands } from './backlog/createIssueCommand';
 import { registerOpenWikiCommand } from './backlog/openWikiCommand';
 import { registerOpenDocumentCommand } from './backlog/openDocumentCommand';
+import { registerPullRequestCommands } from './backlog/pullRequestCommands';
 import { registerMappingCommands } from './documentSync/mappingCommands';
+import { registerHistoryCommands } from './documentSync/historyCommands';
 import { registerTodoCommands } from './workspace/todoCommands';
+import { registerTodoReminderCommands } from './workspace/todoReminderCommands';
+import { registerAutoTodoCommands } from './workspace/autoTodoCommands';
 import { registerNotificationCommands } from './workspace/notificationCommands';
+import { registerInboxCommands } from './workspace/inboxCommands';
 import { registerSlackCommands } from './workspace/slackCommands';
+import { registerSlackChannelCommands } from './workspace/slackChannelCommands';
 import { registerSessionCommands } from './workspace/sessionCommands';
 
 export interface TreeViews {
   todosTreeView: vscode.TreeView<any>;
   notificationsTreeView: vscode.TreeView<any>;
+  inboxTreeView: vscode.TreeView<any>;
+  pullRequestsTreeView: vscode.TreeView<any>;
   slackTreeView: vscode.TreeView<any>;
   slackSearchTreeView: vscode.TreeView<any>;
 }
@@ -27,12 +36,19 @@ export function registerAllCommands(c: ServiceContainer, tv: TreeViews): vscode.
     ...registerProjectCommands(c),
     ...registerFilterSortCommands(c),
     ...registerOpenIssueCommands(c),
+    ...registerCreateIssueCommands(c),
     ...registerOpenWikiCommand(c),
     ...registerOpenDocumentCommand(c),
+    ...registerPullRequestCommands(c, tv.pullRequestsTreeView),
     ...registerMappingCommands(c),
+    ...registerHistoryCommands(c),
     ...registerTodoCommands(c, tv.todosTreeView),
+    ...registerTodoReminderCommands(c),
+    ...registerAutoTodoCommands(c),
     ...registerNotificationCommands(c, tv.notificationsTreeView),
+    ...registerInboxCommands(c, tv.inboxTreeView),
     ...registerSlackCommands(c, tv.slackTreeView, tv.slackSearchTreeView),
+    ...registerSlackChannelCommands(c),
     ...registerSessionCommands(c),
   ];
 }
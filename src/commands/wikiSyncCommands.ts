@@ -0,0 +1,666 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { Entity } from 'backlog-js';
+import { BacklogApiService } from '../services/backlogApi';
+import { WorkspaceFileStore } from '../config/workspaceFileStore';
+import { SyncService } from '../services/syncService';
+import { WikiSyncService } from '../services/wikiSyncService';
+import { BacklogRemoteContentProvider } from '../providers/backlogRemoteContentProvider';
+import { SyncFileDecorationProvider } from '../providers/syncFileDecorationProvider';
+import { WikiSyncManifest, WikiSyncMapping } from '../types/backlog';
+import { mergeThreeWay } from '../utils/threeWayMerge';
+
+/**
+ * Wiki の Pull / Diff / Push。ドキュメント同期 (DocumentSyncCommands) と同じ流れで、
+ * ローカルは {localPath}/{ページ名}.md（frontmatter に wiki_id / updated_at）。
+ */
+export class WikiSyncCommands {
+  private wikiSyncService: WikiSyncService;
+  private isPulling = false;
+
+  constructor(
+    private backlogApi: BacklogApiService,
+    private fileStore: WorkspaceFileStore,
+    private syncService: SyncService,
+    private remoteContentProvider: BacklogRemoteContentProvider,
+    private decorationProvider?: SyncFileDecorationProvider
+  ) {
+    this.wikiSyncService = new WikiSyncService(syncService);
+  }
+
+  /**
+   * プロジェクトの Wiki を同期するローカルフォルダを設定する。
+   */
+  async setMapping(projectKey?: string): Promise<void> {
+    if (!this.getWorkspaceRoot()) {
+      return;
+    }
+
+    let key = projectKey;
+    if (!key) {
+      const projects = await this.backlogApi.getProjects();
+      const picked = await vscode.window.showQuickPick(
+        projects.map((p) => ({ label: p.projectKey, description: p.name })),
+        { placeHolder: 'Wiki を同期するプロジェクトを選択' }
+      );
+      if (!picked) {
+        return;
+      }
+      key = picked.label;
+    }
+
+    const existing = this.fileStore.getWikiSyncMappings().find((m) => m.projectKey === key);
+    const localPath = await vscode.window.showInputBox({
+      prompt: 'Wiki を同期するフォルダ（ワークスペースからの相対パス）',
+      value: existing?.localPath || `wiki/${key}`,
+      validateInput: (value) => {
+        if (!value || value.trim().length === 0) {
+          return 'パスを入力してください';
+        }
+        if (value.startsWith('/') || value.includes('..')) {
+          return 'ワークスペース内の相対パスを入力してください';
+        }
+        return null;
+      },
+    });
+    if (!localPath) {
+      return;
+    }
+
+    this.fileStore.setWikiSyncMapping({ localPath, projectKey: key });
+    this.decorationProvider?.refresh();
+    vscode.window.showInformationMessage(
+      `[Nulab] Wiki マッピングを設定しました: ${localPath} ↔ ${key}`
+    );
+  }
+
+  async removeMapping(): Promise<void> {
+    const mapping = await this.resolveMapping();
+    if (!mapping) {
+      return;
+    }
+    this.fileStore.removeWikiSyncMapping(mapping.projectKey);
+    this.decorationProvider?.refresh();
+    vscode.window.showInformationMessage(
+      `[Nulab] Wiki マッピングを削除しました: ${mapping.projectKey}`
+    );
+  }
+
+  /**
+   * Pull: リモートの Wiki を取り込む。
+   * - ローカル変更なし → 上書き
+   * - 両側変更 → 3-way マージ（競合時はローカルを残し conflict を記録）
+   */
+  async pull(mapping?: WikiSyncMapping): Promise<void> {
+    if (this.isPulling) {
+      vscode.window.showWarningMessage('[Nulab] Pull is already in progress.');
+      return;
+    }
+
+    const resolved = mapping || (await this.resolveMapping());
+    if (!resolved) {
+      return;
+    }
+
+    const workspaceRoot = this.getWorkspaceRoot();
+    if (!workspaceRoot) {
+      return;
+    }
+
+    const localDir = path.join(workspaceRoot, resolved.localPath);
+    const conflicts: string[] = [];
+    this.isPulling = true;
+
+    try {
+      await vscode.window.withProgress(
+        {
+          location: vscode.ProgressLocation.Notification,
+          title: 'Pulling wiki pages from Backlog...',
+          cancellable: true,
+        },
+        async (progress, token) => {
+          const projectId = await this.resolveProjectId(resolved.projectKey);
+          if (!projectId) {
+            throw new Error(`Project ${resolved.projectKey} not found`);
+          }
+
+          const pages = await this.backlogApi.getWikiPages(projectId);
+          const manifest = this.wikiSyncService.loadManifest(localDir);
+          let pulled = 0;
+          let unchanged = 0;
+          let merged = 0;
+          let skipped = 0;
+          let deleted = 0;
+          let keptDeleted = 0;
+
+          const pathById = new Map<number, string>();
+          for (const [relPath, entry] of Object.entries(manifest)) {
+            pathById.set(entry.wiki_id, relPath);
+          }
+
+          for (let i = 0; i < pages.length; i++) {
+            if (token.isCancellationRequested) {
+              break;
+            }
+            const page = pages[i];
+            progress.report({
+              message: `${page.name} (${i + 1}/${pages.length})`,
+              increment: 100 / pages.length,
+            });
+
+            const relPath = path.relative(
+              localDir,
+              this.wikiSyncService.resolveLocalPath(localDir, page.name)
+            );
+            const absPath = path.join(localDir, relPath);
+
+            // リモートでページ名が変わった → ローカルファイルも移動
+            const previousPath = pathById.get(page.id);
+            if (previousPath && previousPath !== relPath && !fs.existsSync(absPath)) {
+              const previousAbs = path.join(localDir, previousPath);
+              if (fs.existsSync(previousAbs)) {
+                fs.mkdirSync(path.dirname(absPath), { recursive: true });
+                fs.renameSync(previousAbs, absPath);
+              }
+              manifest[relPath] = manifest[previousPath];
+              delete manifest[previousPath];
+            }
+
+            const entry = manifest[relPath];
+            const exists = fs.existsSync(absPath);
+            if (entry && exists && page.updated === entry.remote_updated_at) {
+              unchanged++;
+              continue;
+            }
+            if (!entry && exists) {
+              // 未同期のローカルファイルは上書きしない
+              skipped++;
+              continue;
+            }
+
+            try {
+              const wiki = await this.backlogApi.getWiki(page.id);
+              const remote = wiki.content || '';
+              const localChanged =
+                entry &&
+                exists &&
+                this.syncService.computeLocalFileHash(absPath) !== entry.content_hash;
+
+              if (!localChanged) {
+                this.writeWikiFile(absPath, localDir, resolved.projectKey, wiki, remote, manifest);
+                pulled++;
+              } else {
+                const local = this.syncService.readLocalContent(absPath);
+                const base = this.syncService.loadBaseContent(localDir, entry.content_hash);
+                const result = mergeThreeWay(base ?? '', local, remote);
+                if (base === undefined || result.conflicts > 0) {
+                  entry.conflict = true;
+                  conflicts.push(relPath);
+                } else {
+                  this.writeWikiFile(
+                    absPath,
+                    localDir,
+                    resolved.projectKey,
+                    wiki,
+                    remote,
+                    manifest,
+                    {
+                      body: result.merged,
+                    }
+                  );
+                  merged++;
+                }
+              }
+            } catch (error) {
+              console.error(`Failed to pull wiki ${page.name}:`, error);
+              skipped++;
+            }
+
+            // API レート制限対策
+            await this.delay(100);
+          }
+
+          // リモートで削除されたページ（ローカル変更が無ければファイルも削除）
+          const remoteIds = new Set(pages.map((p) => p.id));
+          if (!token.isCancellationRequested) {
+            for (const [relPath, entry] of Object.entries(manifest)) {
+              if (remoteIds.has(entry.wiki_id)) {
+                continue;
+              }
+              const absPath = path.join(localDir, relPath);
+              if (
+                fs.existsSync(absPath) &&
+                this.syncService.computeLocalFileHash(absPath) !== entry.content_hash
+              ) {
+                // エントリを消すと new_local 扱いになり次の Push でページが復活するため、競合として残す
+                entry.conflict = true;
+                entry.remote_deleted = true;
+                keptDeleted++;
+                continue;
+              }
+              if (fs.existsSync(absPath)) {
+                fs.unlinkSync(absPath);
+              }
+              delete manifest[relPath];
+              deleted++;
+            }
+          }
+
+          this.wikiSyncService.saveManifest(localDir, manifest);
+          this.decorationProvider?.refresh();
+
+          const parts = [`${pulled} 件取得`, `${unchanged} 件変更なし`];
+          if (merged > 0) {
+            parts.push(`${merged} 件自動マージ`);
+          }
+          if (conflicts.length > 0) {
+            parts.push(`${conflicts.length} 件競合`);
+          }
+          if (skipped > 0) {
+            parts.push(`${skipped} 件スキップ`);
+          }
+          if (deleted > 0) {
+            parts.push(`${deleted} 件削除`);
+          }
+          if (keptDeleted > 0) {
+            parts.push(`${keptDeleted} 件リモート削除済み（ローカル変更あり）`);
+          }
+          vscode.window.showInformationMessage(`[Nulab] Wiki Pull 完了: ${parts.join(', ')}`);
+        }
+      );
+    } catch (error) {
+      vscode.window.showErrorMessage(
+        `[Nulab] Wiki Pull に失敗しました: ${error instanceof Error ? error.message : error}`
+      );
+    } finally {
+      this.isPulling = false;
+    }
+
+    if (conflicts.length > 0) {
+      const action = await vscode.window.showWarningMessage(
+        `[Nulab] 自動マージできなかった Wiki があります: ${conflicts.join(', ')}`,
+        'Diff を開く'
+      );
+      if (action === 'Diff を開く') {
+        await this.diff(path.join(localDir, conflicts[0]));
+      }
+    }
+  }
+
+  /**
+   * 同期状態を一覧表示する。選択したファイルに応じて Diff / Pull を実行。
+   */
+  async status(mapping?: WikiSyncMapping): Promise<void> {
+    const resolved = mapping || (await this.resolveMapping());
+    if (!resolved) {
+      return;
+    }
+
+    const workspaceRoot = this.getWorkspaceRoot();
+    if (!workspaceRoot) {
+      return;
+    }
+
+    const localDir = path.join(workspaceRoot, resolved.localPath);
+    const manifest = this.wikiSyncService.loadManifest(localDir);
+
+    const remoteUpdates = new Map<number, string>();
+    try {
+      const projectId = await this.resolveProjectId(resolved.projectKey);
+      if (projectId) {
+        for (const page of await this.backlogApi.getWikiPages(projectId)) {
+          remoteUpdates.set(page.id, page.updated);
+        }
+      }
+    } catch (error) {
+      console.error('Failed to fetch wiki pages:', error);
+    }
+
+    const statuses = this.wikiSyncService.getAllStatuses(localDir, manifest, remoteUpdates);
+    if (statuses.length === 0) {
+      vscode.window.showInformationMessage(
+        '[Nulab] 同期済みの Wiki がありません。まず Pull を実行してください。'
+      );
+      return;
+    }
+
+    const statusIcons: Record<string, string> = {
+      unchanged: '$(check)',
+      local_modified: '$(edit)',
+      remote_modified: '$(cloud-download)',
+      conflict: '$(warning)',
+      new_local: '$(add)',
+      not_synced: '$(circle-slash)',
+    };
+
+    const selected = await vscode.window.showQuickPick(
+      statuses.map((entry) => ({
+        label: `${statusIcons[entry.status] || ''} ${entry.relativePath}`,
+        description: entry.status,
+        entry,
+      })),
+      { placeHolder: 'Wiki Sync Status — ファイルを選択してアクションを実行' }
+    );
+    if (!selected) {
+      return;
+    }
+
+    const filePath = path.join(localDir, selected.entry.relativePath);
+    if (selected.entry.status === 'local_modified' || selected.entry.status === 'conflict') {
+      await this.diff(filePath);
+    } else if (selected.entry.status === 'remote_modified') {
+      await this.pull(resolved);
+    } else if (selected.entry.status === 'new_local') {
+      await this.push(filePath);
+    }
+  }
+
+  /**
+   * リモート ↔ ローカルの差分を表示する。差分エディタの右側で編集・保存するとローカルに反映する。
+   * 保存した内容はリモート版とマージ済みとして updated_at を進める。
+   */
+  async diff(filePath?: string): Promise<void> {
+    const targetPath = filePath || vscode.window.activeTextEditor?.document.uri.fsPath;
+    if (!targetPath || !fs.existsSync(targetPath)) {
+      vscode.window.showWarningMessage('[Nulab] 差分を表示するファイルを選択してください。');
+      return;
+    }
+
+    const { meta, body } = this.syncService.parseFrontmatter(fs.readFileSync(targetPath, 'utf-8'));
+    if (!meta.wiki_id) {
+      vscode.window.showWarningMessage(
+        '[Nulab] このファイルには wiki_id がありません。Pull 済みのファイルを選択してください。'
+      );
+      return;
+    }
+
+    try {
+      const wiki = await this.backlogApi.getWiki(Number(meta.wiki_id));
+      const title = meta.title || wiki.name;
+      const cacheKey = `wiki-${wiki.id}`;
+      const remoteUri = BacklogRemoteContentProvider.buildUri(
+        meta.project || 'UNKNOWN',
+        cacheKey,
+        title,
+        'backlog-local'
+      );
+      this.remoteContentProvider.setLocalBody(cacheKey, wiki.content || '');
+      this.remoteContentProvider.fireDidChange(remoteUri);
+
+      // frontmatter を除いた本文を一時ファイルに書き出して比較する
+      const tmpPath = path.join(
+        require('os').tmpdir(),
+        `backlog-wiki-diff-${this.syncService.sanitizeFileName(title)}.md`
+      );
+      fs.writeFileSync(tmpPath, body, 'utf-8');
+
+      await vscode.commands.executeCommand(
+        'vscode.diff',
+        remoteUri,
+        vscode.Uri.file(tmpPath),
+        `Backlog Wiki (Remote) ↔ Local: ${title}`
+      );
+
+      const watcher = vscode.workspace.onDidSaveTextDocument((doc) => {
+        if (doc.uri.fsPath !== tmpPath) {
+          return;
+        }
+        const frontmatter = this.wikiSyncService.buildFrontmatter({
+          title,
+          wiki_id: wiki.id,
+          project: meta.project || '',
+          synced_at: meta.synced_at || new Date().toISOString(),
+          updated_at: wiki.updated,
+        });
+        fs.writeFileSync(targetPath, frontmatter + doc.getText(), 'utf-8');
+        this.clearConflict(targetPath);
+      });
+
+      const closeWatcher = vscode.window.onDidChangeVisibleTextEditors((editors) => {
+        if (!editors.some((e) => e.document.uri.fsPath === tmpPath)) {
+          watcher.dispose();
+          closeWatcher.dispose();
+          this.remoteContentProvider.invalidateCache(cacheKey);
+          try {
+            fs.unlinkSync(tmpPath);
+          } catch {
+            /* ignore */
+          }
+        }
+      });
+    } catch (error) {
+      vscode.window.showErrorMessage(
+        `[Nulab] Diff を開けませんでした: ${error instanceof Error ? error.message : error}`
+      );
+    }
+  }
+
+  /**
+   * Push: ローカルの Wiki を Backlog に反映する（wiki_id なし → 新規作成）。
+   */
+  async push(filePath?: string): Promise<void> {
+    const targetPath = filePath || vscode.window.activeTextEditor?.document.uri.fsPath;
+    if (!targetPath || !fs.existsSync(targetPath)) {
+      vscode.window.showWarningMessage('[Nulab] Push するファイルを開いてください。');
+      return;
+    }
+
+    const workspaceRoot = this.getWorkspaceRoot();
+    if (!workspaceRoot) {
+      return;
+    }
+    const mapping = this.findMappingForFile(targetPath, workspaceRoot);
+    if (!mapping) {
+      vscode.window.showWarningMessage(
+        '[Nulab] このファイルは Wiki 同期フォルダ内にありません。先に Wiki マッピングを設定してください。'
+      );
+      return;
+    }
+
+    const localDir = path.join(workspaceRoot, mapping.localPath);
+    const relPath = path.relative(localDir, targetPath);
+    const { meta, body } = this.syncService.parseFrontmatter(fs.readFileSync(targetPath, 'utf-8'));
+    const manifest = this.wikiSyncService.loadManifest(localDir);
+
+    try {
+      let pushed: Entity.Wiki.Wiki;
+
+      if (meta.wiki_id) {
+        const wikiId = Number(meta.wiki_id);
+        const entry = manifest[relPath];
+        if (entry && this.syncService.computeHash(body) === entry.content_hash) {
+          vscode.window.showInformationMessage('[Nulab] ローカルに変更はありません。');
+          return;
+        }
+
+        // マージ途中の本文でリモートを上書きしないよう、競合が解決されるまで Push しない
+        if (entry?.conflict) {
+          const title = meta.title || entry.name;
+          if (entry.remote_deleted) {
+            vscode.window.showWarningMessage(
+              `[Nulab] "${title}" は Backlog で削除されています。ローカルの内容で作り直す場合は frontmatter の wiki_id を削除してから Push してください。`,
+              { modal: true }
+            );
+            return;
+          }
+          const choice = await vscode.window.showWarningMessage(
+            `[Nulab] "${title}" には未解決のマージ競合があります。Diff でマージしてから Push してください。`,
+            { modal: true },
+            'Diff でマージ'
+          );
+          if (choice === 'Diff でマージ') {
+            await this.diff(targetPath);
+          }
+          return;
+        }
+
+        const remote = await this.backlogApi.getWiki(wikiId);
+        const baseUpdatedAt = meta.updated_at || entry?.remote_updated_at;
+        const name = meta.title || remote.name;
+
+        if (baseUpdatedAt && remote.updated !== baseUpdatedAt) {
+          const choice = await vscode.window.showWarningMessage(
+            `[Nulab] "${name}" は前回の同期以降に Backlog で更新されています。`,
+            { modal: true },
+            'Diff でマージ',
+            '強制上書き'
+          );
+          if (choice === 'Diff でマージ') {
+            await this.diff(targetPath);
+            return;
+          }
+          if (choice !== '強制上書き') {
+            return;
+          }
+        } else {
+          const confirm = await vscode.window.showInformationMessage(
+            `[Nulab] "${name}" を Backlog Wiki に反映しますか？`,
+            'Update'
+          );
+          if (confirm !== 'Update') {
+            return;
+          }
+        }
+
+        const params: { name?: string; content: string } = { content: body };
+        if (name !== remote.name) {
+          params.name = name;
+        }
+        pushed = await this.backlogApi.patchWiki(wikiId, params);
+      } else {
+        const projectId = await this.resolveProjectId(mapping.projectKey);
+        if (!projectId) {
+          vscode.window.showErrorMessage(
+            `[Nulab] プロジェクト ${mapping.projectKey} が見つかりません。`
+          );
+          return;
+        }
+
+        const name = meta.title || this.wikiSyncService.wikiNameFromPath(relPath);
+        const confirm = await vscode.window.showInformationMessage(
+          `[Nulab] "${name}" を Backlog Wiki に新規作成しますか？`,
+          'Create'
+        );
+        if (confirm !== 'Create') {
+          return;
+        }
+        pushed = await this.backlogApi.postWiki({ projectId, name, content: body });
+      }
+
+      this.writeWikiFile(targetPath, localDir, mapping.projectKey, pushed, body, manifest, {
+        relativePath: relPath,
+      });
+      this.wikiSyncService.saveManifest(localDir, manifest);
+      this.decorationProvider?.refresh();
+      vscode.window.showInformationMessage(`[Nulab] "${pushed.name}" を Backlog に反映しました。`);
+    } catch (error) {
+      vscode.window.showErrorMessage(
+        `[Nulab] Wiki Push に失敗しました: ${error instanceof Error ? error.message : error}`
+      );
+    }
+  }
+
+  // ---- Helpers ----
+
+  /**
+   * Wiki を frontmatter 付きで書き込み、manifest のベースを更新する。
+   * @param options.body 書き込む本文（省略時は remote）。マージ結果を書く場合に指定
+   * @param options.relativePath manifest のキー（省略時はパス名から算出）
+   */
+  private writeWikiFile(
+    absPath: string,
+    localDir: string,
+    projectKey: string,
+    wiki: Entity.Wiki.Wiki,
+    remote: string,
+    manifest: WikiSyncManifest,
+    options: { body?: string; relativePath?: string } = {}
+  ): void {
+    const now = new Date().toISOString();
+    const frontmatter = this.wikiSyncService.buildFrontmatter({
+      title: wiki.name,
+      wiki_id: wiki.id,
+      project: projectKey,
+      synced_at: now,
+      updated_at: wiki.updated || now,
+    });
+
+    fs.mkdirSync(path.dirname(absPath), { recursive: true });
+    fs.writeFileSync(absPath, frontmatter + (options.body ?? remote), 'utf-8');
+
+    manifest[options.relativePath || path.relative(localDir, absPath)] = {
+      wiki_id: wiki.id,
+      name: wiki.name,
+      project: projectKey,
+      synced_at: now,
+      remote_updated_at: wiki.updated || now,
+      content_hash: this.syncService.saveBaseContent(localDir, remote),
+    };
+  }
+
+  private clearConflict(filePath: string): void {
+    const workspaceRoot = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+    const mapping = workspaceRoot && this.findMappingForFile(filePath, workspaceRoot);
+    if (!workspaceRoot || !mapping) {
+      return;
+    }
+    const localDir = path.join(workspaceRoot, mapping.localPath);
+    const manifest = this.wikiSyncService.loadManifest(localDir);
+    const entry = manifest[path.relative(localDir, filePath)];
+    if (entry?.conflict) {
+      delete entry.conflict;
+      this.wikiSyncService.saveManifest(localDir, manifest);
+    }
+    this.decorationProvider?.refresh();
+  }
+
+  private findMappingForFile(filePath: string, workspaceRoot: string): WikiSyncMapping | undefined {
+    return this.fileStore.getWikiSyncMappings().find((m) => {
+      const localDir = path.join(workspaceRoot, m.localPath);
+      return filePath.startsWith(localDir + path.sep);
+    });
+  }
+
+  private async resolveMapping(): Promise<WikiSyncMapping | undefined> {
+    const mappings = this.fileStore.getWikiSyncMappings();
+    if (mappings.length === 0) {
+      const action = await vscode.window.showWarningMessage(
+        '[Nulab] Wiki 同期マッピングが設定されていません。',
+        'マッピングを設定'
+      );
+      if (action === 'マッピングを設定') {
+        await this.setMapping();
+      }
+      return undefined;
+    }
+    if (mappings.length === 1) {
+      return mappings[0];
+    }
+
+    const picked = await vscode.window.showQuickPick(
+      mappings.map((m) => ({ label: m.projectKey, description: m.localPath, mapping: m })),
+      { placeHolder: 'Wiki 同期マッピングを選択' }
+    );
+    return picked?.mapping;
+  }
+
+  private async resolveProjectId(projectKey: string): Promise<number | undefined> {
+    const projects = await this.backlogApi.getProjects();
+    const project = projects.find((p) => p.projectKey.toUpperCase() === projectKey.toUpperCase());
+    return project?.id;
+  }
+
+  private getWorkspaceRoot(): string | undefined {
+    const folders = vscode.workspace.workspaceFolders;
+    if (!folders || folders.length === 0) {
+      vscode.window.showWarningMessage('[Nulab] ワークスペースを開いてください。');
+      return undefined;
+    }
+    return folders[0].uri.fsPath;
+  }
+
+  private delay(ms: number): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, ms));
+  }
+}
@@ -0,0 +1,174 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import { ServiceContainer } from '../../container';
+import { AutoTodoAction, AutoTodoEvent, AutoTodoRulesFile } from '../../types/workspace';
+
+const SAMPLE_RULES: AutoTodoRulesFile = {
+  rules: [
+    {
+      name: '担当・プルリクエスト',
+      when: { source: 'backlog', reason: [1, 9] },
+      actions: [{ type: 'create-todo' }],
+    },
+    {
+      name: '夜間のコメントは既読にするだけ',
+      when: { source: 'backlog', reason: 2, timeOfDay: { from: '22:00', to: '07:00' } },
+      actions: [{ type: 'mark-read' }, { type: 'skip' }],
+    },
+    {
+      name: '高優先度の課題',
+      when: { source: 'backlog', priority: '高' },
+      actions: [{ type: 'tag', tag: 'urgent' }],
+      continue: true,
+    },
+    {
+      name: 'コメント',
+      when: { source: 'backlog', reason: [2, 10] },
+      actions: [{ type: 'create-todo' }],
+    },
+    {
+      name: '障害対応チャンネル',
+      when: { source: 'slack', channel: 'incident', keyword: '障害|緊急|down' },
+      actions: [
+        { type: 'tag', tag: 'incident' },
+        { type: 'create-todo', status: 'in_progress' },
+      ],
+    },
+    {
+      name: 'Slack メンション (DM 以外)',
+      when: { source: 'slack', isDm: false },
+      actions: [{ type: 'create-todo' }],
+    },
+  ],
+};
+
+function formatAction(action: AutoTodoAction): string {
+  switch (action.type) {
+    case 'create-todo':
+      return action.status ? `create-todo(${action.status})` : 'create-todo';
+    case 'tag':
+      return `tag(${action.tag})`;
+    default:
+      return action.type;
+  }
+}
+
+function eventLine(event: AutoTodoEvent): string {
+  const source = event.source === 'backlog' ? 'Backlog' : 'Slack';
+  const time = event.receivedAt.toLocaleString('ja-JP');
+  return `[${source}] ${event.label.replace(/\|/g, '\\|')} — ${time}`;
+}
+
+export function registerAutoTodoCommands(c: ServiceContainer): vscode.Disposable[] {
+  return [
+    vscode.commands.registerCommand('workspace.editAutoTodoRules', async () => {
+      const rulesPath = c.fileStore.getAutoTodoRulesPath();
+      if (!rulesPath) {
+        vscode.window.showWarningMessage('[Nulab] ワークスペースを開いてください。');
+        return;
+      }
+      if (!fs.existsSync(rulesPath)) {
+        c.fileStore.saveAutoTodoRules(SAMPLE_RULES);
+        vscode.window.showInformationMessage(
+          '[Nulab] サンプルの自動 TODO ルールを作成しました。ルールは上から順に評価されます。'
+        );
+      }
+      await vscode.window.showTextDocument(vscode.Uri.file(rulesPath));
+    }),
+
+    // 直近の通知に対して各ルールがどれに一致するかをレポートする
+    vscode.commands.registerCommand('workspace.testAutoTodoRules', async () => {
+      const events = await vscode.window.withProgress(
+        { location: vscode.ProgressLocation.Notification, title: '[Nulab] 直近の通知を取得中...' },
+        async () => {
+          const result: AutoTodoEvent[] = [];
+          if (await c.backlogConfig.isConfigured()) {
+            try {
+              const notifications = await c.backlogApi.getNotifications({
+                count: 50,
+                order: 'desc',
+              });
+              result.push(...notifications.map((n) => c.autoTodoRules.fromBacklogNotification(n)));
+            } catch (error) {
+              c.log(`auto-todo test: Backlog: ${error}`);
+            }
+          }
+          if (await c.slackApi.isConfigured()) {
+            try {
+              const mentions = await c.slackApi.getMentions({
+                count: 20,
+                includeDMs: c.slackConfig.isIncludeDMs(),
+              });
+              result.push(...mentions.map((m) => c.autoTodoRules.fromSlackMessage(m)));
+            } catch (error) {
+              c.log(`auto-todo test: Slack: ${error}`);
+            }
+          }
+          return result;
+        }
+      );
+
+      const rulesPath = c.fileStore.getAutoTodoRulesPath();
+      const rulesFile = c.fileStore.getAutoTodoRules();
+      const rules = c.autoTodoRules.loadRules();
+      const problems = c.autoTodoRules.validateRules(rulesFile);
+      if (rulesPath && fs.existsSync(rulesPath) && !rulesFile) {
+        problems.unshift('ルールファイルを JSON として読み込めません');
+      }
+
+      const lines: string[] = [
+        '# 自動 TODO ルールテスト',
+        '',
+        `直近の通知 ${events.length} 件 (Backlog ${
+          events.filter((e) => e.source === 'backlog').length
+        } / Slack ${events.filter((e) => e.source === 'slack').length}) で評価しました。`,
+        '',
+      ];
+      for (const problem of problems) {
+        lines.push(`> ⚠ ${problem}`);
+      }
+      if (!rules) {
+        lines.push(
+          '> ルールファイルがないため、従来の設定 (nulab.backlog.autoTodoReasons / nulab.slack.autoTodoDMs) で判定しています。'
+        );
+      }
+      lines.push('');
+
+      (rules || []).forEach((rule, i) => {
+        const matched = events.filter((e) => c.autoTodoRules.matches(rule.when || {}, e));
+        lines.push(
+          `## ${i + 1}. ${rule.name}${rule.enabled === false ? ' (無効)' : ''}`,
+          '',
+          `- 条件: \`${JSON.stringify(rule.when || {})}\``,
+          `- アクション: ${(rule.actions || []).map(formatAction).join(', ') || '-'}${
+            rule.continue ? '（後続ルールも評価）' : ''
+          }`,
+          `- 一致: ${matched.length} 件`,
+          '',
+          ...matched.map((e) => `  - ${eventLine(e)}`),
+          ''
+        );
+      });
+
+      // ルールの順序・continue・skip を反映した最終結果
+      lines.push('## 最終判定', '', '| 通知 | 一致したルール | 結果 |', '| --- | --- | --- |');
+      for (const event of events) {
+        const decision = c.autoTodoRules.evaluate(event, rules);
+        const outcome = [
+          decision.createTodo ? `TODO 作成${decision.status ? ` (${decision.status})` : ''}` : '-',
+          ...decision.tags.map((tag) => `#${tag}`),
+          ...(decision.markRead ? ['既読化'] : []),
+        ].join(' ');
+        lines.push(
+          `| ${eventLine(event)} | ${decision.matchedRules.join(', ') || '-'} | ${outcome} |`
+        );
+      }
+
+      const doc = await vscode.workspace.openTextDocument({
+        content: lines.join('\n'),
+        language: 'markdown',
+      });
+      await vscode.window.showTextDocument(doc, { preview: true });
+    }),
+  ];
+}
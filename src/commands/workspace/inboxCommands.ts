@@ -0,0 +1,210 @@
+import * as vscode from 'vscode';
+import { ServiceContainer } from '../../container';
+import { InboxEntry, InboxItem } from '../../providers/inboxTreeViewProvider';
+import {
+  NotificationsTreeViewProvider,
+  pullRequestTarget,
+} from '../../providers/notificationsTreeViewProvider';
+import { DocumentItem } from '../../providers/googleCalendarTreeViewProvider';
+import { addTodoFromNotification, pickSnoozeUntil } from './notificationCommands';
+
+/**
+ * 右クリック・キー操作の対象。複数選択に含まれていれば選択全体、
+ * キーバインドから引数なしで呼ばれた場合はツリーの選択を使う。
+ */
+function collectEntries(
+  treeView: vscode.TreeView<any>,
+  item: unknown,
+  selected: unknown[] | undefined
+): InboxEntry[] {
+  const nodes: unknown[] =
+    item && selected?.includes(item) ? selected : item ? [item] : [...treeView.selection];
+  return nodes.filter((n): n is InboxItem => n instanceof InboxItem).map((n) => n.entry);
+}
+
+export function registerInboxCommands(
+  c: ServiceContainer,
+  treeView: vscode.TreeView<any>
+): vscode.Disposable[] {
+  const markRead = async (entries: InboxEntry[]) => {
+    const ids: number[] = [];
+    const dismissed: string[] = [];
+    for (const entry of entries) {
+      if (entry.source === 'backlog') {
+        ids.push(...entry.notifications.filter((n) => !n.alreadyRead).map((n) => n.id));
+      } else if (entry.source === 'slack') {
+        for (const m of entry.messages) {
+          c.slackProvider.markAsRead(m.channel, m.ts);
+          c.slackSearchProvider.markAsRead(m.channel, m.ts);
+        }
+      } else {
+        dismissed.push(entry.key);
+      }
+    }
+    if (dismissed.length > 0) {
+      c.inboxProvider.dismiss(dismissed);
+    }
+    if (ids.length === 1) {
+      await c.notificationsProvider.markAsRead(ids[0]);
+    } else if (ids.length > 1) {
+      await c.notificationsProvider.markManyAsRead(ids);
+    }
+  };
+
+  return [
+    vscode.commands.registerCommand('workspace.refreshInbox', () => {
+      c.notificationsProvider.refresh();
+      vscode.commands.executeCommand('workspace.refreshSlack');
+      c.inboxProvider.refresh();
+    }),
+
+    vscode.commands.registerCommand('workspace.openInboxItem', async (item?: InboxItem) => {
+      const [entry] = collectEntries(treeView, item, undefined);
+      if (!entry) {
+        return;
+      }
+
+      if (entry.source === 'backlog') {
+        const n = entry.notifications[0];
+        const prTarget = pullRequestTarget(n);
+        if (prTarget) {
+          vscode.commands.executeCommand('nulab.openPullRequest', ...prTarget);
+        } else if (n.issue) {
+          vscode.commands.executeCommand('nulab.openIssue', n.issue);
+        }
+        await markRead([entry]);
+        return;
+      }
+
+      if (entry.source === 'slack') {
+        const m = entry.messages[0];
+        await markRead([entry]);
+        await vscode.commands.executeCommand(
+          'workspace.openSlackThread',
+          m.channel,
+          m.thread_ts || m.ts,
+          `Thread: ${m.userName || m.user || 'Unknown'}`
+        );
+        return;
+      }
+
+      // 予定: 資料が 1 つならそのまま開き、複数なら予定の詳細と合わせて選ばせる
+      let file = entry.documents.length === 1 ? entry.documents[0] : undefined;
+      if (!file) {
+        const pick = await vscode.window.showQuickPick(
+          [
+            { label: '$(calendar) 予定の詳細', file: undefined },
+            ...entry.documents.map((d) => ({ label: `$(file) ${d.name}`, file: d })),
+          ],
+          { placeHolder: entry.event.summary || '(No title)' }
+        );
+        if (!pick) {
+          return;
+        }
+        file = pick.file;
+      }
+      if (file) {
+        await vscode.commands.executeCommand('nulab.google.openMeetingNotes', file, entry.event);
+      } else {
+        await vscode.commands.executeCommand('nulab.google.openEventDetail', entry.event);
+      }
+      await markRead([entry]);
+    }),
+
+    vscode.commands.registerCommand(
+      'workspace.inboxToTodo',
+      async (item?: InboxItem, selected?: InboxItem[]) => {
+        const entries = collectEntries(treeView, item, selected).filter(
+          (e) => !c.inboxProvider.hasTodo(e)
+        );
+        if (entries.length === 0) {
+          return;
+        }
+
+        let added = 0;
+        await vscode.window.withProgress(
+          {
+            location: vscode.ProgressLocation.Notification,
+            title: `[Nulab] ${entries.length}件を TODO に追加中...`,
+          },
+          async () => {
+            for (const entry of entries) {
+              if (entry.source === 'backlog') {
+                const n = entry.notifications[0];
+                await addTodoFromNotification(
+                  c,
+                  n,
+                  NotificationsTreeViewProvider.getNotificationSummary(n)
+                );
+                added++;
+              } else if (entry.source === 'slack') {
+                // workspace.addTodoFromSlack は完了メッセージも出すので 1 件ずつ数えない
+                await vscode.commands.executeCommand('workspace.addTodoFromSlack', {
+                  message: entry.messages[0],
+                });
+              } else {
+                await vscode.commands.executeCommand(
+                  'nulab.google.addToTodo',
+                  new DocumentItem(entry.documents[0], entry.event)
+                );
+              }
+            }
+          }
+        );
+        if (added > 0) {
+          c.notificationsProvider.setTodoIssueKeys(c.todoProvider.getTodoIssueKeys());
+          vscode.window.showInformationMessage(`[Nulab] ${added}件を TODO に追加しました`);
+        }
+      }
+    ),
+
+    vscode.commands.registerCommand(
+      'workspace.markInboxItemRead',
+      async (item?: InboxItem, selected?: InboxItem[]) => {
+        await markRead(collectEntries(treeView, item, selected).filter((e) => e.unread));
+      }
+    ),
+
+    vscode.commands.registerCommand(
+      'workspace.snoozeInboxItem',
+      async (item?: InboxItem, selected?: InboxItem[]) => {
+        const entries = collectEntries(treeView, item, selected);
+        if (entries.length === 0) {
+          return;
+        }
+        const until = await pickSnoozeUntil();
+        if (!until) {
+          return;
+        }
+        // Backlog 通知は Notifications ビューのスヌーズと共有する
+        const ids = entries.flatMap((e) =>
+          e.source === 'backlog' ? e.notifications.map((n) => n.id) : []
+        );
+        if (ids.length > 0) {
+          c.notificationsProvider.snooze(ids, until);
+        }
+        const keys = entries.filter((e) => e.source !== 'backlog').map((e) => e.key);
+        if (keys.length > 0) {
+          c.inboxProvider.snooze(keys, until);
+        }
+      }
+    ),
+
+    vscode.commands.registerCommand(
+      'workspace.unsnoozeInboxItem',
+      (item?: InboxItem, selected?: InboxItem[]) => {
+        const entries = collectEntries(treeView, item, selected);
+        const ids = entries.flatMap((e) =>
+          e.source === 'backlog' ? e.notifications.map((n) => n.id) : []
+        );
+        if (ids.length > 0) {
+          c.notificationsProvider.unsnooze(ids);
+        }
+        const keys = entries.filter((e) => e.source !== 'backlog').map((e) => e.key);
+        if (keys.length > 0) {
+          c.inboxProvider.unsnooze(keys);
+        }
+      }
+    ),
+  ];
+}
@@ -1,10 +1,94 @@
 import * as vscode from 'vscode';
-import { NotificationTreeItem } from '../../providers/notificationsTreeViewProvider';
-import { NOTIFICATION_REASONS, TodoContext } from '../../types/workspace';
+import {
+  NotificationGroupItem,
+  NotificationTreeItem,
+  NotificationsTreeViewProvider,
+} from '../../providers/notificationsTreeViewProvider';
+import { NOTIFICATION_REASONS, NotificationGroupBy, TodoContext } from '../../types/workspace';
 import { ServiceContainer } from '../../container';
 
 const TITLE_BASE = 'Backlog: Notifications';
 
+type NotificationNode = NotificationTreeItem | NotificationGroupItem;
+type BacklogNotification = NotificationTreeItem['notification'];
+
+/**
+ * 右クリックした項目が複数選択に含まれていれば選択全体、そうでなければその項目だけを対象にする。
+ * グループは中の通知に展開し、重複は除く。
+ */
+function collectNotifications(
+  item: NotificationNode | undefined,
+  selected: NotificationNode[] | undefined
+): BacklogNotification[] {
+  const nodes = item && selected?.includes(item) ? selected : item ? [item] : [];
+  const byId = new Map<number, BacklogNotification>();
+  for (const node of nodes) {
+    const notifications =
+      node instanceof NotificationTreeItem
+        ? [node.notification]
+        : node instanceof NotificationGroupItem
+        ? node.notifications
+        : [];
+    for (const n of notifications) {
+      byId.set(n.id, n);
+    }
+  }
+  return [...byId.values()];
+}
+
+/** 通知 1 件から TODO を作り、課題の詳細を取得する */
+export async function addTodoFromNotification(
+  c: ServiceContainer,
+  n: BacklogNotification,
+  text: string
+): Promise<void> {
+  const context: TodoContext = {
+    source: 'backlog-notification',
+    issueKey: n.issue?.issueKey,
+    issueId: n.issue?.id,
+    issueSummary: n.issue?.summary,
+    notificationId: n.id,
+    commentId: n.comment?.id,
+    sender: n.sender?.name,
+    senderId: n.sender?.id,
+    senderUserId: n.sender?.userId,
+    reason: NOTIFICATION_REASONS[n.reason] || `reason:${n.reason}`,
+    comment: n.comment?.content,
+  };
+  const todo = c.todoProvider.addTodo(text, context);
+
+  // Fetch full issue context from Backlog API
+  if (n.issue?.issueKey) {
+    try {
+      await c.todoPersistence.startBacklogSession(todo);
+    } catch (e) {
+      c.log(`notificationToTodo: failed to fetch context: ${e}`);
+    }
+  }
+}
+
+export async function pickSnoozeUntil(): Promise<Date | undefined> {
+  const now = new Date();
+  const tomorrow = new Date(now.getFullYear(), now.getMonth(), now.getDate() + 1, 9, 0);
+  const nextMonday = new Date(
+    now.getFullYear(),
+    now.getMonth(),
+    now.getDate() + ((8 - now.getDay()) % 7 || 7),
+    9,
+    0
+  );
+  const pick = await vscode.window.showQuickPick(
+    [
+      { label: '1時間', until: new Date(now.getTime() + 60 * 60 * 1000) },
+      { label: '3時間', until: new Date(now.getTime() + 3 * 60 * 60 * 1000) },
+      { label: '明日 9:00', until: tomorrow },
+      { label: '来週月曜 9:00', until: nextMonday },
+    ].map((p) => ({ ...p, description: p.until.toLocaleString('ja-JP') })),
+    { placeHolder: 'いつまでスヌーズしますか？' }
+  );
+  return pick?.until;
+}
+
 export function registerNotificationCommands(
   c: ServiceContainer,
   treeView: vscode.TreeView<any>
@@ -24,9 +108,12 @@ export function registerNotificationCommands(
 
     vscode.commands.registerCommand(
       'workspace.markNotificationRead',
-      (item: NotificationTreeItem) => {
-        if (item instanceof NotificationTreeItem) {
-          c.notificationsProvider.markAsRead(item.notification.id);
+      async (item: NotificationNode, selected?: NotificationNode[]) => {
+        const unread = collectNotifications(item, selected).filter((n) => !n.alreadyRead);
+        if (unread.length === 1) {
+          await c.notificationsProvider.markAsRead(unread[0].id);
+        } else if (unread.length > 1) {
+          await c.notificationsProvider.markManyAsRead(unread.map((n) => n.id));
         }
       }
     ),
@@ -42,49 +129,154 @@ export function registerNotificationCommands(
 
     vscode.commands.registerCommand(
       'workspace.notificationToTodo',
-      async (item: NotificationTreeItem) => {
-        if (!(item instanceof NotificationTreeItem)) {
+      async (item: NotificationNode, selected?: NotificationNode[]) => {
+        const notifications = collectNotifications(item, selected);
+        if (notifications.length === 0) {
           return;
         }
-        const n = item.notification;
-        const text = item.todoSummary || item.label?.toString() || '';
-        const context: TodoContext = {
-          source: 'backlog-notification',
-          issueKey: n.issue?.issueKey,
-          issueId: n.issue?.id,
-          issueSummary: n.issue?.summary,
-          notificationId: n.id,
-          commentId: n.comment?.id,
-          sender: n.sender?.name,
-          senderId: n.sender?.id,
-          senderUserId: n.sender?.userId,
-          reason: NOTIFICATION_REASONS[n.reason] || `reason:${n.reason}`,
-          comment: n.comment?.content,
-        };
-        const todo = c.todoProvider.addTodo(text, context);
-
-        // Fetch full issue context from Backlog API
-        if (n.issue?.issueKey) {
-          await vscode.window.withProgress(
-            {
-              location: vscode.ProgressLocation.Notification,
-              title: `[Nulab] ${n.issue.issueKey} の課題情報を取得中...`,
-            },
-            async () => {
-              try {
-                await c.todoPersistence.startBacklogSession(todo);
-              } catch (e) {
-                c.log(`notificationToTodo: failed to fetch context: ${e}`);
-              }
+
+        if (notifications.length === 1 && item instanceof NotificationTreeItem) {
+          const n = notifications[0];
+          const text = item.todoSummary || item.label?.toString() || '';
+          if (n.issue?.issueKey) {
+            await vscode.window.withProgress(
+              {
+                location: vscode.ProgressLocation.Notification,
+                title: `[Nulab] ${n.issue.issueKey} の課題情報を取得中...`,
+              },
+              () => addTodoFromNotification(c, n, text)
+            );
+          } else {
+            await addTodoFromNotification(c, n, text);
+          }
+          // Sync TODO state to notifications tree
+          c.notificationsProvider.setTodoIssueKeys(c.todoProvider.getTodoIssueKeys());
+          vscode.window.showInformationMessage('[Nulab] TODO に追加しました');
+          return;
+        }
+
+        // 一括: 同じ課題の通知は新しい 1 件だけ、TODO がある課題は除く
+        const existing = c.todoProvider.getTodoIssueKeys();
+        const seen = new Set<string>();
+        const targets = notifications.filter((n) => {
+          const key = n.issue?.issueKey;
+          if (!key) {
+            return true;
+          }
+          if (existing.has(key) || seen.has(key)) {
+            return false;
+          }
+          seen.add(key);
+          return true;
+        });
+        if (targets.length === 0) {
+          vscode.window.showInformationMessage('[Nulab] 選択した通知の TODO は既にあります。');
+          return;
+        }
+        await vscode.window.withProgress(
+          {
+            location: vscode.ProgressLocation.Notification,
+            title: `[Nulab] ${targets.length}件の通知を TODO に追加中...`,
+          },
+          async () => {
+            for (const n of targets) {
+              await addTodoFromNotification(
+                c,
+                n,
+                NotificationsTreeViewProvider.getNotificationSummary(n)
+              );
             }
+          }
+        );
+        c.notificationsProvider.setTodoIssueKeys(c.todoProvider.getTodoIssueKeys());
+        vscode.window.showInformationMessage(`[Nulab] ${targets.length}件を TODO に追加しました`);
+      }
+    ),
+
+    vscode.commands.registerCommand(
+      'workspace.snoozeNotification',
+      async (item: NotificationNode, selected?: NotificationNode[]) => {
+        const notifications = collectNotifications(item, selected);
+        if (notifications.length === 0) {
+          return;
+        }
+        const until = await pickSnoozeUntil();
+        if (until) {
+          c.notificationsProvider.snooze(
+            notifications.map((n) => n.id),
+            until
           );
         }
+      }
+    ),
 
-        // Sync TODO state to notifications tree
-        c.notificationsProvider.setTodoIssueKeys(c.todoProvider.getTodoIssueKeys());
+    vscode.commands.registerCommand(
+      'workspace.unsnoozeNotification',
+      (item: NotificationNode, selected?: NotificationNode[]) => {
+        const notifications = collectNotifications(item, selected);
+        c.notificationsProvider.unsnooze(notifications.map((n) => n.id));
+      }
+    ),
 
-        vscode.window.showInformationMessage('[Nulab] TODO に追加しました');
+    vscode.commands.registerCommand(
+      'workspace.muteNotificationIssue',
+      async (item: NotificationNode) => {
+        const issueKey =
+          item instanceof NotificationGroupItem
+            ? item.issueKey
+            : item instanceof NotificationTreeItem
+            ? item.notification.issue?.issueKey
+            : undefined;
+        if (!issueKey) {
+          return;
+        }
+        await c.notificationsProvider.muteIssue(issueKey);
+        vscode.window.showInformationMessage(
+          `[Nulab] ${issueKey} をミュートしました。今後の通知は自動で既読になります。`
+        );
+      }
+    ),
+
+    vscode.commands.registerCommand(
+      'workspace.unmuteNotificationIssue',
+      async (item?: NotificationNode) => {
+        let issueKey =
+          item instanceof NotificationGroupItem
+            ? item.issueKey
+            : item instanceof NotificationTreeItem
+            ? item.notification.issue?.issueKey
+            : undefined;
+        // コマンドパレットから呼ばれた場合はミュート中の課題から選ぶ
+        if (!item) {
+          const muted = c.notificationsProvider.getMutedIssues();
+          if (muted.length === 0) {
+            vscode.window.showInformationMessage('[Nulab] ミュート中の課題はありません。');
+            return;
+          }
+          issueKey = await vscode.window.showQuickPick(muted, {
+            placeHolder: 'ミュートを解除する課題を選択',
+          });
+        }
+        if (issueKey) {
+          c.notificationsProvider.unmuteIssue(issueKey);
+        }
       }
     ),
+
+    vscode.commands.registerCommand('workspace.setNotificationGrouping', async () => {
+      const current = c.notificationsProvider.getGroupBy();
+      const options: NotificationGroupBy[] = ['none', 'issue', 'project', 'reason'];
+      const pick = await vscode.window.showQuickPick(
+        options.map((groupBy) => ({
+          label: NotificationsTreeViewProvider.getGroupByLabel(groupBy),
+          description: groupBy === current ? '(現在)' : undefined,
+          groupBy,
+        })),
+        { placeHolder: '通知のグループ化' }
+      );
+      if (pick) {
+        c.notificationsProvider.setGroupBy(pick.groupBy);
+      }
+    }),
   ];
 }
@@ -0,0 +1,67 @@
+import * as vscode from 'vscode';
+import { SlackChannelItem } from '../../providers/slackChannelsTreeViewProvider';
+import { ServiceContainer } from '../../container';
+import { openSlackChannelPanel, refreshSlackChannelPanel } from './slackChannelPanel';
+
+export function registerSlackChannelCommands(c: ServiceContainer): vscode.Disposable[] {
+  return [
+    vscode.commands.registerCommand('workspace.refreshSlackChannels', async () => {
+      c.slackChannelsProvider.refresh();
+      await c.slackChannelsProvider.fetchAndRefresh();
+    }),
+
+    vscode.commands.registerCommand(
+      'workspace.openSlackChannel',
+      async (target: string | SlackChannelItem) => {
+        const id = typeof target === 'string' ? target : target?.channel.id;
+        const channel = id ? c.slackChannelsProvider.getChannel(id) : undefined;
+        if (!channel) {
+          vscode.window.showWarningMessage('[Nulab] チャンネルが見つかりません。');
+          return;
+        }
+        await openSlackChannelPanel(c, channel);
+      }
+    ),
+
+    // Socket Mode の受信時に extension.ts から呼ばれる
+    vscode.commands.registerCommand('workspace.refreshSlackChannel', (channelId: string) =>
+      refreshSlackChannelPanel(channelId)
+    ),
+
+    vscode.commands.registerCommand(
+      'workspace.markSlackChannelRead',
+      async (item: SlackChannelItem) => {
+        if (!item?.channel) {
+          return;
+        }
+        try {
+          const latest = await c.slackApi.getChannelHistory(item.channel.id, { limit: 1 });
+          const newest = latest.messages[latest.messages.length - 1];
+          if (newest) {
+            await c.slackApi.markRead(item.channel.id, newest.ts);
+          }
+          c.slackChannelsProvider.markRead(item.channel.id);
+        } catch (error) {
+          vscode.window.showErrorMessage(`[Nulab] 既読にできませんでした: ${error}`);
+        }
+      }
+    ),
+
+    vscode.commands.registerCommand(
+      'workspace.toggleSlackFavoriteChannel',
+      (item: SlackChannelItem) => {
+        if (!item?.channel) {
+          return;
+        }
+        const current = c.slackConfig.getFavoriteChannels();
+        const exists = current.some((ch) => ch.id === item.channel.id);
+        const updated = exists
+          ? current.filter((ch) => ch.id !== item.channel.id)
+          : [...current, { id: item.channel.id, name: item.channel.name }];
+        c.slackConfig.setFavoriteChannels(updated);
+        c.slackPostProvider.sendChannels();
+        c.slackChannelsProvider.favoritesChanged();
+      }
+    ),
+  ];
+}
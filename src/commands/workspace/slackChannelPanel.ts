@@ -0,0 +1,169 @@
+import * as vscode from 'vscode';
+import { ServiceContainer } from '../../container';
+import { SlackChannel, SlackMessage } from '../../types/workspace';
+import { SlackChannelWebview } from '../../webviews/slackChannelWebview';
+
+/** channelId → 新着取得関数（Socket Mode の受信時に呼ぶ） */
+const refreshers = new Map<string, () => Promise<void>>();
+
+/**
+ * 開いているチャンネルパネルに新着を追加する。パネルが無ければ false。
+ */
+export async function refreshSlackChannelPanel(channelId: string): Promise<boolean> {
+  const refresh = refreshers.get(channelId);
+  if (!refresh) {
+    return false;
+  }
+  await refresh();
+  return true;
+}
+
+/**
+ * チャンネル履歴パネルを開く。表示している間は既読にする。
+ */
+export async function openSlackChannelPanel(
+  c: ServiceContainer,
+  channel: SlackChannel
+): Promise<void> {
+  const { panel, isNew } = c.slackChannelPanels.revealOrCreate(channel.id, () =>
+    vscode.window.createWebviewPanel(
+      'slackChannel',
+      channel.is_im || channel.is_mpim ? channel.name : `#${channel.name}`,
+      vscode.ViewColumn.One,
+      {
+        enableScripts: true,
+        retainContextWhenHidden: true,
+        localResourceRoots: [c.context.extensionUri],
+      }
+    )
+  );
+  if (!isNew) {
+    return;
+  }
+
+  let olderCursor: string | undefined;
+  let newestTs: string | undefined;
+
+  const markRead = async () => {
+    if (!newestTs || !panel.visible) {
+      return;
+    }
+    try {
+      await c.slackApi.markRead(channel.id, newestTs);
+      c.slackChannelsProvider.markRead(channel.id);
+    } catch (error) {
+      c.log(`slack mark read failed: ${error}`);
+    }
+  };
+
+  const load = async () => {
+    panel.webview.html = '<html><body><p>Loading...</p></body></html>';
+    try {
+      await c.slackApi.getCustomEmoji();
+      const page = await c.slackApi.getChannelHistory(channel.id);
+      olderCursor = page.nextCursor;
+      newestTs = page.messages[page.messages.length - 1]?.ts;
+      const permalink = newestTs ? await c.slackApi.getPermalink(channel.id, newestTs) : null;
+      panel.webview.html = SlackChannelWebview.getWebviewContent(
+        panel.webview,
+        c.context.extensionUri,
+        channel,
+        page.messages,
+        !!olderCursor,
+        permalink
+      );
+    } catch (error) {
+      const errMsg = error instanceof Error ? error.message : String(error);
+      panel.webview.html = `<html><body><p style="color:red;white-space:pre-wrap;">${errMsg}</p></body></html>`;
+      vscode.window.showErrorMessage(`[Nulab] チャンネル履歴の取得に失敗: ${errMsg}`);
+      return;
+    }
+    await markRead();
+  };
+
+  const fetchNewer = async () => {
+    if (!newestTs) {
+      await load();
+      return;
+    }
+    const newer: SlackMessage[] = [];
+    try {
+      // oldest を指定しても新しい順にページが返るので、続きのページ（より古い側）は前に足す
+      let cursor: string | undefined;
+      do {
+        const page = await c.slackApi.getChannelHistory(channel.id, {
+          oldest: newestTs,
+          cursor,
+          limit: 200,
+        });
+        newer.unshift(...page.messages);
+        cursor = page.nextCursor;
+      } while (cursor);
+    } catch (error) {
+      c.log(`slack channel refresh failed: ${error}`);
+      return;
+    }
+    if (newer.length === 0) {
+      return;
+    }
+    newestTs = newer[newer.length - 1].ts;
+    panel.webview.postMessage({ type: 'append', html: SlackChannelWebview.renderMessages(newer) });
+    await markRead();
+  };
+
+  refreshers.set(channel.id, fetchNewer);
+  panel.onDidDispose(() => refreshers.delete(channel.id));
+  panel.onDidChangeViewState((e) => {
+    if (e.webviewPanel.visible) {
+      fetchNewer();
+    }
+  });
+
+  panel.webview.onDidReceiveMessage(
+    async (message) => {
+      switch (message.command) {
+        case 'loadOlder':
+          if (!olderCursor) {
+            panel.webview.postMessage({ type: 'prepend', html: '', hasMore: false });
+            break;
+          }
+          try {
+            const page = await c.slackApi.getChannelHistory(channel.id, { cursor: olderCursor });
+            olderCursor = page.nextCursor;
+            panel.webview.postMessage({
+              type: 'prepend',
+              html: SlackChannelWebview.renderMessages(page.messages),
+              hasMore: !!olderCursor,
+            });
+          } catch (error) {
+            c.log(`slack channel history failed: ${error}`);
+            panel.webview.postMessage({ type: 'loadFailed' });
+          }
+          break;
+
+        case 'openThread':
+          vscode.commands.executeCommand(
+            'workspace.openSlackThread',
+            channel.id,
+            message.ts,
+            `Thread: ${message.sender || channel.name}`
+          );
+          break;
+
+        case 'reload':
+          await load();
+          break;
+
+        case 'openExternal':
+          if (message.url) {
+            vscode.env.openExternal(vscode.Uri.parse(message.url));
+          }
+          break;
+      }
+    },
+    undefined,
+    c.context.subscriptions
+  );
+
+  await load();
+}
@@ -1,8 +1,8 @@
 import * as vscode from 'vscode';
 import { SlackMentionItem } from '../../providers/slackTreeViewProvider';
 import { SlackMessage, TodoContext } from '../../types/workspace';
-import { SlackThreadWebview } from '../../webviews/slackThreadWebview';
 import { ServiceContainer } from '../../container';
+import { openSlackThreadPanel, refreshSlackThreadPanel } from './slackThreadPanel';
 
 const SLACK_TITLE = 'Slack: Notifications';
 const SEARCH_TITLE = 'Slack: Search';
@@ -43,6 +43,7 @@ export function registerSlackCommands(
           vscode.commands.executeCommand('setContext', 'nulab.slack.configured', true);
           await c.slackProvider.fetchAndRefresh();
           await c.slackSearchProvider.fetchAndRefresh();
+          c.slackChannelsProvider.fetchAndRefresh();
           const typeLabel = testResult.tokenType === 'bot' ? ' (Bot token — 通知の取得不可)' : '';
           vscode.window.showInformationMessage(
             `[Nulab] Slack 接続成功: ${testResult.user} @ ${testResult.team}${typeLabel}`
@@ -55,6 +56,40 @@ export function registerSlackCommands(
       }
     }),
 
+    vscode.commands.registerCommand('workspace.setSlackAppToken', async () => {
+      const token = await vscode.window.showInputBox({
+        prompt: 'Socket Mode 用の Slack App-Level Token (xapp-...) を入力',
+        password: true,
+        ignoreFocusOut: true,
+        validateInput: (value) => {
+          if (value && !value.startsWith('xapp-')) {
+            return 'App-Level Token は xapp- で始まる必要があります (connections:write スコープ)';
+          }
+          return null;
+        },
+      });
+      if (!token) {
+        return;
+      }
+      await c.slackConfig.setAppToken(token);
+      if (!c.slackConfig.isSocketModeEnabled()) {
+        const action = await vscode.window.showInformationMessage(
+          '[Nulab] App-Level Token を保存しました。Socket Mode を有効にしますか？',
+          '有効にする'
+        );
+        if (action === '有効にする') {
+          // 設定変更のリスナーが接続を開始する
+          await vscode.workspace
+            .getConfiguration('nulab')
+            .update('slack.socketMode', true, vscode.ConfigurationTarget.Global);
+        }
+        return;
+      }
+      c.slackSocket.stop();
+      await c.slackSocket.start();
+      vscode.window.showInformationMessage('[Nulab] Slack Socket Mode に再接続しています...');
+    }),
+
     vscode.commands.registerCommand('workspace.refreshSlack', async () => {
       c.slackProvider.refresh();
       await c.slackProvider.fetchAndRefresh();
@@ -100,126 +135,16 @@ export function registerSlackCommands(
         c.slackProvider.markAsRead(channel, threadTs);
         c.slackSearchProvider.markAsRead(channel, threadTs);
 
-        const panelKey = `${channel}-${threadTs}`;
-        const existing = c.slackThreadPanels.get(panelKey);
-        if (existing) {
-          existing.reveal(vscode.ViewColumn.One);
-          return;
-        }
-
-        const panel = vscode.window.createWebviewPanel(
-          'slackThread',
-          title || 'Slack Thread',
-          vscode.ViewColumn.One,
-          {
-            enableScripts: true,
-            retainContextWhenHidden: true,
-            localResourceRoots: [c.context.extensionUri],
-          }
-        );
-
-        c.slackThreadPanels.set(panelKey, panel);
-
-        try {
-          panel.webview.html = '<html><body><p>Loading...</p></body></html>';
-
-          const [messages, channelContext, slackPermalink] = await Promise.all([
-            c.slackApi.getThreadMessages(channel, threadTs),
-            c.slackApi.getChannelContext(channel, threadTs, 3),
-            c.slackApi.getPermalink(channel, threadTs),
-          ]);
-
-          panel.webview.html = SlackThreadWebview.getWebviewContent(
-            panel.webview,
-            c.context.extensionUri,
-            messages,
-            title || 'Thread',
-            slackPermalink,
-            channelContext.before,
-            channelContext.after
-          );
-
-          panel.webview.onDidReceiveMessage(
-            async (message) => {
-              if (message.command === 'reply' && message.text) {
-                try {
-                  await c.slackApi.postReply(channel, threadTs, message.text);
-                  c.todoProvider.markRepliedBySlack(channel, threadTs);
-                  const updated = await c.slackApi.getThreadMessages(channel, threadTs);
-                  panel.webview.html = SlackThreadWebview.getWebviewContent(
-                    panel.webview,
-                    c.context.extensionUri,
-                    updated,
-                    title || 'Thread',
-                    slackPermalink,
-                    channelContext.before,
-                    channelContext.after
-                  );
-                } catch (error) {
-                  vscode.window.showErrorMessage(`[Nulab] 返信の送信に失敗しました: ${error}`);
-                }
-              }
-              if (message.command === 'openExternal' && message.url) {
-                vscode.env.openExternal(vscode.Uri.parse(message.url));
-              }
-              if (message.command === 'addReaction') {
-                try {
-                  await c.slackApi.addReaction(message.channel, message.timestamp, message.name);
-                  // Refresh the thread to show the new reaction
-                  const updated = await c.slackApi.getThreadMessages(channel, threadTs);
-                  panel.webview.html = SlackThreadWebview.getWebviewContent(
-                    panel.webview,
-                    c.context.extensionUri,
-                    updated,
-                    title || 'Thread',
-                    slackPermalink,
-                    channelContext.before,
-                    channelContext.after
-                  );
-                } catch (error) {
-                  const errMsg = error instanceof Error ? error.message : String(error);
-                  if (errMsg.includes('already_reacted')) {
-                    vscode.window.showInformationMessage('[Nulab] 既にリアクション済みです');
-                  } else {
-                    vscode.window.showErrorMessage(
-                      `[Nulab] リアクションの追加に失敗しました: ${errMsg}`
-                    );
-                  }
-                }
-              }
-              if (message.command === 'addToTodo') {
-                const parentMsg = messages[0];
-                const sender = parentMsg?.userName || parentMsg?.user || 'Unknown';
-                const preview = (parentMsg?.text || '').substring(0, 100);
-                const text = `[Slack] ${sender}: ${preview}`;
-                c.todoProvider.addTodo(text, {
-                  source: 'slack-mention',
-                  slackChannel: channel,
-                  slackThreadTs: threadTs,
-                  slackMessageTs: parentMsg?.ts,
-                  slackUserName: sender,
-                  slackText: parentMsg?.text?.substring(0, 500),
-                });
-
-                // Sync TODO keys to Slack tree views
-                const keys = c.todoProvider.getTodoSlackKeys();
-                c.slackProvider.setTodoKeys(keys);
-                c.slackSearchProvider.setTodoKeys(keys);
-
-                vscode.window.showInformationMessage('[Nulab] TODO に追加しました');
-              }
-            },
-            undefined,
-            c.context.subscriptions
-          );
-        } catch (error) {
-          const errMsg = error instanceof Error ? error.message : String(error);
-          panel.webview.html = `<html><body><p style="color:red;white-space:pre-wrap;">${errMsg}</p></body></html>`;
-          vscode.window.showErrorMessage(`[Nulab] スレッド取得に失敗: ${errMsg}`);
-        }
+        await openSlackThreadPanel(c, channel, threadTs, title);
       }
     ),
 
+    // Socket Mode でスレッドの更新を受信したときに呼ばれる
+    vscode.commands.registerCommand(
+      'workspace.refreshSlackThread',
+      (channel: string, threadTs: string) => refreshSlackThreadPanel(channel, threadTs)
+    ),
+
     vscode.commands.registerCommand('workspace.openInSlack', async (item: SlackMentionItem) => {
       if (!(item instanceof SlackMentionItem)) {
         return;
@@ -381,6 +306,7 @@ export function registerSlackCommands(
         const updated = [...current, ...picked.map((p) => p.channel)];
         c.slackConfig.setFavoriteChannels(updated);
         c.slackPostProvider.sendChannels();
+        c.slackChannelsProvider.favoritesChanged();
         vscode.window.showInformationMessage(
           `[Nulab] ${picked.length}件のチャンネルを追加しました。`
         );
@@ -396,6 +322,7 @@ export function registerSlackCommands(
         const updated = current.filter((ch) => !removeIds.has(ch.id));
         c.slackConfig.setFavoriteChannels(updated);
         c.slackPostProvider.sendChannels();
+        c.slackChannelsProvider.favoritesChanged();
         vscode.window.showInformationMessage(
           `[Nulab] ${toRemove.length}件のチャンネルを削除しました。`
         );
@@ -0,0 +1,293 @@
+import * as vscode from 'vscode';
+import { ServiceContainer } from '../../container';
+import { SlackMessage } from '../../types/workspace';
+import { SlackThreadWebview } from '../../webviews/slackThreadWebview';
+
+/** 表示中のスレッドを再取得する間隔 */
+const REFRESH_INTERVAL_MS = 30_000;
+
+/** panelKey → 再取得関数（Socket Mode の受信時に呼ぶ） */
+const refreshers = new Map<string, () => Promise<void>>();
+
+function panelKeyOf(channel: string, threadTs: string): string {
+  return `${channel}-${threadTs}`;
+}
+
+/** 差分判定用。本文・編集状態・リアクション・bot による blocks の更新があれば再描画する */
+function signature(m: SlackMessage): string {
+  return JSON.stringify([
+    m.text,
+    m.edited,
+    m.reactions,
+    m.blocks,
+    m.attachments,
+    m.files?.map((f) => f.id),
+  ]);
+}
+
+/**
+ * 開いているスレッドパネルを再取得する。パネルが無ければ false。
+ */
+export async function refreshSlackThreadPanel(channel: string, threadTs: string): Promise<boolean> {
+  const refresh = refreshers.get(panelKeyOf(channel, threadTs));
+  if (!refresh) {
+    return false;
+  }
+  await refresh();
+  return true;
+}
+
+/**
+ * スレッドパネルを開く。初回のみ HTML 全体を描画し、以降は postMessage で差分を送る。
+ */
+export async function openSlackThreadPanel(
+  c: ServiceContainer,
+  channel: string,
+  threadTs: string,
+  title: string
+): Promise<void> {
+  const panelKey = panelKeyOf(channel, threadTs);
+  const existing = c.slackThreadPanels.get(panelKey);
+  if (existing) {
+    existing.reveal(vscode.ViewColumn.One);
+    return;
+  }
+
+  const panel = vscode.window.createWebviewPanel(
+    'slackThread',
+    title || 'Slack Thread',
+    vscode.ViewColumn.One,
+    {
+      enableScripts: true,
+      retainContextWhenHidden: true,
+      localResourceRoots: [c.context.extensionUri],
+    }
+  );
+
+  c.slackThreadPanels.set(panelKey, panel);
+
+  let messages: SlackMessage[] = [];
+  let selfUserId: string | null = null;
+
+  const refresh = async () => {
+    let latest: SlackMessage[];
+    try {
+      latest = await c.slackApi.getThreadMessages(channel, threadTs);
+    } catch (error) {
+      c.log(`slack thread refresh failed: ${error}`);
+      return;
+    }
+    const previous = new Map(messages.map((m) => [m.ts, signature(m)]));
+    const latestTs = new Set(latest.map((m) => m.ts));
+    const upserts = latest
+      .map((m, i) => ({ m, className: i === 0 ? 'thread-parent' : 'thread-reply' } as const))
+      .filter(({ m }) => previous.get(m.ts) !== signature(m))
+      .map(({ m, className }) => ({
+        ts: m.ts,
+        html: SlackThreadWebview.renderMessage(m, className, selfUserId),
+      }));
+    const removed = messages.filter((m) => !latestTs.has(m.ts)).map((m) => m.ts);
+    messages = latest;
+    if (upserts.length > 0 || removed.length > 0) {
+      panel.webview.postMessage({
+        type: 'patch',
+        upserts,
+        removed,
+        replyCount: Math.max(latest.length - 1, 0),
+      });
+    }
+  };
+
+  const timer = setInterval(() => {
+    if (panel.visible) {
+      refresh();
+    }
+  }, REFRESH_INTERVAL_MS);
+  refreshers.set(panelKey, refresh);
+  panel.onDidDispose(() => {
+    clearInterval(timer);
+    refreshers.delete(panelKey);
+  });
+  panel.onDidChangeViewState((e) => {
+    if (e.webviewPanel.visible) {
+      refresh();
+    }
+  });
+
+  try {
+    panel.webview.html = '<html><body><p>Loading...</p></body></html>';
+
+    // カスタム絵文字は描画前に読み込んでおく
+    await c.slackApi.getCustomEmoji();
+    const [initial, channelContext, slackPermalink, userId] = await Promise.all([
+      c.slackApi.getThreadMessages(channel, threadTs),
+      c.slackApi.getChannelContext(channel, threadTs, 3),
+      c.slackApi.getPermalink(channel, threadTs),
+      c.slackApi.getCurrentUserId(),
+    ]);
+    messages = initial;
+    selfUserId = userId;
+
+    panel.webview.html = SlackThreadWebview.getWebviewContent(
+      panel.webview,
+      c.context.extensionUri,
+      messages,
+      title || 'Thread',
+      slackPermalink,
+      channelContext.before,
+      channelContext.after,
+      selfUserId
+    );
+  } catch (error) {
+    const errMsg = error instanceof Error ? error.message : String(error);
+    panel.webview.html = `<html><body><p style="color:red;white-space:pre-wrap;">${errMsg}</p></body></html>`;
+    vscode.window.showErrorMessage(`[Nulab] スレッド取得に失敗: ${errMsg}`);
+    return;
+  }
+
+  panel.webview.onDidReceiveMessage(
+    async (message) => {
+      switch (message.command) {
+        case 'reply':
+          if (!message.text) {
+            break;
+          }
+          try {
+            await c.slackApi.postReply(channel, threadTs, message.text, {
+              broadcast: !!message.broadcast,
+            });
+            c.todoProvider.markRepliedBySlack(channel, threadTs);
+            panel.webview.postMessage({ type: 'replySent' });
+            await refresh();
+          } catch (error) {
+            panel.webview.postMessage({ type: 'replyFailed' });
+            vscode.window.showErrorMessage(`[Nulab] 返信の送信に失敗しました: ${error}`);
+          }
+          break;
+
+        case 'attachFile': {
+          const files = await vscode.window.showOpenDialog({
+            canSelectMany: true,
+            defaultUri: vscode.workspace.workspaceFolders?.[0]?.uri,
+            openLabel: 'スレッドに添付',
+          });
+          if (!files || files.length === 0) {
+            panel.webview.postMessage({ type: 'replyFailed' });
+            break;
+          }
+          try {
+            await vscode.window.withProgress(
+              {
+                location: vscode.ProgressLocation.Notification,
+                title: `[Nulab] ${files.length}件のファイルをアップロード中...`,
+              },
+              () =>
+                c.slackApi.uploadFiles(
+                  channel,
+                  threadTs,
+                  files.map((f) => f.fsPath),
+                  message.text || undefined
+                )
+            );
+            panel.webview.postMessage({ type: 'replySent' });
+            await refresh();
+          } catch (error) {
+            panel.webview.postMessage({ type: 'replyFailed' });
+            vscode.window.showErrorMessage(
+              `[Nulab] ファイルのアップロードに失敗しました: ${error}`
+            );
+          }
+          break;
+        }
+
+        case 'editMessage':
+          try {
+            await c.slackApi.updateMessage(channel, message.ts, message.text);
+            await refresh();
+          } catch (error) {
+            vscode.window.showErrorMessage(`[Nulab] メッセージの編集に失敗しました: ${error}`);
+          }
+          break;
+
+        case 'deleteMessage': {
+          const confirm = await vscode.window.showWarningMessage(
+            'このメッセージを削除しますか？',
+            { modal: true },
+            '削除'
+          );
+          if (confirm !== '削除') {
+            break;
+          }
+          try {
+            await c.slackApi.deleteMessage(channel, message.ts);
+            await refresh();
+          } catch (error) {
+            vscode.window.showErrorMessage(`[Nulab] メッセージの削除に失敗しました: ${error}`);
+          }
+          break;
+        }
+
+        case 'requestCompletions':
+          panel.webview.postMessage({
+            type: 'completions',
+            data: await c.slackApi.getComposerCompletions(),
+          });
+          break;
+
+        case 'openExternal':
+          if (message.url) {
+            vscode.env.openExternal(vscode.Uri.parse(message.url));
+          }
+          break;
+
+        case 'addReaction':
+          try {
+            await c.slackApi.addReaction(message.channel, message.timestamp, message.name);
+            await refresh();
+          } catch (error) {
+            const errMsg = error instanceof Error ? error.message : String(error);
+            if (errMsg.includes('already_reacted')) {
+              vscode.window.showInformationMessage('[Nulab] 既にリアクション済みです');
+            } else {
+              vscode.window.showErrorMessage(`[Nulab] リアクションの追加に失敗しました: ${errMsg}`);
+            }
+          }
+          break;
+
+        case 'removeReaction':
+          try {
+            await c.slackApi.removeReaction(message.channel, message.timestamp, message.name);
+            await refresh();
+          } catch (error) {
+            vscode.window.showErrorMessage(`[Nulab] リアクションの削除に失敗しました: ${error}`);
+          }
+          break;
+
+        case 'addToTodo': {
+          const parentMsg = messages[0];
+          const sender = parentMsg?.userName || parentMsg?.user || 'Unknown';
+          const preview = (parentMsg?.text || '').substring(0, 100);
+          const text = `[Slack] ${sender}: ${preview}`;
+          c.todoProvider.addTodo(text, {
+            source: 'slack-mention',
+            slackChannel: channel,
+            slackThreadTs: threadTs,
+            slackMessageTs: parentMsg?.ts,
+            slackUserName: sender,
+            slackText: parentMsg?.text?.substring(0, 500),
+          });
+
+          // Sync TODO keys to Slack tree views
+          const keys = c.todoProvider.getTodoSlackKeys();
+          c.slackProvider.setTodoKeys(keys);
+          c.slackSearchProvider.setTodoKeys(keys);
+
+          vscode.window.showInformationMessage('[Nulab] TODO に追加しました');
+          break;
+        }
+      }
+    },
+    undefined,
+    c.context.subscriptions
+  );
+}
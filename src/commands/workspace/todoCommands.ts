@@ -1,4 +1,5 @@
 import * as vscode from 'vscode';
+import { Entity } from 'backlog-js';
 import { TodoTreeItem } from '../../providers/todoTreeViewProvider';
 import { MyTaskTreeItem } from '../../providers/myTasksTreeViewProvider';
 import { ServiceContainer } from '../../container';
@@ -143,6 +144,24 @@ export function registerTodoCommands(
       }
     }),
 
+    vscode.commands.registerCommand('workspace.createIssueFromTodo', async (item: TodoTreeItem) => {
+      if (!(item instanceof TodoTreeItem)) {
+        return;
+      }
+      const todo = item.todo;
+      const issue = await vscode.commands.executeCommand<Entity.Issue.Issue | undefined>(
+        'nulab.createIssue',
+        {
+          projectKey: todo.context?.issueKey?.split('-')[0],
+          summary: todo.text,
+          description: todo.notes,
+        }
+      );
+      if (issue) {
+        c.todoProvider.addCreatedIssueKey(todo.id, issue.issueKey);
+      }
+    }),
+
     vscode.commands.registerCommand('workspace.replyToTodoIssue', async (item: TodoTreeItem) => {
       if (!(item instanceof TodoTreeItem)) {
         return;
@@ -0,0 +1,153 @@
+import * as vscode from 'vscode';
+import { TodoTreeItem } from '../../providers/todoTreeViewProvider';
+import { ServiceContainer } from '../../container';
+import { TodoReminder, WorkspaceTodoItem } from '../../types/workspace';
+
+export function registerTodoReminderCommands(c: ServiceContainer): vscode.Disposable[] {
+  return [
+    vscode.commands.registerCommand('workspace.setTodoReminder', async (item: TodoTreeItem) => {
+      if (!(item instanceof TodoTreeItem)) {
+        return;
+      }
+      const todo = item.todo;
+      const ctx = todo.context;
+      const threadTs = ctx?.slackThreadTs || ctx?.slackMessageTs;
+      const hasThread = !!ctx?.slackChannel && !!threadTs;
+
+      let ifNoReply = false;
+      if (hasThread) {
+        const kind = await vscode.window.showQuickPick(
+          [
+            {
+              label: '$(comment-discussion) 返信が無ければ通知',
+              description: 'スレッドに返信が無いまま期限が来たら通知します',
+              ifNoReply: true,
+            },
+            { label: '$(bell) リマインド', description: '期限に通知します', ifNoReply: false },
+          ],
+          { placeHolder: 'リマインダーの種類を選択' }
+        );
+        if (!kind) {
+          return;
+        }
+        ifNoReply = kind.ifNoReply;
+      }
+
+      const remindAt = await pickReminderTime();
+      if (!remindAt) {
+        return;
+      }
+
+      await clearSlackReminder(c, todo);
+      const reminder: TodoReminder = { remindAt: remindAt.toISOString() };
+
+      if (ifNoReply) {
+        reminder.ifNoReply = true;
+        // 設定時点のスレッドの最新より後の返信だけを数える
+        try {
+          const messages = await c.slackApi.getThreadMessages(ctx!.slackChannel!, threadTs!);
+          reminder.sinceTs = messages[messages.length - 1]?.ts;
+        } catch (error) {
+          c.log(`todo reminder: thread fetch failed: ${error}`);
+        }
+        reminder.sinceTs = reminder.sinceTs || (Date.now() / 1000).toFixed(6);
+        c.todoProvider.setReminder(todo.id, reminder);
+        if (todo.status !== 'waiting') {
+          c.todoProvider.setStatus(todo.id, 'waiting');
+        }
+      } else {
+        // Slack が使えれば Slackbot から通知させ、使えなければ VS Code で通知する
+        if (await c.slackApi.isConfigured()) {
+          try {
+            reminder.slackReminderId = await c.slackApi.addReminder(todo.text, remindAt);
+          } catch (error) {
+            c.log(`todo reminder: reminders.add failed: ${error}`);
+          }
+        }
+        c.todoProvider.setReminder(todo.id, reminder);
+      }
+
+      vscode.window.showInformationMessage(
+        `[Nulab] ${remindAt.toLocaleString('ja-JP')} にリマインドします` +
+          (reminder.slackReminderId ? ' (Slack)' : '') +
+          '。'
+      );
+    }),
+
+    vscode.commands.registerCommand('workspace.clearTodoReminder', async (item: TodoTreeItem) => {
+      if (!(item instanceof TodoTreeItem) || !item.todo.reminder) {
+        return;
+      }
+      await clearSlackReminder(c, item.todo);
+      c.todoProvider.setReminder(item.todo.id, undefined);
+    }),
+  ];
+}
+
+async function clearSlackReminder(c: ServiceContainer, todo: WorkspaceTodoItem): Promise<void> {
+  const id = todo.reminder?.slackReminderId;
+  if (!id) {
+    return;
+  }
+  try {
+    await c.slackApi.deleteReminder(id);
+  } catch (error) {
+    // 通知済みのリマインダーは削除できないことがある
+    c.log(`todo reminder: reminders.delete failed: ${error}`);
+  }
+}
+
+async function pickReminderTime(): Promise<Date | undefined> {
+  const now = new Date();
+  const tomorrow = new Date(now.getFullYear(), now.getMonth(), now.getDate() + 1, 9, 0);
+  const pick = await vscode.window.showQuickPick(
+    [
+      { label: '1時間後', date: new Date(now.getTime() + 60 * 60 * 1000) },
+      { label: '3時間後', date: new Date(now.getTime() + 3 * 60 * 60 * 1000) },
+      { label: '明日 9:00', date: tomorrow },
+      { label: '日時を指定...', date: undefined },
+    ].map((p) => ({ ...p, description: p.date?.toLocaleString('ja-JP') })),
+    { placeHolder: 'いつリマインドしますか？' }
+  );
+  if (!pick) {
+    return undefined;
+  }
+  if (pick.date) {
+    return pick.date;
+  }
+
+  const input = await vscode.window.showInputBox({
+    prompt: '日時を入力 (YYYY-MM-DD HH:MM、今日なら HH:MM だけでも可)',
+    placeHolder: '2025-01-31 17:00',
+    validateInput: (value) => {
+      const date = parseReminderTime(value);
+      if (!date) {
+        return '日時の形式が正しくありません';
+      }
+      return date.getTime() <= Date.now() ? '過去の日時は指定できません' : null;
+    },
+  });
+  return input ? parseReminderTime(input) : undefined;
+}
+
+/** "YYYY-MM-DD HH:MM" または "HH:MM"（今日）をローカル時刻として解釈する */
+function parseReminderTime(value: string): Date | undefined {
+  const trimmed = value.trim();
+  const full = /^(\d{4})[-/](\d{1,2})[-/](\d{1,2})[ T](\d{1,2}):(\d{2})$/.exec(trimmed);
+  if (full) {
+    const [, y, mo, d, h, mi] = full.map(Number);
+    return new Date(y, mo - 1, d, h, mi);
+  }
+  const timeOnly = /^(\d{1,2}):(\d{2})$/.exec(trimmed);
+  if (timeOnly) {
+    const now = new Date();
+    return new Date(
+      now.getFullYear(),
+      now.getMonth(),
+      now.getDate(),
+      Number(timeOnly[1]),
+      Number(timeOnly[2])
+    );
+  }
+  return undefined;
+}
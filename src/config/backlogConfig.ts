@@ -1,8 +1,10 @@
 import * as vscode from 'vscode';
 import { SecretsConfig } from './secretsConfig';
+import { PullRequestFilter } from '../types/backlog';
 
 /**
- * Backlog-specific configuration: domain, API key, refresh, polling, favorites, auto-TODO.
+ * Backlog-specific configuration: domain, API key, refresh, polling, favorites, auto-TODO,
+ * pull request filter, document sync watch mode.
  */
 export class BacklogConfig {
   private readonly configSection = 'nulab';
@@ -97,6 +99,18 @@ export class BacklogConfig {
     return index < 0;
   }
 
+  getPullRequestFilter(): PullRequestFilter {
+    return vscode.workspace
+      .getConfiguration(this.configSection)
+      .get<PullRequestFilter>('backlog.pullRequestFilter', 'all');
+  }
+
+  async setPullRequestFilter(filter: PullRequestFilter): Promise<void> {
+    await vscode.workspace
+      .getConfiguration(this.configSection)
+      .update('backlog.pullRequestFilter', filter, vscode.ConfigurationTarget.Workspace);
+  }
+
   isAutoTodoEnabled(): boolean {
     return vscode.workspace
       .getConfiguration(this.configSection)
@@ -108,4 +122,22 @@ export class BacklogConfig {
       .getConfiguration(this.configSection)
       .get<number[]>('backlog.autoTodoReasons', [1, 2, 9, 10]);
   }
+
+  isDocumentSyncWatchEnabled(): boolean {
+    return vscode.workspace
+      .getConfiguration(this.configSection)
+      .get<boolean>('documentSync.watch', false);
+  }
+
+  async setDocumentSyncWatchEnabled(enabled: boolean): Promise<void> {
+    await vscode.workspace
+      .getConfiguration(this.configSection)
+      .update('documentSync.watch', enabled, vscode.ConfigurationTarget.Workspace);
+  }
+
+  getDocumentSyncWatchInterval(): number {
+    return vscode.workspace
+      .getConfiguration(this.configSection)
+      .get<number>('documentSync.watchInterval', 300);
+  }
 }
@@ -3,7 +3,7 @@ import { SecretsConfig } from './secretsConfig';
 import { WorkspaceFileStore } from './workspaceFileStore';
 
 /**
- * Slack-specific configuration: token, polling, DMs, auto-TODO, search keywords.
+ * Slack-specific configuration: token, polling, Socket Mode, DMs, auto-TODO, search keywords.
  */
 export class SlackConfig {
   private static readonly FILE_SLACK_SEARCH_KEYWORDS = 'slack-search-keywords.json';
@@ -23,6 +23,21 @@ export class SlackConfig {
     await this.secrets.setSecret('nulab.slack.token', token);
   }
 
+  /** Socket Mode 用の App-Level Token (xapp-) */
+  async getAppToken(): Promise<string | undefined> {
+    return await this.secrets.getSecret('nulab.slack.appToken');
+  }
+
+  async setAppToken(token: string): Promise<void> {
+    await this.secrets.setSecret('nulab.slack.appToken', token);
+  }
+
+  isSocketModeEnabled(): boolean {
+    return vscode.workspace
+      .getConfiguration(this.configSection)
+      .get<boolean>('slack.socketMode', false);
+  }
+
   getPollingInterval(): number {
     return vscode.workspace
       .getConfiguration(this.configSection)
@@ -87,6 +102,26 @@ export class SlackConfig {
     this.fileStore.writeJsonFile(SlackConfig.FILE_MY_GROUP_IDS, ids);
   }
 
+  // ---- Cached custom emoji per workspace (team ID) ----
+
+  private static readonly FILE_CUSTOM_EMOJI = 'slack-custom-emoji.json';
+
+  getCustomEmojiCache(
+    teamId: string
+  ): { fetchedAt: number; emoji: Record<string, string> } | undefined {
+    return this.fileStore.readJsonFile<
+      Record<string, { fetchedAt: number; emoji: Record<string, string> }>
+    >(SlackConfig.FILE_CUSTOM_EMOJI, {})[teamId];
+  }
+
+  setCustomEmojiCache(teamId: string, emoji: Record<string, string>): void {
+    const all = this.fileStore.readJsonFile<
+      Record<string, { fetchedAt: number; emoji: Record<string, string> }>
+    >(SlackConfig.FILE_CUSTOM_EMOJI, {});
+    all[teamId] = { fetchedAt: Date.now(), emoji };
+    this.fileStore.writeJsonFile(SlackConfig.FILE_CUSTOM_EMOJI, all);
+  }
+
   // ---- Slack read state ----
 
   private static readonly FILE_READ_KEYS = 'slack-read-keys.json';
@@ -1,7 +1,8 @@
 import * as vscode from 'vscode';
 import * as fs from 'fs';
 import * as path from 'path';
-import { DocumentSyncMapping } from '../types/backlog';
+import { CodeIssueLink, DocumentSyncMapping, WikiSyncMapping } from '../types/backlog';
+import { AutoTodoRulesFile, InboxStateFile, NotificationStateFile } from '../types/workspace';
 
 /**
  * Handles .nulab/ directory file I/O for workspace-local data.
@@ -72,4 +73,91 @@ export class WorkspaceFileStore {
     );
     this.writeJsonFile(WorkspaceFileStore.FILE_DOC_SYNC_MAPPINGS, mappings);
   }
+
+  // ---- Wiki Sync Mappings ----
+
+  private static readonly FILE_WIKI_SYNC_MAPPINGS = 'wiki-sync-mappings.json';
+
+  getWikiSyncMappings(): WikiSyncMapping[] {
+    return this.readJsonFile<WikiSyncMapping[]>(WorkspaceFileStore.FILE_WIKI_SYNC_MAPPINGS, []);
+  }
+
+  setWikiSyncMapping(mapping: WikiSyncMapping): void {
+    const mappings = this.getWikiSyncMappings().filter((m) => m.projectKey !== mapping.projectKey);
+    mappings.push(mapping);
+    this.writeJsonFile(WorkspaceFileStore.FILE_WIKI_SYNC_MAPPINGS, mappings);
+  }
+
+  removeWikiSyncMapping(projectKey: string): void {
+    const mappings = this.getWikiSyncMappings().filter((m) => m.projectKey !== projectKey);
+    this.writeJsonFile(WorkspaceFileStore.FILE_WIKI_SYNC_MAPPINGS, mappings);
+  }
+
+  // ---- Code Issue Links ----
+
+  private static readonly FILE_CODE_ISSUE_LINKS = 'code-issue-links.json';
+
+  getCodeIssueLinks(): CodeIssueLink[] {
+    return this.readJsonFile<CodeIssueLink[]>(WorkspaceFileStore.FILE_CODE_ISSUE_LINKS, []);
+  }
+
+  addCodeIssueLink(link: CodeIssueLink): void {
+    const links = this.getCodeIssueLinks();
+    links.push(link);
+    this.writeJsonFile(WorkspaceFileStore.FILE_CODE_ISSUE_LINKS, links);
+  }
+
+  removeCodeIssueLink(issueKey: string, linkPath: string): void {
+    const links = this.getCodeIssueLinks().filter(
+      (l) => !(l.issueKey === issueKey && l.path === linkPath)
+    );
+    this.writeJsonFile(WorkspaceFileStore.FILE_CODE_ISSUE_LINKS, links);
+  }
+
+  // ---- Auto-TODO Rules ----
+
+  private static readonly FILE_AUTO_TODO_RULES = 'auto-todo-rules.json';
+
+  getAutoTodoRulesPath(): string | undefined {
+    const dir = this.getNulabDir();
+    return dir ? path.join(dir, WorkspaceFileStore.FILE_AUTO_TODO_RULES) : undefined;
+  }
+
+  /**
+   * ルールファイルが無い（または読めない）場合は undefined。
+   */
+  getAutoTodoRules(): AutoTodoRulesFile | undefined {
+    return this.readJsonFile<AutoTodoRulesFile | undefined>(
+      WorkspaceFileStore.FILE_AUTO_TODO_RULES,
+      undefined
+    );
+  }
+
+  saveAutoTodoRules(rules: AutoTodoRulesFile): void {
+    this.writeJsonFile(WorkspaceFileStore.FILE_AUTO_TODO_RULES, rules);
+  }
+
+  // ---- Notification State (snooze / mute / grouping) ----
+
+  private static readonly FILE_NOTIFICATION_STATE = 'notification-state.json';
+
+  getNotificationState(): NotificationStateFile {
+    return this.readJsonFile<NotificationStateFile>(WorkspaceFileStore.FILE_NOTIFICATION_STATE, {});
+  }
+
+  saveNotificationState(state: NotificationStateFile): void {
+    this.writeJsonFile(WorkspaceFileStore.FILE_NOTIFICATION_STATE, state);
+  }
+
+  // ---- Inbox State (snooze / dismiss) ----
+
+  private static readonly FILE_INBOX_STATE = 'inbox-state.json';
+
+  getInboxState(): InboxStateFile {
+    return this.readJsonFile<InboxStateFile>(WorkspaceFileStore.FILE_INBOX_STATE, {});
+  }
+
+  saveInboxState(state: InboxStateFile): void {
+    this.writeJsonFile(WorkspaceFileStore.FILE_INBOX_STATE, state);
+  }
 }
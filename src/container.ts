@@ -9,10 +9,13 @@ import { SlackApiService } from './services/slackApi';
 import { CacooApiService } from './services/cacooApi';
 import { SyncService } from './services/syncService';
 import { CacooSyncService } from './services/cacooSyncService';
+import { CacooSheetCache } from './services/cacooSheetCache';
 import { SessionFileService } from './services/session/sessionFileService';
 import { TodoPersistenceService } from './services/session/todoPersistenceService';
 import { SessionReplyService } from './services/session/sessionReplyService';
 import { PollingService } from './services/pollingService';
+import { SlackSocketModeService } from './services/slackSocketService';
+import { AutoTodoRuleService } from './services/autoTodoRuleService';
 import { BacklogTreeViewProvider } from './providers/treeViewProvider';
 import { BacklogIssuesTreeViewProvider } from './providers/issuesTreeViewProvider';
 import { BacklogWikiTreeViewProvider } from './providers/wikiTreeViewProvider';
@@ -21,12 +24,17 @@ import { BacklogProjectsWebviewProvider } from './providers/projectsWebviewProvi
 import { TodoTreeViewProvider } from './providers/todoTreeViewProvider';
 import { MyTasksTreeViewProvider } from './providers/myTasksTreeViewProvider';
 import { NotificationsTreeViewProvider } from './providers/notificationsTreeViewProvider';
+import { PullRequestsTreeViewProvider } from './providers/pullRequestsTreeViewProvider';
+import { InboxTreeViewProvider } from './providers/inboxTreeViewProvider';
 import { SlackTreeViewProvider } from './providers/slackTreeViewProvider';
 import { SlackSearchTreeViewProvider } from './providers/slackSearchTreeViewProvider';
+import { SlackChannelsTreeViewProvider } from './providers/slackChannelsTreeViewProvider';
 import { SlackPostWebviewProvider } from './providers/slackPostWebviewProvider';
 import { CacooTreeViewProvider } from './providers/cacooTreeViewProvider';
 import { DocumentFilesTreeViewProvider } from './providers/documentFilesTreeViewProvider';
+import { DocumentHistoryTreeViewProvider } from './providers/documentHistoryTreeViewProvider';
 import { SessionCodeLensProvider } from './providers/sessionCodeLensProvider';
+import { CodeIssueCodeLensProvider } from './providers/codeIssueCodeLensProvider';
 import { BacklogRemoteContentProvider } from './providers/backlogRemoteContentProvider';
 import { SyncFileDecorationProvider } from './providers/syncFileDecorationProvider';
 import { PanelManager } from './panels/panelManager';
@@ -50,7 +58,10 @@ export interface ServiceContainer {
   cacooApi: CacooApiService;
   syncService: SyncService;
   cacooSyncService: CacooSyncService;
+  cacooSheetCache: CacooSheetCache;
   pollingService: PollingService;
+  slackSocket: SlackSocketModeService;
+  autoTodoRules: AutoTodoRuleService;
 
   // Session sub-services
   sessionFileService: SessionFileService;
@@ -66,12 +77,17 @@ export interface ServiceContainer {
   todoProvider: TodoTreeViewProvider;
   myTasksProvider: MyTasksTreeViewProvider;
   notificationsProvider: NotificationsTreeViewProvider;
+  pullRequestsProvider: PullRequestsTreeViewProvider;
+  inboxProvider: InboxTreeViewProvider;
   slackProvider: SlackTreeViewProvider;
   slackSearchProvider: SlackSearchTreeViewProvider;
+  slackChannelsProvider: SlackChannelsTreeViewProvider;
   slackPostProvider: SlackPostWebviewProvider;
   cacooTreeProvider: CacooTreeViewProvider;
   documentFilesProvider: DocumentFilesTreeViewProvider;
+  documentHistoryProvider: DocumentHistoryTreeViewProvider;
   sessionCodeLensProvider: SessionCodeLensProvider;
+  codeIssueCodeLensProvider: CodeIssueCodeLensProvider;
   remoteContentProvider: BacklogRemoteContentProvider;
   syncDecorationProvider: SyncFileDecorationProvider;
 
@@ -80,7 +96,9 @@ export interface ServiceContainer {
   documentPanels: PanelManager;
   cacooPanels: PanelManager;
   slackThreadPanels: PanelManager;
+  slackChannelPanels: PanelManager;
   documentEditorPanels: PanelManager;
+  pullRequestPanels: PanelManager;
 
   // Existing command classes
   cacooCommands: CacooCommands;
@@ -17,32 +17,53 @@ import { BacklogRemoteContentProvider } from './providers/backlogRemoteContentPr
 import { SyncFileDecorationProvider } from './providers/syncFileDecorationProvider';
 import { BacklogDocumentEditorProvider } from './providers/backlogDocumentEditorProvider';
 import { MarkdownRenderer } from './utils/markdownRenderer';
+import { MarkdownItLike, cacooMarkdownItPlugin, parseCacooReference } from './utils/cacooReference';
+import { CacooReferenceHoverProvider } from './providers/cacooReferenceHoverProvider';
 import { DocumentSyncCommands } from './commands/documentSyncCommands';
+import { WikiSyncCommands } from './commands/wikiSyncCommands';
 import { CacooApiService } from './services/cacooApi';
 import { CacooSyncService } from './services/cacooSyncService';
+import { CacooSheetCache } from './services/cacooSheetCache';
 import { CacooCommands } from './commands/cacooCommands';
 import { CacooTreeViewProvider } from './providers/cacooTreeViewProvider';
 import { TodoTreeViewProvider } from './providers/todoTreeViewProvider';
 import { MyTasksTreeViewProvider } from './providers/myTasksTreeViewProvider';
-import { NotificationsTreeViewProvider } from './providers/notificationsTreeViewProvider';
+import { PullRequestsTreeViewProvider } from './providers/pullRequestsTreeViewProvider';
+import { InboxTreeViewProvider } from './providers/inboxTreeViewProvider';
+import {
+  NotificationsTreeViewProvider,
+  pullRequestTarget,
+} from './providers/notificationsTreeViewProvider';
 import { SlackApiService } from './services/slackApi';
 import { SlackTreeViewProvider } from './providers/slackTreeViewProvider';
+import { SlackChannelsTreeViewProvider } from './providers/slackChannelsTreeViewProvider';
 import { SlackSearchTreeViewProvider } from './providers/slackSearchTreeViewProvider';
 import { SlackPostWebviewProvider } from './providers/slackPostWebviewProvider';
 import { DocumentFilesTreeViewProvider } from './providers/documentFilesTreeViewProvider';
+import { DocumentHistoryTreeViewProvider } from './providers/documentHistoryTreeViewProvider';
+import { DocumentHistoryContentProvider } from './providers/documentHistoryContentProvider';
+import { GitRevisionContentProvider } from './providers/gitRevisionContentProvider';
 import { TodoEditorProvider } from './providers/todoEditorProvider';
 import { GdocEditorProvider } from './providers/gdocEditorProvider';
 import { PollingService } from './services/pollingService';
+import { SlackSocketModeService } from './services/slackSocketService';
+import { DocumentSyncWatchService } from './services/documentSyncWatchService';
+import { AutoTodoRuleService } from './services/autoTodoRuleService';
+import { TodoReminderService } from './services/todoReminderService';
+import { WikiSyncService } from './services/wikiSyncService';
 import { SessionFileService } from './services/session/sessionFileService';
 import { SessionContextBuilder } from './services/session/sessionContextBuilder';
 import { TodoPersistenceService } from './services/session/todoPersistenceService';
 import { SessionReplyService } from './services/session/sessionReplyService';
 import { SessionCodeLensProvider } from './providers/sessionCodeLensProvider';
+import { CodeIssueCodeLensProvider } from './providers/codeIssueCodeLensProvider';
 import { PanelManager } from './panels/panelManager';
-import { NOTIFICATION_REASONS } from './types/workspace';
+import { NOTIFICATION_REASONS, SlackMessage } from './types/workspace';
+import { DocumentSyncMapping } from './types/backlog';
 import { ServiceContainer } from './container';
 import { registerAllCommands } from './commands/registry';
 import { registerGoogleCalendar } from './commands/google/googleCommands';
+import { GoogleCalendarTreeViewProvider } from './providers/googleCalendarTreeViewProvider';
 import { registerTreeViewInteraction } from './commands/treeViewInteraction';
 import { BUILD_TIME } from './buildInfo';
 
@@ -54,7 +75,9 @@ function log(message: string): void {
   outputChannel?.appendLine(`[${timestamp}] ${message}`);
 }
 
-export function activate(context: vscode.ExtensionContext) {
+export function activate(
+  context: vscode.ExtensionContext
+): { extendMarkdownIt(md: MarkdownItLike): MarkdownItLike } | undefined {
   outputChannel = vscode.window.createOutputChannel('Nulab Workspace');
   context.subscriptions.push(outputChannel);
   log(`Nulab extension activating... (built: ${BUILD_TIME})`);
@@ -84,12 +107,24 @@ export function activate(context: vscode.ExtensionContext) {
     return;
   }
 
-  const syncService = new SyncService();
+  const syncService = new SyncService(fileStore.getNulabDir());
   const cacooApi = new CacooApiService(cacooConfig);
   const cacooSyncService = new CacooSyncService();
+  const cacooSheetCache = new CacooSheetCache(
+    cacooApi,
+    path.join(context.globalStorageUri.fsPath, 'cacoo-sheets')
+  );
   const slackApi = new SlackApiService(slackConfig, log);
   const pollingService = new PollingService();
+  const slackSocket = new SlackSocketModeService(slackConfig, log);
+  const autoTodoRules = new AutoTodoRuleService(fileStore, backlogConfig, slackConfig);
   const markdownRenderer = MarkdownRenderer.getInstance();
+  // ![alt](cacoo:diagramId/sheetUid) → キャッシュ済みのシート画像
+  const resolveCacooImage = (href: string) => {
+    const ref = parseCacooReference(href);
+    return ref ? cacooSheetCache.getDataUrl(ref) : undefined;
+  };
+  markdownRenderer.setCacooImageResolver(resolveCacooImage);
 
   const nulabDirPath = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath
     ? path.join(vscode.workspace.workspaceFolders[0].uri.fsPath, '.nulab')
@@ -123,22 +158,38 @@ export function activate(context: vscode.ExtensionContext) {
   const myTasksProvider = new MyTasksTreeViewProvider(backlogApi);
   const notificationsProvider = new NotificationsTreeViewProvider(
     backlogApi,
+    fileStore,
     () => slackConfig.getNotificationFilterUnread(),
     (v) => slackConfig.setNotificationFilterUnread(v)
   );
+  const pullRequestsProvider = new PullRequestsTreeViewProvider(backlogApi, backlogConfig);
   const slackProvider = new SlackTreeViewProvider(slackApi, slackConfig);
   const slackSearchProvider = new SlackSearchTreeViewProvider(slackApi, slackConfig);
+  const slackChannelsProvider = new SlackChannelsTreeViewProvider(slackApi, slackConfig);
+  const inboxProvider = new InboxTreeViewProvider(
+    notificationsProvider,
+    slackProvider,
+    todoProvider,
+    fileStore
+  );
   const slackPostProvider = new SlackPostWebviewProvider(
     context.extensionUri,
     slackApi,
     slackConfig
   );
   const cacooTreeProvider = new CacooTreeViewProvider(cacooApi, cacooConfig);
-  const cacooCommands = new CacooCommands(cacooApi, cacooConfig, cacooSyncService);
+  const cacooCommands = new CacooCommands(cacooApi, cacooConfig, cacooSyncService, cacooSheetCache);
   const documentFilesProvider = new DocumentFilesTreeViewProvider(fileStore, syncService);
+  const documentHistoryProvider = new DocumentHistoryTreeViewProvider(syncService);
   const remoteContentProvider = new BacklogRemoteContentProvider(backlogApi);
-  const syncDecorationProvider = new SyncFileDecorationProvider(syncService, fileStore);
+  const wikiSyncService = new WikiSyncService(syncService);
+  const syncDecorationProvider = new SyncFileDecorationProvider(
+    syncService,
+    fileStore,
+    wikiSyncService
+  );
   const sessionCodeLensProvider = new SessionCodeLensProvider(sessionFileService);
+  const codeIssueCodeLensProvider = new CodeIssueCodeLensProvider(fileStore);
   const documentSyncCommands = new DocumentSyncCommands(
     backlogApi,
     backlogConfig,
@@ -152,7 +203,9 @@ export function activate(context: vscode.ExtensionContext) {
   const documentPanels = new PanelManager();
   const cacooPanels = new PanelManager();
   const slackThreadPanels = new PanelManager();
+  const slackChannelPanels = new PanelManager();
   const documentEditorPanels = new PanelManager();
+  const pullRequestPanels = new PanelManager();
 
   // ---- Service container ----
   const container: ServiceContainer = {
@@ -167,7 +220,10 @@ export function activate(context: vscode.ExtensionContext) {
     cacooApi,
     syncService,
     cacooSyncService,
+    cacooSheetCache,
     pollingService,
+    slackSocket,
+    autoTodoRules,
     sessionFileService,
     todoPersistence,
     sessionReply,
@@ -179,19 +235,26 @@ export function activate(context: vscode.ExtensionContext) {
     todoProvider,
     myTasksProvider,
     notificationsProvider,
+    pullRequestsProvider,
+    inboxProvider,
     slackProvider,
     slackSearchProvider,
+    slackChannelsProvider,
     slackPostProvider,
     cacooTreeProvider,
     documentFilesProvider,
+    documentHistoryProvider,
     sessionCodeLensProvider,
+    codeIssueCodeLensProvider,
     remoteContentProvider,
     syncDecorationProvider,
     issuePanels,
     documentPanels,
     cacooPanels,
     slackThreadPanels,
+    slackChannelPanels,
     documentEditorPanels,
+    pullRequestPanels,
     cacooCommands,
     documentSyncCommands,
     markdownRenderer,
@@ -224,6 +287,15 @@ export function activate(context: vscode.ExtensionContext) {
   });
   const notificationsTreeView = vscode.window.createTreeView('workspaceNotifications', {
     treeDataProvider: notificationsProvider,
+    canSelectMany: true,
+  });
+  const inboxTreeView = vscode.window.createTreeView('workspaceInbox', {
+    treeDataProvider: inboxProvider,
+    canSelectMany: true,
+  });
+  const pullRequestsTreeView = vscode.window.createTreeView('workspacePullRequests', {
+    treeDataProvider: pullRequestsProvider,
+    showCollapseAll: true,
   });
   notificationsProvider.setTodoIssueKeys(todoProvider.getTodoIssueKeys());
   slackProvider.setTodoKeys(todoProvider.getTodoSlackKeys());
@@ -241,10 +313,17 @@ export function activate(context: vscode.ExtensionContext) {
     showCollapseAll: true,
     dragAndDropController: slackSearchProvider,
   });
+  const slackChannelsTreeView = vscode.window.createTreeView('workspaceSlackChannels', {
+    treeDataProvider: slackChannelsProvider,
+  });
   const documentFilesTreeView = vscode.window.createTreeView('workspaceDocumentFiles', {
     treeDataProvider: documentFilesProvider,
     showCollapseAll: true,
   });
+  const documentHistoryTreeView = vscode.window.createTreeView('workspaceDocumentHistory', {
+    treeDataProvider: documentHistoryProvider,
+    canSelectMany: true,
+  });
   const slackPostViewDisposable = vscode.window.registerWebviewViewProvider(
     SlackPostWebviewProvider.viewType,
     slackPostProvider
@@ -262,6 +341,14 @@ export function activate(context: vscode.ExtensionContext) {
     'backlog-local',
     remoteContentProvider
   );
+  const historyProviderDisposable = vscode.workspace.registerTextDocumentContentProvider(
+    DocumentHistoryContentProvider.scheme,
+    new DocumentHistoryContentProvider(syncService)
+  );
+  const gitRevisionProviderDisposable = vscode.workspace.registerTextDocumentContentProvider(
+    GitRevisionContentProvider.scheme,
+    new GitRevisionContentProvider()
+  );
   const decorationProviderDisposable =
     vscode.window.registerFileDecorationProvider(syncDecorationProvider);
 
@@ -284,6 +371,7 @@ export function activate(context: vscode.ExtensionContext) {
     sessionReply,
     todoProvider,
     backlogConfig,
+    backlogApi,
     slackApi,
     sessionCodeLensProvider,
     todoPersistence,
@@ -299,6 +387,9 @@ export function activate(context: vscode.ExtensionContext) {
       sessionCodeLensProvider
     )
   );
+  context.subscriptions.push(
+    vscode.languages.registerCodeLensProvider({ scheme: 'file' }, codeIssueCodeLensProvider)
+  );
   context.subscriptions.push(
     vscode.window.registerCustomEditorProvider(TodoEditorProvider.viewType, todoEditorProvider, {
       webviewOptions: { retainContextWhenHidden: true },
@@ -335,11 +426,64 @@ export function activate(context: vscode.ExtensionContext) {
     'nulab.documentSync.push',
     (filePath?: string) => documentSyncCommands.push(filePath)
   );
+  const syncPushAllCommand = vscode.commands.registerCommand(
+    'nulab.documentSync.pushAll',
+    (item?: { mapping?: DocumentSyncMapping }) => documentSyncCommands.pushAll(item?.mapping)
+  );
+  const documentSyncWatch = new DocumentSyncWatchService(
+    backlogApi,
+    backlogConfig,
+    fileStore,
+    syncService,
+    pollingService,
+    syncDecorationProvider
+  );
+  const syncToggleWatchCommand = vscode.commands.registerCommand(
+    'nulab.documentSync.toggleWatch',
+    async () => {
+      const enabled = !backlogConfig.isDocumentSyncWatchEnabled();
+      await backlogConfig.setDocumentSyncWatchEnabled(enabled);
+      vscode.window.showInformationMessage(
+        `[Nulab] ドキュメント同期のウォッチモードを${enabled ? '開始' : '停止'}しました。`
+      );
+    }
+  );
   const syncPullFileCommand = vscode.commands.registerCommand(
     'nulab.documentSync.pullFile',
     (filePath?: string) => documentSyncCommands.pullFile(filePath)
   );
 
+  // ---- Wiki sync commands ----
+  const wikiSyncCommands = new WikiSyncCommands(
+    backlogApi,
+    fileStore,
+    syncService,
+    remoteContentProvider,
+    syncDecorationProvider
+  );
+  const wikiSyncCommandDisposables = [
+    vscode.commands.registerCommand('nulab.wikiSync.setMapping', () =>
+      wikiSyncCommands.setMapping(backlogDocumentsProvider.getCurrentProjectKey() || undefined)
+    ),
+    vscode.commands.registerCommand('nulab.wikiSync.removeMapping', () =>
+      wikiSyncCommands.removeMapping()
+    ),
+    vscode.commands.registerCommand('nulab.wikiSync.pull', () => wikiSyncCommands.pull()),
+    vscode.commands.registerCommand('nulab.wikiSync.status', () => wikiSyncCommands.status()),
+    vscode.commands.registerCommand('nulab.wikiSync.diff', (uri?: vscode.Uri) =>
+      wikiSyncCommands.diff(uri?.fsPath)
+    ),
+    vscode.commands.registerCommand('nulab.wikiSync.push', (uri?: vscode.Uri) =>
+      wikiSyncCommands.push(uri?.fsPath)
+    ),
+    // Wiki はテキストエディタで編集するため、保存時に同期状態の表示を更新する
+    vscode.workspace.onDidSaveTextDocument((doc) => {
+      if (doc.uri.fsPath.endsWith('.md')) {
+        syncDecorationProvider.refresh(doc.uri);
+      }
+    }),
+  ];
+
   // ---- Cacoo commands (from existing class) ----
   const cacooRefreshCommand = vscode.commands.registerCommand('cacoo.refreshDiagrams', () => {
     cacooTreeProvider.refresh();
@@ -374,12 +518,33 @@ export function activate(context: vscode.ExtensionContext) {
       cacooCommands.setSyncMapping(item);
     }
   );
+  const cacooCompareWithPreviousCommand = vscode.commands.registerCommand(
+    'cacoo.compareWithPrevious',
+    (uri?: vscode.Uri) => {
+      cacooCommands.compareWithPrevious(context, cacooPanels, uri);
+    }
+  );
+  const cacooPullReferencesCommand = vscode.commands.registerCommand(
+    'cacoo.pullReferences',
+    async () => {
+      await cacooCommands.pullReferences();
+    }
+  );
+  // シート画像を取得したら Markdown プレビューを描き直す
+  const cacooSheetCacheListener = cacooSheetCache.onDidChange(() => {
+    vscode.commands.executeCommand('markdown.preview.refresh');
+  });
+  const cacooReferenceHover = vscode.languages.registerHoverProvider(
+    { language: 'markdown' },
+    new CacooReferenceHoverProvider(cacooSheetCache)
+  );
 
   // ---- Slack context ----
   slackApi.isConfigured().then((configured) => {
     vscode.commands.executeCommand('setContext', 'nulab.slack.configured', configured);
     if (configured) {
       slackApi.warmUpCaches().catch(() => {});
+      slackChannelsProvider.fetchAndRefresh();
     }
   });
   const searchKeywords = slackConfig.getSearchKeywords();
@@ -425,22 +590,36 @@ export function activate(context: vscode.ExtensionContext) {
       if (backlogConfig.isAutoTodoEnabled()) {
         try {
           const notifications = await backlogApi.getNotifications({ count: 20, order: 'desc' });
-          const targetReasons = backlogConfig.getAutoTodoReasons();
+          const rules = autoTodoRules.loadRules();
           for (const n of notifications) {
-            if (n.alreadyRead || !targetReasons.includes(n.reason) || !n.issue) {
+            // ミュート中の課題は fetchAndRefresh で既読にしてあり、TODO も作らない
+            if (n.alreadyRead || !n.issue || notificationsProvider.isIssueMuted(n.issue.issueKey)) {
               continue;
             }
+            const decision = autoTodoRules.evaluate(
+              autoTodoRules.fromBacklogNotification(n),
+              rules
+            );
             try {
-              await todoProvider.addFromBacklogNotification({
-                id: n.id,
-                issueKey: n.issue.issueKey,
-                issueId: n.issue.id,
-                issueSummary: n.issue.summary,
-                reason: NOTIFICATION_REASONS[n.reason] || `reason:${n.reason}`,
-                sender: n.sender?.name || 'Unknown',
-                commentId: n.comment?.id,
-                commentContent: n.comment?.content?.substring(0, 500),
-              });
+              if (decision.markRead) {
+                await backlogApi.markNotificationAsRead(n.id);
+              }
+              if (!decision.createTodo) {
+                continue;
+              }
+              await todoProvider.addFromBacklogNotification(
+                {
+                  id: n.id,
+                  issueKey: n.issue.issueKey,
+                  issueId: n.issue.id,
+                  issueSummary: n.issue.summary,
+                  reason: NOTIFICATION_REASONS[n.reason] || `reason:${n.reason}`,
+                  sender: n.sender?.name || 'Unknown',
+                  commentId: n.comment?.id,
+                  commentContent: n.comment?.content?.substring(0, 500),
+                },
+                { status: decision.status, tags: decision.tags }
+              );
             } catch (e) {
               log(`auto-todo: ${n.issue.issueKey}: ${e}`);
             }
@@ -473,70 +652,155 @@ export function activate(context: vscode.ExtensionContext) {
     300_000
   );
 
-  let previousSlackUnread = -1;
-  pollingService.register(
-    'slack',
-    async () => {
-      log('polling: slack tick');
-      if (!(await slackApi.isConfigured())) {
-        log('polling: slack skipped (not configured)');
-        return;
-      }
+  const todoReminders = new TodoReminderService(todoProvider, slackApi, log);
+  pollingService.register('todo-reminders', () => todoReminders.checkDue(), 60_000);
 
-      const includeDMs = slackConfig.isIncludeDMs();
-      const [slackResult] = await Promise.all([
-        slackProvider.fetchAndRefresh({ includeDMs }),
-        slackSearchProvider.fetchAndRefresh(),
-      ]);
-      const { newCount: mentionCount, mentions: slackMentions } = slackResult;
-      log(`polling: slack done — ${mentionCount} new, ${slackMentions.length} total`);
-
-      if (slackConfig.isAutoTodoEnabled() && slackMentions.length > 0) {
-        const autoTodoDMs = slackConfig.isAutoTodoDMs();
-        for (const m of slackMentions) {
-          if (m.is_dm && !autoTodoDMs) {
-            continue;
-          }
-          try {
-            await todoProvider.addFromSlackMention({
-              channel: m.channel,
-              threadTs: m.thread_ts || m.ts,
-              messageTs: m.ts,
-              senderName: m.userName || m.user || 'Unknown',
-              messagePreview: m.text.substring(0, 200),
-            });
-          } catch (e) {
-            log(`auto-todo: Slack: ${e}`);
-          }
+  let previousSlackUnread = -1;
+  const slackMarkedRead = new Set<string>();
+  const applySlackAutoTodo = async (mentions: SlackMessage[]) => {
+    const rules = autoTodoRules.loadRules();
+    for (const m of slackConfig.isAutoTodoEnabled() ? mentions : []) {
+      const decision = autoTodoRules.evaluate(autoTodoRules.fromSlackMessage(m), rules);
+      try {
+        // 検索結果は毎回同じメッセージを返すので、既読化は一度だけ行う
+        if (decision.markRead && !slackMarkedRead.has(`${m.channel}:${m.ts}`)) {
+          await slackApi.markRead(m.channel, m.ts);
+          slackMarkedRead.add(`${m.channel}:${m.ts}`);
+        }
+        if (!decision.createTodo) {
+          continue;
         }
+        await todoProvider.addFromSlackMention(
+          {
+            channel: m.channel,
+            threadTs: m.thread_ts || m.ts,
+            messageTs: m.ts,
+            senderName: m.userName || m.user || 'Unknown',
+            messagePreview: m.text.substring(0, 200),
+          },
+          { status: decision.status, tags: decision.tags }
+        );
+      } catch (e) {
+        log(`auto-todo: Slack: ${e}`);
       }
+    }
+    // Sync TODO keys for both Slack tree views
+    const slackTodoKeys = todoProvider.getTodoSlackKeys();
+    slackProvider.setTodoKeys(slackTodoKeys);
+    slackSearchProvider.setTodoKeys(slackTodoKeys);
+  };
+  const showSlackUnread = (count: number) => {
+    if (count > 0) {
+      slackStatusBar.text = `$(mention) ${count}`;
+      slackStatusBar.show();
+    } else {
+      slackStatusBar.hide();
+    }
+  };
+  const notifyNewSlack = async (message: string) => {
+    const action = await vscode.window.showInformationMessage(`[Nulab] Slack: ${message}`, '開く');
+    if (action === '開く') {
+      vscode.commands.executeCommand('workspaceSlack.focus');
+    }
+  };
 
-      // Sync TODO keys for both Slack tree views
-      const slackTodoKeys = todoProvider.getTodoSlackKeys();
-      slackProvider.setTodoKeys(slackTodoKeys);
-      slackSearchProvider.setTodoKeys(slackTodoKeys);
+  const pollSlack = async () => {
+    log('polling: slack tick');
+    if (!(await slackApi.isConfigured())) {
+      log('polling: slack skipped (not configured)');
+      return;
+    }
 
-      if (mentionCount > 0) {
-        slackStatusBar.text = `$(mention) ${mentionCount}`;
-        slackStatusBar.show();
-      } else {
-        slackStatusBar.hide();
+    const includeDMs = slackConfig.isIncludeDMs();
+    const [slackResult] = await Promise.all([
+      slackProvider.fetchAndRefresh({ includeDMs }),
+      slackSearchProvider.fetchAndRefresh(),
+    ]);
+    const { newCount: mentionCount, mentions: slackMentions } = slackResult;
+    log(`polling: slack done — ${mentionCount} new, ${slackMentions.length} total`);
+
+    await applySlackAutoTodo(slackMentions);
+    showSlackUnread(mentionCount);
+
+    if (previousSlackUnread >= 0 && mentionCount > previousSlackUnread) {
+      notifyNewSlack(`${mentionCount - previousSlackUnread}件の新しい通知`);
+    }
+    previousSlackUnread = mentionCount;
+  };
+  const startSlackPolling = () =>
+    pollingService.register('slack', pollSlack, slackConfig.getPollingInterval() * 1000);
+  startSlackPolling();
+
+  // ---- Slack Socket Mode ----
+  // 接続中はポーリングを止め、切断されたらポーリングに戻す
+  let slackRealtime = false;
+  slackSocket.onDidChangeState((state) => {
+    log(`slack socket: ${state}`);
+    if (state === 'connected' && !slackRealtime) {
+      slackRealtime = true;
+      pollingService.stop('slack');
+      slackStatusBar.tooltip = 'Slack 未読 (リアルタイム)';
+      // 切断中に取りこぼした分を取得する
+      pollSlack().catch((e) => log(`polling: slack catch-up failed: ${e}`));
+    } else if (state !== 'connected' && slackRealtime) {
+      slackRealtime = false;
+      slackStatusBar.tooltip = 'Slack 未読';
+      startSlackPolling();
+    }
+  });
+  slackSocket.onDidReceiveMessage(async (event) => {
+    // 開いているスレッドパネルには返信・編集・削除をすぐ反映する
+    const threadTs =
+      event.thread_ts || event.message?.thread_ts || event.previous_message?.thread_ts || event.ts;
+    if (slackThreadPanels.has(`${event.channel}-${threadTs}`)) {
+      vscode.commands.executeCommand('workspace.refreshSlackThread', event.channel, threadTs);
+    }
+    // 開いているチャンネルパネルは新着を追加して既読にし、それ以外は未読数を増やす
+    const channelPanelOpen = slackChannelPanels.has(event.channel);
+    if (channelPanelOpen) {
+      vscode.commands.executeCommand('workspace.refreshSlackChannel', event.channel);
+    }
+    try {
+      const message = await slackApi.fromMessageEvent(event);
+      if (!message) {
+        return;
+      }
+      slackSearchProvider.pushMessage(message);
+      const inChannel =
+        !event.thread_ts || event.thread_ts === event.ts || event.subtype === 'thread_broadcast';
+      if (inChannel && !channelPanelOpen) {
+        slackChannelsProvider.incrementUnread(event.channel);
       }
 
-      if (previousSlackUnread >= 0 && mentionCount > previousSlackUnread) {
-        const diff = mentionCount - previousSlackUnread;
-        const action = await vscode.window.showInformationMessage(
-          `[Nulab] Slack: ${diff}件の新しい通知`,
-          '開く'
-        );
-        if (action === '開く') {
-          vscode.commands.executeCommand('workspaceSlack.focus');
-        }
+      const isNotification = await slackApi.isNotificationEvent(event, {
+        includeDMs: slackConfig.isIncludeDMs(),
+        isWatchedThread: (channel, threadTs) => slackProvider.hasThread(channel, threadTs),
+      });
+      if (!isNotification || !slackProvider.pushMessage(message)) {
+        return;
       }
-      previousSlackUnread = mentionCount;
-    },
-    slackConfig.getPollingInterval() * 1000
-  );
+      await applySlackAutoTodo([message]);
+      previousSlackUnread = Math.max(previousSlackUnread, 0) + 1;
+      showSlackUnread(previousSlackUnread);
+      const sender = message.userName || message.user;
+      notifyNewSlack(`${sender}: ${message.text.replace(/\s+/g, ' ').substring(0, 60)}`);
+    } catch (e) {
+      log(`slack socket: failed to handle event: ${e}`);
+    }
+  });
+  const restartSlackSocket = async () => {
+    slackSocket.stop();
+    if (slackConfig.isSocketModeEnabled() && (await slackConfig.getAppToken())) {
+      await slackSocket.start();
+    }
+  };
+  const onSlackSocketStartError = (e: unknown) => log(`slack socket: failed to start: ${e}`);
+  restartSlackSocket().catch(onSlackSocketStartError);
+  const slackSocketConfigListener = vscode.workspace.onDidChangeConfiguration((e) => {
+    if (e.affectsConfiguration('nulab.slack.socketMode')) {
+      restartSlackSocket().catch(onSlackSocketStartError);
+    }
+  });
 
   // ---- File watchers ----
   {
@@ -573,6 +837,17 @@ export function activate(context: vscode.ExtensionContext) {
       docWatcher.onDidCreate(refreshDocFiles);
       docWatcher.onDidDelete(refreshDocFiles);
       context.subscriptions.push(docWatcher);
+
+      // Document history watcher (pull / push でスナップショットが追加される)
+      const historyPattern = new vscode.RelativePattern(
+        path.join(nulabDir, '.nulab'),
+        'doc-history/index.json'
+      );
+      const historyWatcher = vscode.workspace.createFileSystemWatcher(historyPattern);
+      const refreshHistory = () => documentHistoryProvider.refresh();
+      historyWatcher.onDidChange(refreshHistory);
+      historyWatcher.onDidCreate(refreshHistory);
+      context.subscriptions.push(historyWatcher);
     }
   }
 
@@ -580,6 +855,7 @@ export function activate(context: vscode.ExtensionContext) {
   let googleCalendar: {
     disposables: vscode.Disposable[];
     treeViews: vscode.TreeView<any>[];
+    calendarProvider: GoogleCalendarTreeViewProvider;
   } | null = null;
   try {
     googleCalendar = registerGoogleCalendar(
@@ -587,8 +863,11 @@ export function activate(context: vscode.ExtensionContext) {
       googleConfig,
       log,
       todoProvider,
-      todoPersistence
+      todoPersistence,
+      backlogApi,
+      backlogConfig
     );
+    inboxProvider.attachCalendar(googleCalendar.calendarProvider);
     log('Google Calendar registered successfully');
   } catch (error) {
     log(`Failed to register Google Calendar: ${error}`);
@@ -599,6 +878,8 @@ export function activate(context: vscode.ExtensionContext) {
   const allCommandDisposables = registerAllCommands(container, {
     todosTreeView,
     notificationsTreeView,
+    inboxTreeView,
+    pullRequestsTreeView,
     slackTreeView,
     slackSearchTreeView,
   });
@@ -612,10 +893,13 @@ export function activate(context: vscode.ExtensionContext) {
     todosTreeView,
     myTasksTreeView,
     notificationsTreeView,
+    inboxTreeView,
+    pullRequestsTreeView,
     cacooTreeView,
     documentFilesTreeView,
     slackTreeView,
     slackSearchTreeView,
+    slackChannelsTreeView,
     ...(googleCalendar ? googleCalendar.treeViews : []),
   ];
 
@@ -632,9 +916,30 @@ export function activate(context: vscode.ExtensionContext) {
     },
     {
       view: notificationsTreeView,
+      handler: (item: any) => {
+        const prTarget = item.notification && pullRequestTarget(item.notification);
+        if (prTarget) {
+          vscode.commands.executeCommand('nulab.openPullRequest', ...prTarget);
+        } else if (item.notification?.issue) {
+          vscode.commands.executeCommand('nulab.openIssue', item.notification.issue);
+        }
+      },
+    },
+    {
+      view: inboxTreeView,
       handler: (item: any) =>
-        item.notification?.issue &&
-        vscode.commands.executeCommand('nulab.openIssue', item.notification.issue),
+        item.entry && vscode.commands.executeCommand('workspace.openInboxItem', item),
+    },
+    {
+      view: pullRequestsTreeView,
+      handler: (item: any) =>
+        item.pullRequest &&
+        vscode.commands.executeCommand(
+          'nulab.openPullRequest',
+          item.projectKey,
+          item.repoName,
+          item.pullRequest.number
+        ),
     },
     {
       view: issuesTreeView,
@@ -726,6 +1031,14 @@ export function activate(context: vscode.ExtensionContext) {
         }
       },
     },
+    {
+      view: slackChannelsTreeView,
+      handler: (item: any) => {
+        if (item.channel) {
+          vscode.commands.executeCommand('workspace.openSlackChannel', item.channel.id);
+        }
+      },
+    },
   ];
 
   const treeViewInteractionDisposables = registerTreeViewInteraction(
@@ -752,14 +1065,22 @@ export function activate(context: vscode.ExtensionContext) {
     todosTreeView,
     myTasksTreeView,
     notificationsTreeView,
+    inboxTreeView,
+    inboxProvider,
+    pullRequestsTreeView,
     cacooTreeView,
     slackTreeView,
     slackSearchTreeView,
+    slackChannelsTreeView,
     documentFilesTreeView,
+    documentHistoryTreeView,
+    documentHistoryProvider.followActiveEditor(),
     slackPostViewDisposable,
     // Content providers
     remoteProviderDisposable,
     localProviderDisposable,
+    historyProviderDisposable,
+    gitRevisionProviderDisposable,
     decorationProviderDisposable,
     bdocEditorRegistration,
     // Document sync commands
@@ -769,7 +1090,12 @@ export function activate(context: vscode.ExtensionContext) {
     syncDiffCommand,
     syncCopyAndOpenCommand,
     syncPushCommand,
+    syncPushAllCommand,
     syncPullFileCommand,
+    syncToggleWatchCommand,
+    documentSyncWatch,
+    // Wiki sync commands
+    ...wikiSyncCommandDisposables,
     // Cacoo commands
     cacooRefreshCommand,
     cacooSearchCommand,
@@ -779,16 +1105,24 @@ export function activate(context: vscode.ExtensionContext) {
     cacooTogglePinCommand,
     cacooPullCommand,
     cacooSetSyncMappingCommand,
+    cacooCompareWithPreviousCommand,
+    cacooPullReferencesCommand,
+    cacooSheetCacheListener,
+    cacooReferenceHover,
+    cacooSheetCache,
     // Status bars
     backlogStatusBar,
     slackStatusBar,
     // Services
     pollingService,
+    slackSocket,
+    slackSocketConfigListener,
     // Panel managers
     issuePanels,
     documentPanels,
     cacooPanels,
     slackThreadPanels,
+    slackChannelPanels,
     documentEditorPanels,
     // Extracted commands
     ...allCommandDisposables,
@@ -798,6 +1132,9 @@ export function activate(context: vscode.ExtensionContext) {
 
   checkConfiguration(backlogConfig);
   log('Extension activated successfully');
+
+  // 組み込みの Markdown プレビューで cacoo: 参照を表示する
+  return { extendMarkdownIt: cacooMarkdownItPlugin(resolveCacooImage) };
 }
 
 export function deactivate() {
@@ -202,6 +202,14 @@ export class BacklogDocumentEditorProvider implements vscode.CustomTextEditorPro
               await document.save();
 
               webviewPanel.webview.postMessage({ type: 'saved' });
+
+              // Save & Push: 保存後にそのまま Backlog へ反映
+              if (message.push) {
+                await vscode.commands.executeCommand(
+                  'nulab.documentSync.push',
+                  document.uri.fsPath
+                );
+              }
             } catch (error) {
               webviewPanel.webview.postMessage({
                 type: 'saveError',
@@ -0,0 +1,50 @@
+import * as vscode from 'vscode';
+import { CacooSheetCache } from '../services/cacooSheetCache';
+import { findCacooReferences } from '../utils/cacooReference';
+
+/**
+ * Markdown 中の Cacoo 参照（![alt](cacoo:diagramId/sheetUid)）にホバーで
+ * シートのサムネイルと Cacoo へのリンクを表示する。
+ */
+export class CacooReferenceHoverProvider implements vscode.HoverProvider {
+  constructor(private sheetCache: CacooSheetCache) {}
+
+  provideHover(document: vscode.TextDocument, position: vscode.Position): vscode.Hover | undefined {
+    const line = document.lineAt(position.line).text;
+    const match = findCacooReferences(line).find(
+      (m) => position.character >= m.index && position.character <= m.index + m.length
+    );
+    if (!match) {
+      return undefined;
+    }
+
+    const md = new vscode.MarkdownString();
+    // 信頼するのはシートを取り直すコマンドのリンクだけ
+    md.isTrusted = { enabledCommands: ['cacoo.pullReferences'] };
+
+    const entry = this.sheetCache.getEntry(match);
+    const imagePath = this.sheetCache.getImagePath(match);
+    if (entry && imagePath) {
+      md.appendMarkdown('**');
+      md.appendText(`${entry.diagramTitle} / ${entry.sheetName}`);
+      md.appendMarkdown('**\n\n');
+      md.appendMarkdown(`![${match.alt}](${vscode.Uri.file(imagePath).toString()}|width=320)\n\n`);
+      md.appendMarkdown(`更新: ${new Date(entry.updated).toLocaleString('ja-JP')}\n\n`);
+    } else {
+      md.appendMarkdown('シート画像はまだ取得していません。\n\n');
+      this.sheetCache.request(match);
+    }
+
+    const url = match.sheetUid
+      ? `https://cacoo.com/diagrams/${match.diagramId}/${match.sheetUid}`
+      : `https://cacoo.com/diagrams/${match.diagramId}`;
+    md.appendMarkdown(`[$(link-external) Cacoo で開く](${url}) · `);
+    md.appendMarkdown('[$(sync) 参照を更新](command:cacoo.pullReferences)');
+    md.supportThemeIcons = true;
+
+    return new vscode.Hover(
+      md,
+      new vscode.Range(position.line, match.index, position.line, match.index + match.length)
+    );
+  }
+}
@@ -0,0 +1,77 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { WorkspaceFileStore } from '../config/workspaceFileStore';
+import { CodeIssueLink } from '../types/backlog';
+
+/**
+ * コード選択範囲から作成した課題を、その範囲の先頭行に CodeLens で表示する。
+ */
+export class CodeIssueCodeLensProvider implements vscode.CodeLensProvider {
+  private _onDidChangeCodeLenses = new vscode.EventEmitter<void>();
+  readonly onDidChangeCodeLenses = this._onDidChangeCodeLenses.event;
+
+  private links: CodeIssueLink[] | undefined;
+
+  constructor(private fileStore: WorkspaceFileStore) {}
+
+  refresh(): void {
+    this.links = undefined;
+    this._onDidChangeCodeLenses.fire();
+  }
+
+  provideCodeLenses(document: vscode.TextDocument): vscode.CodeLens[] {
+    const root = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+    if (!root || document.uri.scheme !== 'file') {
+      return [];
+    }
+
+    const relativePath = path.relative(root, document.uri.fsPath).split(path.sep).join('/');
+    this.links ??= this.fileStore.getCodeIssueLinks();
+
+    const lenses: vscode.CodeLens[] = [];
+    for (const link of this.links.filter((l) => l.path === relativePath)) {
+      const line = this.locate(document, link);
+      if (line === undefined) {
+        continue;
+      }
+      const range = new vscode.Range(line, 0, line, 0);
+      lenses.push(
+        new vscode.CodeLens(range, {
+          title: `$(issues) ${link.issueKey}: ${link.summary}`,
+          tooltip: `Backlog で ${link.issueKey} を開く`,
+          command: 'nulab.openIssueByKey',
+          arguments: [link.issueKey],
+        }),
+        new vscode.CodeLens(range, {
+          title: '$(close)',
+          tooltip: 'リンクを解除',
+          command: 'nulab.removeCodeIssueLink',
+          arguments: [link.issueKey, link.path],
+        })
+      );
+    }
+    return lenses;
+  }
+
+  /**
+   * 記録した行に先頭行の内容が無ければ、最も近い一致行を探す（編集による行ずれ対策）。
+   */
+  private locate(document: vscode.TextDocument, link: CodeIssueLink): number | undefined {
+    const anchor = link.anchorText.trim();
+    const inRange = link.startLine < document.lineCount;
+    if (!anchor || (inRange && document.lineAt(link.startLine).text.trim() === anchor)) {
+      return inRange ? link.startLine : undefined;
+    }
+
+    let best: number | undefined;
+    for (let i = 0; i < document.lineCount; i++) {
+      if (
+        document.lineAt(i).text.trim() === anchor &&
+        (best === undefined || Math.abs(i - link.startLine) < Math.abs(best - link.startLine))
+      ) {
+        best = i;
+      }
+    }
+    return best;
+  }
+}
@@ -0,0 +1,44 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import { SyncService } from '../services/syncService';
+
+/**
+ * ドキュメント履歴のスナップショットを仮想ドキュメントとして提供する (backlog-history:)。
+ * - backlog-history:/snapshot/{hash}/{name}.md → 保存済みスナップショットの本文
+ * - backlog-history:/working/{encoded path}/{name}.md → 現在のローカルファイル本文
+ */
+export class DocumentHistoryContentProvider implements vscode.TextDocumentContentProvider {
+  static readonly scheme = 'backlog-history';
+
+  constructor(private syncService: SyncService) {}
+
+  provideTextDocumentContent(uri: vscode.Uri): string {
+    const pathParts = uri.path.split('/').filter(Boolean);
+    if (pathParts.length < 2) {
+      return '// Error: Invalid URI';
+    }
+
+    const key = decodeURIComponent(pathParts[1]);
+    if (pathParts[0] === 'working') {
+      return fs.existsSync(key) ? this.syncService.readLocalContent(key) : '';
+    }
+    return this.syncService.loadSnapshotContent(key) ?? '// Error: Snapshot not found';
+  }
+
+  static buildSnapshotUri(hash: string, title: string): vscode.Uri {
+    return DocumentHistoryContentProvider.buildUri('snapshot', hash, title);
+  }
+
+  static buildWorkingUri(filePath: string, title: string): vscode.Uri {
+    return DocumentHistoryContentProvider.buildUri('working', filePath, title);
+  }
+
+  private static buildUri(kind: string, key: string, title: string): vscode.Uri {
+    const safeName = title.replace(/[/\\:*?"<>|]/g, '-') + '.md';
+    return vscode.Uri.parse(
+      `${DocumentHistoryContentProvider.scheme}:/${kind}/${encodeURIComponent(
+        key
+      )}/${encodeURIComponent(safeName)}`
+    );
+  }
+}
@@ -0,0 +1,105 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { SyncService } from '../services/syncService';
+import { DocumentSnapshot, DocumentSnapshotAction } from '../types/backlog';
+import { DocumentHistoryContentProvider } from './documentHistoryContentProvider';
+
+const ACTION_LABELS: Record<DocumentSnapshotAction, { label: string; icon: string }> = {
+  pull: { label: 'Pull', icon: 'cloud-download' },
+  push: { label: 'Push', icon: 'cloud-upload' },
+  local: { label: 'ローカル変更', icon: 'edit' },
+};
+
+/**
+ * 選択中の .bdoc ファイルの同期履歴（スナップショット）を一覧表示する。
+ */
+export class DocumentHistoryTreeViewProvider implements vscode.TreeDataProvider<SnapshotItem> {
+  private _onDidChangeTreeData = new vscode.EventEmitter<SnapshotItem | undefined | null | void>();
+  readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
+
+  private targetPath: string | undefined;
+
+  constructor(private syncService: SyncService) {}
+
+  refresh(): void {
+    this._onDidChangeTreeData.fire();
+  }
+
+  setTarget(filePath: string | undefined): void {
+    if (filePath === this.targetPath) {
+      return;
+    }
+    this.targetPath = filePath;
+    this.refresh();
+  }
+
+  getTarget(): string | undefined {
+    return this.targetPath;
+  }
+
+  /**
+   * アクティブなタブ（テキスト / カスタムエディタ）の .bdoc を表示対象にする。
+   */
+  followActiveEditor(): vscode.Disposable {
+    const update = () => {
+      const input = vscode.window.tabGroups.activeTabGroup.activeTab?.input;
+      const uri =
+        input instanceof vscode.TabInputText || input instanceof vscode.TabInputCustom
+          ? input.uri
+          : undefined;
+      if (uri?.scheme === 'file' && uri.fsPath.endsWith('.bdoc')) {
+        this.setTarget(uri.fsPath);
+      }
+    };
+    update();
+    return vscode.window.tabGroups.onDidChangeTabs(update);
+  }
+
+  getTreeItem(element: SnapshotItem): vscode.TreeItem {
+    return element;
+  }
+
+  getChildren(element?: SnapshotItem): SnapshotItem[] {
+    if (element || !this.targetPath || !fs.existsSync(this.targetPath)) {
+      return [];
+    }
+
+    const { meta } = this.syncService.parseFrontmatter(fs.readFileSync(this.targetPath, 'utf-8'));
+    if (!meta.backlog_id) {
+      return [];
+    }
+
+    return this.syncService
+      .getSnapshots(meta.backlog_id)
+      .map((snapshot) => new SnapshotItem(snapshot, meta.backlog_id, this.targetPath!));
+  }
+}
+
+export class SnapshotItem extends vscode.TreeItem {
+  constructor(
+    public readonly snapshot: DocumentSnapshot,
+    public readonly documentId: string,
+    public readonly filePath: string
+  ) {
+    const action = ACTION_LABELS[snapshot.action];
+    super(new Date(snapshot.createdAt).toLocaleString(), vscode.TreeItemCollapsibleState.None);
+
+    this.description = `${action.label} · ${snapshot.hash.substring(0, 7)}`;
+    this.tooltip = `${snapshot.title}\n${action.label}: ${snapshot.createdAt}\n${snapshot.path}`;
+    this.iconPath = new vscode.ThemeIcon(action.icon);
+    this.contextValue = 'docSnapshot';
+
+    this.command = {
+      command: 'vscode.diff',
+      title: 'Compare with Current',
+      arguments: [
+        DocumentHistoryContentProvider.buildSnapshotUri(snapshot.hash, snapshot.title),
+        DocumentHistoryContentProvider.buildWorkingUri(filePath, snapshot.title),
+        `${snapshot.title} (${action.label} ${snapshot.hash.substring(0, 7)} ↔ ${path.basename(
+          filePath
+        )})`,
+      ],
+    };
+  }
+}
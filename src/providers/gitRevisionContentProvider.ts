@@ -0,0 +1,36 @@
+import * as vscode from 'vscode';
+import { showFileAtRevision } from '../utils/gitRevision';
+
+/**
+ * ローカル clone の指定コミット時点のファイルを仮想ドキュメントとして提供する (nulab-git:)。
+ * nulab-git:/{path}?{"root":..., "ref":...} → git show {ref}:{path}
+ * ref が空、またはそのコミットにファイルが無い場合は空のドキュメントになる（追加・削除の差分用）。
+ */
+export class GitRevisionContentProvider implements vscode.TextDocumentContentProvider {
+  static readonly scheme = 'nulab-git';
+
+  async provideTextDocumentContent(uri: vscode.Uri): Promise<string> {
+    let query: { root?: string; ref?: string };
+    try {
+      query = JSON.parse(uri.query);
+    } catch {
+      return '// Error: Invalid URI';
+    }
+    if (!query.root || !query.ref) {
+      return '';
+    }
+    try {
+      return await showFileAtRevision(query.root, query.ref, uri.path.replace(/^\//, ''));
+    } catch {
+      return '';
+    }
+  }
+
+  static buildUri(root: string, ref: string, path: string): vscode.Uri {
+    return vscode.Uri.from({
+      scheme: GitRevisionContentProvider.scheme,
+      path: `/${path}`,
+      query: JSON.stringify({ root, ref }),
+    });
+  }
+}
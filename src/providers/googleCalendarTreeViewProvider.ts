@@ -229,6 +229,9 @@ export class GoogleCalendarTreeViewProvider
   private eventCache: Map<string, GoogleCalendarEvent[]> = new Map();
   // Cache: eventId → documents
   private documentCache: Map<string, GoogleDriveFile[]> = new Map();
+  private eventsLoaded = false;
+  // In-flight fetch shared by the tree and the Inbox
+  private eventsLoading: Promise<void> | null = null;
   private daysRange: number;
 
   constructor(private googleApi: GoogleApiService, private extensionUri: vscode.Uri) {
@@ -239,9 +242,23 @@ export class GoogleCalendarTreeViewProvider
   refresh(): void {
     this.eventCache.clear();
     this.documentCache.clear();
+    this.eventsLoaded = false;
     this._onDidChangeTreeData.fire();
   }
 
+  /** All events in the configured range (fetched once and shared with the tree) */
+  async getEvents(): Promise<GoogleCalendarEvent[]> {
+    if (!this.eventsLoaded) {
+      await this.loadEvents();
+    }
+    return [...this.eventCache.values()].flat();
+  }
+
+  /** Documents linked to an event (cached per event) */
+  async getEventDocuments(event: GoogleCalendarEvent): Promise<GoogleDriveFile[]> {
+    return (await this.getDocumentsForEvent(event)).map((item) => item.file);
+  }
+
   getTreeItem(element: GoogleCalendarTreeItem): vscode.TreeItem {
     return element;
   }
@@ -301,8 +318,8 @@ export class GoogleCalendarTreeViewProvider
   // ---- Level 1: Events for a date ----
 
   private async getEventsForDate(dateKey: string): Promise<EventItem[]> {
-    if (!this.eventCache.has(dateKey)) {
-      await this.fetchEventsForRange();
+    if (!this.eventsLoaded) {
+      await this.loadEvents();
     }
 
     const events = this.eventCache.get(dateKey) || [];
@@ -314,6 +331,15 @@ export class GoogleCalendarTreeViewProvider
     });
   }
 
+  private loadEvents(): Promise<void> {
+    if (!this.eventsLoading) {
+      this.eventsLoading = this.fetchEventsForRange().finally(() => {
+        this.eventsLoading = null;
+      });
+    }
+    return this.eventsLoading;
+  }
+
   private async fetchEventsForRange(): Promise<void> {
     const today = new Date();
     today.setHours(0, 0, 0, 0);
@@ -340,6 +366,7 @@ export class GoogleCalendarTreeViewProvider
         }
         this.eventCache.get(dateKey)!.push(event);
       }
+      this.eventsLoaded = true;
     } catch (error) {
       if (error instanceof Error && error.message.includes('not configured')) {
         // Not authenticated — show empty tree, welcome view will be shown
@@ -0,0 +1,428 @@
+import * as vscode from 'vscode';
+import { WorkspaceFileStore } from '../config/workspaceFileStore';
+import {
+  BacklogNotification,
+  NotificationsTreeViewProvider,
+  formatRelativeTime,
+} from './notificationsTreeViewProvider';
+import { SlackTreeViewProvider, formatSlackTime } from './slackTreeViewProvider';
+import { GoogleCalendarTreeViewProvider } from './googleCalendarTreeViewProvider';
+import { TodoTreeViewProvider } from './todoTreeViewProvider';
+import {
+  InboxSource,
+  InboxStateFile,
+  NOTIFICATION_REASONS,
+  SlackMessage,
+} from '../types/workspace';
+import { GoogleCalendarEvent, GoogleDriveFile } from '../types/google';
+
+/** 予定を Inbox に出す範囲（開始までの時間） */
+const UPCOMING_EVENT_HOURS = 24;
+/** 確認済みにした予定を覚えておく件数 */
+const MAX_DISMISSED = 200;
+
+/**
+ * Inbox の 1 項目。同じ課題の通知・同じスレッドのメッセージは 1 項目にまとめる。
+ * 通知とメッセージは新しい順。time は並び替え用のエポックミリ秒（予定は開始時刻）。
+ */
+export type InboxEntry =
+  | {
+      source: 'backlog';
+      key: string;
+      time: number;
+      unread: boolean;
+      notifications: BacklogNotification[];
+    }
+  | { source: 'slack'; key: string; time: number; unread: boolean; messages: SlackMessage[] }
+  | {
+      source: 'calendar';
+      key: string;
+      time: number;
+      unread: boolean;
+      event: GoogleCalendarEvent;
+      documents: GoogleDriveFile[];
+    };
+
+type InboxNode = InboxItem | InboxSnoozedGroupItem;
+/** 項目が無いときの案内など、InboxNode 以外の行も含めたツリーの要素 */
+type InboxTreeElement = InboxNode | vscode.TreeItem;
+
+/**
+ * Backlog 通知・Slack のメンション / DM・直近の予定（議事録付き）を時系列にまとめて表示する。
+ * データは各ツリーのプロバイダーが持つものを使い、既読やスヌーズも元のプロバイダーと共有する。
+ * カレンダーは Google の登録に成功した場合だけ attachCalendar で繋ぐ。
+ */
+export class InboxTreeViewProvider
+  implements vscode.TreeDataProvider<InboxTreeElement>, vscode.Disposable
+{
+  private _onDidChangeTreeData = new vscode.EventEmitter<
+    InboxTreeElement | undefined | null | void
+  >();
+  readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
+
+  private calendarProvider: GoogleCalendarTreeViewProvider | null = null;
+  private state: InboxStateFile;
+  private disposables: vscode.Disposable[] = [];
+
+  constructor(
+    private notificationsProvider: NotificationsTreeViewProvider,
+    private slackProvider: SlackTreeViewProvider,
+    private todoProvider: TodoTreeViewProvider,
+    private fileStore: WorkspaceFileStore
+  ) {
+    this.state = this.fileStore.getInboxState();
+    const fire = () => this._onDidChangeTreeData.fire();
+    this.disposables.push(
+      this.notificationsProvider.onDidChangeTreeData(fire),
+      this.slackProvider.onDidChangeTreeData(fire),
+      this.todoProvider.onDidChangeTreeData(fire)
+    );
+  }
+
+  attachCalendar(provider: GoogleCalendarTreeViewProvider): void {
+    this.calendarProvider = provider;
+    this.disposables.push(provider.onDidChangeTreeData(() => this._onDidChangeTreeData.fire()));
+    this._onDidChangeTreeData.fire();
+  }
+
+  refresh(): void {
+    this.calendarProvider?.refresh();
+    this._onDidChangeTreeData.fire();
+  }
+
+  dispose(): void {
+    this.disposables.forEach((d) => d.dispose());
+  }
+
+  // ---- Snooze / dismiss (Slack と予定の分。Backlog 通知は NotificationsTreeViewProvider 側) ----
+
+  snooze(keys: string[], until: Date): void {
+    const snoozed = { ...this.state.snoozed };
+    for (const key of keys) {
+      snoozed[key] = until.toISOString();
+    }
+    this.saveState({ snoozed });
+  }
+
+  unsnooze(keys: string[]): void {
+    const snoozed = { ...this.state.snoozed };
+    for (const key of keys) {
+      delete snoozed[key];
+    }
+    this.saveState({ snoozed });
+  }
+
+  /** 予定を確認済みにする（古いものから捨て、最大 MAX_DISMISSED 件） */
+  dismiss(keys: string[]): void {
+    const dismissed = new Set(this.state.dismissed || []);
+    keys.forEach((k) => dismissed.add(k));
+    this.saveState({ dismissed: [...dismissed].slice(-MAX_DISMISSED) });
+  }
+
+  private saveState(updates: Partial<InboxStateFile>): void {
+    this.state = { ...this.fileStore.getInboxState(), ...updates };
+    this.fileStore.saveInboxState(this.state);
+    this._onDidChangeTreeData.fire();
+  }
+
+  getSnoozedUntil(entry: InboxEntry): Date | undefined {
+    if (entry.source === 'backlog') {
+      return this.notificationsProvider.getSnoozedUntil(entry.notifications[0].id);
+    }
+    const until = this.state.snoozed?.[entry.key];
+    return until && new Date(until).getTime() > Date.now() ? new Date(until) : undefined;
+  }
+
+  hasTodo(entry: InboxEntry): boolean {
+    if (entry.source === 'backlog') {
+      const issueKey = entry.notifications[0].issue?.issueKey;
+      return !!issueKey && this.todoProvider.getTodoIssueKeys().has(issueKey);
+    }
+    if (entry.source === 'slack') {
+      const keys = this.todoProvider.getTodoSlackKeys();
+      return entry.messages.some((m) => keys.has(`${m.channel}:${m.ts}`));
+    }
+    return false;
+  }
+
+  getTreeItem(element: InboxTreeElement): vscode.TreeItem {
+    return element;
+  }
+
+  async getChildren(element?: InboxTreeElement): Promise<InboxTreeElement[]> {
+    if (element instanceof InboxSnoozedGroupItem) {
+      return element.items;
+    }
+    if (element) {
+      return [];
+    }
+
+    const entries = await this.collectEntries();
+    const active: InboxItem[] = [];
+    const snoozed: InboxItem[] = [];
+    for (const entry of entries) {
+      const until = this.getSnoozedUntil(entry);
+      const item = new InboxItem(entry, this.hasTodo(entry), until);
+      (until ? snoozed : active).push(item);
+    }
+
+    if (active.length === 0 && snoozed.length === 0) {
+      const empty = new vscode.TreeItem('新しい項目はありません');
+      empty.iconPath = new vscode.ThemeIcon('check');
+      return [empty];
+    }
+    return snoozed.length > 0 ? [...active, new InboxSnoozedGroupItem(snoozed)] : active;
+  }
+
+  /** 3 つのソースをまとめて新しい順に並べる */
+  private async collectEntries(): Promise<InboxEntry[]> {
+    const [backlog, calendar] = await Promise.all([this.collectBacklog(), this.collectCalendar()]);
+    return [...backlog, ...this.collectSlack(), ...calendar].sort((a, b) => b.time - a.time);
+  }
+
+  private async collectBacklog(): Promise<InboxEntry[]> {
+    let notifications: BacklogNotification[];
+    try {
+      notifications = await this.notificationsProvider.getNotifications();
+    } catch (error) {
+      console.error('[Workspace] Inbox: failed to load notifications:', error);
+      return [];
+    }
+    // ミュート中の課題は Notifications と同じく既読扱いなので Inbox には出さない
+    const groups = new Map<string, BacklogNotification[]>();
+    for (const n of notifications) {
+      if (this.notificationsProvider.isIssueMuted(n.issue?.issueKey)) {
+        continue;
+      }
+      const key = n.issue?.issueKey ? `backlog:${n.issue.issueKey}` : `backlog:n${n.id}`;
+      groups.set(key, [...(groups.get(key) || []), n]);
+    }
+    return [...groups.entries()].map(([key, group]) => ({
+      source: 'backlog',
+      key,
+      time: new Date(group[0].created).getTime(),
+      unread: group.some((n) => !n.alreadyRead),
+      notifications: group,
+    }));
+  }
+
+  private collectSlack(): InboxEntry[] {
+    const groups = new Map<string, SlackMessage[]>();
+    const seen = new Set<string>();
+    for (const m of this.slackProvider.getMentions()) {
+      // DM とメンションの両方に出るメッセージは 1 件にする
+      if (seen.has(`${m.channel}:${m.ts}`)) {
+        continue;
+      }
+      seen.add(`${m.channel}:${m.ts}`);
+      const key = `slack:${m.channel}:${m.thread_ts || m.ts}`;
+      groups.set(key, [...(groups.get(key) || []), m]);
+    }
+    return [...groups.entries()].map(([key, group]) => {
+      const messages = group.sort((a, b) => parseFloat(b.ts) - parseFloat(a.ts));
+      return {
+        source: 'slack',
+        key,
+        time: parseFloat(messages[0].ts) * 1000,
+        unread: messages.some((m) => !this.slackProvider.isRead(m.channel, m.ts)),
+        messages,
+      };
+    });
+  }
+
+  /** これから始まる（または進行中の）時刻指定の予定のうち、議事録・資料が付いているもの */
+  private async collectCalendar(): Promise<InboxEntry[]> {
+    if (!this.calendarProvider) {
+      return [];
+    }
+    const now = Date.now();
+    const limit = now + UPCOMING_EVENT_HOURS * 60 * 60 * 1000;
+    let events: GoogleCalendarEvent[];
+    try {
+      events = await this.calendarProvider.getEvents();
+    } catch (error) {
+      console.error('[Workspace] Inbox: failed to load events:', error);
+      return [];
+    }
+
+    const upcoming = new Map<string, GoogleCalendarEvent>();
+    for (const event of events) {
+      const start = event.start.dateTime ? new Date(event.start.dateTime).getTime() : NaN;
+      const end = event.end.dateTime ? new Date(event.end.dateTime).getTime() : start;
+      if (start <= limit && end > now) {
+        upcoming.set(event.id, event);
+      }
+    }
+
+    const entries: InboxEntry[] = [];
+    for (const event of upcoming.values()) {
+      const documents = await this.calendarProvider.getEventDocuments(event);
+      if (documents.length === 0) {
+        continue;
+      }
+      const key = `calendar:${event.id}`;
+      entries.push({
+        source: 'calendar',
+        key,
+        time: new Date(event.start.dateTime!).getTime(),
+        unread: !this.state.dismissed?.includes(key),
+        event,
+        documents,
+      });
+    }
+    return entries;
+  }
+}
+
+export class InboxItem extends vscode.TreeItem {
+  constructor(
+    public readonly entry: InboxEntry,
+    public readonly hasTodo: boolean,
+    public readonly snoozedUntil?: Date
+  ) {
+    super(InboxItem.buildLabel(entry), vscode.TreeItemCollapsibleState.None);
+    this.id = entry.key;
+
+    const color = hasTodo
+      ? 'charts.purple'
+      : !entry.unread
+      ? 'disabledForeground'
+      : entry.source === 'backlog'
+      ? 'charts.green'
+      : entry.source === 'slack'
+      ? 'charts.orange'
+      : 'charts.blue';
+    this.iconPath = new vscode.ThemeIcon(InboxItem.getIcon(entry), new vscode.ThemeColor(color));
+
+    const parts: string[] = [];
+    if (hasTodo) {
+      parts.push('TODO');
+    }
+    parts.push(...InboxItem.buildDescription(entry));
+    if (snoozedUntil) {
+      parts.push(
+        `〜${snoozedUntil.toLocaleString('ja-JP', {
+          month: 'numeric',
+          day: 'numeric',
+          hour: '2-digit',
+          minute: '2-digit',
+        })}`
+      );
+    }
+    this.description = parts.join(' · ');
+    this.tooltip = InboxItem.buildTooltip(entry);
+
+    // contextValue: inbox_{source}_{unread|read}[_snoozed]
+    this.contextValue = [
+      'inbox',
+      entry.source,
+      entry.unread ? 'unread' : 'read',
+      ...(snoozedUntil ? ['snoozed'] : []),
+    ].join('_');
+
+    this.command = {
+      command: 'nulab.treeItemClicked',
+      title: 'Open',
+      arguments: ['workspace.openInboxItem', this],
+    };
+  }
+
+  get source(): InboxSource {
+    return this.entry.source;
+  }
+
+  private static getIcon(entry: InboxEntry): string {
+    switch (entry.source) {
+      case 'backlog':
+        return entry.unread ? 'bell-dot' : 'bell';
+      case 'slack':
+        return entry.messages[0].is_dm ? 'mail' : 'mention';
+      case 'calendar':
+        return entry.event.hangoutLink ? 'device-camera-video' : 'calendar';
+    }
+  }
+
+  private static buildLabel(entry: InboxEntry): string {
+    switch (entry.source) {
+      case 'backlog': {
+        const n = entry.notifications[0];
+        const reason = NOTIFICATION_REASONS[n.reason] || `reason:${n.reason}`;
+        const subject = n.issue ? `${n.issue.issueKey} ${n.issue.summary}` : reason;
+        return `${n.sender?.name || 'Unknown'}: ${subject}`;
+      }
+      case 'slack': {
+        const m = entry.messages[0];
+        const preview = m.text.substring(0, 60) + (m.text.length > 60 ? '...' : '');
+        return `${m.userName || m.user || 'Unknown'}: ${preview}`;
+      }
+      case 'calendar':
+        return `${entry.event.start.dateTime!.slice(11, 16)} ${
+          entry.event.summary || '(No title)'
+        }`;
+    }
+  }
+
+  private static buildDescription(entry: InboxEntry): string[] {
+    switch (entry.source) {
+      case 'backlog': {
+        const n = entry.notifications[0];
+        return [
+          'Backlog',
+          NOTIFICATION_REASONS[n.reason] || '',
+          entry.notifications.length > 1 ? `${entry.notifications.length}件` : '',
+          formatRelativeTime(n.created),
+        ].filter(Boolean);
+      }
+      case 'slack': {
+        const m = entry.messages[0];
+        return [
+          m.is_dm ? 'DM' : m.channelName ? `#${m.channelName}` : 'Slack',
+          entry.messages.length > 1 ? `${entry.messages.length}件` : '',
+          formatSlackTime(m.ts),
+        ].filter(Boolean);
+      }
+      case 'calendar': {
+        const diffMin = Math.round((entry.time - Date.now()) / 60000);
+        const when =
+          diffMin <= 0
+            ? '開催中'
+            : diffMin < 60
+            ? `${diffMin}分後`
+            : `${Math.floor(diffMin / 60)}時間後`;
+        return ['Calendar', `${entry.documents.length} docs`, when];
+      }
+    }
+  }
+
+  private static buildTooltip(entry: InboxEntry): string {
+    switch (entry.source) {
+      case 'backlog':
+        return entry.notifications
+          .map((n) => {
+            const reason = NOTIFICATION_REASONS[n.reason] || `reason:${n.reason}`;
+            const comment = n.comment?.content ? `\n  ${n.comment.content.substring(0, 100)}` : '';
+            return `${n.sender?.name || 'Unknown'} ${reason}${comment}`;
+          })
+          .join('\n');
+      case 'slack':
+        return entry.messages
+          .map((m) => `${m.userName || m.user || 'Unknown'}: ${m.text.substring(0, 200)}`)
+          .join('\n');
+      case 'calendar':
+        return [
+          entry.event.summary || '(No title)',
+          ...entry.documents.map((d) => `📄 ${d.name}`),
+        ].join('\n');
+    }
+  }
+}
+
+export class InboxSnoozedGroupItem extends vscode.TreeItem {
+  constructor(public readonly items: InboxItem[]) {
+    super('スヌーズ中', vscode.TreeItemCollapsibleState.Collapsed);
+    this.id = 'inbox:snoozed';
+    this.description = `${items.length}`;
+    this.iconPath = new vscode.ThemeIcon('clock');
+    this.contextValue = 'inboxSnoozedGroup';
+  }
+}
@@ -1,9 +1,14 @@
 import * as vscode from 'vscode';
 import { BacklogApiService } from '../services/backlogApi';
-import { NOTIFICATION_REASONS } from '../types/workspace';
+import { WorkspaceFileStore } from '../config/workspaceFileStore';
+import {
+  NOTIFICATION_REASONS,
+  NotificationGroupBy,
+  NotificationStateFile,
+} from '../types/workspace';
 
 // Backlog notification shape (backlog-js doesn't fully type this)
-interface BacklogNotification {
+export interface BacklogNotification {
   id: number;
   alreadyRead: boolean;
   reason: number;
@@ -11,29 +16,63 @@ interface BacklogNotification {
   project?: { projectKey: string; name: string };
   issue?: { issueKey: string; summary: string; id: number };
   comment?: { id: number; content: string };
+  /** プルリクエスト関連の通知 (reason 9–11) は issue ではなくこちらを持つ */
+  pullRequest?: { id: number; number: number; summary: string; repositoryId: number };
+  /** pullRequest のリポジトリ。通知 API は repositoryId しか返さないので取得後に補完する */
+  repository?: { id: number; name: string };
   sender?: { id: number; name: string; userId: string };
   created: string;
   updated: string;
 }
 
-export class NotificationsTreeViewProvider
-  implements vscode.TreeDataProvider<NotificationTreeItem>
-{
+/** プルリクエストに関する通知の reason */
+const PULL_REQUEST_REASONS = [9, 10, 11];
+
+/** PR 通知なら nulab.openPullRequest の引数 (projectKey, repoName, number) を返す */
+export function pullRequestTarget(
+  notification: BacklogNotification
+): [string, string, number] | undefined {
+  const { project, pullRequest, repository } = notification;
+  if (!PULL_REQUEST_REASONS.includes(notification.reason) || !pullRequest) {
+    return undefined;
+  }
+  // リポジトリを引けなかった場合は開けない
+  if (!project || !repository) {
+    return undefined;
+  }
+  return [project.projectKey, repository.name, pullRequest.number];
+}
+
+type NotificationNode = NotificationGroupItem | NotificationTreeItem;
+
+const GROUP_BY_LABELS: Record<NotificationGroupBy, string> = {
+  none: 'グループ化しない',
+  issue: '課題ごと',
+  project: 'プロジェクトごと',
+  reason: '種別ごと',
+};
+
+export class NotificationsTreeViewProvider implements vscode.TreeDataProvider<NotificationNode> {
   private _onDidChangeTreeData = new vscode.EventEmitter<
-    NotificationTreeItem | undefined | null | void
+    NotificationNode | undefined | null | void
   >();
   readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
 
   private notifications: BacklogNotification[] | null = null;
   private filterUnreadOnly: boolean;
   private todoIssueKeys: Set<string> = new Set();
+  private state: NotificationStateFile;
+  /** projectKey → リポジトリ一覧（PR 通知の repository 補完用） */
+  private repositoryCache = new Map<string, { id: number; name: string }[]>();
 
   constructor(
     private backlogApi: BacklogApiService,
+    private fileStore: WorkspaceFileStore,
     private getPersistedFilter: () => boolean,
     private setPersistedFilter: (v: boolean) => void
   ) {
     this.filterUnreadOnly = this.getPersistedFilter();
+    this.state = this.fileStore.getNotificationState();
   }
 
   /** Update the set of issueKeys that have active TODOs */
@@ -51,6 +90,7 @@ export class NotificationsTreeViewProvider
   /** Clear cache and re-render (triggers loading spinner) */
   refresh(): void {
     this.notifications = null;
+    this.repositoryCache.clear();
     this._onDidChangeTreeData.fire();
   }
 
@@ -64,13 +104,54 @@ export class NotificationsTreeViewProvider
         count: 50,
         order: 'desc',
       });
+      await this.attachRepositories(this.notifications);
+      await this.markMutedAsRead(this.notifications);
     } catch (error) {
       console.error('[Workspace] Failed to load notifications:', error);
       this.notifications = [];
     }
+    this.pruneSnoozes();
     this._onDidChangeTreeData.fire();
   }
 
+  /** 通知一覧（新しい順）。refresh 後など未取得の場合だけ取得する */
+  async getNotifications(): Promise<BacklogNotification[]> {
+    if (!this.notifications) {
+      const notifications: BacklogNotification[] = await this.backlogApi.getNotifications({
+        count: 50,
+        order: 'desc',
+      });
+      await this.attachRepositories(notifications);
+      this.notifications = notifications;
+    }
+    return this.notifications;
+  }
+
+  /** PR 通知の repositoryId からリポジトリ名を引いて repository に入れる */
+  private async attachRepositories(notifications: BacklogNotification[]): Promise<void> {
+    const projectKeys = new Set(
+      notifications.filter((n) => n.pullRequest && n.project).map((n) => n.project!.projectKey)
+    );
+    for (const projectKey of projectKeys) {
+      let repositories = this.repositoryCache.get(projectKey);
+      if (!repositories) {
+        try {
+          repositories = await this.backlogApi.getGitRepositories(projectKey);
+        } catch (error) {
+          console.error(`[Workspace] Failed to load repositories for ${projectKey}:`, error);
+          continue;
+        }
+        this.repositoryCache.set(projectKey, repositories);
+      }
+      for (const n of notifications) {
+        if (n.pullRequest && n.project?.projectKey === projectKey) {
+          const repository = repositories.find((r) => r.id === n.pullRequest!.repositoryId);
+          n.repository = repository && { id: repository.id, name: repository.name };
+        }
+      }
+    }
+  }
+
   toggleFilterUnread(): boolean {
     this.filterUnreadOnly = !this.filterUnreadOnly;
     this.setPersistedFilter(this.filterUnreadOnly);
@@ -82,38 +163,184 @@ export class NotificationsTreeViewProvider
     return this.filterUnreadOnly;
   }
 
-  getTreeItem(element: NotificationTreeItem): vscode.TreeItem {
+  // ---- Grouping ----
+
+  getGroupBy(): NotificationGroupBy {
+    return this.state.groupBy || 'none';
+  }
+
+  static getGroupByLabel(groupBy: NotificationGroupBy): string {
+    return GROUP_BY_LABELS[groupBy];
+  }
+
+  setGroupBy(groupBy: NotificationGroupBy): void {
+    this.saveState({ groupBy });
+    this._onDidChangeTreeData.fire();
+  }
+
+  // ---- Snooze ----
+
+  /** 指定日時まで通知を非表示にする */
+  snooze(ids: number[], until: Date): void {
+    const snoozed = { ...this.state.snoozed };
+    for (const id of ids) {
+      snoozed[id] = until.toISOString();
+    }
+    this.saveState({ snoozed });
+    this._onDidChangeTreeData.fire();
+  }
+
+  unsnooze(ids: number[]): void {
+    const snoozed = { ...this.state.snoozed };
+    for (const id of ids) {
+      delete snoozed[id];
+    }
+    this.saveState({ snoozed });
+    this._onDidChangeTreeData.fire();
+  }
+
+  getSnoozedUntil(id: number): Date | undefined {
+    const until = this.state.snoozed?.[id];
+    return until && new Date(until).getTime() > Date.now() ? new Date(until) : undefined;
+  }
+
+  /** 期限切れのスヌーズを .nulab から消す */
+  private pruneSnoozes(): void {
+    const entries = Object.entries(this.state.snoozed || {});
+    const active = entries.filter(([, until]) => new Date(until).getTime() > Date.now());
+    if (active.length !== entries.length) {
+      this.saveState({ snoozed: Object.fromEntries(active) });
+    }
+  }
+
+  // ---- Mute ----
+
+  getMutedIssues(): string[] {
+    return [...(this.state.mutedIssues || [])];
+  }
+
+  isIssueMuted(issueKey: string | undefined): boolean {
+    return !!issueKey && !!this.state.mutedIssues?.includes(issueKey);
+  }
+
+  /** 課題をミュートし、その課題の未読通知も既読にする */
+  async muteIssue(issueKey: string): Promise<void> {
+    if (!this.isIssueMuted(issueKey)) {
+      this.saveState({ mutedIssues: [...(this.state.mutedIssues || []), issueKey] });
+    }
+    if (this.notifications) {
+      await this.markMutedAsRead(this.notifications);
+    }
+    this._onDidChangeTreeData.fire();
+  }
+
+  unmuteIssue(issueKey: string): void {
+    this.saveState({
+      mutedIssues: (this.state.mutedIssues || []).filter((key) => key !== issueKey),
+    });
+    this._onDidChangeTreeData.fire();
+  }
+
+  private async markMutedAsRead(notifications: BacklogNotification[]): Promise<void> {
+    for (const n of notifications) {
+      if (!n.alreadyRead && this.isIssueMuted(n.issue?.issueKey)) {
+        try {
+          await this.backlogApi.markNotificationAsRead(n.id);
+          n.alreadyRead = true;
+        } catch (error) {
+          console.error(`[Workspace] Failed to mark muted notification ${n.id} as read:`, error);
+        }
+      }
+    }
+  }
+
+  private saveState(updates: Partial<NotificationStateFile>): void {
+    this.state = { ...this.fileStore.getNotificationState(), ...updates };
+    this.fileStore.saveNotificationState(this.state);
+  }
+
+  getTreeItem(element: NotificationNode): vscode.TreeItem {
     return element;
   }
 
-  async getChildren(): Promise<NotificationTreeItem[]> {
+  async getChildren(element?: NotificationNode): Promise<NotificationNode[]> {
+    if (element instanceof NotificationGroupItem) {
+      return element.notifications.map((n) => this.toTreeItem(n));
+    }
+    if (element) {
+      return [];
+    }
     if (!(await this.backlogApi.isConfigured())) {
       return [];
     }
 
-    if (!this.notifications) {
-      try {
-        this.notifications = await this.backlogApi.getNotifications({
-          count: 50,
-          order: 'desc',
-        });
-      } catch (error) {
-        console.error('[Workspace] Failed to load notifications:', error);
-        return [];
-      }
+    let items: BacklogNotification[];
+    try {
+      items = await this.getNotifications();
+    } catch (error) {
+      console.error('[Workspace] Failed to load notifications:', error);
+      return [];
     }
 
-    let items = this.notifications;
     if (this.filterUnreadOnly) {
       items = items.filter((n) => !n.alreadyRead);
     }
+    const snoozed = items.filter((n) => this.getSnoozedUntil(n.id));
+    items = items.filter((n) => !this.getSnoozedUntil(n.id));
+
+    const groupBy = this.getGroupBy();
+    const nodes: NotificationNode[] =
+      groupBy === 'none' ? items.map((n) => this.toTreeItem(n)) : this.groupNotifications(items);
+    if (snoozed.length > 0) {
+      nodes.push(new NotificationGroupItem('snoozed', 'スヌーズ中', snoozed));
+    }
+    return nodes;
+  }
 
-    return items.map((n) => {
-      const hasTodo = !!(n.issue?.issueKey && this.todoIssueKeys.has(n.issue.issueKey));
-      return new NotificationTreeItem(n, hasTodo);
+  private toTreeItem(n: BacklogNotification): NotificationTreeItem {
+    const hasTodo = !!(n.issue?.issueKey && this.todoIssueKeys.has(n.issue.issueKey));
+    return new NotificationTreeItem(n, hasTodo, {
+      muted: this.isIssueMuted(n.issue?.issueKey),
+      snoozedUntil: this.getSnoozedUntil(n.id),
     });
   }
 
+  /** 新しい通知を含むグループから順に並べる（通知は新しい順に届く） */
+  private groupNotifications(items: BacklogNotification[]): NotificationGroupItem[] {
+    const groupBy = this.getGroupBy();
+    const groups = new Map<string, { label: string; items: BacklogNotification[] }>();
+    for (const n of items) {
+      let key: string;
+      let label: string;
+      if (groupBy === 'issue') {
+        key = n.issue?.issueKey || '';
+        label = n.issue ? `${n.issue.issueKey} ${n.issue.summary}` : 'その他';
+      } else if (groupBy === 'project') {
+        key = n.project?.projectKey || '';
+        label = n.project ? `${n.project.name} (${n.project.projectKey})` : 'その他';
+      } else {
+        key = String(n.reason);
+        label = NOTIFICATION_REASONS[n.reason] || `reason:${n.reason}`;
+      }
+      const group = groups.get(key) || { label, items: [] };
+      group.items.push(n);
+      groups.set(key, group);
+    }
+    return [...groups.entries()].map(
+      ([key, group]) =>
+        new NotificationGroupItem(
+          groupBy === 'issue' ? 'issue' : 'other',
+          group.label,
+          group.items,
+          {
+            id: `${groupBy}:${key}`,
+            issueKey: groupBy === 'issue' ? key || undefined : undefined,
+            muted: groupBy === 'issue' && this.isIssueMuted(key),
+          }
+        )
+    );
+  }
+
   async getUnreadCount(): Promise<number> {
     try {
       return await this.backlogApi.getNotificationsCount();
@@ -131,6 +358,22 @@ export class NotificationsTreeViewProvider
     }
   }
 
+  /** 複数の通知をまとめて既読にする（一覧の再取得は最後に一度だけ） */
+  async markManyAsRead(ids: number[]): Promise<void> {
+    let failed = 0;
+    for (const id of ids) {
+      try {
+        await this.backlogApi.markNotificationAsRead(id);
+      } catch {
+        failed++;
+      }
+    }
+    if (failed > 0) {
+      vscode.window.showErrorMessage(`[Nulab] ${failed}件の通知を既読にできませんでした。`);
+    }
+    this.refresh();
+  }
+
   async markAllAsRead(): Promise<void> {
     try {
       await this.backlogApi.markAllNotificationsAsRead();
@@ -155,21 +398,77 @@ export class NotificationsTreeViewProvider
   }
 }
 
+export class NotificationGroupItem extends vscode.TreeItem {
+  public readonly issueKey?: string;
+
+  constructor(
+    public readonly kind: 'issue' | 'other' | 'snoozed',
+    label: string,
+    public readonly notifications: BacklogNotification[],
+    options: { id?: string; issueKey?: string; muted?: boolean } = {}
+  ) {
+    const unread = notifications.filter((n) => !n.alreadyRead).length;
+    super(
+      label,
+      unread > 0 && kind !== 'snoozed'
+        ? vscode.TreeItemCollapsibleState.Expanded
+        : vscode.TreeItemCollapsibleState.Collapsed
+    );
+    this.id = `notificationGroup:${options.id || kind}`;
+    this.issueKey = options.issueKey;
+    this.description =
+      (unread > 0 ? `${unread} 未読 / ${notifications.length}` : `${notifications.length}`) +
+      (options.muted ? ' · ミュート' : '');
+
+    if (kind === 'snoozed') {
+      this.iconPath = new vscode.ThemeIcon('clock');
+      this.contextValue = 'notificationSnoozedGroup';
+      return;
+    }
+    this.iconPath = options.muted
+      ? new vscode.ThemeIcon('bell-slash', new vscode.ThemeColor('disabledForeground'))
+      : kind === 'issue'
+      ? new vscode.ThemeIcon('issues')
+      : new vscode.ThemeIcon('folder');
+
+    // contextValue: notificationGroup + _unread / _issue / _muted
+    const parts = ['notificationGroup'];
+    if (unread > 0) {
+      parts.push('unread');
+    }
+    if (options.issueKey) {
+      parts.push(options.muted ? 'muted' : 'issue');
+    }
+    this.contextValue = parts.join('_');
+  }
+}
+
 export class NotificationTreeItem extends vscode.TreeItem {
   public readonly notification: BacklogNotification;
   public readonly todoSummary: string = '';
 
-  constructor(notification: BacklogNotification, hasTodo: boolean) {
+  constructor(
+    notification: BacklogNotification,
+    hasTodo: boolean,
+    state: { muted?: boolean; snoozedUntil?: Date } = {}
+  ) {
     const sender = notification.sender?.name || 'Unknown';
     const reason = NOTIFICATION_REASONS[notification.reason] || `reason:${notification.reason}`;
-    const issueKey = notification.issue?.issueKey || '';
-    const label = issueKey ? `${sender} ${reason} ${issueKey}` : `${sender} ${reason}`;
+    const prTarget = pullRequestTarget(notification);
+    const subject =
+      notification.issue?.issueKey || (prTarget ? `${prTarget[1]} #${prTarget[2]}` : '');
+    const label = subject ? `${sender} ${reason} ${subject}` : `${sender} ${reason}`;
 
     super(label, vscode.TreeItemCollapsibleState.None);
     this.notification = notification;
 
     // Icon
-    if (hasTodo) {
+    if (state.muted) {
+      this.iconPath = new vscode.ThemeIcon(
+        'bell-slash',
+        new vscode.ThemeColor('disabledForeground')
+      );
+    } else if (hasTodo) {
       this.iconPath = new vscode.ThemeIcon('bell-dot', new vscode.ThemeColor('charts.purple'));
     } else if (notification.alreadyRead) {
       this.iconPath = new vscode.ThemeIcon('bell', new vscode.ThemeColor('disabledForeground'));
@@ -186,6 +485,19 @@ export class NotificationTreeItem extends vscode.TreeItem {
     if (notification.alreadyRead) {
       parts.push('既読');
     }
+    if (state.muted) {
+      parts.push('ミュート');
+    }
+    if (state.snoozedUntil) {
+      parts.push(
+        `〜${state.snoozedUntil.toLocaleString('ja-JP', {
+          month: 'numeric',
+          day: 'numeric',
+          hour: '2-digit',
+          minute: '2-digit',
+        })}`
+      );
+    }
     this.description = parts.join(' · ');
 
     // Tooltip
@@ -196,16 +508,34 @@ export class NotificationTreeItem extends vscode.TreeItem {
     if (notification.issue?.summary) {
       lines.push(`Issue: ${notification.issue.summary}`);
     }
+    if (notification.pullRequest?.summary) {
+      lines.push(`Pull Request: ${notification.pullRequest.summary}`);
+    }
     this.tooltip = lines.join('\n');
 
-    // contextValue: notificationRead / notificationUnread + optional _todo suffix
-    const base = notification.alreadyRead ? 'notificationRead' : 'notificationUnread';
-    this.contextValue = hasTodo ? `${base}_todo` : base;
+    // contextValue: notificationRead / notificationUnread + _todo / _issue / _muted / _snoozed
+    const contextParts = [notification.alreadyRead ? 'notificationRead' : 'notificationUnread'];
+    if (hasTodo) {
+      contextParts.push('todo');
+    }
+    if (notification.issue) {
+      contextParts.push(state.muted ? 'muted' : 'issue');
+    }
+    if (state.snoozedUntil) {
+      contextParts.push('snoozed');
+    }
+    this.contextValue = contextParts.join('_');
 
     // Store summary for TODO conversion
     this.todoSummary = NotificationsTreeViewProvider.getNotificationSummary(notification);
 
-    if (notification.issue) {
+    if (prTarget) {
+      this.command = {
+        command: 'nulab.treeItemClicked',
+        title: 'Open Pull Request',
+        arguments: ['nulab.openPullRequest', ...prTarget],
+      };
+    } else if (notification.issue) {
       this.command = {
         command: 'nulab.treeItemClicked',
         title: 'Open Issue',
@@ -215,7 +545,7 @@ export class NotificationTreeItem extends vscode.TreeItem {
   }
 }
 
-function formatRelativeTime(dateString: string): string {
+export function formatRelativeTime(dateString: string): string {
   const now = Date.now();
   const then = new Date(dateString).getTime();
   const diffMs = now - then;
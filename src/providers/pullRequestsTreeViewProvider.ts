@@ -0,0 +1,214 @@
+import * as vscode from 'vscode';
+import { Entity } from 'backlog-js';
+import { BacklogApiService } from '../services/backlogApi';
+import { BacklogConfig } from '../config/backlogConfig';
+import { PullRequestFilter } from '../types/backlog';
+
+type PullRequestNode = PullRequestProjectItem | PullRequestRepositoryItem | PullRequestTreeItem;
+
+interface RepositoryPullRequests {
+  repository: Entity.Git.GitRepository;
+  pullRequests: Entity.PullRequest.PullRequest[];
+}
+
+const FILTER_LABELS: Record<PullRequestFilter, string> = {
+  all: 'すべて',
+  assigned: '自分が担当',
+  created: '自分が作成',
+};
+
+/**
+ * Backlog Git のオープンなプルリクエストを プロジェクト → リポジトリ → PR で表示する。
+ * お気に入りプロジェクトがあればそれだけ、無ければ Git を使っている全プロジェクトが対象。
+ */
+export class PullRequestsTreeViewProvider implements vscode.TreeDataProvider<PullRequestNode> {
+  private _onDidChangeTreeData = new vscode.EventEmitter<
+    PullRequestNode | undefined | null | void
+  >();
+  readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
+
+  private projects: Entity.Project.Project[] | null = null;
+  /** projectKey → リポジトリごとの PR（展開時に読み込む） */
+  private pullRequests = new Map<string, RepositoryPullRequests[]>();
+  private myselfId: number | null = null;
+
+  constructor(private backlogApi: BacklogApiService, private backlogConfig: BacklogConfig) {}
+
+  refresh(): void {
+    this.projects = null;
+    this.pullRequests.clear();
+    this._onDidChangeTreeData.fire();
+  }
+
+  getFilter(): PullRequestFilter {
+    return this.backlogConfig.getPullRequestFilter();
+  }
+
+  static getFilterLabel(filter: PullRequestFilter): string {
+    return FILTER_LABELS[filter];
+  }
+
+  async setFilter(filter: PullRequestFilter): Promise<void> {
+    await this.backlogConfig.setPullRequestFilter(filter);
+    this.pullRequests.clear();
+    this._onDidChangeTreeData.fire();
+  }
+
+  getTreeItem(element: PullRequestNode): vscode.TreeItem {
+    return element;
+  }
+
+  async getChildren(element?: PullRequestNode): Promise<PullRequestNode[]> {
+    if (!(await this.backlogApi.isConfigured())) {
+      return [];
+    }
+
+    if (!element) {
+      try {
+        const projects = await this.loadProjects();
+        return projects.map((project) => new PullRequestProjectItem(project));
+      } catch (error) {
+        console.error('[Workspace] Failed to load projects for pull requests:', error);
+        return [];
+      }
+    }
+
+    if (element instanceof PullRequestProjectItem) {
+      const projectKey = element.project.projectKey;
+      let repositories: RepositoryPullRequests[];
+      try {
+        repositories = await this.loadPullRequests(projectKey);
+      } catch (error) {
+        console.error(`[Workspace] Failed to load pull requests for ${projectKey}:`, error);
+        return [];
+      }
+      // 絞り込み中は該当 PR の無いリポジトリを出さない
+      const visible =
+        this.getFilter() === 'all'
+          ? repositories
+          : repositories.filter((r) => r.pullRequests.length > 0);
+      return visible.map(
+        (r) => new PullRequestRepositoryItem(projectKey, r.repository, r.pullRequests)
+      );
+    }
+
+    if (element instanceof PullRequestRepositoryItem) {
+      return element.pullRequests.map(
+        (pr) => new PullRequestTreeItem(element.projectKey, element.repository.name, pr)
+      );
+    }
+
+    return [];
+  }
+
+  /** 一覧に出しているリポジトリ（PR パネルから参照する） */
+  findRepository(projectKey: string, repoName: string): Entity.Git.GitRepository | undefined {
+    return this.pullRequests.get(projectKey)?.find((r) => r.repository.name === repoName)
+      ?.repository;
+  }
+
+  private async loadProjects(): Promise<Entity.Project.Project[]> {
+    if (!this.projects) {
+      const favorites = this.backlogConfig.getFavoriteProjects();
+      const all = (await this.backlogApi.getProjects()).filter((p) => p.useGit);
+      const favoriteProjects = all.filter((p) => favorites.includes(p.projectKey));
+      this.projects = favoriteProjects.length > 0 ? favoriteProjects : all;
+    }
+    return this.projects;
+  }
+
+  private async loadPullRequests(projectKey: string): Promise<RepositoryPullRequests[]> {
+    const cached = this.pullRequests.get(projectKey);
+    if (cached) {
+      return cached;
+    }
+
+    const params: { statusId: number[]; assigneeId?: number[]; createdUserId?: number[] } = {
+      statusId: [1], // Open
+    };
+    const filter = this.getFilter();
+    if (filter !== 'all') {
+      if (this.myselfId === null) {
+        this.myselfId = (await this.backlogApi.getUser()).id;
+      }
+      if (filter === 'assigned') {
+        params.assigneeId = [this.myselfId];
+      } else {
+        params.createdUserId = [this.myselfId];
+      }
+    }
+
+    const repositories = await this.backlogApi.getGitRepositories(projectKey);
+    const result = await Promise.all(
+      repositories.map(async (repository) => ({
+        repository,
+        pullRequests: await this.backlogApi.getPullRequests(projectKey, repository.name, params),
+      }))
+    );
+    this.pullRequests.set(projectKey, result);
+    return result;
+  }
+}
+
+export class PullRequestProjectItem extends vscode.TreeItem {
+  constructor(public readonly project: Entity.Project.Project) {
+    super(project.name, vscode.TreeItemCollapsibleState.Collapsed);
+    this.description = project.projectKey;
+    this.iconPath = new vscode.ThemeIcon('project');
+    this.contextValue = 'pullRequestProject';
+  }
+}
+
+export class PullRequestRepositoryItem extends vscode.TreeItem {
+  constructor(
+    public readonly projectKey: string,
+    public readonly repository: Entity.Git.GitRepository,
+    public readonly pullRequests: Entity.PullRequest.PullRequest[]
+  ) {
+    super(
+      repository.name,
+      pullRequests.length > 0
+        ? vscode.TreeItemCollapsibleState.Expanded
+        : vscode.TreeItemCollapsibleState.None
+    );
+    this.description = pullRequests.length > 0 ? `${pullRequests.length}` : 'PR なし';
+    this.tooltip = repository.description || repository.name;
+    this.iconPath = new vscode.ThemeIcon('repo');
+    this.contextValue = 'pullRequestRepository';
+  }
+}
+
+export class PullRequestTreeItem extends vscode.TreeItem {
+  constructor(
+    public readonly projectKey: string,
+    public readonly repoName: string,
+    public readonly pullRequest: Entity.PullRequest.PullRequest
+  ) {
+    super(`#${pullRequest.number} ${pullRequest.summary}`, vscode.TreeItemCollapsibleState.None);
+
+    const assignee = pullRequest.assignee?.name;
+    this.description = `${pullRequest.branch} → ${pullRequest.base}${
+      assignee ? ` / ${assignee}` : ''
+    }`;
+    this.iconPath = new vscode.ThemeIcon('git-pull-request', new vscode.ThemeColor('charts.green'));
+
+    this.tooltip = [
+      `#${pullRequest.number}: ${pullRequest.summary}`,
+      `Branch: ${pullRequest.branch} → ${pullRequest.base}`,
+      `Author: ${pullRequest.createdUser?.name || ''}`,
+      assignee ? `Assignee: ${assignee}` : '',
+      pullRequest.issue?.issueKey ? `Issue: ${pullRequest.issue.issueKey}` : '',
+      pullRequest.updated ? `Updated: ${new Date(pullRequest.updated).toLocaleString()}` : '',
+    ]
+      .filter(Boolean)
+      .join('\n');
+
+    this.contextValue = 'pullRequest';
+
+    this.command = {
+      command: 'nulab.treeItemClicked',
+      title: 'Open Pull Request',
+      arguments: ['nulab.openPullRequest', projectKey, repoName, pullRequest.number],
+    };
+  }
+}
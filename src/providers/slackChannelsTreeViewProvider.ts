@@ -0,0 +1,238 @@
+import * as vscode from 'vscode';
+import { SlackApiService } from '../services/slackApi';
+import { SlackConfig } from '../config/slackConfig';
+import { SlackChannel } from '../types/workspace';
+
+type GroupKind = 'favorites' | 'channels' | 'dms' | 'groupDms';
+
+const GROUP_LABELS: Record<GroupKind, string> = {
+  favorites: 'お気に入り',
+  channels: 'チャンネル',
+  dms: 'DM',
+  groupDms: 'グループ DM',
+};
+
+/** Number of conversations.info calls in flight while loading unread counts */
+const UNREAD_CONCURRENCY = 4;
+
+export class SlackChannelsTreeViewProvider implements vscode.TreeDataProvider<vscode.TreeItem> {
+  private _onDidChangeTreeData = new vscode.EventEmitter<
+    vscode.TreeItem | undefined | null | void
+  >();
+  readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
+
+  private channels: SlackChannel[] = [];
+  private error: string | null = null;
+  private configured: boolean | null = null;
+  private loaded = false;
+  /** Bumped on every fetch so a stale unread-count load stops updating the tree */
+  private generation = 0;
+
+  constructor(private slackApi: SlackApiService, private slackConfig: SlackConfig) {}
+
+  /** Clear cache and re-render (triggers loading spinner until fetchAndRefresh completes) */
+  refresh(): void {
+    this.loaded = false;
+    this.channels = [];
+    this.error = null;
+    this._onDidChangeTreeData.fire();
+  }
+
+  /** Fetch the conversation list, then load unread counts in the background */
+  async fetchAndRefresh(): Promise<void> {
+    const generation = ++this.generation;
+    this.configured = await this.slackApi.isConfigured();
+    if (!this.configured) {
+      this.loaded = true;
+      this._onDidChangeTreeData.fire();
+      return;
+    }
+
+    this.error = null;
+    try {
+      this.channels = await this.slackApi.getMyConversations();
+    } catch (error) {
+      this.error = error instanceof Error ? error.message : String(error);
+      this.channels = [];
+    }
+    this.loaded = true;
+    this._onDidChangeTreeData.fire();
+
+    void this.loadUnreadCounts(generation);
+  }
+
+  private async loadUnreadCounts(generation: number): Promise<void> {
+    // Favorites first so the most relevant counts show up earliest
+    const favoriteIds = new Set(this.slackConfig.getFavoriteChannels().map((f) => f.id));
+    const queue = [...this.channels].sort(
+      (a, b) => Number(favoriteIds.has(b.id)) - Number(favoriteIds.has(a.id))
+    );
+    for (let i = 0; i < queue.length; i += UNREAD_CONCURRENCY) {
+      if (generation !== this.generation) {
+        return;
+      }
+      await Promise.all(
+        queue.slice(i, i + UNREAD_CONCURRENCY).map(async (ch) => {
+          try {
+            ch.unread_count = await this.slackApi.getChannelUnreadCount(ch.id);
+          } catch {
+            // Leave as 0 (e.g. missing scope)
+          }
+        })
+      );
+      if (generation === this.generation) {
+        this._onDidChangeTreeData.fire();
+      }
+    }
+  }
+
+  /** Re-group after the favorite channel list has been edited */
+  favoritesChanged(): void {
+    this._onDidChangeTreeData.fire();
+  }
+
+  getChannel(id: string): SlackChannel | undefined {
+    return this.channels.find((ch) => ch.id === id);
+  }
+
+  /** Reset the unread count after the channel has been viewed */
+  markRead(id: string): void {
+    const ch = this.getChannel(id);
+    if (ch && ch.unread_count !== 0) {
+      ch.unread_count = 0;
+      this._onDidChangeTreeData.fire();
+    }
+  }
+
+  /** Count a message received over Socket Mode */
+  incrementUnread(id: string): void {
+    const ch = this.getChannel(id);
+    if (ch) {
+      ch.unread_count++;
+      this._onDidChangeTreeData.fire();
+    }
+  }
+
+  getTreeItem(element: vscode.TreeItem): vscode.TreeItem {
+    return element;
+  }
+
+  /** Returns cached data only — never makes async API calls */
+  getChildren(element?: vscode.TreeItem): vscode.TreeItem[] {
+    if (!this.loaded) {
+      return [];
+    }
+
+    if (this.configured === false) {
+      const hint = new vscode.TreeItem('Slack トークンが未設定です');
+      hint.iconPath = new vscode.ThemeIcon('key');
+      hint.command = {
+        command: 'workspace.setSlackToken',
+        title: 'Set Slack Token',
+      };
+      return [hint];
+    }
+
+    const favoriteIds = new Set(this.slackConfig.getFavoriteChannels().map((f) => f.id));
+
+    if (element instanceof SlackChannelGroupItem) {
+      return this.channelsOf(element.kind, favoriteIds).map(
+        (ch) => new SlackChannelItem(ch, favoriteIds.has(ch.id))
+      );
+    }
+    if (element) {
+      return [];
+    }
+
+    if (this.error) {
+      const errorItem = new vscode.TreeItem(`エラー: ${this.error}`);
+      errorItem.iconPath = new vscode.ThemeIcon('error');
+      errorItem.tooltip = this.error;
+      return [errorItem];
+    }
+
+    if (this.channels.length === 0) {
+      const noDataItem = new vscode.TreeItem('参加しているチャンネルはありません');
+      noDataItem.iconPath = new vscode.ThemeIcon('info');
+      return [noDataItem];
+    }
+
+    const kinds: GroupKind[] = ['favorites', 'channels', 'dms', 'groupDms'];
+    return kinds
+      .map((kind) => ({ kind, items: this.channelsOf(kind, favoriteIds) }))
+      .filter(({ items }) => items.length > 0)
+      .map(
+        ({ kind, items }) =>
+          new SlackChannelGroupItem(
+            kind,
+            items.reduce((sum, ch) => sum + ch.unread_count, 0)
+          )
+      );
+  }
+
+  private channelsOf(kind: GroupKind, favoriteIds: Set<string>): SlackChannel[] {
+    const matches = (ch: SlackChannel): boolean => {
+      switch (kind) {
+        case 'favorites':
+          return favoriteIds.has(ch.id);
+        case 'channels':
+          return !ch.is_im && !ch.is_mpim && !favoriteIds.has(ch.id);
+        case 'dms':
+          return ch.is_im && !favoriteIds.has(ch.id);
+        case 'groupDms':
+          return ch.is_mpim && !favoriteIds.has(ch.id);
+      }
+    };
+    // Unread first, then by name
+    return this.channels
+      .filter(matches)
+      .sort(
+        (a, b) =>
+          Number(b.unread_count > 0) - Number(a.unread_count > 0) || a.name.localeCompare(b.name)
+      );
+  }
+}
+
+export class SlackChannelGroupItem extends vscode.TreeItem {
+  constructor(public readonly kind: GroupKind, unreadTotal: number) {
+    super(
+      GROUP_LABELS[kind],
+      kind === 'groupDms'
+        ? vscode.TreeItemCollapsibleState.Collapsed
+        : vscode.TreeItemCollapsibleState.Expanded
+    );
+    this.id = `slackChannelGroup:${kind}`;
+    this.description = unreadTotal > 0 ? `${unreadTotal}` : undefined;
+    this.contextValue = 'slackChannelGroup';
+  }
+}
+
+export class SlackChannelItem extends vscode.TreeItem {
+  constructor(public readonly channel: SlackChannel, isFavorite: boolean) {
+    super(
+      channel.is_im || channel.is_mpim ? channel.name : `#${channel.name}`,
+      vscode.TreeItemCollapsibleState.None
+    );
+
+    const icon = channel.is_im
+      ? 'account'
+      : channel.is_mpim
+      ? 'organization'
+      : channel.is_private
+      ? 'lock'
+      : 'symbol-number';
+    this.iconPath =
+      channel.unread_count > 0
+        ? new vscode.ThemeIcon(icon, new vscode.ThemeColor('charts.orange'))
+        : new vscode.ThemeIcon(icon);
+    this.description = channel.unread_count > 0 ? `${channel.unread_count} 件の未読` : undefined;
+    this.tooltip = channel.is_im ? `DM: ${channel.name}` : `#${channel.name}`;
+    this.contextValue = isFavorite ? 'slackChannelFavorite' : 'slackChannel';
+
+    this.command = {
+      command: 'nulab.treeItemClicked',
+      title: 'Open Channel',
+      arguments: ['workspace.openSlackChannel', channel.id],
+    };
+  }
+}
@@ -1,6 +1,7 @@
 import * as vscode from 'vscode';
 import { SlackApiService } from '../services/slackApi';
 import { SlackConfig } from '../config/slackConfig';
+import { slackCompletionScript, slackCompletionStyles } from '../webviews/slackComposerCompletion';
 
 export class SlackPostWebviewProvider implements vscode.WebviewViewProvider {
   public static readonly viewType = 'workspaceSlackPost';
@@ -28,9 +29,24 @@ export class SlackPostWebviewProvider implements vscode.WebviewViewProvider {
         case 'send':
           await this.handleSend(msg.channelId, msg.text);
           break;
+        case 'schedule':
+          await this.handleSchedule(msg.channelId, msg.text, msg.postAt);
+          break;
+        case 'requestScheduled':
+          await this.sendScheduled();
+          break;
+        case 'cancelScheduled':
+          await this.handleCancelScheduled(msg.channelId, msg.id);
+          break;
         case 'requestChannels':
           this.sendChannels();
           break;
+        case 'requestCompletions':
+          this._view?.webview.postMessage({
+            type: 'completions',
+            data: await this.slackApi.getComposerCompletions(),
+          });
+          break;
         case 'editFavorites':
           await vscode.commands.executeCommand('workspace.editSlackFavoriteChannels');
           this.sendChannels();
@@ -62,6 +78,69 @@ export class SlackPostWebviewProvider implements vscode.WebviewViewProvider {
     }
   }
 
+  private async handleSchedule(channelId: string, text: string, postAt: string): Promise<void> {
+    if (!channelId || !text || !postAt) {
+      return;
+    }
+    const date = new Date(postAt);
+    if (isNaN(date.getTime()) || date.getTime() <= Date.now()) {
+      const errMsg = '送信日時には未来の日時を指定してください。';
+      this._view?.webview.postMessage({ type: 'error', message: errMsg });
+      vscode.window.showWarningMessage(`[Nulab] ${errMsg}`);
+      return;
+    }
+    try {
+      await this.slackApi.scheduleMessage(channelId, text, date);
+      const ch = this.slackConfig.getFavoriteChannels().find((c) => c.id === channelId);
+      this._view?.webview.postMessage({ type: 'sent' });
+      vscode.window.showInformationMessage(
+        `[Nulab] #${ch?.name || channelId} への投稿を ${date.toLocaleString(
+          'ja-JP'
+        )} に予約しました。`
+      );
+    } catch (error) {
+      const errMsg = error instanceof Error ? error.message : String(error);
+      this._view?.webview.postMessage({ type: 'error', message: errMsg });
+      vscode.window.showErrorMessage(`[Nulab] 予約に失敗: ${errMsg}`);
+    }
+    await this.sendScheduled();
+  }
+
+  private async handleCancelScheduled(channelId: string, id: string): Promise<void> {
+    if (!channelId || !id) {
+      return;
+    }
+    try {
+      await this.slackApi.deleteScheduledMessage(channelId, id);
+    } catch (error) {
+      const errMsg = error instanceof Error ? error.message : String(error);
+      vscode.window.showErrorMessage(`[Nulab] 予約の取り消しに失敗: ${errMsg}`);
+    }
+    await this.sendScheduled();
+  }
+
+  /** Refresh the list of scheduled messages */
+  private async sendScheduled(): Promise<void> {
+    try {
+      const scheduled = await this.slackApi.listScheduledMessages();
+      this._view?.webview.postMessage({
+        type: 'scheduled',
+        items: scheduled.map((m) => ({
+          ...m,
+          postAtLabel: new Date(m.postAt * 1000).toLocaleString('ja-JP', {
+            month: 'numeric',
+            day: 'numeric',
+            hour: '2-digit',
+            minute: '2-digit',
+          }),
+        })),
+      });
+    } catch (error) {
+      const errMsg = error instanceof Error ? error.message : String(error);
+      this._view?.webview.postMessage({ type: 'scheduled', items: [], error: errMsg });
+    }
+  }
+
   private getHtml(webview: vscode.Webview): string {
     const styleResetUri = webview.asWebviewUri(
       vscode.Uri.joinPath(this.extensionUri, 'media', 'reset.css')
@@ -75,7 +154,7 @@ export class SlackPostWebviewProvider implements vscode.WebviewViewProvider {
 <html lang="ja">
 <head>
   <meta charset="UTF-8">
-  <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src ${webview.cspSource} 'nonce-${nonce}'; script-src 'nonce-${nonce}';">
+  <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src ${webview.cspSource} 'nonce-${nonce}'; script-src 'nonce-${nonce}'; img-src https: data:;">
   <meta name="viewport" content="width=device-width, initial-scale=1.0">
   <link href="${styleResetUri}" rel="stylesheet">
   <link href="${styleVSCodeUri}" rel="stylesheet">
@@ -83,7 +162,7 @@ export class SlackPostWebviewProvider implements vscode.WebviewViewProvider {
     body { padding: 8px 12px; }
     .form-group { margin-bottom: 8px; }
     label { display: block; font-size: 11px; color: var(--vscode-descriptionForeground); margin-bottom: 4px; text-transform: uppercase; letter-spacing: 0.5px; }
-    select, textarea {
+    select, textarea, input {
       width: 100%; box-sizing: border-box;
       background: var(--vscode-input-background);
       color: var(--vscode-input-foreground);
@@ -91,7 +170,7 @@ export class SlackPostWebviewProvider implements vscode.WebviewViewProvider {
       border-radius: 2px; padding: 4px 6px;
       font-family: inherit; font-size: 13px;
     }
-    select:focus, textarea:focus { outline: 1px solid var(--vscode-focusBorder); }
+    select:focus, textarea:focus, input:focus { outline: 1px solid var(--vscode-focusBorder); }
     textarea { resize: vertical; min-height: 60px; }
     .actions { display: flex; gap: 4px; }
     button {
@@ -104,6 +183,20 @@ export class SlackPostWebviewProvider implements vscode.WebviewViewProvider {
     }
     button.primary:hover { background: var(--vscode-button-hoverBackground); }
     button.primary:disabled { opacity: 0.5; cursor: default; }
+    .scheduled { margin-top: 16px; }
+    .scheduled-item {
+      display: flex; align-items: flex-start; gap: 6px;
+      padding: 4px 0; border-top: 1px solid var(--vscode-panel-border); font-size: 12px;
+    }
+    .scheduled-body { flex: 1; min-width: 0; }
+    .scheduled-meta { color: var(--vscode-descriptionForeground); font-size: 11px; }
+    .scheduled-text { white-space: nowrap; overflow: hidden; text-overflow: ellipsis; }
+    .scheduled-item button {
+      flex: none; padding: 0 6px; background: transparent;
+      color: var(--vscode-descriptionForeground);
+    }
+    .scheduled-item button:hover { color: var(--vscode-errorForeground); }
+    .scheduled-empty { color: var(--vscode-descriptionForeground); font-size: 12px; }
     .empty { color: var(--vscode-descriptionForeground); font-size: 12px; text-align: center; margin: 16px 0; }
     .empty button {
       margin-top: 8px; padding: 4px 12px; border: none; border-radius: 2px; cursor: pointer;
@@ -111,6 +204,7 @@ export class SlackPostWebviewProvider implements vscode.WebviewViewProvider {
       background: var(--vscode-button-background); color: var(--vscode-button-foreground);
     }
     .empty button:hover { background: var(--vscode-button-hoverBackground); }
+    ${slackCompletionStyles}
   </style>
 </head>
 <body>
@@ -127,9 +221,17 @@ export class SlackPostWebviewProvider implements vscode.WebviewViewProvider {
         <label>Message</label>
         <textarea id="message" placeholder="メッセージを入力..." rows="3"></textarea>
       </div>
+      <div class="form-group">
+        <label>Send at (optional)</label>
+        <input type="datetime-local" id="postAt">
+      </div>
       <div class="actions">
         <button id="sendBtn" class="primary" disabled>Send</button>
       </div>
+      <div class="scheduled">
+        <label>Scheduled</label>
+        <div id="scheduledList" class="scheduled-empty">読み込み中...</div>
+      </div>
     </div>
   </div>
 
@@ -138,25 +240,87 @@ export class SlackPostWebviewProvider implements vscode.WebviewViewProvider {
     const channelEl = document.getElementById('channel');
     const messageEl = document.getElementById('message');
     const sendBtn = document.getElementById('sendBtn');
+    const postAtEl = document.getElementById('postAt');
+    const scheduledListEl = document.getElementById('scheduledList');
     const formEl = document.getElementById('form');
     const emptyEl = document.getElementById('empty');
     const setupBtn = document.getElementById('setupBtn');
 
     let sending = false;
 
+    ${slackCompletionScript}
+    const completion = attachSlackCompletion(messageEl, () =>
+      vscode.postMessage({ type: 'requestCompletions' })
+    );
+
+    function sendLabel() {
+      return postAtEl.value ? 'Schedule' : 'Send';
+    }
+
     function updateSendBtn() {
       sendBtn.disabled = sending || !channelEl.value || !messageEl.value.trim();
+      if (!sending) {
+        sendBtn.textContent = sendLabel();
+      }
+    }
+
+    // 属性値 (title / data-*) にも入れるので引用符もエスケープする
+    function escapeText(text) {
+      const map = { '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#039;' };
+      return String(text ?? '').replace(/[&<>"']/g, (c) => map[c]);
+    }
+
+    function renderScheduled(items, error) {
+      if (error) {
+        scheduledListEl.className = 'scheduled-empty';
+        scheduledListEl.textContent = '取得できませんでした: ' + error;
+        return;
+      }
+      if (items.length === 0) {
+        scheduledListEl.className = 'scheduled-empty';
+        scheduledListEl.textContent = '予約済みのメッセージはありません';
+        return;
+      }
+      scheduledListEl.className = '';
+      scheduledListEl.innerHTML = items
+        .map((m) =>
+          '<div class="scheduled-item"><div class="scheduled-body">' +
+          '<div class="scheduled-meta">' + escapeText(m.postAtLabel) + ' · #' +
+          escapeText(m.channelName || m.channel) + '</div>' +
+          '<div class="scheduled-text" title="' + escapeText(m.text) + '">' + escapeText(m.text) + '</div>' +
+          '</div><button title="予約を取り消す" data-id="' + escapeText(m.id) +
+          '" data-channel="' + escapeText(m.channel) + '">✕</button></div>'
+        )
+        .join('');
     }
 
     channelEl.addEventListener('change', updateSendBtn);
     messageEl.addEventListener('input', updateSendBtn);
+    postAtEl.addEventListener('input', updateSendBtn);
+
+    scheduledListEl.addEventListener('click', (e) => {
+      const btn = e.target.closest('button[data-id]');
+      if (btn) {
+        btn.disabled = true;
+        vscode.postMessage({
+          type: 'cancelScheduled',
+          id: btn.getAttribute('data-id'),
+          channelId: btn.getAttribute('data-channel'),
+        });
+      }
+    });
 
     sendBtn.addEventListener('click', () => {
       if (sending || !channelEl.value || !messageEl.value.trim()) return;
       sending = true;
       sendBtn.disabled = true;
-      sendBtn.textContent = 'Sending...';
-      vscode.postMessage({ type: 'send', channelId: channelEl.value, text: messageEl.value.trim() });
+      sendBtn.textContent = postAtEl.value ? 'Scheduling...' : 'Sending...';
+      vscode.postMessage({
+        type: postAtEl.value ? 'schedule' : 'send',
+        channelId: channelEl.value,
+        text: completion.encode(messageEl.value.trim()),
+        postAt: postAtEl.value || undefined,
+      });
     });
 
     setupBtn.addEventListener('click', () => {
@@ -194,19 +358,26 @@ export class SlackPostWebviewProvider implements vscode.WebviewViewProvider {
         }
         case 'sent':
           messageEl.value = '';
+          postAtEl.value = '';
+          completion.reset();
           sending = false;
-          sendBtn.textContent = 'Send';
           updateSendBtn();
           break;
         case 'error':
           sending = false;
-          sendBtn.textContent = 'Send';
           updateSendBtn();
           break;
+        case 'scheduled':
+          renderScheduled(msg.items || [], msg.error);
+          break;
+        case 'completions':
+          completion.setData(msg.data);
+          break;
       }
     });
 
     vscode.postMessage({ type: 'requestChannels' });
+    vscode.postMessage({ type: 'requestScheduled' });
   </script>
 </body>
 </html>`;
@@ -172,6 +172,33 @@ export class SlackSearchTreeViewProvider
     this._onDidChangeTreeData.fire();
   }
 
+  /**
+   * Prepend a message received over Socket Mode to every keyword it matches.
+   * Search modifiers (in:, from:, ...) are not evaluated locally; keywords made only of
+   * modifiers are left to the next full fetch.
+   */
+  pushMessage(message: SlackMessage): void {
+    const text = message.text.toLowerCase();
+    let changed = false;
+    for (const [keyword, results] of this.keywordResults) {
+      const terms = keyword
+        .toLowerCase()
+        .split(/\s+/)
+        .filter((t) => t && !t.includes(':'));
+      if (terms.length === 0 || !terms.every((t) => text.includes(t.replace(/^"|"$/g, '')))) {
+        continue;
+      }
+      if (results.some((m) => m.channel === message.channel && m.ts === message.ts)) {
+        continue;
+      }
+      this.keywordResults.set(keyword, [message, ...results]);
+      changed = true;
+    }
+    if (changed) {
+      this._onDidChangeTreeData.fire();
+    }
+  }
+
   getTreeItem(element: SearchTreeItem): vscode.TreeItem {
     return element;
   }
@@ -100,6 +100,33 @@ export class SlackTreeViewProvider implements vscode.TreeDataProvider<SlackTreeI
     return { newCount, mentions: this.mentions };
   }
 
+  /** Prepend a message received over Socket Mode. Returns false if already listed. */
+  pushMessage(message: SlackMessage): boolean {
+    const key = `${message.channel}:${message.ts}`;
+    if (this.mentions.some((m) => `${m.channel}:${m.ts}` === key)) {
+      return false;
+    }
+    this.mentions = [message, ...this.mentions];
+    this.lastSeenTs = Math.max(this.lastSeenTs, parseFloat(message.ts) || 0);
+    this.loaded = true;
+    this._onDidChangeTreeData.fire();
+    return true;
+  }
+
+  /** Cached mentions (newest first) */
+  getMentions(): SlackMessage[] {
+    return this.mentions;
+  }
+
+  isRead(channel: string, ts: string): boolean {
+    return this.readKeys.has(`${channel}:${ts}`);
+  }
+
+  /** Whether a listed mention belongs to the given thread */
+  hasThread(channel: string, threadTs: string): boolean {
+    return this.mentions.some((m) => m.channel === channel && (m.thread_ts || m.ts) === threadTs);
+  }
+
   getTreeItem(element: SlackTreeItem): vscode.TreeItem {
     return element;
   }
@@ -3,7 +3,8 @@ import * as path from 'path';
 import * as fs from 'fs';
 import { SyncService } from '../services/syncService';
 import { WorkspaceFileStore } from '../config/workspaceFileStore';
-import { SyncManifest } from '../types/backlog';
+import { WikiSyncService } from '../services/wikiSyncService';
+import { SyncManifest, SyncStatus } from '../types/backlog';
 
 export class SyncFileDecorationProvider implements vscode.FileDecorationProvider {
   private _onDidChangeFileDecorations = new vscode.EventEmitter<
@@ -13,10 +14,22 @@ export class SyncFileDecorationProvider implements vscode.FileDecorationProvider
 
   // Cache to avoid repeated file I/O
   private manifestCache = new Map<string, { manifest: SyncManifest; mtime: number }>();
+  // ウォッチモードで取得したリモート更新日時 (localDir → backlog_id → updated)
+  private remoteUpdates = new Map<string, Map<string, string>>();
 
-  constructor(private syncService: SyncService, private configService: WorkspaceFileStore) {}
+  constructor(
+    private syncService: SyncService,
+    private configService: WorkspaceFileStore,
+    private wikiSyncService?: WikiSyncService
+  ) {}
 
   provideFileDecoration(uri: vscode.Uri): vscode.FileDecoration | undefined {
+    if (uri.scheme === 'file' && this.isUnsyncedMappingFolder(uri.fsPath)) {
+      return this.toDecoration('not_synced');
+    }
+    if (uri.scheme === 'file' && uri.fsPath.endsWith('.md')) {
+      return this.provideWikiDecoration(uri);
+    }
     if (uri.scheme !== 'file' || !uri.fsPath.endsWith('.bdoc')) {
       return undefined;
     }
@@ -39,11 +52,7 @@ export class SyncFileDecorationProvider implements vscode.FileDecorationProvider
       const entry = manifest[relativePath];
 
       if (!entry) {
-        return new vscode.FileDecoration(
-          'N',
-          'New (未同期)',
-          new vscode.ThemeColor('gitDecoration.untrackedResourceForeground')
-        );
+        return this.toDecoration('new_local');
       }
 
       if (!fs.existsSync(uri.fsPath)) {
@@ -51,30 +60,135 @@ export class SyncFileDecorationProvider implements vscode.FileDecorationProvider
       }
 
       try {
-        const localHash = this.syncService.computeLocalFileHash(uri.fsPath);
-        if (localHash !== entry.content_hash) {
-          return new vscode.FileDecoration(
-            'M',
-            'Modified (ローカル変更あり)',
-            new vscode.ThemeColor('gitDecoration.modifiedResourceForeground')
-          );
-        }
+        const remoteUpdatedAt = this.remoteUpdates.get(localDir)?.get(entry.backlog_id);
+        const status = this.syncService.getFileStatus(
+          localDir,
+          relativePath,
+          manifest,
+          remoteUpdatedAt
+        );
+        return this.toDecoration(status);
       } catch {
         return undefined;
       }
+    }
 
-      // Synced and unchanged — no decoration
+    return undefined;
+  }
+
+  /**
+   * Wiki 同期フォルダ内の .md ファイル。
+   */
+  private provideWikiDecoration(uri: vscode.Uri): vscode.FileDecoration | undefined {
+    const workspaceRoot = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+    if (!workspaceRoot || !this.wikiSyncService) {
       return undefined;
     }
 
+    for (const mapping of this.configService.getWikiSyncMappings()) {
+      const localDir = path.join(workspaceRoot, mapping.localPath);
+      if (!uri.fsPath.startsWith(localDir + path.sep)) {
+        continue;
+      }
+      if (!fs.existsSync(uri.fsPath)) {
+        return undefined;
+      }
+      try {
+        const manifest = this.wikiSyncService.loadManifest(localDir);
+        const relativePath = path.relative(localDir, uri.fsPath);
+        return this.toDecoration(
+          this.wikiSyncService.getFileStatus(localDir, relativePath, manifest)
+        );
+      } catch {
+        return undefined;
+      }
+    }
     return undefined;
   }
 
-  refresh(): void {
+  /**
+   * 同期フォルダ自体で、まだ一度も Pull されていない (manifest が空の) もの。
+   */
+  private isUnsyncedMappingFolder(fsPath: string): boolean {
+    const workspaceRoot = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+    if (!workspaceRoot) {
+      return false;
+    }
+
+    for (const mapping of this.configService.getDocumentSyncMappings()) {
+      const localDir = path.join(workspaceRoot, mapping.localPath);
+      if (fsPath === localDir) {
+        return Object.keys(this.getManifest(localDir)).length === 0;
+      }
+    }
+    if (this.wikiSyncService) {
+      for (const mapping of this.configService.getWikiSyncMappings()) {
+        const localDir = path.join(workspaceRoot, mapping.localPath);
+        if (fsPath === localDir) {
+          return Object.keys(this.wikiSyncService.loadManifest(localDir)).length === 0;
+        }
+      }
+    }
+    return false;
+  }
+
+  private toDecoration(status: SyncStatus): vscode.FileDecoration | undefined {
+    switch (status) {
+      case 'new_local':
+        return new vscode.FileDecoration(
+          'N',
+          'New (未同期)',
+          new vscode.ThemeColor('gitDecoration.untrackedResourceForeground')
+        );
+      case 'local_modified':
+        return new vscode.FileDecoration(
+          'M',
+          'Modified (ローカル変更あり)',
+          new vscode.ThemeColor('gitDecoration.modifiedResourceForeground')
+        );
+      case 'remote_modified':
+        return new vscode.FileDecoration(
+          'R',
+          'Remote modified (Backlog 側に更新あり)',
+          new vscode.ThemeColor('gitDecoration.stageModifiedResourceForeground')
+        );
+      case 'conflict':
+        return new vscode.FileDecoration(
+          '!',
+          'Conflict (マージ待ち)',
+          new vscode.ThemeColor('gitDecoration.conflictingResourceForeground')
+        );
+      case 'not_synced':
+        return new vscode.FileDecoration(
+          '?',
+          'Not synced (Backlog と未同期)',
+          new vscode.ThemeColor('gitDecoration.ignoredResourceForeground')
+        );
+      default:
+        // Synced and unchanged — no decoration
+        return undefined;
+    }
+  }
+
+  refresh(uri?: vscode.Uri): void {
+    if (uri) {
+      this._onDidChangeFileDecorations.fire(uri);
+      return;
+    }
     this.manifestCache.clear();
     this._onDidChangeFileDecorations.fire(undefined);
   }
 
+  setRemoteUpdates(localDir: string, updates: Map<string, string>): void {
+    this.remoteUpdates.set(localDir, updates);
+    this.refresh();
+  }
+
+  clearRemoteUpdates(): void {
+    this.remoteUpdates.clear();
+    this.refresh();
+  }
+
   private getManifest(localDir: string): SyncManifest {
     const manifestPath = path.join(localDir, '.sync-manifest.json');
     try {
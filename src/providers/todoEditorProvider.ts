@@ -5,7 +5,9 @@ import { spawn, ChildProcess } from 'child_process';
 import { randomUUID } from 'crypto';
 import { SessionFileService } from '../services/session/sessionFileService';
 import { SessionReplyService } from '../services/session/sessionReplyService';
+import { Entity } from 'backlog-js';
 import { BacklogConfig } from '../config/backlogConfig';
+import { BacklogApiService } from '../services/backlogApi';
 import { SlackApiService } from '../services/slackApi';
 import { TodoWebview } from '../webviews/todoWebview';
 import { SlackMessage, ActionItem } from '../types/workspace';
@@ -13,6 +15,7 @@ import { TodoTreeViewProvider } from './todoTreeViewProvider';
 import { SessionCodeLensProvider } from './sessionCodeLensProvider';
 import { TodoPersistenceService } from '../services/session/todoPersistenceService';
 import { MarkdownRenderer } from '../utils/markdownRenderer';
+import { pickProject } from '../commands/backlog/issueCreateForm';
 
 export class TodoEditorProvider implements vscode.CustomTextEditorProvider {
   public static readonly viewType = 'nulab.todoEditor';
@@ -25,12 +28,76 @@ export class TodoEditorProvider implements vscode.CustomTextEditorProvider {
     private readonly replyService: SessionReplyService,
     private readonly todoProvider: TodoTreeViewProvider,
     private readonly configService: BacklogConfig,
+    private readonly backlogApi: BacklogApiService,
     private readonly slackApi: SlackApiService,
     private readonly sessionCodeLensProvider: SessionCodeLensProvider,
     private readonly todoPersistence: TodoPersistenceService,
     private readonly outputChannel?: vscode.OutputChannel
   ) {}
 
+  /**
+   * Post an action item to Backlog.
+   * Returns the fields to merge into the posted action, or undefined if cancelled/failed.
+   */
+  private async postAction(
+    todoId: string,
+    action: ActionItem
+  ): Promise<Partial<ActionItem> | undefined> {
+    const todo = this.todoProvider.findTodoById(todoId);
+    const contextProjectKey = todo?.context?.issueKey?.split('-')[0];
+
+    if (action.type === 'create-issue') {
+      const issue = await vscode.commands.executeCommand<Entity.Issue.Issue | undefined>(
+        'nulab.createIssue',
+        {
+          projectKey: contextProjectKey,
+          summary: action.title,
+          description: action.content,
+          issueTypeId: action.issueTypeId,
+          priorityId: action.priorityId,
+          assigneeId: action.assigneeId,
+        }
+      );
+      if (!issue) {
+        return undefined;
+      }
+      this.todoProvider.addCreatedIssueKey(todoId, issue.issueKey);
+      return { issueKey: issue.issueKey };
+    }
+
+    try {
+      if (action.type === 'backlog-comment') {
+        const confirm = await vscode.window.showWarningMessage(
+          `${action.issueKey || '課題'} にコメントを投稿しますか？`,
+          { modal: true },
+          '投稿'
+        );
+        if (confirm !== '投稿') {
+          return undefined;
+        }
+        await this.replyService.postActionComment(todoId, action);
+        vscode.window.showInformationMessage(`[Nulab] ${action.issueKey} にコメントを投稿しました`);
+        return {};
+      }
+
+      if (action.type === 'create-document') {
+        const project = await pickProject(this.backlogApi, contextProjectKey);
+        if (!project) {
+          return undefined;
+        }
+        const documentId = await this.replyService.createActionDocument(action, project.id);
+        vscode.window.showInformationMessage(
+          `[Nulab] ドキュメント「${action.documentName || action.title}」を作成しました`
+        );
+        return { documentId };
+      }
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : String(err);
+      vscode.window.showErrorMessage(`[Nulab] 投稿に失敗: ${msg}`);
+    }
+    return undefined;
+  }
+
   private log(msg: string): void {
     const ts = new Date().toISOString().replace('T', ' ').substring(0, 19);
     this.outputChannel?.appendLine(`[${ts}] [ChatSession] ${msg}`);
@@ -195,24 +262,16 @@ export class TodoEditorProvider implements vscode.CustomTextEditorProvider {
       }
       if (message.command === 'postAction') {
         const action = message.action as ActionItem;
-        const typeLabels: Record<string, string> = {
-          'create-issue': '課題を作成',
-          'backlog-comment': 'コメントを投稿',
-          'create-document': 'ドキュメントを作成',
-        };
-        const label = typeLabels[action.type] || action.type;
-
-        // Copy content to clipboard for manual posting
-        await vscode.env.clipboard.writeText(action.content);
-        vscode.window.showInformationMessage(
-          `[Nulab] 「${action.title}」の内容をクリップボードにコピーしました。Backlog で${label}してください。`
-        );
+        const result = await this.postAction(todoId, action);
+        if (!result) {
+          return;
+        }
 
-        // Mark as posted
+        // Mark as posted (with the created issue key / document ID)
         const actions = this.fileService.getActions(todoId);
         const idx = actions.findIndex((a) => a.id === action.id);
         if (idx >= 0) {
-          actions[idx] = { ...actions[idx], status: 'posted' };
+          actions[idx] = { ...actions[idx], ...result, status: 'posted' };
           this.fileService.saveActions(todoId, actions);
           webviewPanel.webview.postMessage({ command: 'updateActions', actions });
         }
@@ -2,10 +2,16 @@ import * as vscode from 'vscode';
 import * as crypto from 'crypto';
 import { SessionFileService } from '../services/session/sessionFileService';
 import { TodoPersistenceService } from '../services/session/todoPersistenceService';
-import { WorkspaceTodoItem, TodoContext, TodoStatus } from '../types/workspace';
+import { WorkspaceTodoItem, TodoContext, TodoReminder, TodoStatus } from '../types/workspace';
 
 type TodoTreeNode = TodoSectionItem | TodoTreeItem;
 
+/** 自動 TODO ルールで決まった作成時のステータス・タグ */
+export interface AutoTodoOptions {
+  status?: TodoStatus;
+  tags?: string[];
+}
+
 export class TodoTreeViewProvider implements vscode.TreeDataProvider<TodoTreeNode> {
   private _onDidChangeTreeData = new vscode.EventEmitter<TodoTreeNode | undefined | null | void>();
   readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
@@ -130,16 +136,19 @@ export class TodoTreeViewProvider implements vscode.TreeDataProvider<TodoTreeNod
    * Auto-create TODO from Backlog notification.
    * Fetches full issue context (details, comments, change logs) from the API.
    */
-  async addFromBacklogNotification(notification: {
-    id: number;
-    issueKey: string;
-    issueId: number;
-    issueSummary: string;
-    reason: string;
-    sender: string;
-    commentId?: number;
-    commentContent?: string;
-  }): Promise<void> {
+  async addFromBacklogNotification(
+    notification: {
+      id: number;
+      issueKey: string;
+      issueId: number;
+      issueSummary: string;
+      reason: string;
+      sender: string;
+      commentId?: number;
+      commentContent?: string;
+    },
+    options: AutoTodoOptions = {}
+  ): Promise<void> {
     this.log(`addFromBacklogNotification: ${notification.issueKey} notifId=${notification.id}`);
     // Dedup: find existing non-done TODO for the same issueKey
     const existing = this.todos.find(
@@ -156,6 +165,7 @@ export class TodoTreeViewProvider implements vscode.TreeDataProvider<TodoTreeNod
       );
       const hasFullContext = parsed?.meta.contextFull === true;
 
+      this.addTags(existing.id, options.tags);
       if (sameNotification && hasFullContext) {
         return;
       }
@@ -193,6 +203,7 @@ export class TodoTreeViewProvider implements vscode.TreeDataProvider<TodoTreeNod
       sender: notification.sender,
       comment: notification.commentContent,
     });
+    this.applyAutoTodoOptions(todo.id, options);
 
     // Fetch full context from Backlog API (overwrites light context)
     await this.todoPersistence.startBacklogSession(todo);
@@ -202,14 +213,17 @@ export class TodoTreeViewProvider implements vscode.TreeDataProvider<TodoTreeNod
    * Auto-create TODO from Slack mention.
    * Fetches full thread context from the Slack API.
    */
-  async addFromSlackMention(mention: {
-    channel: string;
-    threadTs: string;
-    messageTs: string;
-    senderName: string;
-    messagePreview: string;
-    channelName?: string;
-  }): Promise<void> {
+  async addFromSlackMention(
+    mention: {
+      channel: string;
+      threadTs: string;
+      messageTs: string;
+      senderName: string;
+      messagePreview: string;
+      channelName?: string;
+    },
+    options: AutoTodoOptions = {}
+  ): Promise<void> {
     // Dedup: same channel + messageTs
     const existing = this.todos.find(
       (t) =>
@@ -233,6 +247,7 @@ export class TodoTreeViewProvider implements vscode.TreeDataProvider<TodoTreeNod
         slackText: mention.messagePreview,
       }
     );
+    this.applyAutoTodoOptions(todo.id, options);
 
     // Fetch full thread context from Slack API
     await this.todoPersistence.startSlackSession(todo);
@@ -316,6 +331,50 @@ export class TodoTreeViewProvider implements vscode.TreeDataProvider<TodoTreeNod
     this._onDidChangeTreeData.fire();
   }
 
+  addTags(id: string, tags: string[] | undefined): void {
+    const todo = this.todos.find((t) => t.id === id);
+    const added = (tags || []).filter((tag) => !todo?.tags?.includes(tag));
+    if (!todo || added.length === 0) {
+      return;
+    }
+    todo.tags = [...(todo.tags || []), ...added];
+    this.fileService.updateFrontmatter(id, { tags: todo.tags.join(', ') });
+    this._onDidChangeTreeData.fire();
+  }
+
+  /** リマインダーを設定する。undefined で解除 */
+  setReminder(id: string, reminder: TodoReminder | undefined): void {
+    const todo = this.todos.find((t) => t.id === id);
+    if (!todo) {
+      return;
+    }
+    todo.reminder = reminder;
+    this.fileService.updateFrontmatter(id, {
+      remindAt: reminder?.remindAt,
+      remindIfNoReply: reminder?.ifNoReply,
+      remindSinceTs: reminder?.sinceTs,
+      slackReminderId: reminder?.slackReminderId,
+    });
+    this._onDidChangeTreeData.fire();
+  }
+
+  private applyAutoTodoOptions(id: string, options: AutoTodoOptions): void {
+    if (options.status && options.status !== 'open') {
+      this.setStatus(id, options.status);
+    }
+    this.addTags(id, options.tags);
+  }
+
+  addCreatedIssueKey(id: string, issueKey: string): void {
+    const todo = this.todos.find((t) => t.id === id);
+    if (!todo) {
+      return;
+    }
+    todo.createdIssueKeys = [...(todo.createdIssueKeys || []), issueKey];
+    this.fileService.updateFrontmatter(id, { createdIssueKeys: todo.createdIssueKeys.join(', ') });
+    this._onDidChangeTreeData.fire();
+  }
+
   markReplied(id: string): void {
     const todo = this.todos.find((t) => t.id === id);
     if (!todo) {
@@ -485,9 +544,15 @@ export class TodoTreeItem extends vscode.TreeItem {
         descParts.unshift(ctx.googleEventDate);
       }
     }
+    if (todo.tags?.length) {
+      descParts.push(todo.tags.map((tag) => `#${tag}`).join(' '));
+    }
     if (todo.notes) {
       descParts.push('\u{1F4DD}');
     }
+    if (todo.reminder && todo.status !== 'done') {
+      descParts.push(`\u{1F514} ${formatRemindAt(todo.reminder.remindAt)}`);
+    }
     this.description = descParts.join(' ');
 
     // Tooltip
@@ -496,6 +561,15 @@ export class TodoTreeItem extends vscode.TreeItem {
     if (todo.replied) {
       tooltipLines.push(`Replied: ${todo.repliedAt || 'yes'}`);
     }
+    if (todo.reminder) {
+      tooltipLines.push(
+        `Reminder: ${new Date(todo.reminder.remindAt).toLocaleString('ja-JP')}` +
+          (todo.reminder.ifNoReply ? ' (返信が無ければ)' : '')
+      );
+    }
+    if (todo.createdIssueKeys?.length) {
+      tooltipLines.push(`Created: ${todo.createdIssueKeys.join(', ')}`);
+    }
     if (todo.notes) {
       tooltipLines.push('');
       tooltipLines.push(`Notes: ${todo.notes.substring(0, 200)}`);
@@ -545,6 +619,9 @@ export class TodoTreeItem extends vscode.TreeItem {
     } else if (ctx?.source === 'google-doc') {
       parts.push('google');
     }
+    if (todo.reminder) {
+      parts.push('reminder');
+    }
     this.contextValue = parts.join('_');
 
     this.command = {
@@ -593,3 +670,13 @@ export class TodoTreeItem extends vscode.TreeItem {
     return 'circle-outline';
   }
 }
+
+/** 今日なら時刻だけ、それ以外は日付も付ける */
+function formatRemindAt(iso: string): string {
+  const date = new Date(iso);
+  const time = date.toLocaleTimeString('ja-JP', { hour: '2-digit', minute: '2-digit' });
+  if (date.toDateString() === new Date().toDateString()) {
+    return time;
+  }
+  return `${date.getMonth() + 1}/${date.getDate()} ${time}`;
+}
@@ -0,0 +1,236 @@
+import { Entity } from 'backlog-js';
+import { BacklogConfig } from '../config/backlogConfig';
+import { SlackConfig } from '../config/slackConfig';
+import { WorkspaceFileStore } from '../config/workspaceFileStore';
+import {
+  AutoTodoCondition,
+  AutoTodoDecision,
+  AutoTodoEvent,
+  AutoTodoRule,
+  AutoTodoRulesFile,
+  NOTIFICATION_REASONS,
+  SlackMessage,
+} from '../types/workspace';
+
+/**
+ * 自動 TODO 作成のルールエンジン。
+ * .nulab/auto-todo-rules.json があればそのルールを上から順に評価し、
+ * 無ければ従来の設定 (autoTodoReasons / autoTodoDMs) で判定する。
+ */
+export class AutoTodoRuleService {
+  constructor(
+    private fileStore: WorkspaceFileStore,
+    private backlogConfig: BacklogConfig,
+    private slackConfig: SlackConfig
+  ) {}
+
+  /** ルールファイルが無い場合は undefined */
+  loadRules(): AutoTodoRule[] | undefined {
+    const file = this.fileStore.getAutoTodoRules();
+    return Array.isArray(file?.rules) ? file!.rules : undefined;
+  }
+
+  // ---- Event conversion ----
+
+  fromBacklogNotification(n: Entity.Notification.Notification): AutoTodoEvent {
+    const reason = NOTIFICATION_REASONS[n.reason] || `reason:${n.reason}`;
+    const subject = n.issue ? `${n.issue.issueKey} ${n.issue.summary}` : n.project?.projectKey;
+    return {
+      source: 'backlog',
+      label: `${subject} (${reason} by ${n.sender?.name || 'Unknown'})`,
+      projectKey: n.project?.projectKey,
+      issueKey: n.issue?.issueKey,
+      issueType: n.issue?.issueType?.name,
+      priority: n.issue?.priority?.name,
+      reason: n.reason,
+      sender: n.sender?.name,
+      senderId: n.sender?.userId,
+      text: [n.issue?.summary, n.comment?.content].filter(Boolean).join('\n'),
+      receivedAt: new Date(n.created),
+    };
+  }
+
+  fromSlackMessage(m: SlackMessage): AutoTodoEvent {
+    const sender = m.userName || m.user;
+    const where = m.is_dm ? 'DM' : `#${m.channelName || m.channel}`;
+    return {
+      source: 'slack',
+      label: `${where} @${sender}: ${m.text.replace(/\s+/g, ' ').substring(0, 60)}`,
+      sender: m.userName,
+      senderId: m.user,
+      channel: m.channelName,
+      channelId: m.channel,
+      isDm: !!m.is_dm,
+      text: m.text,
+      receivedAt: new Date(parseFloat(m.ts) * 1000),
+    };
+  }
+
+  // ---- Evaluation ----
+
+  /**
+   * rules を省略した場合はルールファイルを読み込む。
+   * ルールが一つも一致しなければ TODO は作らない。
+   */
+  evaluate(event: AutoTodoEvent, rules = this.loadRules()): AutoTodoDecision {
+    if (!rules) {
+      return this.legacyDecision(event);
+    }
+
+    const decision: AutoTodoDecision = {
+      createTodo: false,
+      tags: [],
+      markRead: false,
+      matchedRules: [],
+    };
+    let skipped = false;
+
+    for (const rule of rules) {
+      if (rule.enabled === false || !this.matches(rule.when || {}, event)) {
+        continue;
+      }
+      decision.matchedRules.push(rule.name);
+      for (const action of rule.actions || []) {
+        switch (action.type) {
+          case 'create-todo':
+            decision.createTodo = true;
+            decision.status = action.status ?? decision.status;
+            break;
+          case 'skip':
+            skipped = true;
+            break;
+          case 'mark-read':
+            decision.markRead = true;
+            break;
+          case 'tag':
+            if (action.tag && !decision.tags.includes(action.tag)) {
+              decision.tags.push(action.tag);
+            }
+            break;
+        }
+      }
+      if (!rule.continue) {
+        break;
+      }
+    }
+
+    if (skipped) {
+      decision.createTodo = false;
+    }
+    return decision;
+  }
+
+  matches(when: AutoTodoCondition, event: AutoTodoEvent): boolean {
+    const oneOf = <T>(expected: T | T[] | undefined, ...actual: (T | undefined)[]): boolean => {
+      if (expected === undefined) {
+        return true;
+      }
+      const values = (Array.isArray(expected) ? expected : [expected]).map((v) =>
+        typeof v === 'string' ? v.toLowerCase().replace(/^#/, '') : v
+      );
+      return actual.some(
+        (a) => a !== undefined && values.includes(typeof a === 'string' ? a.toLowerCase() : a)
+      );
+    };
+
+    if (
+      !oneOf(when.source, event.source) ||
+      !oneOf(when.projectKey, event.projectKey) ||
+      !oneOf(when.issueType, event.issueType) ||
+      !oneOf(when.priority, event.priority) ||
+      !oneOf(when.reason, event.reason) ||
+      !oneOf(when.sender, event.sender, event.senderId) ||
+      !oneOf(when.channel, event.channel, event.channelId)
+    ) {
+      return false;
+    }
+    if (when.isDm !== undefined && when.isDm !== !!event.isDm) {
+      return false;
+    }
+    if (when.keyword) {
+      try {
+        if (!new RegExp(when.keyword, 'i').test(event.text)) {
+          return false;
+        }
+      } catch {
+        // 不正な正規表現は一致しない扱い（validateRules で報告する）
+        return false;
+      }
+    }
+    if (when.timeOfDay && !this.inTimeOfDay(when.timeOfDay, event.receivedAt)) {
+      return false;
+    }
+    return true;
+  }
+
+  /**
+   * ルールファイルの問題点を列挙する（ルールテスター用）。
+   */
+  validateRules(file: AutoTodoRulesFile | undefined): string[] {
+    if (!file) {
+      return [];
+    }
+    if (!Array.isArray(file.rules)) {
+      return ['"rules" 配列がありません'];
+    }
+
+    const problems: string[] = [];
+    const validActions = ['create-todo', 'skip', 'mark-read', 'tag'];
+    file.rules.forEach((rule, i) => {
+      const name = rule.name || `#${i + 1}`;
+      if (!rule.when) {
+        problems.push(`${name}: "when" がありません`);
+      }
+      if (!Array.isArray(rule.actions) || rule.actions.length === 0) {
+        problems.push(`${name}: "actions" がありません`);
+      }
+      for (const action of rule.actions || []) {
+        if (!validActions.includes(action.type)) {
+          problems.push(`${name}: 不明なアクション "${action.type}"`);
+        }
+        if (action.type === 'tag' && !action.tag) {
+          problems.push(`${name}: tag アクションに "tag" がありません`);
+        }
+      }
+      if (rule.when?.keyword) {
+        try {
+          new RegExp(rule.when.keyword, 'i');
+        } catch (e) {
+          problems.push(`${name}: keyword の正規表現が不正です (${e})`);
+        }
+      }
+      const time = rule.when?.timeOfDay;
+      if (time && (this.parseTime(time.from) === null || this.parseTime(time.to) === null)) {
+        problems.push(`${name}: timeOfDay は "HH:MM" 形式で指定してください`);
+      }
+    });
+    return problems;
+  }
+
+  private legacyDecision(event: AutoTodoEvent): AutoTodoDecision {
+    const createTodo =
+      event.source === 'backlog'
+        ? event.reason !== undefined &&
+          this.backlogConfig.getAutoTodoReasons().includes(event.reason)
+        : !event.isDm || this.slackConfig.isAutoTodoDMs();
+    return { createTodo, tags: [], markRead: false, matchedRules: [] };
+  }
+
+  private inTimeOfDay(range: { from: string; to: string }, date: Date): boolean {
+    const from = this.parseTime(range.from);
+    const to = this.parseTime(range.to);
+    if (from === null || to === null) {
+      return false;
+    }
+    const minutes = date.getHours() * 60 + date.getMinutes();
+    return from <= to ? minutes >= from && minutes < to : minutes >= from || minutes < to;
+  }
+
+  private parseTime(value: string | undefined): number | null {
+    const match = value?.match(/^(\d{1,2}):(\d{2})$/);
+    if (!match) {
+      return null;
+    }
+    return parseInt(match[1], 10) * 60 + parseInt(match[2], 10);
+  }
+}
@@ -2,7 +2,14 @@ import * as vscode from 'vscode';
 import * as https from 'https';
 import { Backlog, Entity, Option } from 'backlog-js';
 import { BacklogConfig } from '../config/backlogConfig';
-import { BacklogServiceState, isInitialized, isInitializing } from '../types/backlog';
+import {
+  BacklogServiceState,
+  IssueEditOptions,
+  IssueUpdateParams,
+  IssueUpdateResult,
+  isInitialized,
+  isInitializing,
+} from '../types/backlog';
 
 // Backlog.jsの型を使用した初期化済みサービス
 interface InitializedBacklogService {
@@ -169,6 +176,18 @@ export class BacklogApiService {
     return response || [];
   }
 
+  /** 全プロジェクトからキーワードで課題を探す（更新の新しい順） */
+  async searchIssues(keyword: string, count = 10): Promise<Entity.Issue.Issue[]> {
+    const initializedService = await this.ensureInitialized();
+    const response = await initializedService.backlog.getIssues({
+      keyword,
+      count,
+      sort: 'updated',
+      order: 'desc',
+    });
+    return response || [];
+  }
+
   async getIssue(issueIdOrKey: string | number): Promise<Entity.Issue.Issue> {
     const initializedService = await this.ensureInitialized();
     const response = await initializedService.backlog.getIssue(issueIdOrKey);
@@ -189,6 +208,85 @@ export class BacklogApiService {
     return await initializedService.backlog.postIssueComments(issueIdOrKey, params);
   }
 
+  async postIssue(params: Option.Issue.PostIssueParams): Promise<Entity.Issue.Issue> {
+    const initializedService = await this.ensureInitialized();
+    return await initializedService.backlog.postIssue(params);
+  }
+
+  async getIssueTypes(projectId: number): Promise<Entity.Issue.IssueType[]> {
+    const initializedService = await this.ensureInitialized();
+    const response = await initializedService.backlog.getIssueTypes(projectId);
+    return response || [];
+  }
+
+  async getPriorities(): Promise<Entity.Issue.Priority[]> {
+    const initializedService = await this.ensureInitialized();
+    const response = await initializedService.backlog.getPriorities();
+    return response || [];
+  }
+
+  async getProjectUsers(projectId: number): Promise<Entity.User.User[]> {
+    const initializedService = await this.ensureInitialized();
+    const response = await initializedService.backlog.getProjectUsers(projectId);
+    return response || [];
+  }
+
+  /**
+   * 課題編集フォームの選択肢をまとめて取得
+   */
+  async getIssueEditOptions(projectId: number): Promise<IssueEditOptions> {
+    const initializedService = await this.ensureInitialized();
+    const backlog = initializedService.backlog;
+    const [statuses, priorities, users, versions, categories] = await Promise.all([
+      backlog.getProjectStatuses(projectId),
+      this.getPriorities(),
+      this.getProjectUsers(projectId),
+      backlog.getVersions(projectId),
+      backlog.getCategories(projectId),
+    ]);
+    return {
+      statuses: statuses || [],
+      priorities,
+      users,
+      versions: (versions || []).filter((v) => !v.archived),
+      categories: categories || [],
+    };
+  }
+
+  /**
+   * 課題を更新する。expectedUpdated を渡した場合、現在の updated と一致しなければ更新しない（楽観ロック）。
+   */
+  async updateIssue(
+    issueIdOrKey: string | number,
+    params: IssueUpdateParams,
+    expectedUpdated?: string
+  ): Promise<IssueUpdateResult> {
+    const initializedService = await this.ensureInitialized();
+
+    if (expectedUpdated) {
+      const current = await initializedService.backlog.getIssue(issueIdOrKey);
+      if (current.updated !== expectedUpdated) {
+        return { updated: false, current };
+      }
+    }
+
+    // Backlog API は空値の送信で項目をクリアする（配列は "key[]=" の形式）
+    const patchParams: Option.Issue.PatchIssueParams = {};
+    for (const [key, value] of Object.entries(params)) {
+      if (value === undefined) {
+        continue;
+      }
+      if (Array.isArray(value) && value.length === 0) {
+        patchParams[`${key}[]`] = '';
+      } else {
+        patchParams[key] = value === null ? '' : value;
+      }
+    }
+
+    const issue = await initializedService.backlog.patchIssue(issueIdOrKey, patchParams);
+    return { updated: true, issue };
+  }
+
   async downloadIssueAttachment(
     issueIdOrKey: string | number,
     attachmentId: number
@@ -235,6 +333,23 @@ export class BacklogApiService {
     return response;
   }
 
+  async postWiki(params: {
+    projectId: number;
+    name: string;
+    content: string;
+  }): Promise<Entity.Wiki.Wiki> {
+    const initializedService = await this.ensureInitialized();
+    return await initializedService.backlog.postWiki(params);
+  }
+
+  async patchWiki(
+    wikiId: number,
+    params: { name?: string; content?: string }
+  ): Promise<Entity.Wiki.Wiki> {
+    const initializedService = await this.ensureInitialized();
+    return await initializedService.backlog.patchWiki(wikiId, params);
+  }
+
   async getDocuments(projectId: number): Promise<Entity.Document.DocumentTree> {
     const initializedService = await this.ensureInitialized();
     const response = await initializedService.backlog.getDocumentTree(projectId);
@@ -292,6 +407,24 @@ export class BacklogApiService {
     return response;
   }
 
+  async patchDocument(
+    documentId: string,
+    params: {
+      title?: string;
+      content?: string;
+      emoji?: string;
+      /** 親ドキュメントを変更する（移動） */
+      parentId?: string;
+    }
+  ): Promise<Entity.Document.Document> {
+    const initializedService = await this.ensureInitialized();
+    const response = await initializedService.backlog.patch<Entity.Document.Document>(
+      `/api/v2/documents/${documentId}`,
+      params
+    );
+    return response;
+  }
+
   async deleteDocument(documentId: string): Promise<Entity.Document.Document> {
     const initializedService = await this.ensureInitialized();
     const response = await initializedService.backlog.delete<Entity.Document.Document>(
@@ -381,6 +514,68 @@ export class BacklogApiService {
     return response || [];
   }
 
+  // ---- Git / Pull Requests ----
+
+  async getGitRepositories(projectIdOrKey: string | number): Promise<Entity.Git.GitRepository[]> {
+    const initializedService = await this.ensureInitialized();
+    const response = await initializedService.backlog.getGitRepositories(projectIdOrKey);
+    return response || [];
+  }
+
+  async getPullRequests(
+    projectIdOrKey: string | number,
+    repoIdOrName: string,
+    params: Option.PullRequest.GetPullRequestsParams = {}
+  ): Promise<Entity.PullRequest.PullRequest[]> {
+    const initializedService = await this.ensureInitialized();
+    const response = await initializedService.backlog.getPullRequests(
+      projectIdOrKey,
+      repoIdOrName,
+      { count: 100, ...params }
+    );
+    return response || [];
+  }
+
+  async getPullRequest(
+    projectIdOrKey: string | number,
+    repoIdOrName: string,
+    number: number
+  ): Promise<Entity.PullRequest.PullRequest> {
+    const initializedService = await this.ensureInitialized();
+    return await initializedService.backlog.getPullRequest(projectIdOrKey, repoIdOrName, number);
+  }
+
+  /** コメントは古い順 */
+  async getPullRequestComments(
+    projectIdOrKey: string | number,
+    repoIdOrName: string,
+    number: number
+  ): Promise<Entity.PullRequest.Comment[]> {
+    const initializedService = await this.ensureInitialized();
+    const response = await initializedService.backlog.getPullRequestComments(
+      projectIdOrKey,
+      repoIdOrName,
+      number,
+      { count: 100, order: 'asc' }
+    );
+    return response || [];
+  }
+
+  async postPullRequestComment(
+    projectIdOrKey: string | number,
+    repoIdOrName: string,
+    number: number,
+    content: string
+  ): Promise<Entity.PullRequest.Comment> {
+    const initializedService = await this.ensureInitialized();
+    return await initializedService.backlog.postPullRequestComments(
+      projectIdOrKey,
+      repoIdOrName,
+      number,
+      { content }
+    );
+  }
+
   // ---- Notifications ----
 
   async getNotifications(params?: { count?: number; order?: 'asc' | 'desc' }): Promise<any[]> {
@@ -7,10 +7,14 @@ import {
   CacooFolder,
   CacooDiagram,
   CacooDiagramDetail,
+  CacooComment,
   CacooDiagramsResponse,
+  CacooExportFormat,
 } from '../types/cacoo';
 
 interface DiagramListOptions {
+  /** 省略時は設定の Organization */
+  organizationKey?: string;
   folderId?: number;
   type?: string;
   sortOn?: string;
@@ -102,7 +106,7 @@ export class CacooApiService {
     const buildParams = (includeOrgKey: boolean): Record<string, string> => {
       const params: Record<string, string> = { apiKey };
       if (includeOrgKey) {
-        params.organizationKey = organizationKey;
+        params.organizationKey = opts.organizationKey || organizationKey;
       }
       if (opts.folderId !== undefined) {
         params.folderId = String(opts.folderId);
@@ -160,16 +164,28 @@ export class CacooApiService {
     );
   }
 
+  async postComment(diagramId: string, content: string): Promise<CacooComment> {
+    const { apiKey } = await this.ensureInitialized();
+    return await this.apiPost<CacooComment>(
+      `/api/v1/diagrams/${encodeURIComponent(diagramId)}/comments/post.json`,
+      { apiKey },
+      { content }
+    );
+  }
+
   async downloadSheetImage(
     diagramId: string,
     sheetUid?: string,
     width?: number,
-    height?: number
+    height?: number,
+    format: CacooExportFormat = 'png'
   ): Promise<Buffer> {
     const { apiKey } = await this.ensureInitialized();
     const pathPart = sheetUid
-      ? `/api/v1/diagrams/${encodeURIComponent(diagramId)}-${encodeURIComponent(sheetUid)}.png`
-      : `/api/v1/diagrams/${encodeURIComponent(diagramId)}.png`;
+      ? `/api/v1/diagrams/${encodeURIComponent(diagramId)}-${encodeURIComponent(
+          sheetUid
+        )}.${format}`
+      : `/api/v1/diagrams/${encodeURIComponent(diagramId)}.${format}`;
 
     const params: Record<string, string> = { apiKey };
     if (width) {
@@ -217,6 +233,53 @@ export class CacooApiService {
     });
   }
 
+  private apiPost<T>(
+    path: string,
+    params: Record<string, string>,
+    body: Record<string, string>
+  ): Promise<T> {
+    const query = new URLSearchParams(params).toString();
+    const payload = new URLSearchParams(body).toString();
+    const url = `https://cacoo.com${path}?${query}`;
+
+    return new Promise<T>((resolve, reject) => {
+      const request = https.request(
+        url,
+        {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/x-www-form-urlencoded',
+            'Content-Length': Buffer.byteLength(payload),
+          },
+        },
+        (response) => {
+          const chunks: Buffer[] = [];
+          response.on('data', (chunk: Buffer) => chunks.push(chunk));
+          response.on('end', () => {
+            const text = Buffer.concat(chunks).toString('utf-8');
+            if (response.statusCode !== 200 && response.statusCode !== 201) {
+              reject(new Error(`Cacoo API error: HTTP ${response.statusCode} for ${path}`));
+              return;
+            }
+            try {
+              resolve(JSON.parse(text) as T);
+            } catch (error) {
+              reject(new Error(`Failed to parse Cacoo API response: ${error}`));
+            }
+          });
+          response.on('error', reject);
+        }
+      );
+
+      request.on('error', reject);
+      request.setTimeout(30000, () => {
+        request.destroy();
+        reject(new Error('Cacoo API request timeout'));
+      });
+      request.end(payload);
+    });
+  }
+
   private downloadBinary(path: string, params: Record<string, string>): Promise<Buffer> {
     const query = new URLSearchParams(params).toString();
     const url = `https://cacoo.com${path}?${query}`;
@@ -0,0 +1,191 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { CacooApiService } from './cacooApi';
+import { CacooSheetCacheIndex, CacooSheetCacheEntry, CacooSheetReference } from '../types/cacoo';
+import { cacooReferenceKey } from '../utils/cacooReference';
+
+export interface CacooCachePullResult {
+  pulled: number;
+  unchanged: number;
+  failed: number;
+}
+
+/**
+ * Markdown の Cacoo 参照（cacoo:diagramId/sheetUid）用のシート画像キャッシュ。
+ * 画像は globalStorage に置き、ダイアグラムの updated が変わったものだけ取り直す。
+ * 描画時にキャッシュが無い参照は、まとめて裏で取得してから onDidChange で知らせる。
+ */
+export class CacooSheetCache implements vscode.Disposable {
+  private static readonly INDEX_FILENAME = 'index.json';
+  private static readonly REQUEST_DELAY_MS = 500;
+
+  private _onDidChange = new vscode.EventEmitter<void>();
+  readonly onDidChange = this._onDidChange.event;
+
+  private index: CacooSheetCacheIndex | null = null;
+  /** 描画時に見つかった未取得の参照（まとめて取得する） */
+  private pending = new Map<string, CacooSheetReference>();
+  /** 自動取得に失敗した参照（コマンドで明示的に取得するまで再試行しない） */
+  private failed = new Set<string>();
+  private requestTimer: ReturnType<typeof setTimeout> | undefined;
+
+  constructor(private cacooApi: CacooApiService, private cacheDir: string) {}
+
+  dispose(): void {
+    if (this.requestTimer) {
+      clearTimeout(this.requestTimer);
+    }
+    this._onDidChange.dispose();
+  }
+
+  getEntry(ref: CacooSheetReference): CacooSheetCacheEntry | undefined {
+    return this.loadIndex()[cacooReferenceKey(ref)];
+  }
+
+  /** キャッシュ済みの PNG のパス（未取得なら undefined） */
+  getImagePath(ref: CacooSheetReference): string | undefined {
+    const imagePath = this.resolveImagePath(ref);
+    return this.getEntry(ref) && fs.existsSync(imagePath) ? imagePath : undefined;
+  }
+
+  /**
+   * Webview・Markdown プレビューに埋め込む data URL。
+   * 未取得なら取得を予約して undefined を返す。
+   */
+  getDataUrl(ref: CacooSheetReference): string | undefined {
+    const imagePath = this.getImagePath(ref);
+    if (!imagePath) {
+      this.request(ref);
+      return undefined;
+    }
+    try {
+      return `data:image/png;base64,${fs.readFileSync(imagePath).toString('base64')}`;
+    } catch {
+      return undefined;
+    }
+  }
+
+  /** 未取得の参照を裏で取得する（描画が続いても 1 回にまとめる） */
+  request(ref: CacooSheetReference): void {
+    const key = cacooReferenceKey(ref);
+    if (this.failed.has(key) || this.pending.has(key)) {
+      return;
+    }
+    this.pending.set(key, ref);
+    if (this.requestTimer) {
+      clearTimeout(this.requestTimer);
+    }
+    this.requestTimer = setTimeout(async () => {
+      this.requestTimer = undefined;
+      const refs = [...this.pending.values()];
+      this.pending.clear();
+      if (!(await this.cacooApi.isConfigured())) {
+        refs.forEach((r) => this.failed.add(cacooReferenceKey(r)));
+        return;
+      }
+      await this.pull(refs);
+    }, CacooSheetCache.REQUEST_DELAY_MS);
+  }
+
+  /**
+   * 参照しているシートを取得する。ダイアグラムごとに詳細を 1 回取得し、
+   * updated が前回と同じでファイルもあれば取り直さない（force で常に取得）。
+   */
+  async pull(
+    refs: CacooSheetReference[],
+    options: { force?: boolean; token?: vscode.CancellationToken } = {}
+  ): Promise<CacooCachePullResult> {
+    const result: CacooCachePullResult = { pulled: 0, unchanged: 0, failed: 0 };
+    const index = this.loadIndex();
+
+    const byDiagram = new Map<string, Map<string, CacooSheetReference>>();
+    for (const ref of refs) {
+      const group = byDiagram.get(ref.diagramId) || new Map<string, CacooSheetReference>();
+      group.set(cacooReferenceKey(ref), ref);
+      byDiagram.set(ref.diagramId, group);
+    }
+
+    for (const [diagramId, group] of byDiagram) {
+      if (options.token?.isCancellationRequested) {
+        break;
+      }
+      try {
+        const detail = await this.cacooApi.getDiagramDetail(diagramId);
+        for (const [key, ref] of group) {
+          const sheet = ref.sheetUid
+            ? detail.sheets.find((s) => s.uid === ref.sheetUid)
+            : detail.sheets[0];
+          if (!sheet) {
+            this.failed.add(key);
+            result.failed++;
+            continue;
+          }
+          const imagePath = this.resolveImagePath(ref);
+          if (
+            !options.force &&
+            index[key]?.updated === detail.updated &&
+            fs.existsSync(imagePath)
+          ) {
+            result.unchanged++;
+            continue;
+          }
+          const buffer = await this.cacooApi.downloadSheetImage(diagramId, sheet.uid);
+          fs.mkdirSync(path.dirname(imagePath), { recursive: true });
+          fs.writeFileSync(imagePath, buffer);
+          index[key] = {
+            diagramTitle: detail.title,
+            sheetName: sheet.name,
+            updated: detail.updated,
+            fetched_at: new Date().toISOString(),
+          };
+          this.failed.delete(key);
+          result.pulled++;
+        }
+      } catch (error) {
+        console.error(`[Cacoo] Failed to cache diagram ${diagramId}:`, error);
+        for (const key of group.keys()) {
+          this.failed.add(key);
+        }
+        result.failed += group.size;
+      }
+    }
+
+    this.saveIndex(index);
+    if (result.pulled > 0) {
+      this._onDidChange.fire();
+    }
+    return result;
+  }
+
+  // ---- Storage ----
+
+  private resolveImagePath(ref: CacooSheetReference): string {
+    return path.join(this.cacheDir, ...cacooReferenceKey(ref).split('/')) + '.png';
+  }
+
+  private loadIndex(): CacooSheetCacheIndex {
+    if (!this.index) {
+      try {
+        const content = fs.readFileSync(
+          path.join(this.cacheDir, CacooSheetCache.INDEX_FILENAME),
+          'utf-8'
+        );
+        this.index = JSON.parse(content) as CacooSheetCacheIndex;
+      } catch {
+        this.index = {};
+      }
+    }
+    return this.index;
+  }
+
+  private saveIndex(index: CacooSheetCacheIndex): void {
+    this.index = index;
+    fs.mkdirSync(this.cacheDir, { recursive: true });
+    fs.writeFileSync(
+      path.join(this.cacheDir, CacooSheetCache.INDEX_FILENAME),
+      JSON.stringify(index, null, 2),
+      'utf-8'
+    );
+  }
+}
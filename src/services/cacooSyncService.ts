@@ -1,10 +1,11 @@
 import * as fs from 'fs';
 import * as path from 'path';
 import { createHash } from 'crypto';
-import { CacooSyncManifest } from '../types/cacoo';
+import { CacooExportFormat, CacooSyncManifest } from '../types/cacoo';
 
 export class CacooSyncService {
   private static readonly MANIFEST_FILENAME = '.cacoo-sync-manifest.json';
+  private static readonly HISTORY_DIRNAME = '.cacoo-history';
 
   // ---- Manifest I/O ----
 
@@ -51,9 +52,87 @@ export class CacooSyncService {
     return sanitized || 'untitled';
   }
 
-  resolveSheetPath(baseDir: string, diagramTitle: string, sheetName: string): string {
+  // ---- Local Files ----
+
+  /** 同期先のファイルを移動する（リネームされたダイアグラム / シート） */
+  moveSheetFile(localDir: string, fromRelative: string, toRelative: string): void {
+    const to = path.join(localDir, toRelative);
+    fs.mkdirSync(path.dirname(to), { recursive: true });
+    fs.renameSync(path.join(localDir, fromRelative), to);
+    this.removeEmptyDirs(localDir, path.dirname(fromRelative));
+  }
+
+  /**
+   * 移動先を空けるため、ファイルを同じディレクトリの一時ファイルへ退避して相対パスを返す。
+   * シート名を入れ替えたときに先に移動したファイルで上書きしないようにする。
+   */
+  parkSheetFile(localDir: string, relativePath: string): string {
+    const parkedPath = path.join(
+      path.dirname(relativePath),
+      `.${path.basename(relativePath)}.moving`
+    );
+    fs.renameSync(path.join(localDir, relativePath), path.join(localDir, parkedPath));
+    return parkedPath;
+  }
+
+  /** 同期先のファイルを削除し、空になったディレクトリも消す */
+  removeSheetFile(localDir: string, relativePath: string): void {
+    fs.rmSync(path.join(localDir, relativePath), { force: true });
+    this.removeEmptyDirs(localDir, path.dirname(relativePath));
+  }
+
+  /**
+   * 上書き前の画像を履歴フォルダへ退避し、その相対パスを返す（ファイルが無ければ undefined）。
+   * 1 シートにつき直前の 1 枚だけ残すので、前回退避したもの（previousHistoryPath）は消す。
+   */
+  archiveSheetFile(
+    localDir: string,
+    relativePath: string,
+    previousHistoryPath?: string
+  ): string | undefined {
+    const source = path.join(localDir, relativePath);
+    if (!fs.existsSync(source)) {
+      return undefined;
+    }
+    const ext = path.extname(relativePath);
+    const stamp = new Date().toISOString().replace(/[-:]/g, '').replace(/\..*$/, '');
+    const historyPath = path.join(
+      CacooSyncService.HISTORY_DIRNAME,
+      path.dirname(relativePath),
+      `${path.basename(relativePath, ext)}.${stamp}${ext}`
+    );
+    fs.mkdirSync(path.dirname(path.join(localDir, historyPath)), { recursive: true });
+    fs.copyFileSync(source, path.join(localDir, historyPath));
+    if (previousHistoryPath && previousHistoryPath !== historyPath) {
+      this.removeSheetFile(localDir, previousHistoryPath);
+    }
+    return historyPath;
+  }
+
+  private removeEmptyDirs(localDir: string, relativeDir: string): void {
+    let dir = relativeDir;
+    while (dir && dir !== '.') {
+      const absolute = path.join(localDir, dir);
+      try {
+        if (fs.readdirSync(absolute).length > 0) {
+          return;
+        }
+        fs.rmdirSync(absolute);
+      } catch {
+        return;
+      }
+      dir = path.dirname(dir);
+    }
+  }
+
+  resolveSheetPath(
+    baseDir: string,
+    diagramTitle: string,
+    sheetName: string,
+    format: CacooExportFormat = 'png'
+  ): string {
     const sanitizedDiagram = this.sanitizeFileName(diagramTitle);
     const sanitizedSheet = this.sanitizeFileName(sheetName);
-    return path.join(baseDir, sanitizedDiagram, sanitizedSheet + '.png');
+    return path.join(baseDir, sanitizedDiagram, `${sanitizedSheet}.${format}`);
   }
 }
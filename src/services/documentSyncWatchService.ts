@@ -0,0 +1,187 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { BacklogApiService } from './backlogApi';
+import { SyncService } from './syncService';
+import { PollingService } from './pollingService';
+import { BacklogConfig } from '../config/backlogConfig';
+import { WorkspaceFileStore } from '../config/workspaceFileStore';
+import { SyncFileDecorationProvider } from '../providers/syncFileDecorationProvider';
+import { SyncStatusEntry } from '../types/backlog';
+
+/**
+ * ドキュメント同期のウォッチモード (opt-in)。
+ * リモートの更新日時は PollingService で定期取得し、ローカルの編集はファイルウォッチャーで即時反映する。
+ * 結果は SyncFileDecorationProvider とステータスバーに表示する。
+ */
+export class DocumentSyncWatchService implements vscode.Disposable {
+  private static readonly POLLING_NAME = 'document-sync-watch';
+
+  private statusBar: vscode.StatusBarItem;
+  private fileWatcher: vscode.FileSystemWatcher | undefined;
+  private disposables: vscode.Disposable[] = [];
+  private running = false;
+
+  /** localDir → (backlog_id → updated) */
+  private remoteUpdates = new Map<string, Map<string, string>>();
+
+  constructor(
+    private backlogApi: BacklogApiService,
+    private backlogConfig: BacklogConfig,
+    private fileStore: WorkspaceFileStore,
+    private syncService: SyncService,
+    private pollingService: PollingService,
+    private decorationProvider: SyncFileDecorationProvider
+  ) {
+    this.statusBar = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Right, 198);
+    this.statusBar.command = 'nulab.documentSync.status';
+
+    this.disposables.push(
+      this.statusBar,
+      vscode.workspace.onDidChangeConfiguration((e) => {
+        if (e.affectsConfiguration('nulab.documentSync')) {
+          this.applyConfiguration();
+        }
+      })
+    );
+    this.applyConfiguration();
+  }
+
+  isRunning(): boolean {
+    return this.running;
+  }
+
+  /**
+   * 設定に合わせてウォッチを開始・停止する（間隔の変更時は再登録）。
+   */
+  applyConfiguration(): void {
+    if (this.backlogConfig.isDocumentSyncWatchEnabled()) {
+      this.start();
+    } else {
+      this.stop();
+    }
+  }
+
+  private start(): void {
+    this.pollingService.register(
+      DocumentSyncWatchService.POLLING_NAME,
+      () => this.pollRemote(),
+      this.backlogConfig.getDocumentSyncWatchInterval() * 1000
+    );
+
+    if (!this.fileWatcher) {
+      this.fileWatcher = vscode.workspace.createFileSystemWatcher('**/*.bdoc');
+      const onLocalChange = (uri: vscode.Uri) => {
+        this.decorationProvider.refresh(uri);
+        this.updateStatusBar();
+      };
+      this.fileWatcher.onDidChange(onLocalChange);
+      this.fileWatcher.onDidCreate(onLocalChange);
+      this.fileWatcher.onDidDelete(onLocalChange);
+    }
+
+    this.running = true;
+    this.statusBar.text = '$(sync~spin) Docs';
+    this.statusBar.tooltip = 'ドキュメント同期: リモートを確認中...';
+    this.statusBar.show();
+  }
+
+  private stop(): void {
+    if (!this.running) {
+      return;
+    }
+    this.pollingService.stop(DocumentSyncWatchService.POLLING_NAME);
+    this.fileWatcher?.dispose();
+    this.fileWatcher = undefined;
+    this.remoteUpdates.clear();
+    this.decorationProvider.clearRemoteUpdates();
+    this.statusBar.hide();
+    this.running = false;
+  }
+
+  private async pollRemote(): Promise<void> {
+    const workspaceRoot = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+    if (!workspaceRoot || !(await this.backlogConfig.isConfigured())) {
+      return;
+    }
+
+    const projects = await this.backlogApi.getProjects();
+    for (const mapping of this.fileStore.getDocumentSyncMappings()) {
+      const project = projects.find(
+        (p) => p.projectKey.toUpperCase() === mapping.projectKey.toUpperCase()
+      );
+      if (!project) {
+        continue;
+      }
+
+      try {
+        const flatNodes = await this.backlogApi.getDocumentSubtree(
+          project.id,
+          mapping.documentNodeId
+        );
+        const updates = new Map<string, string>();
+        for (const node of flatNodes) {
+          if (node.updated) {
+            updates.set(node.id, node.updated);
+          }
+        }
+        // サブツリーにはルート自体 (index.bdoc) が含まれないため個別に取得する
+        const root = await this.backlogApi.getDocument(mapping.documentNodeId);
+        if (root.updated) {
+          updates.set(root.id, root.updated);
+        }
+
+        const localDir = path.join(workspaceRoot, mapping.localPath);
+        this.remoteUpdates.set(localDir, updates);
+        this.decorationProvider.setRemoteUpdates(localDir, updates);
+      } catch (error) {
+        console.error(`[DocumentSyncWatch] ${mapping.projectKey} failed:`, error);
+      }
+    }
+
+    this.updateStatusBar();
+  }
+
+  private updateStatusBar(): void {
+    if (!this.running) {
+      return;
+    }
+    const workspaceRoot = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+    if (!workspaceRoot) {
+      return;
+    }
+
+    const statuses: SyncStatusEntry[] = [];
+    for (const mapping of this.fileStore.getDocumentSyncMappings()) {
+      const localDir = path.join(workspaceRoot, mapping.localPath);
+      const manifest = this.syncService.loadManifest(localDir);
+      statuses.push(
+        ...this.syncService.getAllStatuses(localDir, manifest, this.remoteUpdates.get(localDir))
+      );
+    }
+
+    const count = (status: SyncStatusEntry['status']) =>
+      statuses.filter((s) => s.status === status).length;
+    const remoteModified = count('remote_modified');
+    const conflicts = count('conflict');
+    const localModified = count('local_modified') + count('new_local');
+
+    this.statusBar.text =
+      remoteModified + conflicts === 0
+        ? '$(check) Docs'
+        : `$(cloud-download) ${remoteModified}` + (conflicts > 0 ? ` $(warning) ${conflicts}` : '');
+    this.statusBar.tooltip = [
+      'ドキュメント同期 (ウォッチ中)',
+      `リモート更新: ${remoteModified}`,
+      `競合: ${conflicts}`,
+      `ローカル変更: ${localModified}`,
+    ].join('\n');
+  }
+
+  dispose(): void {
+    this.stop();
+    for (const d of this.disposables) {
+      d.dispose();
+    }
+    this.disposables = [];
+  }
+}
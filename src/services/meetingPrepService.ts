@@ -0,0 +1,225 @@
+import * as vscode from 'vscode';
+import { Entity } from 'backlog-js';
+import { GoogleApiService } from './googleApi';
+import { BacklogApiService } from './backlogApi';
+import { BacklogConfig } from '../config/backlogConfig';
+import { GoogleCalendarEvent, GoogleDriveFile } from '../types/google';
+
+/** 会議名によく付くがキーワードとしては役に立たない語 */
+const STOP_WORDS = new Set([
+  'mtg',
+  'meeting',
+  'sync',
+  'weekly',
+  'daily',
+  'monthly',
+  '1on1',
+  'kickoff',
+  'review',
+  'ミーティング',
+  '打ち合わせ',
+  '打合せ',
+  '会議',
+  '定例',
+  '週次',
+  '月次',
+  '共有',
+  '相談',
+]);
+const MAX_KEYWORDS = 3;
+const MAX_RESULTS = 10;
+
+const RESPONSE_LABELS: Record<string, string> = {
+  accepted: '✓ 参加',
+  declined: '✗ 不参加',
+  tentative: '? 未定',
+  needsAction: '– 未回答',
+};
+
+/**
+ * 会議の準備ノート（.nulab/meeting-prep/*.md）を作る。
+ * 予定のタイトルからキーワードを取り出し、関連しそうな Backlog 課題と Drive の資料を集める。
+ */
+export class MeetingPrepService {
+  constructor(
+    private googleApi: GoogleApiService,
+    private backlogApi?: BacklogApiService,
+    private backlogConfig?: BacklogConfig
+  ) {}
+
+  /** 予定のタイトルを記号で区切り、長い語から順にキーワードにする */
+  static extractKeywords(summary: string): string[] {
+    const words = (summary || '')
+      .split(/[\s/|:：,、。・()（）[\]【】「」『』<>＜＞#＃\-–—_]+/)
+      .map((w) => w.trim())
+      .filter((w) => w.length >= 2 && !/^\d+$/.test(w) && !STOP_WORDS.has(w.toLowerCase()));
+    return [...new Set(words)].sort((a, b) => b.length - a.length).slice(0, MAX_KEYWORDS);
+  }
+
+  /**
+   * 準備ノートを書き出して URI を返す。既にあれば overwrite しない限りそのまま返す。
+   * linkedDocs は予定に添付・紐付けされた資料（キーワード検索の結果より先に並べる）。
+   */
+  async createPrepNote(
+    event: GoogleCalendarEvent,
+    linkedDocs: GoogleDriveFile[],
+    options: { overwrite?: boolean } = {}
+  ): Promise<vscode.Uri | undefined> {
+    const fileUri = MeetingPrepService.prepNoteUri(event);
+    if (!fileUri) {
+      return undefined;
+    }
+    if (!options.overwrite && (await MeetingPrepService.exists(fileUri))) {
+      return fileUri;
+    }
+
+    const keywords = MeetingPrepService.extractKeywords(event.summary);
+    const [issues, docs] = await Promise.all([
+      this.searchIssues(keywords),
+      this.searchDocs(keywords, linkedDocs),
+    ]);
+
+    const content = this.buildNote(event, keywords, issues, docs);
+    await vscode.workspace.fs.createDirectory(vscode.Uri.joinPath(fileUri, '..'));
+    await vscode.workspace.fs.writeFile(fileUri, Buffer.from(content, 'utf-8'));
+    return fileUri;
+  }
+
+  static prepNoteUri(event: GoogleCalendarEvent): vscode.Uri | undefined {
+    const wsFolder = vscode.workspace.workspaceFolders?.[0];
+    if (!wsFolder) {
+      return undefined;
+    }
+    const eventDate = (event.start.dateTime || event.start.date || '').split('T')[0];
+    const safeName = (event.summary || 'meeting').replace(/[/\\:*?"<>|]/g, '_').substring(0, 60);
+    return vscode.Uri.joinPath(
+      wsFolder.uri,
+      '.nulab',
+      'meeting-prep',
+      `${eventDate}_${safeName}.md`
+    );
+  }
+
+  private static async exists(uri: vscode.Uri): Promise<boolean> {
+    try {
+      await vscode.workspace.fs.stat(uri);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  private async searchIssues(keywords: string[]): Promise<Entity.Issue.Issue[]> {
+    if (!this.backlogApi || keywords.length === 0 || !(await this.backlogApi.isConfigured())) {
+      return [];
+    }
+    const results = await Promise.all(
+      keywords.map((k) =>
+        this.backlogApi!.searchIssues(k, MAX_RESULTS).catch((error) => {
+          console.error(`[MeetingPrep] Failed to search issues for "${k}":`, error);
+          return [] as Entity.Issue.Issue[];
+        })
+      )
+    );
+    const byId = new Map<number, Entity.Issue.Issue>();
+    for (const issue of results.flat()) {
+      if (!byId.has(issue.id)) {
+        byId.set(issue.id, issue);
+      }
+    }
+    return [...byId.values()].slice(0, MAX_RESULTS);
+  }
+
+  private async searchDocs(
+    keywords: string[],
+    linkedDocs: GoogleDriveFile[]
+  ): Promise<GoogleDriveFile[]> {
+    const results = await Promise.all(
+      keywords.map((k) =>
+        this.googleApi.searchDriveFiles(k).catch((error) => {
+          console.error(`[MeetingPrep] Failed to search Drive for "${k}":`, error);
+          return [] as GoogleDriveFile[];
+        })
+      )
+    );
+    const byId = new Map<string, GoogleDriveFile>();
+    for (const file of [...linkedDocs, ...results.flat()]) {
+      if (!byId.has(file.id)) {
+        byId.set(file.id, file);
+      }
+    }
+    return [...byId.values()].slice(0, linkedDocs.length + MAX_RESULTS);
+  }
+
+  private buildNote(
+    event: GoogleCalendarEvent,
+    keywords: string[],
+    issues: Entity.Issue.Issue[],
+    docs: GoogleDriveFile[]
+  ): string {
+    const lines: string[] = [`# 準備: ${event.summary || '(No title)'}`, ''];
+
+    if (event.start.dateTime && event.end.dateTime) {
+      const date = event.start.dateTime.slice(0, 10).replace(/-/g, '/');
+      lines.push(
+        `- 日時: ${date} ${event.start.dateTime.slice(11, 16)} – ${event.end.dateTime.slice(
+          11,
+          16
+        )}`
+      );
+    } else if (event.start.date) {
+      lines.push(`- 日時: ${event.start.date.replace(/-/g, '/')} (終日)`);
+    }
+    if (event.hangoutLink) {
+      lines.push(`- Meet: ${event.hangoutLink}`);
+    }
+    if (event.htmlLink) {
+      lines.push(`- [Google Calendar で開く](${event.htmlLink})`);
+    }
+    if (keywords.length > 0) {
+      lines.push(`- キーワード: ${keywords.join(', ')}`);
+    }
+    lines.push('');
+
+    const attendees = event.attendees || [];
+    if (attendees.length > 0) {
+      lines.push('## 参加者', '');
+      for (const a of attendees) {
+        const status = RESPONSE_LABELS[a.responseStatus] || a.responseStatus;
+        lines.push(`- ${a.displayName || a.email}${a.self ? ' (自分)' : ''} — ${status}`);
+      }
+      lines.push('');
+    }
+
+    lines.push('## 関連する Backlog 課題', '');
+    if (issues.length === 0) {
+      lines.push('見つかりませんでした。', '');
+    } else {
+      const baseUrl = this.backlogConfig?.getBaseUrl();
+      for (const issue of issues) {
+        const key = baseUrl
+          ? `[${issue.issueKey}](${baseUrl}/view/${issue.issueKey})`
+          : issue.issueKey;
+        const meta = [issue.status?.name, issue.assignee?.name].filter(Boolean).join(' / ');
+        lines.push(`- ${key} ${issue.summary}${meta ? ` (${meta})` : ''}`);
+      }
+      lines.push('');
+    }
+
+    lines.push('## 関連資料 (Google Drive)', '');
+    if (docs.length === 0) {
+      lines.push('見つかりませんでした。', '');
+    } else {
+      for (const doc of docs) {
+        const modified = doc.modifiedTime ? ` — 更新 ${doc.modifiedTime.slice(0, 10)}` : '';
+        // ファイル名の [ ] \ がリンクの構文を壊さないようにする
+        const label = doc.name.replace(/[[\]\\]/g, '\\$&');
+        lines.push(`- [${label}](${doc.webViewLink})${modified}`);
+      }
+      lines.push('');
+    }
+
+    lines.push('## アジェンダ', '', '', '## メモ', '', '');
+    return lines.join('\n');
+  }
+}
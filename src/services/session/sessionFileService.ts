@@ -22,6 +22,12 @@ export interface TodoSessionMeta {
   notes?: string;
   replied?: boolean;
   repliedAt?: string;
+  createdIssueKeys?: string;
+  tags?: string;
+  remindAt?: string;
+  remindIfNoReply?: boolean;
+  remindSinceTs?: string;
+  slackReminderId?: string;
   source?: string;
   issueKey?: string;
   issueId?: number;
@@ -314,6 +320,12 @@ export class SessionFileService {
       notes: todo.notes,
       replied: todo.replied,
       repliedAt: todo.repliedAt,
+      createdIssueKeys: todo.createdIssueKeys?.join(', ') || undefined,
+      tags: todo.tags?.join(', ') || undefined,
+      remindAt: todo.reminder?.remindAt,
+      remindIfNoReply: todo.reminder?.ifNoReply,
+      remindSinceTs: todo.reminder?.sinceTs,
+      slackReminderId: todo.reminder?.slackReminderId,
       source: ctx?.source,
       issueKey: ctx?.issueKey,
       issueId: ctx?.issueId,
@@ -352,8 +364,21 @@ export class SessionFileService {
       notes: meta.notes || undefined,
       replied: meta.replied || undefined,
       repliedAt: meta.repliedAt || undefined,
+      createdIssueKeys: meta.createdIssueKeys
+        ? meta.createdIssueKeys.split(', ').filter(Boolean)
+        : undefined,
+      tags: meta.tags ? String(meta.tags).split(', ').filter(Boolean) : undefined,
     };
 
+    if (meta.remindAt) {
+      item.reminder = {
+        remindAt: meta.remindAt,
+        slackReminderId: meta.slackReminderId,
+        ifNoReply: meta.remindIfNoReply || undefined,
+        sinceTs: meta.remindSinceTs,
+      };
+    }
+
     if (meta.source) {
       const context: TodoContext = {
         source: meta.source as TodoContext['source'],
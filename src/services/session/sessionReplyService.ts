@@ -1,10 +1,12 @@
 import { BacklogApiService } from '../backlogApi';
 import { SlackApiService } from '../slackApi';
 import { SessionFileService } from './sessionFileService';
-import { BacklogParticipant } from '../../types/workspace';
+import { ActionItem, BacklogParticipant } from '../../types/workspace';
+import { markdownToDocumentContent } from '../../utils/markdownToProsemirror';
 
 /**
- * Handles posting replies to Backlog and Slack from session drafts.
+ * Handles posting replies to Backlog and Slack from session drafts,
+ * and posting action items to Backlog.
  */
 export class SessionReplyService {
   constructor(
@@ -121,4 +123,51 @@ export class SessionReplyService {
 
     this.fileService.updateFrontmatter(parsed.meta.id, { sessionStatus: 'posted' });
   }
+
+  /**
+   * Post a backlog-comment action item to its issue.
+   * Mentions are resolved against the session's participants like draft replies.
+   */
+  async postActionComment(todoId: string, action: ActionItem): Promise<void> {
+    if (!action.issueKey) {
+      throw new Error('課題キーがありません');
+    }
+    if (!action.content.trim()) {
+      throw new Error('コメント内容が空です');
+    }
+    if (!this.backlogApi) {
+      throw new Error('Backlog が設定されていません');
+    }
+
+    const { content, notifiedUserIds } = this.resolveMentions(
+      action.content.trim(),
+      this.fileService.getParticipants(todoId)
+    );
+    await this.backlogApi.postIssueComment(action.issueKey, {
+      content,
+      ...(notifiedUserIds.length > 0 ? { notifiedUserId: notifiedUserIds } : {}),
+    });
+  }
+
+  /**
+   * Create a Backlog document from a create-document action item.
+   * Returns the created document ID.
+   */
+  async createActionDocument(action: ActionItem, projectId: number): Promise<string> {
+    if (!this.backlogApi) {
+      throw new Error('Backlog が設定されていません');
+    }
+    const title = (action.documentName || action.title).trim();
+    if (!title) {
+      throw new Error('ドキュメント名がありません');
+    }
+
+    const created = await this.backlogApi.postDocument({
+      projectId,
+      title,
+      content: markdownToDocumentContent(action.content),
+      addLast: true,
+    });
+    return created.id;
+  }
 }
@@ -1,13 +1,22 @@
+import * as https from 'https';
+import * as path from 'path';
 import type { WebClient } from '@slack/web-api';
 import { SlackConfig } from '../config/slackConfig';
 import {
   SlackServiceState,
   InitializedSlackService,
+  SlackAttachment,
+  SlackBlock,
   SlackChannel,
+  SlackComposerCompletions,
+  SlackFile,
   SlackMessage,
+  SlackMessageEvent,
   SlackReaction,
+  SlackScheduledMessage,
+  SlackTextObject,
 } from '../types/workspace';
-import { convertSlackEmoji } from '../utils/slackEmoji';
+import { convertSlackEmoji, listEmojiShortcodes, registerCustomEmoji } from '../utils/slackEmoji';
 
 export type SlackTokenType = 'user' | 'bot' | 'unknown';
 
@@ -17,12 +26,24 @@ export class SlackApiService {
   private userCache = new Map<string, string>();
   private tokenType: SlackTokenType = 'unknown';
   private selfUserId: string | null = null;
+  private teamId: string | null = null;
   /** Cached set of channel IDs the user is a member of */
   private memberChannelIds: Set<string> | null = null;
   private memberChannelsCacheTime = 0;
   /** Cached user group IDs the user belongs to */
   private myGroupIds: string[] | null = null;
   private myGroupsCacheTime = 0;
+  /** Channel ID → name, for messages received over Socket Mode */
+  private channelNameCache = new Map<string, string>();
+  /** Custom emoji of this workspace (name → URL or "alias:name") */
+  private customEmoji: Record<string, string> | null = null;
+  private customEmojiCacheTime = 0;
+  /** Users and user groups offered in @-completion */
+  private completionUsers: SlackComposerCompletions['users'] | null = null;
+  private completionGroups: SlackComposerCompletions['groups'] | null = null;
+  private completionCacheTime = 0;
+  /** File ID → image preview data URI (null when the preview could not be fetched) */
+  private filePreviewCache = new Map<string, string | null>();
 
   private log: (msg: string) => void;
 
@@ -78,9 +99,15 @@ export class SlackApiService {
     this.client = null;
     this.tokenType = 'unknown';
     this.selfUserId = null;
+    this.teamId = null;
     this.userCache.clear();
+    this.customEmoji = null;
+    this.completionUsers = null;
+    this.completionGroups = null;
+    registerCustomEmoji({});
     this.memberChannelIds = null;
     this.myGroupIds = null;
+    this.channelNameCache.clear();
     await this.ensureInitialized();
   }
 
@@ -90,7 +117,12 @@ export class SlackApiService {
     if (!this.client || this.tokenType === 'bot') {
       return;
     }
-    await Promise.all([this.getSelfUserId(), this.getMemberChannelIds(), this.getMyUserGroupIds()]);
+    await Promise.all([
+      this.getSelfUserId(),
+      this.getMemberChannelIds(),
+      this.getMyUserGroupIds(),
+      this.getCustomEmoji(),
+    ]);
   }
 
   /** Get the set of channel IDs the user is a member of (cached 5 min) */
@@ -272,6 +304,7 @@ export class SlackApiService {
     try {
       const resp = await this.client.auth.test();
       this.selfUserId = (resp.user_id as string) || null;
+      this.teamId = (resp.team_id as string) || null;
       return this.selfUserId;
     } catch {
       return null;
@@ -498,6 +531,94 @@ export class SlackApiService {
     }
   }
 
+  /**
+   * Convert a Socket Mode message event into a SlackMessage.
+   * Returns undefined for own messages and non-content subtypes (edits, deletes, joins...).
+   */
+  async fromMessageEvent(event: SlackMessageEvent): Promise<SlackMessage | undefined> {
+    const contentSubtypes = ['thread_broadcast', 'file_share'];
+    if (!event.user || !event.ts || (event.subtype && !contentSubtypes.includes(event.subtype))) {
+      return undefined;
+    }
+    await this.ensureInitialized();
+    const selfId = await this.getSelfUserId();
+    if (selfId && event.user === selfId) {
+      return undefined;
+    }
+
+    const isDm = event.channel_type === 'im' || event.channel_type === 'mpim';
+    const [userName, channelName, text] = await Promise.all([
+      this.resolveUserName(event.user),
+      isDm ? Promise.resolve(undefined) : this.resolveChannelName(event.channel),
+      this.preprocessSlackText(convertSlackEmoji(event.text || '')),
+    ]);
+    return {
+      ts: event.ts,
+      user: event.user,
+      text,
+      thread_ts: event.thread_ts,
+      channel: event.channel,
+      channelName,
+      userName,
+      is_dm: isDm,
+    };
+  }
+
+  /**
+   * Whether a Socket Mode message event belongs in the notifications list.
+   * Same criteria as getMentions (direct / @channel / @here / own groups / DMs),
+   * plus replies in threads started by the user or already in the list.
+   */
+  async isNotificationEvent(
+    event: SlackMessageEvent,
+    options: {
+      includeDMs: boolean;
+      isWatchedThread?: (channel: string, threadTs: string) => boolean;
+    }
+  ): Promise<boolean> {
+    await this.ensureInitialized();
+    const [selfId, myGroupIds] = await Promise.all([
+      this.getSelfUserId(),
+      this.tokenType === 'bot' ? Promise.resolve([]) : this.getMyUserGroupIds(),
+    ]);
+    const text = event.text || '';
+    const isDm = event.channel_type === 'im' || event.channel_type === 'mpim';
+    if (isDm) {
+      return options.includeDMs;
+    }
+    if (
+      (selfId && text.includes(`<@${selfId}>`)) ||
+      /<!(channel|here)(\|[^>]*)?>/.test(text) ||
+      myGroupIds.some((gid) => text.includes(`<!subteam^${gid}`))
+    ) {
+      return true;
+    }
+    if (event.thread_ts && event.thread_ts !== event.ts) {
+      return (
+        (!!selfId && event.parent_user_id === selfId) ||
+        !!options.isWatchedThread?.(event.channel, event.thread_ts)
+      );
+    }
+    return false;
+  }
+
+  private async resolveChannelName(channelId: string): Promise<string | undefined> {
+    const cached = this.channelNameCache.get(channelId);
+    if (cached) {
+      return cached;
+    }
+    try {
+      const resp = await this.client!.conversations.info({ channel: channelId });
+      const name = resp.channel?.name;
+      if (name) {
+        this.channelNameCache.set(channelId, name);
+      }
+      return name;
+    } catch {
+      return undefined;
+    }
+  }
+
   async getThreadMessages(channel: string, ts: string): Promise<SlackMessage[]> {
     await this.ensureInitialized();
     if (!this.client) {
@@ -513,19 +634,7 @@ export class SlackApiService {
 
       const messages: SlackMessage[] = [];
       for (const msg of resp.messages || []) {
-        const userName = await this.resolveUserName(msg.user || '');
-        const text = await this.preprocessSlackText(convertSlackEmoji(msg.text || ''));
-        const msgAny = msg as Record<string, unknown>;
-        const reactions = this.extractReactions(msgAny.reactions as any[] | undefined);
-        messages.push({
-          ts: msg.ts || '',
-          user: msg.user || '',
-          text,
-          thread_ts: msg.thread_ts,
-          channel,
-          userName,
-          reactions,
-        });
+        messages.push(await this.toSlackMessage(msg as Record<string, unknown>, channel));
       }
       return messages;
     } catch (error) {
@@ -551,6 +660,226 @@ export class SlackApiService {
     }
   }
 
+  /**
+   * Custom emoji of the workspace, also registered with slackEmoji for rendering.
+   * Cached per team in .nulab so emoji show up immediately after a restart.
+   */
+  async getCustomEmoji(): Promise<Record<string, string>> {
+    const CACHE_TTL = 6 * 60 * 60 * 1000;
+    if (this.customEmoji && Date.now() - this.customEmojiCacheTime < CACHE_TTL) {
+      return this.customEmoji;
+    }
+    await this.ensureInitialized();
+    if (!this.client) {
+      return {};
+    }
+    await this.getSelfUserId();
+    const teamId = this.teamId;
+
+    // Load from disk cache first; refresh in background when stale
+    const persisted = teamId ? this.configService.getCustomEmojiCache(teamId) : undefined;
+    if (persisted && !this.customEmoji) {
+      this.customEmoji = persisted.emoji;
+      this.customEmojiCacheTime = persisted.fetchedAt;
+      registerCustomEmoji(persisted.emoji);
+      if (Date.now() - persisted.fetchedAt >= CACHE_TTL) {
+        this.refreshCustomEmoji(teamId).catch(() => {});
+      }
+      return persisted.emoji;
+    }
+    return this.refreshCustomEmoji(teamId);
+  }
+
+  private async refreshCustomEmoji(teamId: string | null): Promise<Record<string, string>> {
+    try {
+      const resp = await this.client!.emoji.list();
+      const emoji = (resp.emoji as Record<string, string>) || {};
+      this.customEmoji = emoji;
+      this.customEmojiCacheTime = Date.now();
+      registerCustomEmoji(emoji);
+      if (teamId) {
+        this.configService.setCustomEmojiCache(teamId, emoji);
+      }
+      this.log(`[Slack] emoji.list: ${Object.keys(emoji).length} custom emoji`);
+      return emoji;
+    } catch (error) {
+      this.log(`[Slack] emoji.list failed: ${error}`);
+      return this.customEmoji || {};
+    }
+  }
+
+  /**
+   * Candidates for :emoji: and @mention completion in the reply / post boxes.
+   */
+  async getComposerCompletions(): Promise<SlackComposerCompletions> {
+    const CACHE_TTL = 30 * 60 * 1000;
+    await this.ensureInitialized();
+    if (!this.client) {
+      return { emoji: listEmojiShortcodes(), users: [], groups: [] };
+    }
+    await this.getCustomEmoji();
+
+    if (
+      !this.completionUsers ||
+      !this.completionGroups ||
+      Date.now() - this.completionCacheTime >= CACHE_TTL
+    ) {
+      const users: SlackComposerCompletions['users'] = [];
+      try {
+        let cursor: string | undefined;
+        do {
+          const resp = await this.client.users.list({ limit: 200, cursor });
+          for (const u of resp.members || []) {
+            if (!u.id || u.deleted || u.is_bot || u.id === 'USLACKBOT') {
+              continue;
+            }
+            const name = u.profile?.display_name || u.real_name || u.name || u.id;
+            users.push({ id: u.id, name, realName: u.real_name });
+            this.userCache.set(u.id, u.real_name || u.name || u.id);
+          }
+          cursor = resp.response_metadata?.next_cursor || undefined;
+        } while (cursor);
+      } catch (error) {
+        this.log(`[Slack] users.list failed: ${error}`);
+      }
+
+      let groups: SlackComposerCompletions['groups'] = [];
+      try {
+        const resp = await this.client.usergroups.list({});
+        groups = (resp.usergroups || [])
+          .filter((g) => g.id && g.handle && (!g.date_delete || g.date_delete === 0))
+          .map((g) => ({ id: g.id!, handle: g.handle!, name: g.name || g.handle! }));
+      } catch (error) {
+        this.log(`[Slack] usergroups.list failed: ${error}`);
+      }
+
+      this.completionUsers = users;
+      this.completionGroups = groups;
+      this.completionCacheTime = Date.now();
+    }
+
+    return {
+      emoji: listEmojiShortcodes(),
+      users: this.completionUsers,
+      groups: this.completionGroups,
+    };
+  }
+
+  /**
+   * One page of channel history, oldest first.
+   * Pass the previous nextCursor to page further back, or oldest to fetch only newer messages.
+   */
+  async getChannelHistory(
+    channel: string,
+    options: { cursor?: string; oldest?: string; limit?: number } = {}
+  ): Promise<{ messages: SlackMessage[]; nextCursor?: string }> {
+    await this.ensureInitialized();
+    if (!this.client) {
+      return { messages: [] };
+    }
+
+    const resp = await this.client.conversations.history({
+      channel,
+      limit: options.limit ?? 50,
+      ...(options.cursor ? { cursor: options.cursor } : {}),
+      ...(options.oldest ? { oldest: options.oldest, inclusive: false } : {}),
+    });
+    const raw = ((resp.messages as Array<Record<string, unknown>>) || []).reverse();
+    const messages: SlackMessage[] = [];
+    for (const msg of raw) {
+      messages.push(await this.toSlackMessage(msg, channel));
+    }
+    return {
+      messages,
+      nextCursor: (resp.has_more && resp.response_metadata?.next_cursor) || undefined,
+    };
+  }
+
+  /**
+   * Conversations the user is a member of (channels, private channels, DMs, group DMs).
+   * DM names are resolved to the other user's name. unread_count is left at 0;
+   * use getChannelUnreadCount to fill it in.
+   */
+  async getMyConversations(): Promise<SlackChannel[]> {
+    await this.ensureInitialized();
+    if (!this.client) {
+      return [];
+    }
+
+    const result: SlackChannel[] = [];
+    let cursor: string | undefined;
+    do {
+      const resp = await this.client.users.conversations({
+        types: 'public_channel,private_channel,mpim,im',
+        exclude_archived: true,
+        limit: 200,
+        cursor,
+      });
+      for (const ch of resp.channels || []) {
+        if (!ch.id) {
+          continue;
+        }
+        result.push({
+          id: ch.id,
+          name: ch.name || ch.id,
+          is_im: !!ch.is_im,
+          is_mpim: !!ch.is_mpim,
+          is_private: !!ch.is_private,
+          user: ch.user,
+          unread_count: 0,
+        });
+      }
+      cursor = resp.response_metadata?.next_cursor || undefined;
+    } while (cursor);
+
+    await Promise.all(
+      result
+        .filter((ch) => ch.is_im && ch.user)
+        .map(async (ch) => {
+          ch.name = await this.resolveUserName(ch.user!);
+        })
+    );
+    // Group DM names look like "mpdm-alice--bob--carol-1"
+    for (const ch of result.filter((c) => c.is_mpim)) {
+      ch.name = ch.name
+        .replace(/^mpdm-/, '')
+        .replace(/-\d+$/, '')
+        .split('--')
+        .join(', ');
+    }
+    return result;
+  }
+
+  /**
+   * Unread message count of a conversation.
+   * Uses unread_count_display when conversations.info returns it; otherwise counts
+   * messages after last_read (up to 100).
+   */
+  async getChannelUnreadCount(channel: string): Promise<number> {
+    await this.ensureInitialized();
+    if (!this.client) {
+      return 0;
+    }
+    const resp = await this.client.conversations.info({ channel });
+    const info = resp.channel as Record<string, unknown> | undefined;
+    const display = info?.unread_count_display ?? info?.unread_count;
+    if (typeof display === 'number') {
+      return display;
+    }
+    const lastRead = info?.last_read as string | undefined;
+    if (!lastRead) {
+      return 0;
+    }
+    const history = await this.client.conversations.history({
+      channel,
+      oldest: lastRead,
+      inclusive: false,
+      limit: 100,
+    });
+    return (history.messages || []).filter((m) => !m.subtype || m.subtype === 'thread_broadcast')
+      .length;
+  }
+
   /**
    * Get surrounding channel messages around a given timestamp.
    * Returns messages before and after the target, excluding the target itself.
@@ -587,18 +916,7 @@ export class SlackApiService {
       ): Promise<SlackMessage[]> => {
         const result: SlackMessage[] = [];
         for (const msg of msgs) {
-          const userName = await this.resolveUserName((msg.user as string) || '');
-          const text = await this.preprocessSlackText(
-            convertSlackEmoji((msg.text as string) || '')
-          );
-          result.push({
-            ts: (msg.ts as string) || '',
-            user: (msg.user as string) || '',
-            text,
-            thread_ts: msg.thread_ts as string | undefined,
-            channel,
-            userName,
-          });
+          result.push(await this.toSlackMessage(msg, channel));
         }
         return result;
       };
@@ -652,7 +970,16 @@ export class SlackApiService {
     await this.client.chat.postMessage({ channel, text });
   }
 
-  async postReply(channel: string, threadTs: string, text: string): Promise<void> {
+  /**
+   * Post a thread reply. With broadcast, the reply is also sent to the channel
+   * ("Also send to #channel").
+   */
+  async postReply(
+    channel: string,
+    threadTs: string,
+    text: string,
+    options?: { broadcast?: boolean }
+  ): Promise<void> {
     await this.ensureInitialized();
     if (!this.client) {
       return;
@@ -662,6 +989,51 @@ export class SlackApiService {
       channel,
       text,
       thread_ts: threadTs,
+      reply_broadcast: !!options?.broadcast,
+    });
+  }
+
+  /** Edit one of the user's own messages (chat.update). */
+  async updateMessage(channel: string, ts: string, text: string): Promise<void> {
+    await this.ensureInitialized();
+    if (!this.client) {
+      return;
+    }
+    await this.client.chat.update({ channel, ts, text });
+  }
+
+  /** Delete one of the user's own messages (chat.delete). */
+  async deleteMessage(channel: string, ts: string): Promise<void> {
+    await this.ensureInitialized();
+    if (!this.client) {
+      return;
+    }
+    await this.client.chat.delete({ channel, ts });
+  }
+
+  /**
+   * Upload local files into a thread.
+   * Uses files.getUploadURLExternal / files.completeUploadExternal via filesUploadV2,
+   * which replaces the retired files.upload method.
+   */
+  async uploadFiles(
+    channel: string,
+    threadTs: string,
+    filePaths: string[],
+    initialComment?: string
+  ): Promise<void> {
+    await this.ensureInitialized();
+    if (!this.client || filePaths.length === 0) {
+      return;
+    }
+    await this.client.filesUploadV2({
+      channel_id: channel,
+      thread_ts: threadTs,
+      ...(initialComment ? { initial_comment: initialComment } : {}),
+      file_uploads: filePaths.map((filePath) => ({
+        file: filePath,
+        filename: path.basename(filePath),
+      })),
     });
   }
 
@@ -673,6 +1045,236 @@ export class SlackApiService {
     await this.client.reactions.add({ channel, timestamp, name });
   }
 
+  async removeReaction(channel: string, timestamp: string, name: string): Promise<void> {
+    await this.ensureInitialized();
+    if (!this.client) {
+      return;
+    }
+    await this.client.reactions.remove({ channel, timestamp, name });
+  }
+
+  /** The authenticated user's ID (null for unknown / bot tokens without a user). */
+  async getCurrentUserId(): Promise<string | null> {
+    await this.ensureInitialized();
+    return this.getSelfUserId();
+  }
+
+  /**
+   * Mark the channel as read up to the given message.
+   */
+  async markRead(channel: string, ts: string): Promise<void> {
+    await this.ensureInitialized();
+    if (!this.client) {
+      return;
+    }
+    await this.client.conversations.mark({ channel, ts });
+  }
+
+  /** Schedule a message for later (chat.scheduleMessage). Returns the scheduled message ID. */
+  async scheduleMessage(channel: string, text: string, postAt: Date): Promise<string | undefined> {
+    await this.ensureInitialized();
+    if (!this.client) {
+      return undefined;
+    }
+    const resp = await this.client.chat.scheduleMessage({
+      channel,
+      text,
+      post_at: Math.floor(postAt.getTime() / 1000),
+    });
+    return resp.scheduled_message_id;
+  }
+
+  /** Messages the user has scheduled and not yet sent, soonest first. */
+  async listScheduledMessages(): Promise<SlackScheduledMessage[]> {
+    await this.ensureInitialized();
+    if (!this.client) {
+      return [];
+    }
+    const scheduled: SlackScheduledMessage[] = [];
+    let cursor: string | undefined;
+    do {
+      const resp = await this.client.chat.scheduledMessages.list({ cursor, limit: 100 });
+      for (const msg of resp.scheduled_messages || []) {
+        if (!msg.id || !msg.channel_id) {
+          continue;
+        }
+        scheduled.push({
+          id: msg.id,
+          channel: msg.channel_id,
+          channelName: await this.resolveChannelName(msg.channel_id),
+          postAt: msg.post_at || 0,
+          text: msg.text || '',
+        });
+      }
+      cursor = resp.response_metadata?.next_cursor || undefined;
+    } while (cursor);
+    return scheduled.sort((a, b) => a.postAt - b.postAt);
+  }
+
+  async deleteScheduledMessage(channel: string, scheduledMessageId: string): Promise<void> {
+    await this.ensureInitialized();
+    if (!this.client) {
+      return;
+    }
+    await this.client.chat.deleteScheduledMessage({
+      channel,
+      scheduled_message_id: scheduledMessageId,
+    });
+  }
+
+  /**
+   * Create a personal reminder (reminders.add), delivered by Slackbot at the given time.
+   * Requires a user token with reminders:write. Returns the reminder ID.
+   */
+  async addReminder(text: string, time: Date): Promise<string | undefined> {
+    await this.ensureInitialized();
+    if (!this.client) {
+      return undefined;
+    }
+    const resp = await this.client.reminders.add({
+      text,
+      time: Math.floor(time.getTime() / 1000),
+    });
+    return resp.reminder?.id;
+  }
+
+  async deleteReminder(reminderId: string): Promise<void> {
+    await this.ensureInitialized();
+    if (!this.client) {
+      return;
+    }
+    await this.client.reminders.delete({ reminder: reminderId });
+  }
+
+  private async toSlackMessage(
+    msg: Record<string, unknown>,
+    channel: string
+  ): Promise<SlackMessage> {
+    const user = (msg.user as string) || '';
+    const rawText = (msg.text as string) || '';
+    return {
+      ts: (msg.ts as string) || '',
+      user,
+      text: await this.preprocessSlackText(convertSlackEmoji(rawText)),
+      rawText,
+      edited: !!msg.edited,
+      thread_ts: msg.thread_ts as string | undefined,
+      reply_count: msg.reply_count as number | undefined,
+      channel,
+      userName: await this.resolveUserName(user),
+      reactions: this.extractReactions(msg.reactions as any[] | undefined),
+      blocks: await this.extractBlocks(msg.blocks as SlackBlock[] | undefined),
+      attachments: await this.extractAttachments(msg.attachments as any[] | undefined),
+      files: await this.extractFiles(msg.files as any[] | undefined),
+    };
+  }
+
+  /** Resolve mentions in the mrkdwn texts of Block Kit blocks, the same way as message text */
+  private async extractBlocks(blocks: SlackBlock[] | undefined): Promise<SlackBlock[] | undefined> {
+    if (!blocks || blocks.length === 0) {
+      return undefined;
+    }
+    const preprocess = async (obj: SlackTextObject | undefined) => {
+      if (obj?.type === 'mrkdwn') {
+        obj.text = await this.preprocessSlackText(obj.text);
+      }
+    };
+    for (const block of blocks) {
+      await preprocess(block.text);
+      for (const field of block.fields || []) {
+        await preprocess(field);
+      }
+      if (block.type === 'context') {
+        for (const el of block.elements || []) {
+          if (el.type === 'mrkdwn' && typeof el.text === 'string') {
+            el.text = await this.preprocessSlackText(el.text);
+          }
+        }
+      }
+    }
+    return blocks;
+  }
+
+  private async extractAttachments(raw: any[] | undefined): Promise<SlackAttachment[] | undefined> {
+    if (!raw || raw.length === 0) {
+      return undefined;
+    }
+    return Promise.all(
+      raw.map(
+        async (a): Promise<SlackAttachment> => ({
+          color: a.color,
+          pretext: a.pretext ? await this.preprocessSlackText(a.pretext) : undefined,
+          author_name: a.author_name,
+          author_icon: a.author_icon,
+          title: a.title,
+          title_link: a.title_link,
+          text: a.text ? await this.preprocessSlackText(a.text) : undefined,
+          fields: await Promise.all(
+            ((a.fields as any[]) || []).map(async (f) => ({
+              title: f.title || '',
+              value: await this.preprocessSlackText(f.value || ''),
+              short: !!f.short,
+            }))
+          ),
+          footer: a.footer,
+          image_url: a.image_url,
+          thumb_url: a.thumb_url,
+          service_name: a.service_name,
+          service_icon: a.service_icon,
+          from_url: a.from_url,
+          original_url: a.original_url,
+          blocks: await this.extractBlocks(a.blocks),
+        })
+      )
+    );
+  }
+
+  private async extractFiles(raw: any[] | undefined): Promise<SlackFile[] | undefined> {
+    // Files hidden by the plan's storage limit come back without a name
+    const visible = (raw || []).filter((f) => f.id && f.name);
+    if (visible.length === 0) {
+      return undefined;
+    }
+    return Promise.all(
+      visible.map(async (f) => {
+        const isImage = typeof f.mimetype === 'string' && f.mimetype.startsWith('image/');
+        const previewUrl: string | undefined = f.thumb_480 || f.thumb_360 || f.url_private;
+        return {
+          id: f.id,
+          name: f.name,
+          title: f.title,
+          mimetype: f.mimetype,
+          size: f.size,
+          permalink: f.permalink,
+          previewDataUri:
+            isImage && previewUrl ? await this.getFilePreview(f.id, previewUrl) : undefined,
+        };
+      })
+    );
+  }
+
+  /**
+   * Download an image preview with the token and return it as a data URI.
+   * url_private needs an Authorization header, which a webview <img> cannot send.
+   */
+  private async getFilePreview(fileId: string, url: string): Promise<string | undefined> {
+    if (this.filePreviewCache.has(fileId)) {
+      return this.filePreviewCache.get(fileId) ?? undefined;
+    }
+    const service = await this.ensureInitialized();
+    let dataUri: string | null = null;
+    try {
+      const { body, contentType } = await downloadWithToken(url, service.token);
+      if (contentType.startsWith('image/')) {
+        dataUri = `data:${contentType};base64,${body.toString('base64')}`;
+      }
+    } catch (error) {
+      this.log(`[Slack] file preview failed for ${fileId}: ${error}`);
+    }
+    this.filePreviewCache.set(fileId, dataUri);
+    return dataUri ?? undefined;
+  }
+
   private extractReactions(raw: any[] | undefined): SlackReaction[] | undefined {
     if (!raw || !Array.isArray(raw) || raw.length === 0) {
       return undefined;
@@ -806,3 +1408,63 @@ export class SlackApiService {
     }
   }
 }
+
+/** Largest preview we inline into a webview */
+const MAX_PREVIEW_BYTES = 5 * 1024 * 1024;
+
+function downloadWithToken(
+  url: string,
+  token: string,
+  redirects = 3
+): Promise<{ body: Buffer; contentType: string }> {
+  // Never send the token to hosts outside Slack when following redirects
+  const host = new URL(url).hostname;
+  const headers: Record<string, string> =
+    host === 'slack.com' || host.endsWith('.slack.com') ? { Authorization: `Bearer ${token}` } : {};
+  return new Promise((resolve, reject) => {
+    const request = https.get(url, { headers }, (response) => {
+      const location = response.headers.location;
+      if (response.statusCode && response.statusCode >= 300 && response.statusCode < 400) {
+        response.resume();
+        if (!location || redirects === 0) {
+          reject(new Error(`Unexpected redirect (HTTP ${response.statusCode})`));
+          return;
+        }
+        downloadWithToken(new URL(location, url).toString(), token, redirects - 1).then(
+          resolve,
+          reject
+        );
+        return;
+      }
+      if (response.statusCode !== 200) {
+        reject(new Error(`HTTP ${response.statusCode}`));
+        response.resume();
+        return;
+      }
+
+      const chunks: Buffer[] = [];
+      let total = 0;
+      response.on('data', (chunk: Buffer) => {
+        total += chunk.length;
+        if (total > MAX_PREVIEW_BYTES) {
+          request.destroy(new Error('Preview too large'));
+          return;
+        }
+        chunks.push(chunk);
+      });
+      response.on('end', () =>
+        resolve({
+          body: Buffer.concat(chunks),
+          contentType: (response.headers['content-type'] || '').split(';')[0],
+        })
+      );
+      response.on('error', reject);
+    });
+
+    request.on('error', reject);
+    request.setTimeout(30000, () => {
+      request.destroy();
+      reject(new Error('Download timeout'));
+    });
+  });
+}
@@ -0,0 +1,209 @@
+import * as vscode from 'vscode';
+import WebSocket from 'ws';
+import { SlackConfig } from '../config/slackConfig';
+import { SlackMessageEvent, SlackSocketState } from '../types/workspace';
+
+export interface SlackSocketOptions {
+  /** 初回の再接続待ち時間 (ms) */
+  initialDelayMs?: number;
+  /** 再接続待ち時間の上限 (ms) */
+  maxDelayMs?: number;
+  /** WebSocket URL の取得方法を差し替える（既定は apps.connections.open） */
+  openConnectionUrl?: () => Promise<string>;
+}
+
+interface SocketEnvelope {
+  type: string;
+  envelope_id?: string;
+  reason?: string;
+  payload?: { event?: SlackMessageEvent };
+}
+
+/** 再試行しても回復しない認証エラー */
+const FATAL_ERRORS = ['invalid_auth', 'not_authed', 'not_allowed_token_type', 'account_inactive'];
+
+/**
+ * 再接続までの待ち時間（指数バックオフ）。attempt は 0 始まり。
+ */
+export function socketBackoffDelay(attempt: number, initialMs: number, maxMs: number): number {
+  return Math.min(maxMs, initialMs * 2 ** attempt);
+}
+
+/**
+ * Slack Socket Mode クライアント。
+ * App-Level Token で WebSocket を張り、受信した message イベントを通知する。
+ * 切断時は指数バックオフで再接続し、その間の取得は呼び出し側のポーリングに任せる。
+ */
+export class SlackSocketModeService implements vscode.Disposable {
+  private _onDidChangeState = new vscode.EventEmitter<SlackSocketState>();
+  readonly onDidChangeState = this._onDidChangeState.event;
+
+  private _onDidReceiveMessage = new vscode.EventEmitter<SlackMessageEvent>();
+  readonly onDidReceiveMessage = this._onDidReceiveMessage.event;
+
+  private socket: WebSocket | null = null;
+  private state: SlackSocketState = 'disconnected';
+  private stopped = true;
+  private attempt = 0;
+  private reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+  private readonly initialDelayMs: number;
+  private readonly maxDelayMs: number;
+
+  constructor(
+    private slackConfig: SlackConfig,
+    private log: (msg: string) => void = () => {},
+    private options: SlackSocketOptions = {}
+  ) {
+    this.initialDelayMs = options.initialDelayMs ?? 1000;
+    this.maxDelayMs = options.maxDelayMs ?? 60_000;
+  }
+
+  getState(): SlackSocketState {
+    return this.state;
+  }
+
+  isConnected(): boolean {
+    return this.state === 'connected';
+  }
+
+  async start(): Promise<void> {
+    if (!this.stopped) {
+      return;
+    }
+    this.stopped = false;
+    this.attempt = 0;
+    await this.connect();
+  }
+
+  stop(): void {
+    this.stopped = true;
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = undefined;
+    }
+    this.closeSocket();
+    this.setState('disconnected');
+  }
+
+  dispose(): void {
+    this.stop();
+    this._onDidChangeState.dispose();
+    this._onDidReceiveMessage.dispose();
+  }
+
+  private async connect(quiet = false): Promise<void> {
+    if (!quiet) {
+      this.setState(this.attempt === 0 ? 'connecting' : 'reconnecting');
+    }
+
+    let url: string;
+    try {
+      url = await (this.options.openConnectionUrl ?? (() => this.openConnectionUrl()))();
+    } catch (error) {
+      const code = (error as { data?: { error?: string } }).data?.error;
+      this.log(`[SlackSocket] apps.connections.open failed: ${code || error}`);
+      if (code && FATAL_ERRORS.includes(code)) {
+        this.stop();
+        return;
+      }
+      this.scheduleReconnect();
+      return;
+    }
+    if (this.stopped) {
+      return;
+    }
+
+    const socket = new WebSocket(url);
+    this.socket = socket;
+    socket.on('message', (data) => this.handleFrame(socket, data.toString()));
+    socket.on('error', (error) => this.log(`[SlackSocket] error: ${error.message}`));
+    socket.on('close', (code) => {
+      // 自分で閉じたソケット（stop / 張り替え）は無視する
+      if (this.socket !== socket) {
+        return;
+      }
+      this.socket = null;
+      this.log(`[SlackSocket] closed (${code})`);
+      this.scheduleReconnect();
+    });
+  }
+
+  private async openConnectionUrl(): Promise<string> {
+    const appToken = await this.slackConfig.getAppToken();
+    if (!appToken) {
+      throw new Error('Slack app-level token is not configured');
+    }
+    const { WebClient } = await import('@slack/web-api');
+    const resp = await new WebClient(appToken).apps.connections.open();
+    if (!resp.url) {
+      throw new Error('apps.connections.open returned no url');
+    }
+    return resp.url;
+  }
+
+  private handleFrame(socket: WebSocket, raw: string): void {
+    let envelope: SocketEnvelope;
+    try {
+      envelope = JSON.parse(raw);
+    } catch {
+      return;
+    }
+
+    // Slack は ack が無いと同じイベントを再送する
+    if (envelope.envelope_id) {
+      socket.send(JSON.stringify({ envelope_id: envelope.envelope_id }));
+    }
+
+    switch (envelope.type) {
+      case 'hello':
+        this.attempt = 0;
+        this.setState('connected');
+        break;
+      case 'disconnect':
+        this.log(`[SlackSocket] disconnect requested: ${envelope.reason}`);
+        if (envelope.reason === 'link_disabled') {
+          this.stop();
+          break;
+        }
+        // refresh_requested / warning: 接続状態を変えずに新しい URL で張り直す
+        this.closeSocket();
+        void this.connect(true);
+        break;
+      case 'events_api': {
+        const event = envelope.payload?.event;
+        if (event && (event.type === 'message' || event.type === 'app_mention')) {
+          this._onDidReceiveMessage.fire(event);
+        }
+        break;
+      }
+    }
+  }
+
+  private scheduleReconnect(): void {
+    if (this.stopped || this.reconnectTimer) {
+      return;
+    }
+    const delay = socketBackoffDelay(this.attempt, this.initialDelayMs, this.maxDelayMs);
+    this.attempt++;
+    this.setState('reconnecting');
+    this.log(`[SlackSocket] reconnecting in ${delay}ms (attempt ${this.attempt})`);
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = undefined;
+      void this.connect();
+    }, delay);
+  }
+
+  private closeSocket(): void {
+    const socket = this.socket;
+    this.socket = null;
+    socket?.close();
+  }
+
+  private setState(state: SlackSocketState): void {
+    if (this.state === state) {
+      return;
+    }
+    this.state = state;
+    this._onDidChangeState.fire(state);
+  }
+}
@@ -1,11 +1,30 @@
 import * as fs from 'fs';
 import * as path from 'path';
 import { createHash } from 'crypto';
-import { SyncManifest, SyncManifestEntry, SyncStatus, SyncStatusEntry } from '../types/backlog';
+import {
+  DocumentHistoryIndex,
+  DocumentSnapshot,
+  DocumentSnapshotAction,
+  PushPlanItem,
+  SyncManifest,
+  SyncManifestEntry,
+  SyncStateEntry,
+  SyncStatus,
+  SyncStatusEntry,
+} from '../types/backlog';
 
 export class SyncService {
   private static readonly MANIFEST_FILENAME = '.sync-manifest.json';
+  private static readonly BASE_DIRNAME = '.sync-base';
   private static readonly FRONTMATTER_REGEX = /^---\n([\s\S]*?)\n---\n?([\s\S]*)$/;
+  private static readonly HISTORY_DIRNAME = 'doc-history';
+  private static readonly HISTORY_INDEX_FILENAME = 'index.json';
+  private static readonly MAX_SNAPSHOTS_PER_DOCUMENT = 50;
+
+  /**
+   * @param nulabDir 履歴スナップショットの保存先 (.nulab/)。未指定なら履歴は記録しない。
+   */
+  constructor(private nulabDir?: string) {}
 
   // ---- Manifest I/O ----
 
@@ -23,6 +42,158 @@ export class SyncService {
     const manifestPath = path.join(localDir, SyncService.MANIFEST_FILENAME);
     fs.mkdirSync(localDir, { recursive: true });
     fs.writeFileSync(manifestPath, JSON.stringify(manifest, null, 2), 'utf-8');
+    this.pruneBaseContents(localDir, manifest);
+  }
+
+  // ---- Merge Base ----
+
+  /**
+   * 最後に同期した本文を content_hash をキーに保存する（3-way マージのベース）。
+   */
+  saveBaseContent(localDir: string, content: string): string {
+    const hash = this.computeHash(content);
+    const baseDir = path.join(localDir, SyncService.BASE_DIRNAME);
+    fs.mkdirSync(baseDir, { recursive: true });
+    fs.writeFileSync(path.join(baseDir, hash), content, 'utf-8');
+    return hash;
+  }
+
+  loadBaseContent(localDir: string, contentHash: string): string | undefined {
+    try {
+      return fs.readFileSync(path.join(localDir, SyncService.BASE_DIRNAME, contentHash), 'utf-8');
+    } catch {
+      return undefined;
+    }
+  }
+
+  pruneBaseContents(localDir: string, manifest: Record<string, SyncStateEntry>): void {
+    const baseDir = path.join(localDir, SyncService.BASE_DIRNAME);
+    if (!fs.existsSync(baseDir)) {
+      return;
+    }
+    const referenced = new Set(Object.values(manifest).map((e) => e.content_hash));
+    for (const name of fs.readdirSync(baseDir)) {
+      if (!referenced.has(name)) {
+        fs.unlinkSync(path.join(baseDir, name));
+      }
+    }
+  }
+
+  // ---- History Snapshots ----
+
+  /**
+   * 本文のスナップショットを .nulab/doc-history/ に記録する。
+   * 本文は content hash をキーに保存し、直前と同じ内容なら記録しない。
+   */
+  recordSnapshot(
+    documentId: string,
+    absolutePath: string,
+    content: string,
+    snapshot: { action: DocumentSnapshotAction; title: string }
+  ): void {
+    const historyDir = this.getHistoryDir();
+    if (!this.nulabDir || !historyDir) {
+      return;
+    }
+
+    const hash = this.computeHash(content);
+    const index = this.loadHistoryIndex();
+    const snapshots = index[documentId] || [];
+    if (snapshots.length > 0 && snapshots[snapshots.length - 1].hash === hash) {
+      return;
+    }
+
+    const objectsDir = path.join(historyDir, 'objects');
+    fs.mkdirSync(objectsDir, { recursive: true });
+    const objectPath = path.join(objectsDir, hash);
+    if (!fs.existsSync(objectPath)) {
+      fs.writeFileSync(objectPath, content, 'utf-8');
+    }
+
+    snapshots.push({
+      hash,
+      action: snapshot.action,
+      createdAt: new Date().toISOString(),
+      title: snapshot.title,
+      path: path.relative(path.dirname(this.nulabDir), absolutePath),
+    });
+    index[documentId] = snapshots.slice(-SyncService.MAX_SNAPSHOTS_PER_DOCUMENT);
+    this.saveHistoryIndex(index, snapshots.length > SyncService.MAX_SNAPSHOTS_PER_DOCUMENT);
+  }
+
+  /**
+   * 書き換え前のローカルファイル本文をスナップショットとして残す。
+   */
+  recordLocalSnapshot(documentId: string, absolutePath: string, title: string): void {
+    if (!this.nulabDir || !fs.existsSync(absolutePath)) {
+      return;
+    }
+    this.recordSnapshot(documentId, absolutePath, this.readLocalContent(absolutePath), {
+      action: 'local',
+      title,
+    });
+  }
+
+  /** ドキュメントのスナップショット一覧（新しい順） */
+  getSnapshots(documentId: string): DocumentSnapshot[] {
+    return [...(this.loadHistoryIndex()[documentId] || [])].reverse();
+  }
+
+  loadSnapshotContent(hash: string): string | undefined {
+    const historyDir = this.getHistoryDir();
+    if (!historyDir) {
+      return undefined;
+    }
+    try {
+      return fs.readFileSync(path.join(historyDir, 'objects', hash), 'utf-8');
+    } catch {
+      return undefined;
+    }
+  }
+
+  private getHistoryDir(): string | undefined {
+    return this.nulabDir ? path.join(this.nulabDir, SyncService.HISTORY_DIRNAME) : undefined;
+  }
+
+  private loadHistoryIndex(): DocumentHistoryIndex {
+    const historyDir = this.getHistoryDir();
+    if (!historyDir) {
+      return {};
+    }
+    try {
+      const content = fs.readFileSync(
+        path.join(historyDir, SyncService.HISTORY_INDEX_FILENAME),
+        'utf-8'
+      );
+      return JSON.parse(content) as DocumentHistoryIndex;
+    } catch {
+      return {};
+    }
+  }
+
+  private saveHistoryIndex(index: DocumentHistoryIndex, prune: boolean): void {
+    const historyDir = this.getHistoryDir();
+    if (!historyDir) {
+      return;
+    }
+    fs.mkdirSync(historyDir, { recursive: true });
+    fs.writeFileSync(
+      path.join(historyDir, SyncService.HISTORY_INDEX_FILENAME),
+      JSON.stringify(index, null, 2),
+      'utf-8'
+    );
+
+    if (!prune) {
+      return;
+    }
+    // 上限を超えて参照されなくなった本文を削除
+    const objectsDir = path.join(historyDir, 'objects');
+    const referenced = new Set(Object.values(index).flatMap((list) => list.map((s) => s.hash)));
+    for (const name of fs.readdirSync(objectsDir)) {
+      if (!referenced.has(name)) {
+        fs.unlinkSync(path.join(objectsDir, name));
+      }
+    }
   }
 
   // ---- Content Hashing ----
@@ -127,7 +298,7 @@ export class SyncService {
   getFileStatus(
     localDir: string,
     relativePath: string,
-    manifest: SyncManifest,
+    manifest: Record<string, SyncStateEntry>,
     remoteUpdatedAt?: string
   ): SyncStatus {
     const absolutePath = path.join(localDir, relativePath);
@@ -147,6 +318,11 @@ export class SyncService {
       return 'not_synced';
     }
 
+    // 自動マージに失敗したファイルのみ競合扱い
+    if (entry.conflict) {
+      return 'conflict';
+    }
+
     const localHash = this.computeLocalFileHash(absolutePath);
     const localChanged = localHash !== entry.content_hash;
     const remoteChanged = remoteUpdatedAt ? remoteUpdatedAt !== entry.remote_updated_at : false;
@@ -154,13 +330,11 @@ export class SyncService {
     if (!localChanged && !remoteChanged) {
       return 'unchanged';
     }
-    if (!localChanged && remoteChanged) {
-      return 'remote_modified';
-    }
     if (localChanged && !remoteChanged) {
       return 'local_modified';
     }
-    return 'conflict';
+    // 両側変更は Pull 時に 3-way マージされるため remote_modified とする
+    return 'remote_modified';
   }
 
   getAllStatuses(
@@ -195,6 +369,130 @@ export class SyncService {
     return entries;
   }
 
+  // ---- Push Plan ----
+
+  /**
+   * ローカルツリーと manifest を比較し、一括 Push の計画を作る。
+   * backlog_id を持つファイルは manifest 上のパスと比較して update / move を判定し、
+   * manifest にあるが対応するファイルが無いものは delete とする。
+   */
+  buildPushPlan(
+    localDir: string,
+    manifest: SyncManifest,
+    remoteUpdates?: Map<string, string>
+  ): PushPlanItem[] {
+    const pathById = new Map<string, string>();
+    for (const [relativePath, entry] of Object.entries(manifest)) {
+      pathById.set(String(entry.backlog_id), relativePath);
+    }
+
+    const creates: PushPlanItem[] = [];
+    const others: PushPlanItem[] = [];
+    const seenIds = new Set<string>();
+
+    for (const relativePath of this.findLocalMdFiles(localDir, localDir)) {
+      const text = fs.readFileSync(path.join(localDir, relativePath), 'utf-8');
+      const { meta, body } = this.parseFrontmatter(text);
+      const pathTitle = this.titleFromPath(relativePath);
+
+      if (!meta.backlog_id) {
+        // マッピングのルート自体は新規作成の対象外
+        if (relativePath !== 'index.bdoc') {
+          creates.push({
+            action: 'create',
+            relativePath,
+            title: meta.title || pathTitle,
+            parentPath: this.resolveParentPath(localDir, relativePath),
+          });
+        }
+        continue;
+      }
+
+      const backlogId = String(meta.backlog_id);
+      seenIds.add(backlogId);
+      const previousPath = pathById.get(backlogId);
+      const entry = previousPath ? manifest[previousPath] : undefined;
+      const contentChanged = !entry || this.computeHash(body) !== entry.content_hash;
+      const remoteUpdatedAt = remoteUpdates?.get(backlogId);
+      const remoteChanged =
+        !!entry && !!remoteUpdatedAt && remoteUpdatedAt !== entry.remote_updated_at;
+
+      if (previousPath && previousPath !== relativePath) {
+        // ファイル名が変わっていればそれを新しいタイトルとする
+        const renamed = meta.title && this.sanitizeFileName(meta.title) !== pathTitle;
+        others.push({
+          action: 'move',
+          relativePath,
+          previousPath,
+          backlogId,
+          title: renamed || !meta.title ? pathTitle : meta.title,
+          parentPath: this.resolveParentPath(localDir, relativePath),
+          contentChanged,
+          remoteChanged,
+        });
+      } else if (contentChanged) {
+        others.push({
+          action: 'update',
+          relativePath,
+          backlogId,
+          title: meta.title || pathTitle,
+          remoteChanged,
+        });
+      }
+    }
+
+    for (const [relativePath, entry] of Object.entries(manifest)) {
+      if (relativePath === 'index.bdoc' || seenIds.has(String(entry.backlog_id))) {
+        continue;
+      }
+      if (!fs.existsSync(path.join(localDir, relativePath))) {
+        others.push({
+          action: 'delete',
+          relativePath,
+          backlogId: entry.backlog_id,
+          title: entry.backlog_path,
+          remoteChanged: remoteUpdates?.has(entry.backlog_id)
+            ? remoteUpdates.get(entry.backlog_id) !== entry.remote_updated_at
+            : false,
+        });
+      }
+    }
+
+    // 親を先に作成できるよう浅い階層から並べる
+    const depth = (p: string) =>
+      p.split(path.sep).length - (path.basename(p) === 'index.bdoc' ? 1 : 0);
+    creates.sort((a, b) => depth(a.relativePath) - depth(b.relativePath));
+
+    return [...creates, ...others];
+  }
+
+  /**
+   * resolveLocalPath の逆変換。最も近い祖先フォルダの index.bdoc を親とする。
+   * 見つからない場合はマッピングのルート (index.bdoc) を返す。
+   */
+  resolveParentPath(localDir: string, relativePath: string): string | undefined {
+    if (relativePath === 'index.bdoc') {
+      return undefined;
+    }
+    const dir = path.dirname(relativePath);
+    let current = path.basename(relativePath) === 'index.bdoc' ? path.dirname(dir) : dir;
+    while (current !== '.') {
+      const candidate = path.join(current, 'index.bdoc');
+      if (fs.existsSync(path.join(localDir, candidate))) {
+        return candidate;
+      }
+      current = path.dirname(current);
+    }
+    return 'index.bdoc';
+  }
+
+  private titleFromPath(relativePath: string): string {
+    if (path.basename(relativePath) === 'index.bdoc') {
+      return path.basename(path.dirname(relativePath));
+    }
+    return path.basename(relativePath, '.bdoc');
+  }
+
   private findLocalMdFiles(baseDir: string, currentDir: string): string[] {
     const results: string[] = [];
     if (!fs.existsSync(currentDir)) {
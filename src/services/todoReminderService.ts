@@ -0,0 +1,107 @@
+import * as vscode from 'vscode';
+import { SlackApiService } from './slackApi';
+import { TodoTreeViewProvider } from '../providers/todoTreeViewProvider';
+import { WorkspaceTodoItem } from '../types/workspace';
+
+/**
+ * TODO のリマインダーを期限に処理する。PollingService から定期的に呼ぶ。
+ * - 「返信が無ければ通知」: スレッドに自分以外の返信があれば open に戻し、無ければ waiting のまま通知
+ * - Slack リマインダー: 通知は Slackbot が行うので、期限が来たら解除だけする
+ * - それ以外: VS Code の通知を出す
+ */
+export class TodoReminderService {
+  private running = false;
+
+  constructor(
+    private todoProvider: TodoTreeViewProvider,
+    private slackApi: SlackApiService,
+    private log: (msg: string) => void = () => {}
+  ) {}
+
+  async checkDue(now: Date = new Date()): Promise<void> {
+    if (this.running) {
+      return;
+    }
+    this.running = true;
+    try {
+      const due = this.todoProvider
+        .getTodos()
+        .filter((t) => t.reminder && new Date(t.reminder.remindAt).getTime() <= now.getTime());
+      for (const todo of due) {
+        await this.fire(todo);
+      }
+    } finally {
+      this.running = false;
+    }
+  }
+
+  private async fire(todo: WorkspaceTodoItem): Promise<void> {
+    const reminder = todo.reminder!;
+    if (todo.status === 'done') {
+      this.todoProvider.setReminder(todo.id, undefined);
+      return;
+    }
+
+    if (reminder.ifNoReply) {
+      let replied: boolean;
+      try {
+        replied = await this.hasReplySince(todo);
+      } catch (error) {
+        // 取得できない間は次の周期で再確認する
+        this.log(`todo reminder: thread check failed for ${todo.id}: ${error}`);
+        return;
+      }
+      this.todoProvider.setReminder(todo.id, undefined);
+      if (replied) {
+        this.todoProvider.setStatus(todo.id, 'open');
+        this.notify(todo, `返信がありました: ${todo.text}`, 'info');
+      } else {
+        this.todoProvider.setStatus(todo.id, 'waiting');
+        this.notify(todo, `まだ返信がありません: ${todo.text}`, 'warning');
+      }
+      return;
+    }
+
+    this.todoProvider.setReminder(todo.id, undefined);
+    if (!reminder.slackReminderId) {
+      this.notify(todo, `リマインダー: ${todo.text}`, 'info');
+    }
+  }
+
+  /** 設定時点より後に、自分以外がスレッドへ返信したか */
+  private async hasReplySince(todo: WorkspaceTodoItem): Promise<boolean> {
+    const ctx = todo.context;
+    const threadTs = ctx?.slackThreadTs || ctx?.slackMessageTs;
+    if (!ctx?.slackChannel || !threadTs) {
+      return false;
+    }
+    const since = parseFloat(todo.reminder?.sinceTs || threadTs);
+    const selfId = await this.slackApi.getCurrentUserId();
+    const messages = await this.slackApi.getThreadMessages(ctx.slackChannel, threadTs);
+    return messages.some((m) => parseFloat(m.ts) > since && m.user !== selfId);
+  }
+
+  private async notify(
+    todo: WorkspaceTodoItem,
+    message: string,
+    level: 'info' | 'warning'
+  ): Promise<void> {
+    const ctx = todo.context;
+    const hasThread = !!ctx?.slackChannel && !!(ctx.slackThreadTs || ctx.slackMessageTs);
+    const actions = hasThread ? ['スレッドを開く', 'TODO を開く'] : ['TODO を開く'];
+    const action =
+      level === 'warning'
+        ? await vscode.window.showWarningMessage(`[Nulab] ${message}`, ...actions)
+        : await vscode.window.showInformationMessage(`[Nulab] ${message}`, ...actions);
+    if (action === 'スレッドを開く') {
+      vscode.commands.executeCommand(
+        'workspace.openSlackThread',
+        ctx!.slackChannel,
+        ctx!.slackThreadTs || ctx!.slackMessageTs,
+        `Thread: ${ctx!.slackUserName || 'Thread'}`
+      );
+    } else if (action === 'TODO を開く') {
+      vscode.commands.executeCommand('workspace.openTodoDetail', todo.id);
+    }
+  }
+}
@@ -0,0 +1,135 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { SyncService } from './syncService';
+import { SyncStatus, SyncStatusEntry, WikiSyncManifest } from '../types/backlog';
+
+/**
+ * Wiki 同期。ドキュメント同期と同じモデル（frontmatter + manifest + マージベース）で、
+ * Wiki ページ名の階層 ("親/子") をフォルダ構成に対応させる。
+ */
+export class WikiSyncService {
+  private static readonly MANIFEST_FILENAME = '.wiki-sync-manifest.json';
+
+  constructor(private syncService: SyncService) {}
+
+  // ---- Manifest I/O ----
+
+  loadManifest(localDir: string): WikiSyncManifest {
+    const manifestPath = path.join(localDir, WikiSyncService.MANIFEST_FILENAME);
+    try {
+      const content = fs.readFileSync(manifestPath, 'utf-8');
+      return JSON.parse(content) as WikiSyncManifest;
+    } catch {
+      return {};
+    }
+  }
+
+  saveManifest(localDir: string, manifest: WikiSyncManifest): void {
+    const manifestPath = path.join(localDir, WikiSyncService.MANIFEST_FILENAME);
+    fs.mkdirSync(localDir, { recursive: true });
+    fs.writeFileSync(manifestPath, JSON.stringify(manifest, null, 2), 'utf-8');
+    this.syncService.pruneBaseContents(localDir, manifest);
+  }
+
+  // ---- Frontmatter ----
+
+  buildFrontmatter(params: {
+    title: string;
+    wiki_id: number;
+    project: string;
+    synced_at: string;
+    updated_at: string;
+  }): string {
+    return [
+      '---',
+      `title: "${params.title.replace(/"/g, '\\"')}"`,
+      `wiki_id: ${params.wiki_id}`,
+      `project: "${params.project}"`,
+      `synced_at: "${params.synced_at}"`,
+      `updated_at: "${params.updated_at}"`,
+      '---',
+      '',
+    ].join('\n');
+  }
+
+  // ---- File Naming ----
+
+  /**
+   * Wiki ページ名 "親/子" → {baseDir}/親/子.md
+   */
+  resolveLocalPath(baseDir: string, wikiName: string): string {
+    const segments = wikiName
+      .split('/')
+      .filter(Boolean)
+      .map((s) => this.syncService.sanitizeFileName(s));
+    if (segments.length === 0) {
+      segments.push('untitled');
+    }
+    segments[segments.length - 1] += '.md';
+    return path.join(baseDir, ...segments);
+  }
+
+  /**
+   * resolveLocalPath の逆変換（新規作成時のページ名）。
+   */
+  wikiNameFromPath(relativePath: string): string {
+    return relativePath.replace(/\.md$/, '').split(path.sep).join('/');
+  }
+
+  // ---- Status Comparison ----
+
+  getFileStatus(
+    localDir: string,
+    relativePath: string,
+    manifest: WikiSyncManifest,
+    remoteUpdatedAt?: string
+  ): SyncStatus {
+    return this.syncService.getFileStatus(localDir, relativePath, manifest, remoteUpdatedAt);
+  }
+
+  getAllStatuses(
+    localDir: string,
+    manifest: WikiSyncManifest,
+    remoteUpdates?: Map<number, string>
+  ): SyncStatusEntry[] {
+    const entries: SyncStatusEntry[] = [];
+
+    for (const [relativePath, entry] of Object.entries(manifest)) {
+      const remoteUpdatedAt = remoteUpdates?.get(entry.wiki_id);
+      entries.push({
+        relativePath,
+        status: this.getFileStatus(localDir, relativePath, manifest, remoteUpdatedAt),
+        remoteUpdatedAt,
+      });
+    }
+
+    for (const relativePath of this.findLocalMarkdownFiles(localDir, localDir)) {
+      if (!manifest[relativePath]) {
+        entries.push({ relativePath, status: 'new_local' });
+      }
+    }
+
+    return entries;
+  }
+
+  private findLocalMarkdownFiles(baseDir: string, currentDir: string): string[] {
+    const results: string[] = [];
+    if (!fs.existsSync(currentDir)) {
+      return results;
+    }
+
+    const items = fs.readdirSync(currentDir, { withFileTypes: true });
+    for (const item of items) {
+      if (item.name.startsWith('.')) {
+        continue;
+      }
+      const fullPath = path.join(currentDir, item.name);
+      if (item.isDirectory()) {
+        results.push(...this.findLocalMarkdownFiles(baseDir, fullPath));
+      } else if (item.name.endsWith('.md')) {
+        results.push(path.relative(baseDir, fullPath));
+      }
+    }
+    return results;
+  }
+}
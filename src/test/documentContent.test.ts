@@ -0,0 +1,40 @@
+import { strict as assert } from 'assert';
+import { describe, it } from 'node:test';
+import { BacklogApiService } from '../services/backlogApi';
+import { SessionFileService } from '../services/session/sessionFileService';
+import { SessionReplyService } from '../services/session/sessionReplyService';
+import { markdownToDocumentContent, markdownToProseMirror } from '../utils/markdownToProsemirror';
+
+describe('Backlog document content', () => {
+  it('is serialized ProseMirror JSON', () => {
+    const content = markdownToDocumentContent('# Title\n\n- **a**\n- b');
+    assert.deepEqual(JSON.parse(content), markdownToProseMirror('# Title\n\n- **a**\n- b'));
+    assert.equal(JSON.parse(content).type, 'doc');
+  });
+
+  it('is what action items post when creating a document', async () => {
+    const posted: { title: string; content: string }[] = [];
+    const backlogApi = {
+      postDocument: async (params: { title: string; content: string }) => {
+        posted.push(params);
+        return { id: 'doc-1' };
+      },
+    } as unknown as BacklogApiService;
+    const service = new SessionReplyService({} as SessionFileService, backlogApi, null);
+
+    const id = await service.createActionDocument(
+      {
+        id: 'a1',
+        type: 'create-document',
+        status: 'draft',
+        title: '議事録',
+        content: '## 決定事項\n\n1. *仕様* を確定',
+      },
+      1
+    );
+
+    assert.equal(id, 'doc-1');
+    assert.equal(posted[0].title, '議事録');
+    assert.equal(posted[0].content, markdownToDocumentContent('## 決定事項\n\n1. *仕様* を確定'));
+  });
+});
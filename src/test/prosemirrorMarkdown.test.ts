@@ -0,0 +1,347 @@
+import { strict as assert } from 'assert';
+import { describe, it } from 'node:test';
+import { markdownToProseMirror } from '../utils/markdownToProsemirror';
+import {
+  ProseMirrorMark,
+  ProseMirrorNode,
+  proseMirrorToMarkdown,
+} from '../utils/prosemirrorToMarkdown';
+
+const toMarkdown = (doc: ProseMirrorNode) => proseMirrorToMarkdown(doc).markdown;
+
+function paragraph(...content: ProseMirrorNode[]): ProseMirrorNode {
+  return { type: 'paragraph', content };
+}
+
+function text(value: string, ...marks: string[]): ProseMirrorNode {
+  const node: ProseMirrorNode = { type: 'text', text: value };
+  if (marks.length > 0) {
+    node.marks = marks.map((type) => ({ type }));
+  }
+  return node;
+}
+
+function table(header: boolean, ...rows: string[][]): ProseMirrorNode {
+  return {
+    type: 'table',
+    content: rows.map((cells, ri) => ({
+      type: 'tableRow',
+      content: cells.map((cell) => ({
+        type: header && ri === 0 ? 'tableHeader' : 'tableCell',
+        content: [paragraph(text(cell))],
+      })),
+    })),
+  };
+}
+
+function doc(...content: ProseMirrorNode[]): ProseMirrorNode {
+  return { type: 'doc', content };
+}
+
+/**
+ * Compare documents structurally: adjacent text nodes with the same marks are
+ * merged and empty attributes dropped, since both are equivalent in the editor.
+ */
+function normalize(node: ProseMirrorNode): ProseMirrorNode {
+  const out: ProseMirrorNode = {};
+  if (node.type) {
+    out.type = node.type;
+  }
+  if (typeof node.text === 'string') {
+    out.text = node.text;
+  }
+  if (node.marks && node.marks.length > 0) {
+    out.marks = node.marks;
+  }
+  const attrs = Object.entries(node.attrs || {}).filter(([, v]) => v !== null && v !== '');
+  if (attrs.length > 0) {
+    out.attrs = Object.fromEntries(attrs);
+  }
+  if (node.content && node.content.length > 0) {
+    const merged: ProseMirrorNode[] = [];
+    for (const child of node.content.map(normalize)) {
+      const last = merged[merged.length - 1];
+      if (
+        last &&
+        typeof last.text === 'string' &&
+        typeof child.text === 'string' &&
+        JSON.stringify(last.marks) === JSON.stringify(child.marks)
+      ) {
+        last.text += child.text;
+      } else {
+        merged.push(child);
+      }
+    }
+    out.content = merged;
+  }
+  return out;
+}
+
+function assertRoundTrip(input: ProseMirrorNode): void {
+  const markdown = toMarkdown(input);
+  const output = markdownToProseMirror(markdown);
+  assert.deepEqual(normalize(output), normalize(input), `Markdown was:\n${markdown}`);
+  assert.equal(toMarkdown(output), markdown);
+}
+
+describe('Markdown ↔ ProseMirror round trip', () => {
+  it('keeps literal emphasis characters as text', () => {
+    const input = doc(paragraph(text('a *literal* star and _under_ score')));
+    assert.equal(toMarkdown(input), 'a \\*literal\\* star and \\_under\\_ score');
+    assertRoundTrip(input);
+  });
+
+  it('keeps literal code, link and strike characters as text', () => {
+    assertRoundTrip(doc(paragraph(text('use `tick`, [label](url), ~~gone~~ and back\\slash'))));
+  });
+
+  it('does not turn literal block markers into blocks', () => {
+    for (const value of ['1. not a list', '2) nor this', '# not a heading', '> not a quote']) {
+      assertRoundTrip(doc(paragraph(text(value))));
+    }
+    assertRoundTrip(doc(paragraph(text('- not a bullet'))));
+    assertRoundTrip(doc(paragraph(text('+ nor this'))));
+    assertRoundTrip(doc(paragraph(text('---'))));
+  });
+
+  it('escapes block markers after a hard break', () => {
+    assertRoundTrip(
+      doc(paragraph(text('first line'), { type: 'hardBreak' }, text('1. second line')))
+    );
+  });
+
+  it('keeps a trailing hash in a heading', () => {
+    assertRoundTrip(doc({ type: 'heading', attrs: { level: 2 }, content: [text('C #')] }));
+  });
+
+  it('lengthens the code fence past backtick runs in the block', () => {
+    const input = doc({
+      type: 'codeBlock',
+      attrs: { language: 'md' },
+      content: [text('```ts\nconst a = 1;\n```\n````')],
+    });
+    assert.ok(toMarkdown(input).startsWith('`````md\n'));
+    assertRoundTrip(input);
+  });
+
+  it('fences inline code around backticks', () => {
+    const input = doc(paragraph(text('a`b', 'code'), text(' and '), text('`x``', 'code')));
+    assert.equal(toMarkdown(input), '``a`b`` and ``` `x`` ```');
+    assertRoundTrip(input);
+  });
+
+  it('writes each row of a headerless table once', () => {
+    const input = doc(table(false, ['a', 'b']));
+    assert.equal(toMarkdown(input), '|  |  |\n| --- | --- |\n| a | b |');
+    assertRoundTrip(input);
+    assertRoundTrip(doc(table(false, ['a', 'b'], ['c', 'd'])));
+    assertRoundTrip(doc(table(true, ['h1', 'h2'], ['c', 'd'])));
+  });
+
+  it('escapes pipes in table cells', () => {
+    assertRoundTrip(doc(table(true, ['a|b', 'c']), paragraph(text('after'))));
+    assertRoundTrip(
+      doc({
+        type: 'table',
+        content: [
+          {
+            type: 'tableRow',
+            content: [{ type: 'tableCell', content: [paragraph(text('x|y', 'code'))] }],
+          },
+        ],
+      })
+    );
+  });
+
+  it('keeps a block image', () => {
+    assertRoundTrip(
+      doc(
+        paragraph(text('before')),
+        { type: 'image', attrs: { src: 'https://example.com/file/12', alt: 'diagram' } },
+        paragraph(text('after'))
+      )
+    );
+  });
+
+  it('keeps a nested list', () => {
+    assertRoundTrip(
+      doc({
+        type: 'orderedList',
+        attrs: { start: 1 },
+        content: [
+          {
+            type: 'listItem',
+            content: [
+              paragraph(text('outer')),
+              {
+                type: 'bulletList',
+                content: [{ type: 'listItem', content: [paragraph(text('inner'))] }],
+              },
+            ],
+          },
+          { type: 'listItem', content: [paragraph(text('next'))] },
+        ],
+      })
+    );
+  });
+
+  it('survives random documents', () => {
+    const random = mulberry32(20241019);
+    for (let i = 0; i < 300; i++) {
+      assertRoundTrip(randomDoc(random));
+    }
+  });
+});
+
+// ---- Random document generator ----
+
+/** Words chosen to collide with Markdown syntax */
+const WORDS = [
+  'plain',
+  'text',
+  '*star*',
+  '_under_',
+  'a_b',
+  'foo*bar',
+  '`tick`',
+  '[x]',
+  ']',
+  'back\\slash',
+  '~~del~~',
+  '1.',
+  '3)',
+  '#',
+  '##',
+  '>',
+  '-',
+  '+',
+  '=',
+  '***',
+  '---',
+  'a|b',
+];
+const CODE_WORDS = ['x', 'a*b', '_c_', '[d]', '\\e', '# f', '1. g', '`', 'a`b', '``x', 'c|d'];
+const MARKS = ['strong', 'em', 'strike', 'link', 'code'];
+
+function mulberry32(seed: number): () => number {
+  return () => {
+    seed = (seed + 0x6d2b79f5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function randomDoc(random: () => number): ProseMirrorNode {
+  const pick = <T>(items: T[]): T => items[Math.floor(random() * items.length)];
+  const words = (pool: string[], max: number) =>
+    Array.from({ length: 1 + Math.floor(random() * max) }, () => pick(pool)).join(' ');
+
+  const inline = (): ProseMirrorNode[] => {
+    const nodes: ProseMirrorNode[] = [];
+    const segments = 1 + Math.floor(random() * 3);
+    let previous: string | undefined;
+    for (let i = 0; i < segments; i++) {
+      if (i > 0) {
+        nodes.push(text(' '));
+      }
+      // The converter keeps a mark open across the space between two runs that share it
+      const markType = random() < 0.5 ? undefined : pick(MARKS.filter((m) => m !== previous));
+      previous = markType;
+      if (!markType) {
+        nodes.push(text(words(WORDS, 4)));
+        continue;
+      }
+      const mark: ProseMirrorMark =
+        markType === 'link'
+          ? { type: 'link', attrs: { href: 'https://example.com/page' } }
+          : { type: markType };
+      nodes.push({
+        type: 'text',
+        text: markType === 'code' ? words(CODE_WORDS, 3) : words(WORDS, 3),
+        marks: [mark],
+      });
+    }
+    return nodes;
+  };
+
+  const listItem = (depth: number): ProseMirrorNode => {
+    const inner = paragraph(...inline());
+    if (random() < 0.3) {
+      inner.content!.push({ type: 'hardBreak' }, ...inline());
+    }
+    const content = [inner];
+    if (depth < 2 && random() < 0.3) {
+      content.push(list(depth + 1));
+    }
+    return { type: 'listItem', content };
+  };
+
+  const list = (depth: number): ProseMirrorNode => {
+    const items = Array.from({ length: 1 + Math.floor(random() * 3) }, () => listItem(depth));
+    return random() < 0.5
+      ? { type: 'bulletList', content: items }
+      : { type: 'orderedList', attrs: { start: 1 }, content: items };
+  };
+
+  let previousKind = '';
+  const block = (): ProseMirrorNode => {
+    let kind = pick([
+      'paragraph',
+      'paragraph',
+      'heading',
+      'list',
+      'quote',
+      'code',
+      'table',
+      'image',
+    ]);
+    // Two lists (or tables) in a row are one in Markdown
+    if ((kind === 'list' || kind === 'table') && previousKind === kind) {
+      kind = 'paragraph';
+    }
+    previousKind = kind;
+    switch (kind) {
+      case 'heading':
+        return {
+          type: 'heading',
+          attrs: { level: 1 + Math.floor(random() * 3) },
+          content: inline(),
+        };
+      case 'list':
+        return list(0);
+      case 'table': {
+        const header = random() < 0.5;
+        const columns = 1 + Math.floor(random() * 3);
+        const rows = Array.from({ length: 1 + Math.floor(random() * 3) }, (_, ri) => ({
+          type: 'tableRow',
+          content: Array.from({ length: columns }, () => ({
+            type: header && ri === 0 ? 'tableHeader' : 'tableCell',
+            content: [paragraph(...inline())],
+          })),
+        }));
+        return { type: 'table', content: rows };
+      }
+      case 'image':
+        return {
+          type: 'image',
+          attrs: {
+            src: `https://example.com/file/${pick([1, 22, 333])}`,
+            alt: pick(['', 'diagram']),
+          },
+        };
+      case 'quote':
+        return { type: 'blockquote', content: [paragraph(...inline())] };
+      case 'code':
+        return {
+          type: 'codeBlock',
+          attrs: { language: random() < 0.5 ? 'ts' : null },
+          content: [text(Array.from({ length: 3 }, () => pick([...WORDS, '```'])).join('\n'))],
+        };
+      default:
+        return paragraph(...inline());
+    }
+  };
+
+  return doc(...Array.from({ length: 1 + Math.floor(random() * 4) }, block));
+}
@@ -0,0 +1,108 @@
+import './vscodeStub';
+import { strict as assert } from 'assert';
+import { describe, it } from 'node:test';
+import { AddressInfo } from 'net';
+import { WebSocket, WebSocketServer } from 'ws';
+import { SlackConfig } from '../config/slackConfig';
+import { SlackSocketModeService } from '../services/slackSocketService';
+import { SlackSocketState } from '../types/workspace';
+
+async function waitFor(condition: () => boolean, timeoutMs = 5000): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (!condition()) {
+    if (Date.now() > deadline) {
+      throw new Error('timed out');
+    }
+    await new Promise((resolve) => setTimeout(resolve, 5));
+  }
+}
+
+/** Delays announced by the service, in order */
+function reconnectDelays(logs: string[]): number[] {
+  return logs
+    .map((line) => line.match(/reconnecting in (\d+)ms/))
+    .filter((m): m is RegExpMatchArray => !!m)
+    .map((m) => Number(m[1]));
+}
+
+/** Local stand-in for the Socket Mode endpoint */
+async function startServer(
+  onConnection: (socket: WebSocket) => void
+): Promise<{ url: string; close: () => Promise<void> }> {
+  const server = new WebSocketServer({ port: 0 });
+  server.on('connection', onConnection);
+  await new Promise((resolve) => server.once('listening', resolve));
+  return {
+    url: `ws://127.0.0.1:${(server.address() as AddressInfo).port}`,
+    close: () => new Promise((resolve) => server.close(() => resolve())),
+  };
+}
+
+function createService(url: string, logs: string[]): SlackSocketModeService {
+  return new SlackSocketModeService({} as SlackConfig, (msg) => logs.push(msg), {
+    initialDelayMs: 10,
+    maxDelayMs: 40,
+    openConnectionUrl: async () => url,
+  });
+}
+
+describe('SlackSocketModeService', () => {
+  it('backs off exponentially while the connection keeps dropping', async () => {
+    const server = await startServer((socket) => socket.close());
+    const logs: string[] = [];
+    const service = createService(server.url, logs);
+
+    await service.start();
+    await waitFor(() => reconnectDelays(logs).length >= 5);
+    service.dispose();
+    await server.close();
+
+    assert.deepEqual(reconnectDelays(logs).slice(0, 5), [10, 20, 40, 40, 40]);
+  });
+
+  it('reconnects and resets the backoff once hello is received', async () => {
+    let connections = 0;
+    const server = await startServer((socket) => {
+      connections++;
+      socket.send(JSON.stringify({ type: 'hello' }));
+      if (connections < 3) {
+        socket.close();
+      }
+    });
+    const logs: string[] = [];
+    const states: SlackSocketState[] = [];
+    const service = createService(server.url, logs);
+    service.onDidChangeState((state) => states.push(state));
+
+    await service.start();
+    await waitFor(() => connections === 3 && service.isConnected());
+    service.dispose();
+    await server.close();
+
+    assert.deepEqual(reconnectDelays(logs), [10, 10]);
+    assert.deepEqual(states.slice(0, 6), [
+      'connecting',
+      'connected',
+      'reconnecting',
+      'connected',
+      'reconnecting',
+      'connected',
+    ]);
+  });
+
+  it('does not reconnect after stop', async () => {
+    const server = await startServer((socket) => socket.send(JSON.stringify({ type: 'hello' })));
+    const logs: string[] = [];
+    const service = createService(server.url, logs);
+
+    await service.start();
+    await waitFor(() => service.isConnected());
+    service.stop();
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    await server.close();
+
+    assert.equal(service.getState(), 'disconnected');
+    assert.deepEqual(reconnectDelays(logs), []);
+    service.dispose();
+  });
+});
@@ -0,0 +1,71 @@
+import { strict as assert } from 'assert';
+import { describe, it } from 'node:test';
+import { mergeThreeWay } from '../utils/threeWayMerge';
+
+const lines = (...values: string[]) => values.join('\n');
+
+describe('mergeThreeWay', () => {
+  const base = lines('title', 'one', 'two', 'three', 'four', 'five');
+
+  it('merges non-overlapping edits from both sides', () => {
+    const local = lines('title', 'ONE', 'two', 'three', 'four', 'five');
+    const remote = lines('title', 'one', 'two', 'three', 'four', 'FIVE', 'six');
+
+    assert.deepEqual(mergeThreeWay(base, local, remote), {
+      merged: lines('title', 'ONE', 'two', 'three', 'four', 'FIVE', 'six'),
+      conflicts: 0,
+    });
+  });
+
+  it('marks overlapping edits as a conflict', () => {
+    const local = lines('title', 'one', 'local two', 'three', 'four', 'five');
+    const remote = lines('title', 'one', 'remote two', 'three', 'four', 'five');
+
+    assert.deepEqual(mergeThreeWay(base, local, remote), {
+      merged: lines(
+        'title',
+        'one',
+        '<<<<<<< Local',
+        'local two',
+        '=======',
+        'remote two',
+        '>>>>>>> Backlog',
+        'three',
+        'four',
+        'five'
+      ),
+      conflicts: 1,
+    });
+  });
+
+  it('accepts the same edit made on both sides', () => {
+    const local = lines('title', 'one', 'TWO', 'three', 'four', 'five', 'local six');
+    const remote = lines('title', 'one', 'TWO', 'three', 'four', 'five');
+
+    assert.deepEqual(mergeThreeWay(base, local, remote), {
+      merged: lines('title', 'one', 'TWO', 'three', 'four', 'five', 'local six'),
+      conflicts: 0,
+    });
+    assert.deepEqual(mergeThreeWay(base, remote, remote), { merged: remote, conflicts: 0 });
+  });
+
+  it('treats everything as conflicting when the base is missing', () => {
+    // Callers pass an empty base when the merge base was not saved
+    const local = lines('title', 'local');
+    const remote = lines('title', 'remote');
+
+    assert.deepEqual(mergeThreeWay('', local, remote), {
+      merged: lines(
+        '<<<<<<< Local',
+        'title',
+        'local',
+        '=======',
+        'title',
+        'remote',
+        '>>>>>>> Backlog'
+      ),
+      conflicts: 1,
+    });
+    assert.deepEqual(mergeThreeWay('', local, local), { merged: local, conflicts: 0 });
+  });
+});
@@ -0,0 +1,47 @@
+/**
+ * Minimal stand-in for the `vscode` module so services can be tested under plain Node.
+ * Import this before any module that imports `vscode`.
+ */
+import Module from 'module';
+
+type Listener<T> = (e: T) => unknown;
+
+class EventEmitter<T> {
+  private listeners: Listener<T>[] = [];
+
+  readonly event = (listener: Listener<T>) => {
+    this.listeners.push(listener);
+    return { dispose: () => (this.listeners = this.listeners.filter((l) => l !== listener)) };
+  };
+
+  fire(data: T): void {
+    for (const listener of [...this.listeners]) {
+      listener(data);
+    }
+  }
+
+  dispose(): void {
+    this.listeners = [];
+  }
+}
+
+class Disposable {
+  constructor(private callOnDispose: () => unknown) {}
+
+  dispose(): void {
+    this.callOnDispose();
+  }
+}
+
+const vscodeStub = { EventEmitter, Disposable };
+
+const loader = Module as unknown as {
+  _load: (request: string, parent: unknown, isMain: boolean) => unknown;
+};
+const originalLoad = loader._load;
+loader._load = function (request, parent, isMain) {
+  if (request === 'vscode') {
+    return vscodeStub;
+  }
+  return originalLoad.call(this, request, parent, isMain);
+};
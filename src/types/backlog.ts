@@ -1,7 +1,7 @@
 // Essential types for nulab-vscode extension
 // Entity types are directly imported from backlog-js where needed
 
-import { Backlog } from 'backlog-js';
+import { Backlog, Entity } from 'backlog-js';
 
 // Document sync mapping
 export interface DocumentSyncMapping {
@@ -23,10 +23,38 @@ export interface SyncManifestEntry {
   synced_at: string;
   remote_updated_at: string;
   content_hash: string;
+  /** 自動マージに失敗し、手動解決待ちの場合 true */
+  conflict?: boolean;
 }
 
 export type SyncManifest = Record<string, SyncManifestEntry>;
 
+/** manifest エントリのうち同期状態の判定に使う項目 */
+export type SyncStateEntry = Pick<
+  SyncManifestEntry,
+  'content_hash' | 'remote_updated_at' | 'conflict'
+>;
+
+// Wiki sync
+export interface WikiSyncMapping {
+  /** ワークスペースルートからの相対パス */
+  localPath: string;
+  /** Backlog プロジェクトキー */
+  projectKey: string;
+}
+
+export interface WikiSyncManifestEntry extends SyncStateEntry {
+  wiki_id: number;
+  /** Wiki ページ名（"親/子" 形式） */
+  name: string;
+  project: string;
+  synced_at: string;
+  /** Backlog 側で削除されたが、ローカルに未 Push の変更が残っている場合 true（conflict も立てる） */
+  remote_deleted?: boolean;
+}
+
+export type WikiSyncManifest = Record<string, WikiSyncManifestEntry>;
+
 export type SyncStatus =
   | 'unchanged'
   | 'local_modified'
@@ -43,6 +71,125 @@ export interface SyncStatusEntry {
   remoteUpdatedAt?: string;
 }
 
+// Document sync history
+export type DocumentSnapshotAction = 'pull' | 'push' | 'local';
+
+export interface DocumentSnapshot {
+  /** 本文の content hash（.nulab/doc-history/objects/ のファイル名） */
+  hash: string;
+  /** pull / push 時の本文、または書き換え前のローカル本文 (local) */
+  action: DocumentSnapshotAction;
+  createdAt: string;
+  title: string;
+  /** ワークスペースルートからの相対パス */
+  path: string;
+}
+
+/** backlog_id → スナップショット（古い順） */
+export type DocumentHistoryIndex = Record<string, DocumentSnapshot[]>;
+
+// Batch push plan
+export type PushPlanAction = 'create' | 'update' | 'move' | 'delete';
+
+export interface PushPlanItem {
+  action: PushPlanAction;
+  /** ローカルの相対パス（delete の場合は manifest 上のパス） */
+  relativePath: string;
+  /** move 前の manifest 上のパス */
+  previousPath?: string;
+  backlogId?: string;
+  title: string;
+  /** 親ドキュメントにあたる index.bdoc の相対パス */
+  parentPath?: string;
+  /** move と同時に本文も変更されている */
+  contentChanged?: boolean;
+  /** 前回の同期以降にリモートが更新されている */
+  remoteChanged?: boolean;
+}
+
+// Issue editing
+/** 課題編集フォームの選択肢（プロジェクトのメタデータ） */
+export interface IssueEditOptions {
+  statuses: Entity.Project.ProjectStatus[];
+  priorities: Entity.Issue.Priority[];
+  users: Entity.User.User[];
+  versions: Entity.Project.Version[];
+  categories: Entity.Project.Category[];
+}
+
+/** 課題の更新内容。null / 空配列は値のクリアを表す */
+export interface IssueUpdateParams {
+  statusId?: number;
+  priorityId?: number;
+  assigneeId?: number | null;
+  milestoneId?: number[];
+  categoryId?: number[];
+  dueDate?: string | null;
+  estimatedHours?: number | null;
+  actualHours?: number | null;
+  description?: string;
+}
+
+/** 課題作成フォームの初期値 */
+export interface IssueCreateDefaults {
+  projectId?: number;
+  projectKey?: string;
+  summary?: string;
+  description?: string;
+  issueTypeId?: number;
+  priorityId?: number;
+  assigneeId?: number;
+}
+
+/** コード選択範囲から作成した課題へのリンク（.nulab/code-issue-links.json） */
+export interface CodeIssueLink {
+  issueKey: string;
+  summary: string;
+  /** ワークスペースからの相対パス（"/" 区切り） */
+  path: string;
+  /** 0 始まりの行番号 */
+  startLine: number;
+  endLine: number;
+  /** 行がずれた場合に位置を探し直すための先頭行の内容 */
+  anchorText: string;
+  createdAt: string;
+}
+
+/** updated: false は他のユーザーが先に更新していたことを表す（current は最新の課題） */
+export type IssueUpdateResult =
+  | { updated: true; issue: Entity.Issue.Issue }
+  | { updated: false; current: Entity.Issue.Issue };
+
+// Pull requests
+/** プルリクエスト一覧の絞り込み */
+export type PullRequestFilter = 'all' | 'assigned' | 'created';
+
+/** プルリクエストに対応するローカルの clone */
+export interface LocalGitRepository {
+  /** ワークツリーのルート（絶対パス） */
+  root: string;
+  /** Backlog のリポジトリを指すリモート名 */
+  remote: string;
+}
+
+/** プルリクエストの差分範囲（どちらもコミットハッシュ） */
+export interface PullRequestRange {
+  /** ベースブランチとのマージベース */
+  base: string;
+  /** ブランチの先端 */
+  head: string;
+}
+
+/** マージベースとブランチ先端の間で変更されたファイル（git diff --name-status） */
+export interface PullRequestChangedFile {
+  /** A / M / D / R などの先頭 1 文字 */
+  status: string;
+  /** リポジトリルートからの相対パス（"/" 区切り） */
+  path: string;
+  /** リネーム前のパス */
+  oldPath?: string;
+}
+
 // Service state types for better type safety
 export interface UninitializedBacklogService {
   readonly state: 'uninitialized';
@@ -33,6 +33,8 @@ export interface CacooDiagram {
   security: string; // "private" | "url" | "public"
   type: string; // "normal" | "stencil" | "template"
   owner: CacooOwner;
+  /** 最後に編集したユーザー（API が返す場合のみ） */
+  lastEditor?: CacooOwner;
   editing: boolean;
   own: boolean;
   shared: boolean;
@@ -53,8 +55,18 @@ export interface CacooSheet {
   uid: string;
 }
 
+export interface CacooComment {
+  user: CacooOwner;
+  content: string;
+  created: string;
+  updated: string;
+  /** 返信（API が返す場合のみ） */
+  replies?: CacooComment[];
+}
+
 export interface CacooDiagramDetail extends CacooDiagram {
   sheets: CacooSheet[];
+  comments?: CacooComment[];
 }
 
 export interface CacooDiagramsResponse {
@@ -63,6 +75,9 @@ export interface CacooDiagramsResponse {
 }
 
 // Sync mapping
+/** 同期するシート画像の形式 */
+export type CacooExportFormat = 'png' | 'svg';
+
 export interface CacooSyncMapping {
   /** ワークスペースからの相対パス */
   localPath: string;
@@ -72,6 +87,10 @@ export interface CacooSyncMapping {
   folderId: number;
   /** フォルダ名 (表示用) */
   folderName: string;
+  /** 画像形式 (省略時は png) */
+  format?: CacooExportFormat;
+  /** PNG の倍率 (省略時は 1。SVG では使わない) */
+  scale?: number;
 }
 
 // Sync manifest
@@ -83,10 +102,33 @@ export interface CacooSyncManifestEntry {
   synced_at: string;
   remote_updated_at: string;
   content_hash: string;
+  /** 省略時は png */
+  format?: CacooExportFormat;
+  scale?: number;
+  /** 内容が変わる前の画像（localDir からの相対パス。履歴フォルダ内） */
+  previous_path?: string;
 }
 
 export type CacooSyncManifest = Record<string, CacooSyncManifestEntry>;
 
+// Markdown references: ![alt](cacoo:diagramId/sheetUid)
+export interface CacooSheetReference {
+  diagramId: string;
+  /** 省略時はダイアグラムの先頭シート */
+  sheetUid?: string;
+}
+
+// Sheet image cache for Markdown references (globalStorage/cacoo-sheets/index.json)
+export interface CacooSheetCacheEntry {
+  diagramTitle: string;
+  sheetName: string;
+  /** ダイアグラムの updated（変わっていれば取り直す） */
+  updated: string;
+  fetched_at: string;
+}
+
+export type CacooSheetCacheIndex = Record<string, CacooSheetCacheEntry>;
+
 // Pinned sheets (local favorites)
 export interface CacooPinnedSheet {
   diagramId: string;
@@ -21,6 +21,8 @@ export interface GoogleCalendarEvent {
   };
   attachments?: GoogleEventAttachment[];
   attendees?: GoogleEventAttendee[];
+  /** "transparent" の予定は空き時間として扱う */
+  transparency?: 'opaque' | 'transparent';
 }
 
 export interface GoogleEventAttachment {
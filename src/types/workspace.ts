@@ -47,10 +47,99 @@ export interface WorkspaceTodoItem {
   context?: TodoContext;
   replied?: boolean;
   repliedAt?: string;
+  /** この TODO から作成した課題のキー */
+  createdIssueKeys?: string[];
+  /** 自動 TODO ルールで付与したタグ */
+  tags?: string[];
+  reminder?: TodoReminder;
   // Legacy (migration: completed → status)
   completed?: boolean;
 }
 
+/** TODO に紐づくリマインダー */
+export interface TodoReminder {
+  /** 通知する日時 (ISO 8601) */
+  remindAt: string;
+  /** reminders.add で作成した Slack リマインダーの ID */
+  slackReminderId?: string;
+  /** スレッドに返信が無い場合だけ通知する */
+  ifNoReply?: boolean;
+  /** 返信の有無を判定する起点の ts（設定時点のスレッドの最新） */
+  sinceTs?: string;
+}
+
+// ---- Auto-TODO Rules ----
+
+export type AutoTodoSource = 'backlog' | 'slack';
+
+/** 条件はすべて AND。配列の値はいずれかに一致すればよい */
+export interface AutoTodoCondition {
+  source?: AutoTodoSource | AutoTodoSource[];
+  projectKey?: string | string[];
+  /** 課題の種別名 */
+  issueType?: string | string[];
+  /** 優先度名 */
+  priority?: string | string[];
+  /** Backlog 通知の reason (1=assigned, 2=commented, ...) */
+  reason?: number | number[];
+  /** 送信者の表示名またはユーザー ID */
+  sender?: string | string[];
+  /** Slack チャンネル名（# なし）またはチャンネル ID */
+  channel?: string | string[];
+  isDm?: boolean;
+  /** 件名・本文に対する正規表現（大文字小文字を区別しない） */
+  keyword?: string;
+  /** 受信時刻 "HH:MM"。from > to の場合は日付をまたぐ範囲 */
+  timeOfDay?: { from: string; to: string };
+}
+
+export type AutoTodoAction =
+  | { type: 'create-todo'; status?: TodoStatus }
+  | { type: 'skip' }
+  | { type: 'mark-read' }
+  | { type: 'tag'; tag: string };
+
+export interface AutoTodoRule {
+  name: string;
+  enabled?: boolean;
+  when: AutoTodoCondition;
+  actions: AutoTodoAction[];
+  /** 一致した後も後続のルールを評価する */
+  continue?: boolean;
+}
+
+export interface AutoTodoRulesFile {
+  rules: AutoTodoRule[];
+}
+
+/** ルール評価用に正規化した通知 */
+export interface AutoTodoEvent {
+  source: AutoTodoSource;
+  /** 表示用の一行説明 */
+  label: string;
+  projectKey?: string;
+  issueKey?: string;
+  issueType?: string;
+  priority?: string;
+  reason?: number;
+  sender?: string;
+  senderId?: string;
+  channel?: string;
+  channelId?: string;
+  isDm?: boolean;
+  text: string;
+  receivedAt: Date;
+}
+
+export interface AutoTodoDecision {
+  createTodo: boolean;
+  status?: TodoStatus;
+  tags: string[];
+  markRead: boolean;
+  /** 一致したルール名（ルールファイルが無い場合は空） */
+  matchedRules: string[];
+}
+
 // ---- Action Items ----
 
 export type ActionItemType = 'create-issue' | 'backlog-comment' | 'create-document' | 'todo';
@@ -66,10 +155,11 @@ export interface ActionItem {
   issueTypeId?: number;
   priorityId?: number;
   assigneeId?: number;
-  // backlog-comment
+  // backlog-comment（create-issue では作成した課題のキー）
   issueKey?: string;
   // create-document
   documentName?: string;
+  documentId?: string;
 }
 
 // ---- Slack ----
@@ -79,6 +169,9 @@ export interface SlackChannel {
   name: string;
   is_im: boolean;
   is_mpim: boolean;
+  is_private?: boolean;
+  /** DM の相手のユーザー ID */
+  user?: string;
   unread_count: number;
   latest?: SlackMessage;
 }
@@ -89,6 +182,67 @@ export interface SlackReaction {
   users: string[];
 }
 
+/** Block Kit のテキストオブジェクト */
+export interface SlackTextObject {
+  type: 'plain_text' | 'mrkdwn';
+  text: string;
+}
+
+/** Block Kit の要素（ボタン・画像・テキストなど）。表示に使う項目のみ */
+export interface SlackBlockElement {
+  type: string;
+  text?: SlackTextObject | string;
+  url?: string;
+  style?: 'primary' | 'danger';
+  image_url?: string;
+  alt_text?: string;
+  placeholder?: SlackTextObject;
+}
+
+/** Block Kit のブロック。表示に使う項目のみ */
+export interface SlackBlock {
+  type: string;
+  block_id?: string;
+  text?: SlackTextObject;
+  fields?: SlackTextObject[];
+  accessory?: SlackBlockElement;
+  elements?: SlackBlockElement[];
+  image_url?: string;
+  alt_text?: string;
+  title?: SlackTextObject;
+}
+
+/** 旧形式の attachment（リンクの展開もこの形で届く） */
+export interface SlackAttachment {
+  color?: string;
+  pretext?: string;
+  author_name?: string;
+  author_icon?: string;
+  title?: string;
+  title_link?: string;
+  text?: string;
+  fields?: { title: string; value: string; short?: boolean }[];
+  footer?: string;
+  image_url?: string;
+  thumb_url?: string;
+  service_name?: string;
+  service_icon?: string;
+  from_url?: string;
+  original_url?: string;
+  blocks?: SlackBlock[];
+}
+
+export interface SlackFile {
+  id: string;
+  name: string;
+  title?: string;
+  mimetype?: string;
+  size?: number;
+  permalink?: string;
+  /** 画像ファイルのプレビュー（トークン付きで取得した data: URI） */
+  previewDataUri?: string;
+}
+
 export interface SlackMessage {
   ts: string;
   user: string;
@@ -99,6 +253,31 @@ export interface SlackMessage {
   userName?: string;
   is_dm?: boolean;
   reactions?: SlackReaction[];
+  /** スレッドの親メッセージの場合の返信数 */
+  reply_count?: number;
+  /** Slack 記法のままの本文（編集時に使う） */
+  rawText?: string;
+  edited?: boolean;
+  blocks?: SlackBlock[];
+  attachments?: SlackAttachment[];
+  files?: SlackFile[];
+}
+
+/** 返信欄・投稿欄の補完候補 */
+export interface SlackComposerCompletions {
+  emoji: { name: string; char?: string; url?: string }[];
+  users: { id: string; name: string; realName?: string }[];
+  groups: { id: string; handle: string; name: string }[];
+}
+
+/** chat.scheduleMessage で予約したメッセージ */
+export interface SlackScheduledMessage {
+  id: string;
+  channel: string;
+  channelName?: string;
+  /** 送信予定日時 (Unix 秒) */
+  postAt: number;
+  text: string;
 }
 
 export interface SlackMention {
@@ -119,6 +298,33 @@ export const NOTIFICATION_REASONS: Record<number, string> = {
   11: 'PR updated',
 };
 
+/** Backlog 通知ビューのグループ化の単位 */
+export type NotificationGroupBy = 'none' | 'issue' | 'project' | 'reason';
+
+/** .nulab/notification-state.json */
+export interface NotificationStateFile {
+  groupBy?: NotificationGroupBy;
+  /** 通知 ID → この日時 (ISO 8601) まで非表示 */
+  snoozed?: Record<string, string>;
+  /** ミュート中の課題キー。新しい通知は自動で既読にし、自動 TODO も作らない */
+  mutedIssues?: string[];
+}
+
+// ---- Inbox ----
+
+export type InboxSource = 'backlog' | 'slack' | 'calendar';
+
+/**
+ * .nulab/inbox-state.json
+ * Backlog 通知のスヌーズは notification-state.json を使い、ここには Slack / カレンダーの分だけ持つ。
+ */
+export interface InboxStateFile {
+  /** Inbox の項目キー → この日時 (ISO 8601) まで非表示 */
+  snoozed?: Record<string, string>;
+  /** 確認済みにした予定の項目キー（予定には既読状態が無いため Inbox 側で持つ） */
+  dismissed?: string[];
+}
+
 // ---- Slack Service State ----
 
 export interface UninitializedSlackService {
@@ -140,3 +346,25 @@ export type SlackServiceState =
   | UninitializedSlackService
   | InitializingSlackService
   | InitializedSlackService;
+
+// ---- Slack Socket Mode ----
+
+export type SlackSocketState = 'disconnected' | 'connecting' | 'connected' | 'reconnecting';
+
+/** Socket Mode (Events API) で受信する message / app_mention イベント */
+export interface SlackMessageEvent {
+  type: string;
+  subtype?: string;
+  channel: string;
+  /** channel / group / im / mpim */
+  channel_type?: string;
+  user?: string;
+  text?: string;
+  ts: string;
+  thread_ts?: string;
+  /** スレッド返信の場合、親メッセージの投稿者 */
+  parent_user_id?: string;
+  /** message_changed / message_deleted の対象メッセージ */
+  message?: { ts: string; thread_ts?: string };
+  previous_message?: { ts: string; thread_ts?: string };
+}
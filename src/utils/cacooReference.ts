@@ -0,0 +1,86 @@
+import { CacooSheetReference } from '../types/cacoo';
+
+/** ![alt](cacoo:diagramId/sheetUid) — sheetUid は省略可 */
+const REFERENCE_PATTERN = /!\[([^\]]*)\]\((cacoo:[A-Za-z0-9_-]+(?:\/[A-Za-z0-9_-]+)?)\)/g;
+
+export interface CacooReferenceMatch extends CacooSheetReference {
+  alt: string;
+  /** 一致したテキスト全体の開始位置と長さ */
+  index: number;
+  length: number;
+}
+
+/**
+ * "cacoo:diagramId/sheetUid" 形式の URL を解釈する。それ以外は undefined。
+ */
+export function parseCacooReference(href: string): CacooSheetReference | undefined {
+  const match = /^cacoo:([A-Za-z0-9_-]+)(?:\/([A-Za-z0-9_-]+))?$/.exec(href.trim());
+  if (!match) {
+    return undefined;
+  }
+  return { diagramId: match[1], sheetUid: match[2] };
+}
+
+/** キャッシュ・重複排除用のキー */
+export function cacooReferenceKey(ref: CacooSheetReference): string {
+  return ref.sheetUid ? `${ref.diagramId}/${ref.sheetUid}` : ref.diagramId;
+}
+
+/**
+ * Markdown テキスト中の Cacoo 画像参照をすべて探す。
+ */
+export function findCacooReferences(text: string): CacooReferenceMatch[] {
+  const matches: CacooReferenceMatch[] = [];
+  for (const match of text.matchAll(REFERENCE_PATTERN)) {
+    const ref = parseCacooReference(match[2]);
+    if (ref) {
+      matches.push({ ...ref, alt: match[1], index: match.index ?? 0, length: match[0].length });
+    }
+  }
+  return matches;
+}
+
+// ---- markdown-it plugin (VS Code の Markdown プレビュー用) ----
+
+interface MarkdownItToken {
+  attrGet(name: string): string | null;
+  attrSet(name: string, value: string): void;
+}
+
+type MarkdownItRenderRule = (
+  tokens: MarkdownItToken[],
+  idx: number,
+  options: unknown,
+  env: unknown,
+  self: { renderToken(tokens: MarkdownItToken[], idx: number, options: unknown): string }
+) => string;
+
+/** 組み込みの Markdown プレビューから渡される markdown-it インスタンスのうち、使う部分だけ */
+export interface MarkdownItLike {
+  renderer: { rules: Record<string, MarkdownItRenderRule | undefined> };
+}
+
+/**
+ * cacoo: の画像の src を resolve の結果（data URL）に差し替える markdown-it プラグイン。
+ * 解決できない場合は元の src のまま描画する。
+ */
+export function cacooMarkdownItPlugin(
+  resolve: (href: string) => string | undefined
+): (md: MarkdownItLike) => MarkdownItLike {
+  return (md) => {
+    const fallback = md.renderer.rules.image;
+    md.renderer.rules.image = (tokens, idx, options, env, self) => {
+      const src = tokens[idx].attrGet('src');
+      if (src?.startsWith('cacoo:')) {
+        const dataUrl = resolve(src);
+        if (dataUrl) {
+          tokens[idx].attrSet('src', dataUrl);
+        }
+      }
+      return fallback
+        ? fallback(tokens, idx, options, env, self)
+        : self.renderToken(tokens, idx, options);
+    };
+    return md;
+  };
+}
@@ -0,0 +1,99 @@
+import * as path from 'path';
+import { execFile } from 'child_process';
+
+function git(cwd: string, args: string[]): Promise<string> {
+  return new Promise((resolve, reject) => {
+    execFile('git', args, { cwd, timeout: 5000 }, (error, stdout) => {
+      if (error) {
+        reject(error);
+      } else {
+        resolve(stdout.trim());
+      }
+    });
+  });
+}
+
+/**
+ * リモート URL (https / ssh) をブラウザで開けるリポジトリの URL に変換する。
+ */
+export function remoteToWebUrl(remoteUrl: string): string | undefined {
+  let url = remoteUrl.trim().replace(/\.git$/, '');
+
+  // Backlog Git (SSH): space@space.git.backlog.jp:/PROJ/repo
+  const backlogSsh = url.match(/^[^@]+@([^.]+)\.git\.(backlog\.(?:jp|com)):\/?([^/]+)\/(.+)$/);
+  if (backlogSsh) {
+    const [, space, domain, project, repo] = backlogSsh;
+    return `https://${space}.${domain}/git/${project}/${repo}`;
+  }
+
+  // scp 形式: git@github.com:owner/repo
+  const scpLike = url.match(/^[^@/]+@([^:/]+):(.+)$/);
+  if (scpLike) {
+    url = `https://${scpLike[1]}/${scpLike[2].replace(/^\//, '')}`;
+  }
+
+  // ssh://git@host(:port)/owner/repo
+  url = url.replace(/^ssh:\/\/(?:[^@]+@)?([^/:]+)(?::\d+)?\//, 'https://$1/');
+  // https://user@host/... の認証情報を除去
+  url = url.replace(/^(https?:\/\/)[^@/]+@/, '$1');
+
+  return /^https?:\/\//.test(url) ? url : undefined;
+}
+
+/**
+ * ホスティングサービスごとの行範囲付きファイル URL。
+ */
+function buildBlobUrl(
+  webUrl: string,
+  commit: string,
+  relativePath: string,
+  startLine: number,
+  endLine: number
+): string {
+  const filePath = relativePath.split('/').map(encodeURIComponent).join('/');
+  const single = startLine === endLine;
+
+  if (/backlog\.(jp|com)\/git\//.test(webUrl)) {
+    return `${webUrl}/blob/${commit}/${filePath}#${startLine}${single ? '' : `-${endLine}`}`;
+  }
+  if (webUrl.includes('bitbucket.org')) {
+    return `${webUrl}/src/${commit}/${filePath}#lines-${startLine}${single ? '' : `:${endLine}`}`;
+  }
+  if (webUrl.includes('gitlab')) {
+    return `${webUrl}/-/blob/${commit}/${filePath}#L${startLine}${single ? '' : `-${endLine}`}`;
+  }
+  // GitHub 形式（GitHub Enterprise / Gitea なども同じ）
+  return `${webUrl}/blob/${commit}/${filePath}#L${startLine}${single ? '' : `-L${endLine}`}`;
+}
+
+/**
+ * 現在のコミットを指すソースの permalink を返す。
+ * git リポジトリでない、リモートが未設定などの場合は undefined。
+ * startLine / endLine は 1 始まり。
+ */
+export async function getGitPermalink(
+  filePath: string,
+  startLine: number,
+  endLine: number
+): Promise<string | undefined> {
+  const cwd = path.dirname(filePath);
+  try {
+    const root = await git(cwd, ['rev-parse', '--show-toplevel']);
+    const commit = await git(cwd, ['rev-parse', 'HEAD']);
+
+    const remotes = (await git(cwd, ['remote'])).split('\n').filter(Boolean);
+    if (remotes.length === 0) {
+      return undefined;
+    }
+    const remote = remotes.includes('origin') ? 'origin' : remotes[0];
+    const webUrl = remoteToWebUrl(await git(cwd, ['remote', 'get-url', remote]));
+    if (!webUrl) {
+      return undefined;
+    }
+
+    const relativePath = path.relative(root, filePath).split(path.sep).join('/');
+    return buildBlobUrl(webUrl, commit, relativePath, startLine, endLine);
+  } catch {
+    return undefined;
+  }
+}
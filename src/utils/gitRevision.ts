@@ -0,0 +1,171 @@
+import { execFile } from 'child_process';
+import { Entity } from 'backlog-js';
+import { LocalGitRepository, PullRequestChangedFile, PullRequestRange } from '../types/backlog';
+
+function git(cwd: string, args: string[], timeout = 5000): Promise<string> {
+  return new Promise((resolve, reject) => {
+    execFile('git', args, { cwd, timeout, maxBuffer: 32 * 1024 * 1024 }, (error, stdout) => {
+      if (error) {
+        reject(error);
+      } else {
+        resolve(stdout);
+      }
+    });
+  });
+}
+
+/**
+ * リモート URL を比較用に正規化する（スキーム・認証情報・.git を除き、"host/path" の形にする）。
+ * Backlog の SSH URL (space@space.git.backlog.jp:/PROJ/repo.git) と HTTPS URL は別物として扱う。
+ */
+function normalizeRemoteUrl(url: string): string {
+  return url
+    .trim()
+    .toLowerCase()
+    .replace(/\.git$/, '')
+    .replace(/^[a-z+]+:\/\//, '')
+    .replace(/^[^@/]+@/, '')
+    .replace(/:\/?/, '/')
+    .replace(/\/+$/, '');
+}
+
+/**
+ * ワークスペースのフォルダから、Backlog のリポジトリを clone したものを探す。
+ * URL が一致しない場合（ミラー経由など）は、末尾が /PROJ/repo のリモートで代用する。
+ */
+export async function findLocalRepository(
+  folders: string[],
+  projectKey: string,
+  repository: Entity.Git.GitRepository
+): Promise<LocalGitRepository | undefined> {
+  const urls = [repository.httpUrl, repository.sshUrl].filter(Boolean).map(normalizeRemoteUrl);
+  const suffix = `/${projectKey}/${repository.name}`.toLowerCase();
+  let fallback: LocalGitRepository | undefined;
+
+  for (const folder of folders) {
+    let root: string;
+    let remotes: string;
+    try {
+      root = (await git(folder, ['rev-parse', '--show-toplevel'])).trim();
+      remotes = await git(root, ['remote', '-v']);
+    } catch {
+      continue;
+    }
+    for (const line of remotes.split('\n')) {
+      const [remote, url] = line.split(/\s+/);
+      if (!remote || !url) {
+        continue;
+      }
+      const normalized = normalizeRemoteUrl(url);
+      if (urls.includes(normalized)) {
+        return { root, remote };
+      }
+      if (!fallback && normalized.endsWith(suffix)) {
+        fallback = { root, remote };
+      }
+    }
+  }
+  return fallback;
+}
+
+async function resolveCommit(
+  root: string,
+  candidates: (string | undefined)[]
+): Promise<string | undefined> {
+  for (const ref of candidates) {
+    if (!ref) {
+      continue;
+    }
+    try {
+      return (await git(root, ['rev-parse', '--verify', '--quiet', `${ref}^{commit}`])).trim();
+    } catch {
+      // ローカルに無いコミット / ブランチ
+    }
+  }
+  return undefined;
+}
+
+/**
+ * プルリクエストの差分範囲（マージベースとブランチ先端）をローカルのコミットで解決する。
+ * オープン中はリモート追跡ブランチを優先し、クローズ・マージ済みは Backlog が記録したコミットを優先する。
+ * fetch: true の場合は先に base / branch を fetch する。ローカルに無ければ undefined。
+ */
+export async function resolvePullRequestRange(
+  repo: LocalGitRepository,
+  pr: Entity.PullRequest.PullRequest,
+  options: { fetch?: boolean } = {}
+): Promise<PullRequestRange | undefined> {
+  if (options.fetch) {
+    await git(repo.root, ['fetch', repo.remote, pr.base, pr.branch], 120_000);
+  }
+  const remoteBase = `${repo.remote}/${pr.base}`;
+  const remoteBranch = `${repo.remote}/${pr.branch}`;
+  const open = pr.status?.id === 1;
+
+  const head = await resolveCommit(
+    repo.root,
+    open ? [remoteBranch, pr.branchCommit] : [pr.branchCommit, remoteBranch]
+  );
+  const baseTip = await resolveCommit(
+    repo.root,
+    open ? [remoteBase, pr.baseCommit] : [pr.baseCommit, remoteBase]
+  );
+  if (!head || !baseTip) {
+    return undefined;
+  }
+
+  let base = baseTip;
+  try {
+    base = (await git(repo.root, ['merge-base', baseTip, head])).trim();
+  } catch {
+    // 共通の祖先が無い場合はベースの先端と比較する
+  }
+  return { base, head };
+}
+
+/**
+ * 差分範囲で変更されたファイルの一覧（リネームも検出する）。
+ */
+export async function listChangedFiles(
+  root: string,
+  range: PullRequestRange
+): Promise<PullRequestChangedFile[]> {
+  const output = await git(
+    root,
+    ['diff', '--name-status', '-M', '-z', range.base, range.head],
+    30_000
+  );
+  // -z: "M\0path\0" / "R100\0old\0new\0"
+  const fields = output.split('\0');
+  const files: PullRequestChangedFile[] = [];
+  for (let i = 0; i < fields.length && fields[i]; ) {
+    const status = fields[i].charAt(0);
+    if (status === 'R' || status === 'C') {
+      files.push({ status, oldPath: fields[i + 1], path: fields[i + 2] });
+      i += 3;
+    } else {
+      files.push({ status, path: fields[i + 1] });
+      i += 2;
+    }
+  }
+  return files;
+}
+
+/**
+ * 指定コミット時点のファイル内容。存在しない場合は例外。
+ */
+export function showFileAtRevision(root: string, ref: string, path: string): Promise<string> {
+  return git(root, ['show', `${ref}:${path}`], 30_000);
+}
+
+/**
+ * チェックアウト中のブランチ名（detached HEAD の場合は undefined）。
+ */
+export async function getCurrentBranch(root: string): Promise<string | undefined> {
+  try {
+    const branch = (await git(root, ['rev-parse', '--abbrev-ref', 'HEAD'])).trim();
+    return branch === 'HEAD' ? undefined : branch;
+  } catch {
+    return undefined;
+  }
+}
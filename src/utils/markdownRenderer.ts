@@ -5,6 +5,7 @@ import { marked } from 'marked';
  */
 export class MarkdownRenderer {
   private static instance: MarkdownRenderer | null = null;
+  private cacooImageResolver: ((href: string) => string | undefined) | null = null;
 
   private constructor() {
     this.configureMarked();
@@ -36,6 +37,9 @@ export class MarkdownRenderer {
 
     // Override image rendering for security
     renderer.image = ({ href, title, text }): string => {
+      if (href?.startsWith('cacoo:')) {
+        return this.renderCacooImage(href, title, text);
+      }
       const safeHref = this.sanitizeUrl(href);
       const titleAttr = title ? ` title="${this.escapeHtml(title)}"` : '';
       const altAttr = text ? ` alt="${this.escapeHtml(text)}"` : '';
@@ -65,6 +69,30 @@ export class MarkdownRenderer {
     marked.use({ renderer });
   }
 
+  /**
+   * Set the resolver for cacoo:diagramId/sheetUid images (returns a data URL when cached)
+   */
+  public setCacooImageResolver(resolver: (href: string) => string | undefined): void {
+    this.cacooImageResolver = resolver;
+  }
+
+  /**
+   * Render a Cacoo sheet reference; shows a placeholder until the image is cached
+   */
+  private renderCacooImage(href: string, title: string | null, text: string): string {
+    const dataUrl = this.cacooImageResolver?.(href);
+    const label = this.escapeHtml(text || href);
+    if (!dataUrl) {
+      return `<span class="cacoo-image-missing" title="${this.escapeHtml(
+        href
+      )}">${label}（Cacoo シート未取得）</span>`;
+    }
+    const titleAttr = title ? ` title="${this.escapeHtml(title)}"` : '';
+    return `<img src="${dataUrl}"${titleAttr} alt="${label}" class="markdown-image cacoo-image" data-cacoo="${this.escapeHtml(
+      href
+    )}">`;
+  }
+
   /**
    * Render markdown content to HTML
    */
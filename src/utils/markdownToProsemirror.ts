@@ -0,0 +1,255 @@
+/**
+ * Convert Markdown to ProseMirror JSON.
+ * Inverse of proseMirrorToMarkdown: produces the node and mark types that
+ * converter understands, so documents survive a pull → edit → push cycle.
+ */
+
+import { marked, Token, Tokens } from 'marked';
+import { MARK_ORDER, ProseMirrorMark, ProseMirrorNode } from './prosemirrorToMarkdown';
+
+/**
+ * Convert Markdown string to a ProseMirror `doc` node.
+ * `imageResolver` maps local image paths (e.g. `.images/123`) back to remote URLs.
+ */
+export function markdownToProseMirror(
+  markdown: string,
+  imageResolver?: (src: string) => string
+): ProseMirrorNode {
+  const tokens = marked.lexer(markdown, { gfm: true, breaks: false });
+  const content = convertBlocks(tokens, imageResolver);
+  return { type: 'doc', content: content.length > 0 ? content : [{ type: 'paragraph' }] };
+}
+
+/**
+ * Convert Markdown to the `content` string the Backlog document API expects
+ * (serialized ProseMirror JSON). Every document push goes through this.
+ */
+export function markdownToDocumentContent(
+  markdown: string,
+  imageResolver?: (src: string) => string
+): string {
+  return JSON.stringify(markdownToProseMirror(markdown, imageResolver));
+}
+
+function convertBlocks(
+  tokens: Token[],
+  imageResolver: ((src: string) => string) | undefined
+): ProseMirrorNode[] {
+  return tokens.flatMap((t) => convertBlock(t, imageResolver));
+}
+
+function convertBlock(
+  token: Token,
+  imageResolver: ((src: string) => string) | undefined
+): ProseMirrorNode[] {
+  switch (token.type) {
+    case 'space':
+    case 'checkbox':
+      return [];
+
+    case 'heading': {
+      const heading = token as Tokens.Heading;
+      return [
+        withContent(
+          { type: 'heading', attrs: { level: heading.depth } },
+          convertInline(heading.tokens, [], imageResolver)
+        ),
+      ];
+    }
+
+    // 'text' blocks appear as the content of tight list items
+    case 'paragraph':
+    case 'text': {
+      const inlineTokens = (token as Tokens.Paragraph).tokens || [
+        { type: 'text', raw: token.raw, text: (token as Tokens.Text).text },
+      ];
+      const inline = convertInline(inlineTokens, [], imageResolver);
+      // An image on its own line is a block-level image node
+      if (inline.length === 1 && inline[0].type === 'image') {
+        return inline;
+      }
+      return [withContent({ type: 'paragraph' }, inline)];
+    }
+
+    case 'blockquote':
+      return [
+        withContent(
+          { type: 'blockquote' },
+          convertBlocks((token as Tokens.Blockquote).tokens, imageResolver)
+        ),
+      ];
+
+    case 'code': {
+      const code = token as Tokens.Code;
+      return [
+        withContent(
+          { type: 'codeBlock', attrs: { language: code.lang || null } },
+          code.text ? [{ type: 'text', text: code.text }] : []
+        ),
+      ];
+    }
+
+    case 'hr':
+      return [{ type: 'horizontalRule' }];
+
+    case 'list':
+      return [convertList(token as Tokens.List, imageResolver)];
+
+    case 'table':
+      return [convertTable(token as Tokens.Table, imageResolver)];
+
+    case 'html': {
+      const text = (token as Tokens.HTML).text.trim();
+      return text ? [{ type: 'paragraph', content: [{ type: 'text', text }] }] : [];
+    }
+
+    default: {
+      const text = token.raw.trim();
+      return text ? [{ type: 'paragraph', content: [{ type: 'text', text }] }] : [];
+    }
+  }
+}
+
+function convertList(
+  list: Tokens.List,
+  imageResolver: ((src: string) => string) | undefined
+): ProseMirrorNode {
+  const items = list.items.map((item) => {
+    const content = convertBlocks(item.tokens, imageResolver);
+    if (content.length === 0 || content[0].type !== 'paragraph') {
+      content.unshift({ type: 'paragraph' });
+    }
+    // Task list checkboxes have no ProseMirror counterpart; keep them as text
+    if (item.task) {
+      const marker: ProseMirrorNode = { type: 'text', text: item.checked ? '[x] ' : '[ ] ' };
+      content[0] = { ...content[0], content: [marker, ...(content[0].content || [])] };
+    }
+    return { type: 'listItem', content };
+  });
+
+  if (list.ordered) {
+    const start = Number(list.start) || 1;
+    return { type: 'orderedList', attrs: { start }, content: items };
+  }
+  return { type: 'bulletList', content: items };
+}
+
+function convertTable(
+  table: Tokens.Table,
+  imageResolver: ((src: string) => string) | undefined
+): ProseMirrorNode {
+  const toRow = (cells: Tokens.TableCell[], cellType: string): ProseMirrorNode => ({
+    type: 'tableRow',
+    content: cells.map((cell) => ({
+      type: cellType,
+      content: [withContent({ type: 'paragraph' }, convertInline(cell.tokens, [], imageResolver))],
+    })),
+  });
+
+  const rows: ProseMirrorNode[] = [];
+  // proseMirrorToMarkdown emits an empty header row for tables without one
+  const headerIsEmpty = table.header.every((cell) => !cell.text.trim());
+  if (!headerIsEmpty || table.rows.length === 0) {
+    rows.push(toRow(table.header, 'tableHeader'));
+  }
+  for (const row of table.rows) {
+    rows.push(toRow(row, 'tableCell'));
+  }
+  return { type: 'table', content: rows };
+}
+
+function convertInline(
+  tokens: Token[],
+  marks: ProseMirrorMark[],
+  imageResolver: ((src: string) => string) | undefined
+): ProseMirrorNode[] {
+  const nodes: ProseMirrorNode[] = [];
+
+  const pushText = (text: string, textMarks: ProseMirrorMark[]) => {
+    // Line breaks inside a paragraph map to hardBreak nodes
+    text.split('\n').forEach((part, i) => {
+      if (i > 0) {
+        nodes.push({ type: 'hardBreak' });
+      }
+      if (part) {
+        const node: ProseMirrorNode = { type: 'text', text: part };
+        if (textMarks.length > 0) {
+          node.marks = sortMarks(textMarks);
+        }
+        nodes.push(node);
+      }
+    });
+  };
+
+  for (const token of tokens) {
+    switch (token.type) {
+      case 'text': {
+        const text = token as Tokens.Text;
+        if (text.tokens && text.tokens.length > 0) {
+          nodes.push(...convertInline(text.tokens, marks, imageResolver));
+        } else {
+          pushText(text.text, marks);
+        }
+        break;
+      }
+      case 'escape':
+        pushText((token as Tokens.Escape).text, marks);
+        break;
+      case 'strong':
+        nodes.push(
+          ...convertInline(
+            (token as Tokens.Strong).tokens,
+            [...marks, { type: 'strong' }],
+            imageResolver
+          )
+        );
+        break;
+      case 'em':
+        nodes.push(
+          ...convertInline((token as Tokens.Em).tokens, [...marks, { type: 'em' }], imageResolver)
+        );
+        break;
+      case 'del':
+        nodes.push(
+          ...convertInline(
+            (token as Tokens.Del).tokens,
+            [...marks, { type: 'strike' }],
+            imageResolver
+          )
+        );
+        break;
+      case 'codespan':
+        pushText((token as Tokens.Codespan).text, [...marks, { type: 'code' }]);
+        break;
+      case 'link': {
+        const link = token as Tokens.Link;
+        const mark: ProseMirrorMark = { type: 'link', attrs: { href: link.href } };
+        nodes.push(...convertInline(link.tokens, [...marks, mark], imageResolver));
+        break;
+      }
+      case 'image': {
+        const image = token as Tokens.Image;
+        const src = imageResolver ? imageResolver(image.href) : image.href;
+        nodes.push({ type: 'image', attrs: { src, alt: image.text || '' } });
+        break;
+      }
+      case 'br':
+        nodes.push({ type: 'hardBreak' });
+        break;
+      case 'checkbox':
+        break;
+      default:
+        pushText(token.raw, marks);
+    }
+  }
+
+  return nodes;
+}
+
+function sortMarks(marks: ProseMirrorMark[]): ProseMirrorMark[] {
+  return [...marks].sort((a, b) => MARK_ORDER.indexOf(a.type) - MARK_ORDER.indexOf(b.type));
+}
+
+function withContent(node: ProseMirrorNode, content: ProseMirrorNode[]): ProseMirrorNode {
+  return content.length > 0 ? { ...node, content } : node;
+}
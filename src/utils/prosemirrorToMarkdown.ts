@@ -3,14 +3,25 @@
  * Handles common node types used by Backlog Documents.
  */
 
-interface ProseMirrorNode {
+export interface ProseMirrorMark {
+  type: string;
+  attrs?: Record<string, unknown>;
+}
+
+export interface ProseMirrorNode {
   type?: string;
   text?: string;
   content?: ProseMirrorNode[];
   attrs?: Record<string, unknown>;
-  marks?: Array<{ type: string; attrs?: Record<string, unknown> }>;
+  marks?: ProseMirrorMark[];
 }
 
+/**
+ * Nesting order of marks, outermost first.
+ * Shared with the Markdown → ProseMirror converter so round trips are stable.
+ */
+export const MARK_ORDER = ['strong', 'em', 'strike', 'link', 'code'];
+
 export interface ImageReference {
   src: string;
   alt: string;
@@ -42,7 +53,7 @@ function convertNode(
 
   // Text node
   if (typeof node.text === 'string') {
-    return applyMarks(node.text, node.marks || []);
+    return convertInline([node], images, imageResolver);
   }
 
   const children = node.content || [];
@@ -52,14 +63,18 @@ function convertNode(
       return children.map((c) => convertNode(c, images, imageResolver, '')).join('');
 
     case 'paragraph': {
-      const text = children.map((c) => convertNode(c, images, imageResolver, '')).join('');
+      const text = escapeLineStarts(convertInline(children, images, imageResolver));
       return text + '\n\n';
     }
 
     case 'heading': {
       const level = (node.attrs?.level as number) || 1;
       const prefix = '#'.repeat(Math.min(Math.max(level, 1), 6));
-      const text = children.map((c) => convertNode(c, images, imageResolver, '')).join('');
+      // A trailing "#" run would be read back as the closing sequence
+      const text = escapeLineStarts(convertInline(children, images, imageResolver)).replace(
+        /(\s)(#+\s*)$/,
+        '$1\\$2'
+      );
       return `${prefix} ${text}\n\n`;
     }
 
@@ -75,15 +90,17 @@ function convertNode(
     }
 
     case 'listItem': {
-      const inner = children.map((c) => convertNode(c, images, imageResolver, '')).join('');
-      // Remove trailing double newline from paragraphs inside list items
-      const trimmed = inner.replace(/\n\n$/, '\n');
-      // Indent continuation lines
-      const lines = trimmed.split('\n');
+      // Keep list items tight: one line break between blocks inside an item
+      const inner = children
+        .map((c) => convertNode(c, images, imageResolver, '').replace(/\n+$/, ''))
+        .join('\n');
+      // Indent continuation lines to the width of the list marker
+      const indent = ' '.repeat(listPrefix.length);
+      const lines = inner.split('\n');
       const indented = lines
-        .map((line, i) => (i === 0 ? listPrefix + line : '  ' + line))
+        .map((line, i) => (i === 0 ? listPrefix + line : line ? indent + line : ''))
         .join('\n');
-      return indented;
+      return indented + '\n';
     }
 
     case 'blockquote': {
@@ -95,7 +112,10 @@ function convertNode(
     case 'codeBlock': {
       const language = (node.attrs?.language as string) || '';
       const code = children.map((c) => c.text || '').join('');
-      return `\`\`\`${language}\n${code}\n\`\`\`\n\n`;
+      // The fence must be longer than any backtick run inside the block
+      const longestRun = Math.max(0, ...(code.match(/`+/g) || []).map((run) => run.length));
+      const fence = '`'.repeat(Math.max(3, longestRun + 1));
+      return `${fence}${language}\n${code}\n${fence}\n\n`;
     }
 
     case 'image': {
@@ -155,7 +175,9 @@ function convertTable(
           .map((c) => convertNode(c, images, imageResolver, ''))
           .join('')
           .replace(/\n+/g, ' ')
-          .trim();
+          .trim()
+          // An unescaped pipe would split the cell
+          .replace(/\|/g, '\\|');
         cells.push(text);
       }
     }
@@ -167,56 +189,175 @@ function convertTable(
   }
 
   const maxCols = Math.max(...tableData.map((r) => r.length));
-  let md = '';
-
-  // Header row
-  const header = tableData[0] || [];
-  md += '| ' + Array.from({ length: maxCols }, (_, i) => header[i] || '').join(' | ') + ' |\n';
-  md += '| ' + Array.from({ length: maxCols }, () => '---').join(' | ') + ' |\n';
-
-  // Data rows
-  const startRow = isFirstRowHeader ? 1 : 0;
-  if (!isFirstRowHeader) {
-    // Re-output first row as data
-    md = '| ' + Array.from({ length: maxCols }, () => '').join(' | ') + ' |\n';
-    md += '| ' + Array.from({ length: maxCols }, () => '---').join(' | ') + ' |\n';
-    md += '| ' + Array.from({ length: maxCols }, (_, i) => header[i] || '').join(' | ') + ' |\n';
-  }
+  const line = (cells: string[]) =>
+    '| ' + Array.from({ length: maxCols }, (_, i) => cells[i] || '').join(' | ') + ' |\n';
 
-  for (let ri = startRow; ri < tableData.length; ri++) {
-    const row = tableData[ri];
-    md += '| ' + Array.from({ length: maxCols }, (_, i) => row[i] || '').join(' | ') + ' |\n';
+  // Markdown tables always start with a header row. Without one, write an empty
+  // header (dropped again when read back) followed by every row as data.
+  let md = line(isFirstRowHeader ? tableData[0] : []);
+  md += line(Array.from({ length: maxCols }, () => '---'));
+  for (const row of tableData.slice(isFirstRowHeader ? 1 : 0)) {
+    md += line(row);
   }
 
   return md + '\n';
 }
 
-function applyMarks(
-  text: string,
-  marks: Array<{ type: string; attrs?: Record<string, unknown> }>
+/**
+ * Convert a run of inline nodes, opening and closing marks only where they
+ * change so adjacent text nodes sharing a mark produce a single delimiter pair.
+ */
+function convertInline(
+  nodes: ProseMirrorNode[],
+  images: ImageReference[],
+  imageResolver: ((src: string) => string) | undefined
 ): string {
-  let result = text;
-  for (const mark of marks) {
-    switch (mark.type) {
-      case 'strong':
-        result = `**${result}**`;
-        break;
-      case 'em':
-        result = `*${result}*`;
-        break;
-      case 'code':
-        result = `\`${result}\``;
-        break;
-      case 'strike':
-        result = `~~${result}~~`;
-        break;
-      case 'link': {
-        const href = (mark.attrs?.href as string) || '';
-        result = `[${result}](${href})`;
-        break;
+  let out = '';
+  let pendingSpace = '';
+  const active: ProseMirrorMark[] = [];
+  // Closing fence of the open code span (its length depends on the text)
+  let codeClose = '';
+  // Fence length the next code span must avoid (see codeSpanDelimiters)
+  let avoidFence = 0;
+
+  const closeTo = (depth: number) => {
+    while (active.length > depth) {
+      const mark = active.pop()!;
+      out += mark.type === 'code' ? codeClose : closeMark(mark);
+    }
+  };
+
+  // Adjacent text nodes with the same marks form one run, so a code span is
+  // written in one piece with a fence that fits all of its text
+  const runs: ProseMirrorNode[] = [];
+  for (const node of nodes) {
+    const last = runs[runs.length - 1];
+    if (
+      last &&
+      typeof last.text === 'string' &&
+      typeof node.text === 'string' &&
+      JSON.stringify(last.marks || []) === JSON.stringify(node.marks || [])
+    ) {
+      runs[runs.length - 1] = { ...last, text: last.text + node.text };
+    } else {
+      runs.push(node);
+    }
+  }
+
+  for (const node of runs) {
+    if (typeof node.text !== 'string') {
+      closeTo(0);
+      out += pendingSpace;
+      pendingSpace = '';
+      if (node.type === 'image') {
+        out += convertNode(node, images, imageResolver, '').replace(/\n+$/, '');
+      } else {
+        out += convertNode(node, images, imageResolver, '');
+      }
+      continue;
+    }
+
+    // underline has no standard markdown, leave as is
+    const marks = (node.marks || [])
+      .filter((m) => MARK_ORDER.includes(m.type))
+      .sort((a, b) => MARK_ORDER.indexOf(a.type) - MARK_ORDER.indexOf(b.type));
+
+    const isCode = marks.some((m) => m.type === 'code');
+    const match = isCode ? null : node.text.match(/^(\s*)([\s\S]*?)(\s*)$/);
+    const [leading, core, trailing] = match ? [match[1], match[2], match[3]] : ['', node.text, ''];
+    if (!core) {
+      pendingSpace += node.text;
+      continue;
+    }
+
+    let common = 0;
+    while (
+      common < active.length &&
+      common < marks.length &&
+      marks[common].type !== 'code' &&
+      sameMark(active[common], marks[common])
+    ) {
+      common++;
+    }
+    closeTo(common);
+
+    // Whitespace must sit outside emphasis delimiters to stay valid Markdown
+    out += pendingSpace + leading;
+    for (const mark of marks.slice(common)) {
+      if (mark.type === 'code') {
+        const [open, close] = codeSpanDelimiters(core, avoidFence);
+        out += open;
+        codeClose = close;
+        avoidFence = core.includes('`') ? close.trim().length : 0;
+      } else {
+        out += openMark(mark);
       }
-      // underline has no standard markdown, leave as is
+      active.push(mark);
     }
+    out += isCode ? core : escapeInline(core);
+    pendingSpace = trailing;
+  }
+
+  closeTo(0);
+  return out + pendingSpace;
+}
+
+/**
+ * Backslash-escape characters that would otherwise be read back as inline
+ * Markdown (emphasis, code spans, links, strikethrough).
+ */
+function escapeInline(text: string): string {
+  return text.replace(/[\\`*_[\]~]/g, '\\$&');
+}
+
+/**
+ * Escape block markers at the start of each line of a paragraph or heading so
+ * literal text such as "# not a heading" or "1. not a list" stays a paragraph.
+ */
+function escapeLineStarts(text: string): string {
+  return text.replace(/^(\s*)([#>+=-])/gm, '$1\\$2').replace(/^(\s*\d+)([.)])/gm, '$1\\$2');
+}
+
+/**
+ * Backtick fence for an inline code span: longer than any backtick run in the
+ * text, padded with a space where the text would otherwise touch the fence.
+ *
+ * marked hides code spans from the emphasis scanner by pairing neighbouring
+ * backtick runs of equal length. After a span with backticks inside, its closing
+ * fence would pair with the next span's opening one and hide the text between,
+ * so the next fence must differ in length (`avoidLength`).
+ */
+function codeSpanDelimiters(text: string, avoidLength: number): [string, string] {
+  const longestRun = Math.max(0, ...(text.match(/`+/g) || []).map((run) => run.length));
+  const length = longestRun + 1 === avoidLength ? avoidLength + 1 : longestRun + 1;
+  const fence = '`'.repeat(length);
+  // One space on both ends is stripped when read back, so that case is padded too
+  const pad = /^`|`$/.test(text) || (/^ [\s\S]* $/.test(text) && text.trim() !== '') ? ' ' : '';
+  return [fence + pad, pad + fence];
+}
+
+function sameMark(a: ProseMirrorMark, b: ProseMirrorMark): boolean {
+  return a.type === b.type && (a.type !== 'link' || a.attrs?.href === b.attrs?.href);
+}
+
+function openMark(mark: ProseMirrorMark): string {
+  switch (mark.type) {
+    case 'strong':
+      return '**';
+    case 'em':
+      return '*';
+    case 'strike':
+      return '~~';
+    case 'link':
+      return '[';
+    default:
+      return '';
+  }
+}
+
+function closeMark(mark: ProseMirrorMark): string {
+  if (mark.type === 'link') {
+    return `](${(mark.attrs?.href as string) || ''})`;
   }
-  return result;
+  return openMark(mark);
 }
@@ -1,7 +1,8 @@
 /**
  * Slack emoji shortcode to Unicode conversion utility.
  * Converts :shortcode: patterns to Unicode emoji characters.
- * Unknown shortcodes (custom workspace emoji) are left as-is.
+ * Custom workspace emoji are left as-is (webviews render them as images via getCustomEmojiUrl),
+ * except aliases of standard emoji, which are converted like the original.
  */
 
 const SKIN_TONE_MODIFIERS: Record<string, string> = {
@@ -747,9 +748,45 @@ const SLACK_EMOJI_MAP: Record<string, string> = {
 
 const SLACK_EMOJI_REGEX = /(?<![a-zA-Z0-9:\/]):([\w+\-]+):(?::skin-tone-(\d):)?/g;
 
+/** Custom emoji of the current workspace: name → image URL, or "alias:name" */
+let customEmoji: Record<string, string> = {};
+
+/** Set the custom emoji fetched from emoji.list (called by SlackApiService) */
+export function registerCustomEmoji(emoji: Record<string, string>): void {
+  customEmoji = emoji;
+}
+
+/** Image URL of a custom emoji, following aliases. undefined for standard or unknown names. */
+export function getCustomEmojiUrl(name: string): string | undefined {
+  let value = customEmoji[name];
+  // Aliases may chain, but never deeper than a couple of levels in practice
+  for (let i = 0; i < 3 && value?.startsWith('alias:'); i++) {
+    value = customEmoji[value.slice('alias:'.length)];
+  }
+  return value && /^https:\/\//.test(value) ? value : undefined;
+}
+
+/** All shortcodes for completion: standard emoji with their character, custom emoji with their URL */
+export function listEmojiShortcodes(): { name: string; char?: string; url?: string }[] {
+  const standard = Object.entries(SLACK_EMOJI_MAP).map(([name, char]) => ({ name, char }));
+  const custom = Object.keys(customEmoji)
+    .map((name) => ({
+      name,
+      url: getCustomEmojiUrl(name),
+      char: resolveStandardAlias(name),
+    }))
+    .filter((e) => e.url || e.char);
+  return [...standard, ...custom];
+}
+
+function resolveStandardAlias(name: string): string | undefined {
+  const value = customEmoji[name];
+  return value?.startsWith('alias:') ? SLACK_EMOJI_MAP[value.slice('alias:'.length)] : undefined;
+}
+
 export function convertSlackEmoji(text: string): string {
   return text.replace(SLACK_EMOJI_REGEX, (match, shortcode: string, skinTone?: string) => {
-    const emoji = SLACK_EMOJI_MAP[shortcode];
+    const emoji = SLACK_EMOJI_MAP[shortcode] ?? resolveStandardAlias(shortcode);
     if (!emoji) {
       return match;
     }
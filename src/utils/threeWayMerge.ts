@@ -0,0 +1,182 @@
+/**
+ * Line-based three-way merge (diff3) for document sync.
+ * Non-overlapping changes from both sides are merged automatically;
+ * overlapping changes are emitted with git-style conflict markers.
+ */
+
+interface Hunk {
+  baseStart: number;
+  baseEnd: number;
+  sideStart: number;
+  sideEnd: number;
+}
+
+type Side = 'local' | 'remote';
+
+export interface MergeResult {
+  /** マージ結果。競合箇所は <<<<<<< / ======= / >>>>>>> で囲まれる */
+  merged: string;
+  /** 自動解決できなかった競合の数 */
+  conflicts: number;
+}
+
+// Upper bound for the LCS table; larger diffs fall back to a single hunk.
+const MAX_LCS_CELLS = 4_000_000;
+
+/**
+ * Merge `local` and `remote`, both derived from `base`.
+ */
+export function mergeThreeWay(
+  base: string,
+  local: string,
+  remote: string,
+  labels: { local: string; remote: string } = { local: 'Local', remote: 'Backlog' }
+): MergeResult {
+  if (local === remote) {
+    return { merged: local, conflicts: 0 };
+  }
+  if (local === base) {
+    return { merged: remote, conflicts: 0 };
+  }
+  if (remote === base) {
+    return { merged: local, conflicts: 0 };
+  }
+
+  const baseLines = base.split('\n');
+  const linesBySide: Record<Side, string[]> = {
+    local: local.split('\n'),
+    remote: remote.split('\n'),
+  };
+
+  const hunks = [
+    ...diffLines(baseLines, linesBySide.local).map((h) => ({ ...h, side: 'local' as Side })),
+    ...diffLines(baseLines, linesBySide.remote).map((h) => ({ ...h, side: 'remote' as Side })),
+  ].sort((a, b) => a.baseStart - b.baseStart || a.baseEnd - b.baseEnd);
+
+  const out: string[] = [];
+  let conflicts = 0;
+  let basePos = 0;
+  let i = 0;
+
+  while (i < hunks.length) {
+    // 重なる（または接する）ハンクを 1 グループにまとめる
+    const group = [hunks[i]];
+    const lo = hunks[i].baseStart;
+    let hi = hunks[i].baseEnd;
+    i++;
+    while (i < hunks.length && hunks[i].baseStart <= hi) {
+      group.push(hunks[i]);
+      hi = Math.max(hi, hunks[i].baseEnd);
+      i++;
+    }
+
+    out.push(...baseLines.slice(basePos, lo));
+
+    const region = (side: Side): string[] => {
+      const sideHunks = group.filter((h) => h.side === side);
+      if (sideHunks.length === 0) {
+        return baseLines.slice(lo, hi);
+      }
+      const first = sideHunks[0];
+      const last = sideHunks[sideHunks.length - 1];
+      return linesBySide[side].slice(
+        first.sideStart - (first.baseStart - lo),
+        last.sideEnd + (hi - last.baseEnd)
+      );
+    };
+
+    const sides = new Set(group.map((h) => h.side));
+    const localRegion = region('local');
+    const remoteRegion = region('remote');
+
+    if (sides.size === 1) {
+      out.push(...(sides.has('local') ? localRegion : remoteRegion));
+    } else if (localRegion.join('\n') === remoteRegion.join('\n')) {
+      // 両側で同じ変更 → 競合ではない
+      out.push(...localRegion);
+    } else {
+      conflicts++;
+      out.push(
+        `<<<<<<< ${labels.local}`,
+        ...localRegion,
+        '=======',
+        ...remoteRegion,
+        `>>>>>>> ${labels.remote}`
+      );
+    }
+
+    basePos = hi;
+  }
+
+  out.push(...baseLines.slice(basePos));
+  return { merged: out.join('\n'), conflicts };
+}
+
+/**
+ * Compute changed regions of `side` relative to `base` using an LCS table.
+ */
+function diffLines(base: string[], side: string[]): Hunk[] {
+  let start = 0;
+  while (start < base.length && start < side.length && base[start] === side[start]) {
+    start++;
+  }
+  let baseEnd = base.length;
+  let sideEnd = side.length;
+  while (baseEnd > start && sideEnd > start && base[baseEnd - 1] === side[sideEnd - 1]) {
+    baseEnd--;
+    sideEnd--;
+  }
+
+  const n = baseEnd - start;
+  const m = sideEnd - start;
+  if (n === 0 && m === 0) {
+    return [];
+  }
+  if (n === 0 || m === 0 || n * m > MAX_LCS_CELLS) {
+    return [{ baseStart: start, baseEnd, sideStart: start, sideEnd }];
+  }
+
+  // table[i][j] = LCS length of base[start+i..] and side[start+j..]
+  const width = m + 1;
+  const table = new Uint32Array((n + 1) * width);
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      table[i * width + j] =
+        base[start + i] === side[start + j]
+          ? table[(i + 1) * width + j + 1] + 1
+          : Math.max(table[(i + 1) * width + j], table[i * width + j + 1]);
+    }
+  }
+
+  const hunks: Hunk[] = [];
+  let open: Hunk | null = null;
+  let i = 0;
+  let j = 0;
+  while (i < n || j < m) {
+    if (i < n && j < m && base[start + i] === side[start + j]) {
+      if (open) {
+        open.baseEnd = start + i;
+        open.sideEnd = start + j;
+        hunks.push(open);
+        open = null;
+      }
+      i++;
+      j++;
+      continue;
+    }
+    if (!open) {
+      open = { baseStart: start + i, baseEnd: 0, sideStart: start + j, sideEnd: 0 };
+    }
+    if (j >= m || (i < n && table[(i + 1) * width + j] >= table[i * width + j + 1])) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+  if (open) {
+    open.baseEnd = start + n;
+    open.sideEnd = start + m;
+    hunks.push(open);
+  }
+  return hunks;
+}
@@ -1,17 +1,16 @@
 import * as vscode from 'vscode';
 import { WebviewHelper } from './common';
+import { CacooComment, CacooDiagramDetail, CacooOwner } from '../types/cacoo';
 
-export class CacooSheetWebview {
-  static getWebviewContent(
-    webview: vscode.Webview,
-    extensionUri: vscode.Uri,
-    title: string,
-    imageBase64: string,
-    diagramUrl?: string
-  ): string {
-    const nonce = WebviewHelper.getNonce();
+export interface CacooCompareImage {
+  /** data URL */
+  src: string;
+  label: string;
+}
 
-    const additionalStyles = `
+export class CacooSheetWebview {
+  private static getBaseStyles(): string {
+    return `
       .sheet-wrapper {
         display: flex;
         flex-direction: column;
@@ -107,8 +106,161 @@ export class CacooSheetWebview {
         height: auto;
       }
     `;
+  }
 
-    const escapedTitle = WebviewHelper.escapeHtml(title);
+  /**
+   * シートのプレビュー。右側にダイアグラムの情報・シート一覧・コメントを並べる。
+   * シートの切り替えとコメントの投稿・検索はここから行う。
+   */
+  static getWebviewContent(
+    webview: vscode.Webview,
+    extensionUri: vscode.Uri,
+    diagram: CacooDiagramDetail,
+    sheetUid: string,
+    imageBase64: string
+  ): string {
+    const nonce = WebviewHelper.getNonce();
+    const esc = WebviewHelper.escapeHtml;
+
+    const additionalStyles = `${CacooSheetWebview.getBaseStyles()}
+      .sheet-body {
+        flex: 1;
+        display: flex;
+        min-height: 0;
+      }
+      .sheet-sidebar {
+        width: 320px;
+        flex-shrink: 0;
+        overflow: auto;
+        border-left: 1px solid var(--vscode-panel-border);
+        padding: var(--webview-space-md);
+        display: flex;
+        flex-direction: column;
+        gap: var(--webview-space-md);
+      }
+      body.sidebar-hidden .sheet-sidebar { display: none; }
+      .sidebar-section h3 {
+        font-size: var(--webview-font-size-sm);
+        text-transform: uppercase;
+        color: var(--vscode-descriptionForeground);
+        margin: 0 0 var(--webview-space-xs);
+      }
+      .meta-grid {
+        display: grid;
+        grid-template-columns: auto 1fr;
+        gap: 2px var(--webview-space-sm);
+        font-size: var(--webview-font-size-sm);
+      }
+      .meta-grid .label { color: var(--vscode-descriptionForeground); }
+      .user {
+        display: inline-flex;
+        align-items: center;
+        gap: 4px;
+        min-width: 0;
+      }
+      .user img {
+        width: 16px;
+        height: 16px;
+        border-radius: 50%;
+      }
+      .security-badge {
+        display: inline-block;
+        padding: 0 6px;
+        border-radius: var(--webview-radius-sm);
+        background: var(--vscode-badge-background);
+        color: var(--vscode-badge-foreground);
+      }
+      .security-badge.public { background: var(--vscode-inputValidation-warningBackground); }
+      .sheet-list { list-style: none; margin: 0; padding: 0; }
+      .sheet-item {
+        padding: 3px var(--webview-space-sm);
+        border-radius: var(--webview-radius-sm);
+        cursor: pointer;
+        font-size: var(--webview-font-size-sm);
+        overflow: hidden;
+        text-overflow: ellipsis;
+        white-space: nowrap;
+      }
+      .sheet-item:hover { background: var(--vscode-list-hoverBackground); }
+      .sheet-item.active {
+        background: var(--vscode-list-activeSelectionBackground);
+        color: var(--vscode-list-activeSelectionForeground);
+      }
+      .comment-search, .comment-input {
+        width: 100%;
+        box-sizing: border-box;
+        background: var(--vscode-input-background);
+        color: var(--vscode-input-foreground);
+        border: 1px solid var(--vscode-input-border, var(--vscode-panel-border));
+        padding: 4px 6px;
+        font-size: var(--webview-font-size-sm);
+      }
+      .comment-search { margin-bottom: var(--webview-space-sm); }
+      .comment-input { min-height: 60px; font-family: inherit; }
+      .comment-thread {
+        border-bottom: 1px solid var(--vscode-panel-border);
+        padding: var(--webview-space-xs) 0;
+      }
+      .comment-thread[hidden] { display: none; }
+      .comment { font-size: var(--webview-font-size-sm); }
+      .comment-replies {
+        margin-left: var(--webview-space-md);
+        padding-left: var(--webview-space-sm);
+        border-left: 2px solid var(--vscode-panel-border);
+      }
+      .comment-header {
+        display: flex;
+        justify-content: space-between;
+        gap: var(--webview-space-sm);
+        color: var(--vscode-descriptionForeground);
+      }
+      .comment-content {
+        white-space: pre-wrap;
+        word-break: break-word;
+        margin: 2px 0 var(--webview-space-xs);
+      }
+      .comment-empty {
+        font-size: var(--webview-font-size-sm);
+        color: var(--vscode-descriptionForeground);
+      }
+      .comment-form {
+        display: flex;
+        flex-direction: column;
+        gap: var(--webview-space-xs);
+        margin-top: var(--webview-space-sm);
+        align-items: flex-end;
+      }
+      .comment-form.sending { opacity: 0.6; pointer-events: none; }
+    `;
+
+    const sheet = diagram.sheets.find((s) => s.uid === sheetUid);
+    const title = `${diagram.title} / ${sheet?.name || ''}`;
+    const escapedTitle = esc(title);
+    const diagramUrl = `https://cacoo.com/diagrams/${diagram.diagramId}`;
+    const comments = [...(diagram.comments || [])].sort((a, b) =>
+      a.created.localeCompare(b.created)
+    );
+
+    const formatDate = (value?: string) => (value ? new Date(value).toLocaleString('ja-JP') : '-');
+    const renderUser = (user?: CacooOwner) =>
+      user
+        ? `<span class="user">${
+            user.imageUrl ? `<img src="${esc(user.imageUrl)}" alt="" />` : ''
+          }<span>${esc(user.nickname || user.name)}</span></span>`
+        : '-';
+    const renderComment = (comment: CacooComment): string => `
+        <div class="comment">
+          <div class="comment-header">
+            ${renderUser(comment.user)}
+            <span>${esc(formatDate(comment.created))}</span>
+          </div>
+          <div class="comment-content">${esc(comment.content)}</div>
+          ${
+            comment.replies?.length
+              ? `<div class="comment-replies">${comment.replies.map(renderComment).join('')}</div>`
+              : ''
+          }
+        </div>`;
 
     return `<!DOCTYPE html>
 <html lang="ja">
@@ -125,14 +277,67 @@ ${WebviewHelper.getHtmlHead(webview, extensionUri, `Cacoo: ${title}`, additional
           <button class="zoom-btn" id="btn100">100%</button>
           <button class="zoom-btn" id="btn150">150%</button>
         </div>
-        ${
-          diagramUrl ? `<button class="action-btn primary" id="btnOpen">Open in Cacoo</button>` : ''
-        }
+        <button class="action-btn" id="btnSidebar">Details</button>
+        <button class="action-btn primary" id="btnOpen">Open in Cacoo</button>
       </div>
     </div>
 
-    <div class="image-area fit" id="imageArea">
-      <img src="data:image/png;base64,${imageBase64}" alt="${escapedTitle}" />
+    <div class="sheet-body">
+      <div class="image-area fit" id="imageArea">
+        <img src="data:image/png;base64,${imageBase64}" alt="${escapedTitle}" />
+      </div>
+
+      <div class="sheet-sidebar">
+        <div class="sidebar-section">
+          <h3>情報</h3>
+          <div class="meta-grid">
+            <span class="label">オーナー</span>${renderUser(diagram.owner)}
+            <span class="label">最終更新者</span>${renderUser(diagram.lastEditor)}
+            <span class="label">更新日時</span><span>${esc(formatDate(diagram.updated))}</span>
+            <span class="label">公開範囲</span><span><span class="security-badge ${esc(
+              diagram.security
+            )}">${esc(CacooSheetWebview.getSecurityLabel(diagram.security))}</span></span>
+            <span class="label">フォルダ</span><span>${esc(diagram.folderName || '-')}</span>
+          </div>
+        </div>
+
+        <div class="sidebar-section">
+          <h3>シート (${diagram.sheets.length})</h3>
+          <ul class="sheet-list">
+            ${diagram.sheets
+              .map(
+                (s) =>
+                  `<li class="sheet-item${s.uid === sheetUid ? ' active' : ''}" data-uid="${esc(
+                    s.uid
+                  )}" title="${esc(s.name)}">${esc(s.name)}</li>`
+              )
+              .join('')}
+          </ul>
+        </div>
+
+        <div class="sidebar-section">
+          <h3>コメント (${comments.length})</h3>
+          ${
+            comments.length > 0
+              ? `<input class="comment-search" id="commentSearch" type="search" placeholder="コメントを検索" />`
+              : ''
+          }
+          <div id="commentList">
+            ${
+              comments.length > 0
+                ? comments
+                    .map((c) => `<div class="comment-thread">${renderComment(c)}</div>`)
+                    .join('')
+                : '<div class="comment-empty">コメントはありません</div>'
+            }
+          </div>
+          <div class="comment-empty" id="commentNoMatch" hidden>一致するコメントはありません</div>
+          <div class="comment-form" id="commentForm">
+            <textarea class="comment-input" id="commentInput" placeholder="コメントを入力 (Ctrl+Enter で送信)"></textarea>
+            <button class="action-btn primary" id="btnComment">コメントする</button>
+          </div>
+        </div>
+      </div>
     </div>
   </div>
 
@@ -143,7 +348,11 @@ ${WebviewHelper.getHtmlHead(webview, extensionUri, `Cacoo: ${title}`, additional
     const btnFit = document.getElementById('btnFit');
     const btn100 = document.getElementById('btn100');
     const btn150 = document.getElementById('btn150');
-    const btnOpen = document.getElementById('btnOpen');
+    const commentSearch = document.getElementById('commentSearch');
+    const commentNoMatch = document.getElementById('commentNoMatch');
+    const commentForm = document.getElementById('commentForm');
+    const commentInput = document.getElementById('commentInput');
+    const state = vscode.getState() || {};
 
     function setZoom(mode) {
       [btnFit, btn100, btn150].forEach(b => b.classList.remove('active'));
@@ -160,9 +369,230 @@ ${WebviewHelper.getHtmlHead(webview, extensionUri, `Cacoo: ${title}`, additional
       }
     }
 
+    function setSidebar(hidden) {
+      document.body.classList.toggle('sidebar-hidden', hidden);
+      state.sidebarHidden = hidden;
+      vscode.setState(state);
+    }
+
+    function filterComments() {
+      const query = commentSearch.value.trim().toLowerCase();
+      let visible = 0;
+      document.querySelectorAll('.comment-thread').forEach((thread) => {
+        const match = !query || thread.textContent.toLowerCase().includes(query);
+        thread.hidden = !match;
+        if (match) {
+          visible++;
+        }
+      });
+      commentNoMatch.hidden = visible > 0;
+    }
+
+    function postComment() {
+      const content = commentInput.value.trim();
+      if (!content) {
+        return;
+      }
+      commentForm.classList.add('sending');
+      vscode.postMessage({ command: 'postComment', content: content });
+    }
+
     btnFit.addEventListener('click', () => setZoom('fit'));
     btn100.addEventListener('click', () => setZoom('100'));
     btn150.addEventListener('click', () => setZoom('150'));
+    document.getElementById('btnSidebar').addEventListener('click', () =>
+      setSidebar(!document.body.classList.contains('sidebar-hidden'))
+    );
+    document.getElementById('btnOpen').addEventListener('click', () => {
+      vscode.postMessage({ command: 'openExternal', url: '${diagramUrl}' });
+    });
+    document.getElementById('btnComment').addEventListener('click', postComment);
+    document.querySelectorAll('.sheet-item').forEach((item) => {
+      item.addEventListener('click', () => {
+        if (!item.classList.contains('active')) {
+          vscode.postMessage({ command: 'switchSheet', sheetUid: item.getAttribute('data-uid') });
+        }
+      });
+    });
+    commentInput.addEventListener('keydown', (event) => {
+      if (event.key === 'Enter' && (event.ctrlKey || event.metaKey)) {
+        event.preventDefault();
+        postComment();
+      }
+    });
+    if (commentSearch) {
+      commentSearch.addEventListener('input', filterComments);
+    }
+
+    window.addEventListener('message', (event) => {
+      if (event.data.type === 'commentFailed') {
+        commentForm.classList.remove('sending');
+      }
+    });
+
+    setSidebar(!!state.sidebarHidden);
+  </script>
+</body>
+</html>`;
+  }
+
+  private static getSecurityLabel(security: string): string {
+    switch (security) {
+      case 'private':
+        return '非公開';
+      case 'url':
+        return 'URL を知っている人';
+      case 'public':
+        return '公開';
+      default:
+        return security || '-';
+    }
+  }
+
+  /**
+   * 前回の画像と最新の画像を並べて / 重ねて比較する。
+   * 重ね合わせでは最新の画像の不透明度をスライダーで変えられる。
+   */
+  static getCompareWebviewContent(
+    webview: vscode.Webview,
+    extensionUri: vscode.Uri,
+    title: string,
+    before: CacooCompareImage,
+    after: CacooCompareImage,
+    diagramUrl?: string
+  ): string {
+    const nonce = WebviewHelper.getNonce();
+    const escapedTitle = WebviewHelper.escapeHtml(title);
+
+    const additionalStyles = `${CacooSheetWebview.getBaseStyles()}
+      .compare-area {
+        flex: 1;
+        overflow: auto;
+        display: grid;
+        grid-template-columns: 1fr 1fr;
+        gap: var(--webview-space-md);
+        padding: var(--webview-space-md);
+      }
+      .compare-pane {
+        display: flex;
+        flex-direction: column;
+        gap: var(--webview-space-xs);
+        min-width: 0;
+      }
+      .compare-label {
+        font-size: var(--webview-font-size-sm);
+        color: var(--vscode-descriptionForeground);
+      }
+      .compare-pane .image-area { padding: var(--webview-space-sm); }
+      .compare-area.fit img { max-width: 100%; height: auto; }
+      .overlay-area {
+        flex: 1;
+        overflow: auto;
+        padding: var(--webview-space-md);
+        display: none;
+      }
+      .overlay-stack { position: relative; display: inline-block; }
+      .overlay-stack img:last-child { position: absolute; top: 0; left: 0; }
+      .overlay-area.fit .overlay-stack,
+      .overlay-area.fit .overlay-stack img { max-width: 100%; height: auto; }
+      .overlay-area.fit .overlay-stack img:last-child { width: 100%; }
+      .opacity-control {
+        display: none;
+        align-items: center;
+        gap: var(--webview-space-xs);
+        font-size: var(--webview-font-size-sm);
+        color: var(--vscode-descriptionForeground);
+      }
+      body.overlay .compare-area { display: none; }
+      body.overlay .overlay-area { display: block; }
+      body.overlay .opacity-control { display: inline-flex; }
+    `;
+
+    const beforeLabel = WebviewHelper.escapeHtml(before.label);
+    const afterLabel = WebviewHelper.escapeHtml(after.label);
+
+    return `<!DOCTYPE html>
+<html lang="ja">
+${WebviewHelper.getHtmlHead(webview, extensionUri, `Cacoo: ${title}`, additionalStyles, nonce)}
+<body>
+  <div class="sheet-wrapper">
+    <div class="toolbar">
+      <div class="toolbar-left">
+        <span class="sheet-title">${escapedTitle}</span>
+      </div>
+      <div class="toolbar-right">
+        <div class="zoom-group">
+          <button class="zoom-btn active" id="btnSide">Side by side</button>
+          <button class="zoom-btn" id="btnOverlay">Overlay</button>
+        </div>
+        <label class="opacity-control">
+          ${afterLabel}
+          <input type="range" id="opacity" min="0" max="100" value="50" />
+        </label>
+        <div class="zoom-group">
+          <button class="zoom-btn active" id="btnFit">Fit</button>
+          <button class="zoom-btn" id="btn100">100%</button>
+        </div>
+        ${
+          diagramUrl ? `<button class="action-btn primary" id="btnOpen">Open in Cacoo</button>` : ''
+        }
+      </div>
+    </div>
+
+    <div class="compare-area fit" id="compareArea">
+      <div class="compare-pane">
+        <span class="compare-label">${beforeLabel}</span>
+        <div class="image-area fit"><img src="${before.src}" alt="${beforeLabel}" /></div>
+      </div>
+      <div class="compare-pane">
+        <span class="compare-label">${afterLabel}</span>
+        <div class="image-area fit"><img src="${after.src}" alt="${afterLabel}" /></div>
+      </div>
+    </div>
+
+    <div class="overlay-area image-area fit" id="overlayArea">
+      <div class="overlay-stack">
+        <img src="${before.src}" alt="${beforeLabel}" />
+        <img src="${after.src}" alt="${afterLabel}" id="overlayAfter" />
+      </div>
+    </div>
+  </div>
+
+  <script nonce="${nonce}">
+    const vscode = acquireVsCodeApi();
+    const compareArea = document.getElementById('compareArea');
+    const overlayArea = document.getElementById('overlayArea');
+    const btnSide = document.getElementById('btnSide');
+    const btnOverlay = document.getElementById('btnOverlay');
+    const btnFit = document.getElementById('btnFit');
+    const btn100 = document.getElementById('btn100');
+    const opacity = document.getElementById('opacity');
+    const overlayAfter = document.getElementById('overlayAfter');
+    const btnOpen = document.getElementById('btnOpen');
+
+    function setMode(mode) {
+      document.body.classList.toggle('overlay', mode === 'overlay');
+      btnSide.classList.toggle('active', mode !== 'overlay');
+      btnOverlay.classList.toggle('active', mode === 'overlay');
+    }
+
+    function setFit(fit) {
+      [compareArea, overlayArea, ...compareArea.querySelectorAll('.image-area')].forEach((el) =>
+        el.classList.toggle('fit', fit)
+      );
+      btnFit.classList.toggle('active', fit);
+      btn100.classList.toggle('active', !fit);
+    }
+
+    btnSide.addEventListener('click', () => setMode('side'));
+    btnOverlay.addEventListener('click', () => setMode('overlay'));
+    btnFit.addEventListener('click', () => setFit(true));
+    btn100.addEventListener('click', () => setFit(false));
+    function setOpacity() {
+      overlayAfter.style.opacity = String(opacity.value / 100);
+    }
+    opacity.addEventListener('input', setOpacity);
+    setOpacity();
 
     if (btnOpen) {
       btnOpen.addEventListener('click', () => {
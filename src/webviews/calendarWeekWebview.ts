@@ -0,0 +1,515 @@
+import * as vscode from 'vscode';
+import { WebviewHelper } from './common';
+import { GoogleCalendarEvent } from '../types/google';
+
+const HOUR_HEIGHT = 48;
+/** 空き時間を数える勤務時間帯 */
+const WORK_START_HOUR = 9;
+const WORK_END_HOUR = 18;
+
+const DAY_NAMES = ['月', '火', '水', '木', '金', '土', '日'];
+
+const STATUS_ICONS: Record<string, string> = {
+  accepted: '✓',
+  declined: '✗',
+  tentative: '?',
+  needsAction: '–',
+};
+
+/** 1 日の列に置く予定の断片（日をまたぐ予定は日ごとに分ける） */
+interface WeekBlock {
+  event: GoogleCalendarEvent;
+  /** 0:00 からの分 */
+  start: number;
+  end: number;
+  column: number;
+  columns: number;
+}
+
+export class CalendarWeekWebview {
+  /** date を含む週（月曜始まり）の初日 0:00 */
+  static getWeekStart(date: Date): Date {
+    const start = new Date(date);
+    start.setHours(0, 0, 0, 0);
+    start.setDate(start.getDate() - ((start.getDay() + 6) % 7));
+    return start;
+  }
+
+  /**
+   * 週のグリッド。時間帯の予定は重なりに応じて横に並べ、終日の予定は上の段に置く。
+   * 予定の枠の色は自分の出欠（GoogleEventAttendee.responseStatus）で変える。
+   */
+  static getWebviewContent(
+    webview: vscode.Webview,
+    extensionUri: vscode.Uri,
+    weekStart: Date,
+    events: GoogleCalendarEvent[]
+  ): string {
+    const nonce = WebviewHelper.getNonce();
+    const esc = WebviewHelper.escapeHtml;
+
+    const days = Array.from({ length: 7 }, (_, i) => {
+      const day = new Date(weekStart);
+      day.setDate(day.getDate() + i);
+      return day;
+    });
+    const todayKey = toDateKey(new Date());
+    const lastDay = days[6];
+    const rangeLabel = `${weekStart.getFullYear()}/${
+      weekStart.getMonth() + 1
+    }/${weekStart.getDate()} – ${lastDay.getMonth() + 1}/${lastDay.getDate()}`;
+
+    const allDay = events.filter((e) => !e.start.dateTime && e.start.date);
+    const timed = events.filter((e) => e.start.dateTime && e.end.dateTime);
+    const layouts = days.map((day) => CalendarWeekWebview.layoutDay(day, timed));
+
+    const headerCells = days
+      .map((day, i) => {
+        const free = CalendarWeekWebview.getFreeMinutes(layouts[i]);
+        const key = toDateKey(day);
+        return `<div class="day-header${key === todayKey ? ' today' : ''}">
+          <span class="day-name">${DAY_NAMES[i]} ${day.getMonth() + 1}/${day.getDate()}</span>
+          <span class="day-free" title="${WORK_START_HOUR}:00–${WORK_END_HOUR}:00 の空き時間">空き ${
+          Math.round((free / 60) * 10) / 10
+        }h</span>
+        </div>`;
+      })
+      .join('');
+
+    const allDayCells = days
+      .map((day) => {
+        const key = toDateKey(day);
+        const chips = allDay
+          .filter((e) => e.start.date! <= key && key < (e.end.date || e.start.date!))
+          .map(
+            (e) =>
+              `<div class="all-day-event ${CalendarWeekWebview.getResponseClass(e)}" data-id="${esc(
+                e.id
+              )}" title="${esc(CalendarWeekWebview.getTooltip(e))}">${esc(
+                e.summary || '(No title)'
+              )}</div>`
+          )
+          .join('');
+        return `<div class="all-day-cell">${chips}</div>`;
+      })
+      .join('');
+
+    const dayColumns = days
+      .map((day, i) => {
+        const key = toDateKey(day);
+        const blocks = layouts[i]
+          .map((b) => {
+            const height = Math.max(((b.end - b.start) / 60) * HOUR_HEIGHT - 2, 16);
+            return `<div class="event-block ${CalendarWeekWebview.getResponseClass(
+              b.event
+            )}" data-id="${esc(b.event.id)}" data-top="${
+              (b.start / 60) * HOUR_HEIGHT
+            }" data-height="${height}" data-column="${b.column}" data-columns="${
+              b.columns
+            }" title="${esc(CalendarWeekWebview.getTooltip(b.event))}">
+              <span class="event-time">${formatMinutes(b.start)}</span>
+              <span class="event-title">${esc(b.event.summary || '(No title)')}</span>
+              <button class="prepare-btn" data-prepare="${esc(
+                b.event.id
+              )}" title="準備ノートを作る">準備</button>
+            </div>`;
+          })
+          .join('');
+        return `<div class="day-column${key === todayKey ? ' today' : ''}" data-date="${key}">
+          <div class="work-hours"></div>
+          ${blocks}
+        </div>`;
+      })
+      .join('');
+
+    const hourLabels = Array.from(
+      { length: 24 },
+      (_, h) => `<div class="hour-label" data-top="${h * HOUR_HEIGHT}">${h}:00</div>`
+    ).join('');
+
+    const additionalStyles = `
+      body { padding: 0; }
+      .week-wrapper {
+        display: flex;
+        flex-direction: column;
+        height: 100vh;
+        overflow: hidden;
+      }
+      .toolbar {
+        display: flex;
+        align-items: center;
+        gap: var(--webview-space-sm);
+        padding: var(--webview-space-sm) var(--webview-space-md);
+        border-bottom: 1px solid var(--vscode-panel-border);
+        flex-shrink: 0;
+      }
+      .week-range { font-weight: 600; flex: 1; }
+      .action-btn {
+        padding: 3px 10px;
+        font-size: var(--webview-font-size-sm);
+        background: var(--vscode-button-secondaryBackground);
+        color: var(--vscode-button-secondaryForeground);
+        border: none;
+        border-radius: var(--webview-radius-sm);
+        cursor: pointer;
+      }
+      .action-btn:hover { background: var(--vscode-button-secondaryHoverBackground); }
+      .grid-row {
+        display: grid;
+        grid-template-columns: 48px repeat(7, 1fr);
+        flex-shrink: 0;
+        border-bottom: 1px solid var(--vscode-panel-border);
+      }
+      .day-header {
+        display: flex;
+        flex-direction: column;
+        align-items: center;
+        padding: var(--webview-space-xs) 0;
+        font-size: var(--webview-font-size-sm);
+      }
+      .day-header.today .day-name { color: var(--vscode-textLink-foreground); font-weight: 600; }
+      .day-free {
+        font-size: var(--webview-font-size-xs);
+        color: var(--vscode-descriptionForeground);
+      }
+      .all-day-label {
+        font-size: var(--webview-font-size-xs);
+        color: var(--vscode-descriptionForeground);
+        padding: 2px;
+      }
+      .all-day-cell {
+        display: flex;
+        flex-direction: column;
+        gap: 2px;
+        padding: 2px;
+        min-height: 20px;
+        border-left: 1px solid var(--vscode-panel-border);
+      }
+      .grid-body {
+        flex: 1;
+        overflow-y: auto;
+      }
+      .grid-inner {
+        display: grid;
+        grid-template-columns: 48px repeat(7, 1fr);
+        position: relative;
+        height: ${24 * HOUR_HEIGHT}px;
+        background-image: linear-gradient(var(--vscode-panel-border) 1px, transparent 1px);
+        background-size: 100% ${HOUR_HEIGHT}px;
+      }
+      .hour-gutter { position: relative; }
+      .hour-label {
+        position: absolute;
+        right: 4px;
+        transform: translateY(-50%);
+        font-size: var(--webview-font-size-xs);
+        color: var(--vscode-descriptionForeground);
+      }
+      .hour-label:first-child { display: none; }
+      .day-column {
+        position: relative;
+        border-left: 1px solid var(--vscode-panel-border);
+      }
+      .work-hours {
+        position: absolute;
+        left: 0;
+        right: 0;
+        top: ${WORK_START_HOUR * HOUR_HEIGHT}px;
+        height: ${(WORK_END_HOUR - WORK_START_HOUR) * HOUR_HEIGHT}px;
+        background: color-mix(in srgb, var(--vscode-editor-foreground) 3%, transparent);
+        pointer-events: none;
+      }
+      .event-block, .all-day-event {
+        background: color-mix(in srgb, var(--vscode-button-background) 75%, transparent);
+        color: var(--vscode-button-foreground);
+        border: 1px solid var(--vscode-button-background);
+        border-radius: 4px;
+        font-size: var(--webview-font-size-xs);
+        cursor: pointer;
+        overflow: hidden;
+      }
+      .event-block {
+        position: absolute;
+        box-sizing: border-box;
+        padding: 1px 4px;
+        display: flex;
+        flex-direction: column;
+      }
+      .all-day-event {
+        padding: 0 4px;
+        white-space: nowrap;
+        text-overflow: ellipsis;
+      }
+      .event-block:hover, .all-day-event:hover { filter: brightness(1.1); z-index: 2; }
+      .event-time { opacity: 0.8; }
+      .event-title { font-weight: 600; overflow: hidden; }
+      .resp-tentative {
+        background: repeating-linear-gradient(
+          45deg,
+          color-mix(in srgb, var(--vscode-button-background) 60%, transparent) 0 6px,
+          color-mix(in srgb, var(--vscode-button-background) 35%, transparent) 6px 12px
+        );
+      }
+      .resp-needsAction {
+        background: var(--vscode-editor-background);
+        color: var(--vscode-foreground);
+        border-style: dashed;
+      }
+      .resp-declined {
+        background: transparent;
+        color: var(--vscode-descriptionForeground);
+        border-color: var(--vscode-panel-border);
+      }
+      .resp-declined .event-title { text-decoration: line-through; }
+      .prepare-btn {
+        display: none;
+        position: absolute;
+        top: 1px;
+        right: 2px;
+        padding: 0 6px;
+        font-size: var(--webview-font-size-xs);
+        background: var(--vscode-button-secondaryBackground);
+        color: var(--vscode-button-secondaryForeground);
+        border: none;
+        border-radius: 3px;
+        cursor: pointer;
+      }
+      .event-block:hover .prepare-btn { display: block; }
+      .now-marker {
+        position: absolute;
+        left: 0;
+        right: 0;
+        height: 2px;
+        background: var(--vscode-editorError-foreground, #e51400);
+        pointer-events: none;
+        z-index: 3;
+      }
+      .now-marker::before {
+        content: '';
+        position: absolute;
+        left: -4px;
+        top: -3px;
+        width: 8px;
+        height: 8px;
+        border-radius: 50%;
+        background: inherit;
+      }
+    `;
+
+    return `<!DOCTYPE html>
+<html lang="ja">
+${WebviewHelper.getHtmlHead(webview, extensionUri, 'Calendar: Week', additionalStyles, nonce)}
+<body>
+  <div class="week-wrapper">
+    <div class="toolbar">
+      <button class="action-btn" data-navigate="-1" title="前の週">‹</button>
+      <button class="action-btn" data-navigate="0">今週</button>
+      <button class="action-btn" data-navigate="1" title="次の週">›</button>
+      <span class="week-range">${esc(rangeLabel)}</span>
+      <button class="action-btn" id="btnRefresh">更新</button>
+    </div>
+    <div class="grid-row">
+      <div></div>
+      ${headerCells}
+    </div>
+    <div class="grid-row">
+      <div class="all-day-label">終日</div>
+      ${allDayCells}
+    </div>
+    <div class="grid-body" id="gridBody">
+      <div class="grid-inner">
+        <div class="hour-gutter">${hourLabels}</div>
+        ${dayColumns}
+      </div>
+    </div>
+  </div>
+
+  <script nonce="${nonce}">
+    const vscode = acquireVsCodeApi();
+    const HOUR_HEIGHT = ${HOUR_HEIGHT};
+    const gridBody = document.getElementById('gridBody');
+    const marker = document.createElement('div');
+    marker.className = 'now-marker';
+
+    // CSP で style 属性は使えないので、位置はスクリプトから指定する
+    document.querySelectorAll('[data-top]').forEach((el) => {
+      el.style.top = el.dataset.top + 'px';
+      if (el.dataset.height) {
+        const width = 100 / Number(el.dataset.columns);
+        el.style.height = el.dataset.height + 'px';
+        el.style.left = 'calc(' + Number(el.dataset.column) * width + '% + 1px)';
+        el.style.width = 'calc(' + width + '% - 2px)';
+      }
+    });
+
+    function dateKey(d) {
+      return d.getFullYear() + '-' + String(d.getMonth() + 1).padStart(2, '0') + '-' +
+        String(d.getDate()).padStart(2, '0');
+    }
+
+    function updateNowMarker() {
+      const now = new Date();
+      const column = document.querySelector('.day-column[data-date="' + dateKey(now) + '"]');
+      if (!column) {
+        marker.remove();
+        return null;
+      }
+      const top = ((now.getHours() * 60 + now.getMinutes()) / 60) * HOUR_HEIGHT;
+      marker.style.top = top + 'px';
+      column.appendChild(marker);
+      return top;
+    }
+
+    const nowTop = updateNowMarker();
+    setInterval(updateNowMarker, 60 * 1000);
+    gridBody.scrollTop = nowTop !== null ? Math.max(nowTop - 2 * HOUR_HEIGHT, 0) : 8 * HOUR_HEIGHT;
+
+    document.addEventListener('click', (event) => {
+      const target = event.target;
+
+      const prepare = target.closest('[data-prepare]');
+      if (prepare) {
+        event.stopPropagation();
+        vscode.postMessage({ command: 'prepare', id: prepare.getAttribute('data-prepare') });
+        return;
+      }
+
+      const block = target.closest('[data-id]');
+      if (block) {
+        vscode.postMessage({ command: 'openEvent', id: block.getAttribute('data-id') });
+        return;
+      }
+
+      const nav = target.closest('[data-navigate]');
+      if (nav) {
+        vscode.postMessage({ command: 'navigate', offset: Number(nav.getAttribute('data-navigate')) });
+        return;
+      }
+
+      if (target.closest('#btnRefresh')) {
+        vscode.postMessage({ command: 'refresh' });
+      }
+    });
+  </script>
+</body>
+</html>`;
+  }
+
+  /**
+   * その日にかかる時間帯の予定を切り出し、重なるもの同士を列に振り分ける。
+   * 重なりのまとまりごとに列数を揃えるので、重ならない予定は幅いっぱいに表示される。
+   */
+  private static layoutDay(day: Date, events: GoogleCalendarEvent[]): WeekBlock[] {
+    const dayStart = day.getTime();
+    const next = new Date(day);
+    next.setDate(next.getDate() + 1);
+    const dayEnd = next.getTime();
+
+    const blocks: WeekBlock[] = events
+      .map((event) => {
+        const start = Math.max(new Date(event.start.dateTime!).getTime(), dayStart);
+        const end = Math.min(new Date(event.end.dateTime!).getTime(), dayEnd);
+        return {
+          event,
+          start: Math.round((start - dayStart) / 60000),
+          end: Math.round((end - dayStart) / 60000),
+          column: 0,
+          columns: 1,
+        };
+      })
+      .filter((b) => b.end > b.start)
+      .sort((a, b) => a.start - b.start || b.end - a.end);
+
+    let cluster: WeekBlock[] = [];
+    let columnEnds: number[] = [];
+    let clusterEnd = 0;
+    const closeCluster = () => {
+      cluster.forEach((b) => (b.columns = columnEnds.length));
+      cluster = [];
+      columnEnds = [];
+    };
+
+    for (const block of blocks) {
+      if (cluster.length > 0 && block.start >= clusterEnd) {
+        closeCluster();
+      }
+      let column = columnEnds.findIndex((end) => end <= block.start);
+      if (column === -1) {
+        column = columnEnds.length;
+        columnEnds.push(block.end);
+      } else {
+        columnEnds[column] = block.end;
+      }
+      block.column = column;
+      cluster.push(block);
+      clusterEnd = cluster.length === 1 ? block.end : Math.max(clusterEnd, block.end);
+    }
+    closeCluster();
+
+    return blocks;
+  }
+
+  /** 勤務時間帯のうち、予定（辞退・「空き」表示のものを除く）が入っていない分数 */
+  private static getFreeMinutes(blocks: WeekBlock[]): number {
+    const workStart = WORK_START_HOUR * 60;
+    const workEnd = WORK_END_HOUR * 60;
+    const busy = blocks
+      .filter(
+        (b) =>
+          b.event.transparency !== 'transparent' &&
+          CalendarWeekWebview.getSelfResponse(b.event) !== 'declined'
+      )
+      .map((b) => [Math.max(b.start, workStart), Math.min(b.end, workEnd)])
+      .filter(([start, end]) => end > start)
+      .sort((a, b) => a[0] - b[0]);
+
+    let busyMinutes = 0;
+    let cursor = workStart;
+    for (const [start, end] of busy) {
+      if (end > cursor) {
+        busyMinutes += end - Math.max(start, cursor);
+        cursor = end;
+      }
+    }
+    return workEnd - workStart - busyMinutes;
+  }
+
+  private static getSelfResponse(event: GoogleCalendarEvent): string | undefined {
+    return event.attendees?.find((a) => a.self)?.responseStatus;
+  }
+
+  private static getResponseClass(event: GoogleCalendarEvent): string {
+    const status = CalendarWeekWebview.getSelfResponse(event);
+    return status && status !== 'accepted' ? `resp-${status}` : '';
+  }
+
+  private static getTooltip(event: GoogleCalendarEvent): string {
+    const lines = [event.summary || '(No title)'];
+    if (event.start.dateTime && event.end.dateTime) {
+      // dateTime はイベント側のタイムゾーンなので、ブロックと同じくローカル時刻で表示する
+      const localMinutes = (dateTime: string) => {
+        const date = new Date(dateTime);
+        return date.getHours() * 60 + date.getMinutes();
+      };
+      lines.push(
+        `${formatMinutes(localMinutes(event.start.dateTime))} – ${formatMinutes(
+          localMinutes(event.end.dateTime)
+        )}`
+      );
+    }
+    for (const a of (event.attendees || []).slice(0, 15)) {
+      lines.push(`${STATUS_ICONS[a.responseStatus] || ''} ${a.displayName || a.email}`);
+    }
+    return lines.join('\n');
+  }
+}
+
+function toDateKey(date: Date): string {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(
+    date.getDate()
+  ).padStart(2, '0')}`;
+}
+
+function formatMinutes(minutes: number): string {
+  return `${Math.floor(minutes / 60)}:${String(minutes % 60).padStart(2, '0')}`;
+}
@@ -22,6 +22,10 @@ const DocumentEditor: React.FC = () => {
     setTimeout(() => setIsSaving(false), 500);
   };
 
+  const handlePush = () => {
+    vscode.postMessage({ command: 'save', content, push: true });
+  };
+
   const handleCopyAndOpen = () => {
     vscode.postMessage({ command: 'copyAndOpen', content });
   };
@@ -35,6 +39,9 @@ const DocumentEditor: React.FC = () => {
             <button className="action-btn secondary" onClick={handleSave} disabled={isSaving}>
               {isSaving ? '保存中...' : '保存'}
             </button>
+            <button className="action-btn secondary" onClick={handlePush}>
+              Push
+            </button>
             <button className="action-btn secondary" onClick={handleCopyAndOpen}>
               Copy &amp; Open
             </button>
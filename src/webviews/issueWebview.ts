@@ -4,6 +4,7 @@ import { WebviewHelper } from './common';
 import { MarkdownRenderer } from '../utils/markdownRenderer';
 import { BacklogApiService } from '../services/backlogApi';
 import { resolveBacklogImages } from '../utils/imageResolver';
+import { IssueEditOptions } from '../types/backlog';
 
 /**
  * Issue webview content generator
@@ -20,7 +21,8 @@ export class IssueWebview {
     issue: Entity.Issue.Issue,
     comments: Entity.Issue.Comment[],
     baseUrl?: string,
-    backlogApi?: BacklogApiService
+    backlogApi?: BacklogApiService,
+    editOptions?: IssueEditOptions
   ): Promise<string> {
     const nonce = WebviewHelper.getNonce();
 
@@ -94,6 +96,46 @@ export class IssueWebview {
           color: var(--vscode-foreground);
         }
 
+        /* Inline edit controls */
+        .issue-details-grid select,
+        .issue-details-grid input {
+          width: 100%;
+          box-sizing: border-box;
+          background: var(--vscode-input-background);
+          color: var(--vscode-input-foreground);
+          border: 1px solid var(--vscode-input-border, var(--vscode-panel-border));
+          border-radius: 2px;
+          padding: 2px 4px;
+          font-family: inherit;
+          font-size: inherit;
+        }
+        .issue-details-grid select[multiple] { min-height: 3.6em; }
+        .issue-form-disabled { opacity: 0.6; pointer-events: none; }
+        .description-header {
+          display: flex;
+          justify-content: space-between;
+          align-items: center;
+        }
+        .description-editor { display: none; }
+        .description-editor.editing { display: block; }
+        .description-editor textarea {
+          width: 100%;
+          box-sizing: border-box;
+          min-height: 200px;
+          background: var(--vscode-input-background);
+          color: var(--vscode-input-foreground);
+          border: 1px solid var(--vscode-input-border, var(--vscode-panel-border));
+          font-family: var(--vscode-editor-font-family);
+          font-size: var(--vscode-editor-font-size);
+          padding: 6px;
+        }
+        .description-actions {
+          display: flex;
+          gap: 6px;
+          justify-content: flex-end;
+          margin-top: 6px;
+        }
+
         /* Description */
         .issue-description { margin-bottom: 16px; }
         .issue-description h3 {
@@ -268,14 +310,16 @@ export class IssueWebview {
       detailItems.push({ label: 'カテゴリ', value: categories.join(', ') });
     }
 
-    const detailsGridHtml = detailItems
-      .map(
-        (d) =>
-          `<span class="detail-label">${WebviewHelper.escapeHtml(
-            d.label
-          )}</span><span class="detail-value">${WebviewHelper.escapeHtml(d.value)}</span>`
-      )
-      .join('');
+    const detailsGridHtml = editOptions
+      ? this.buildEditableDetails(issue, issueTypeName, editOptions)
+      : detailItems
+          .map(
+            (d) =>
+              `<span class="detail-label">${WebviewHelper.escapeHtml(
+                d.label
+              )}</span><span class="detail-value">${WebviewHelper.escapeHtml(d.value)}</span>`
+          )
+          .join('');
 
     return `<!DOCTYPE html>
       <html lang="ja">
@@ -320,7 +364,28 @@ export class IssueWebview {
         </div>
 
         ${
-          descriptionHtml
+          editOptions
+            ? `
+          <div class="issue-description">
+            <h3 class="description-header">
+              説明
+              <a href="#" class="external-link" id="editDescriptionBtn">編集</a>
+            </h3>
+            <div class="markdown-content" id="descriptionView">
+              ${descriptionHtml}
+            </div>
+            <div class="description-editor" id="descriptionEditor">
+              <textarea id="descriptionInput">${WebviewHelper.escapeHtml(
+                issue.description || ''
+              )}</textarea>
+              <div class="description-actions">
+                <button class="refresh-button" id="cancelDescriptionBtn">キャンセル</button>
+                <button class="refresh-button" id="saveDescriptionBtn">保存</button>
+              </div>
+            </div>
+          </div>
+        `
+            : descriptionHtml
             ? `
           <div class="issue-description">
             <h3>説明</h3>
@@ -381,6 +446,43 @@ export class IssueWebview {
 
         <script nonce="${nonce}">
           const vscode = acquireVsCodeApi();
+          const issueUpdated = ${JSON.stringify(issue.updated || '')};
+
+          // 変更は 1 項目ずつ送信し、更新後の再描画を待つ
+          function postUpdate(changes) {
+            document.body.classList.add('issue-form-disabled');
+            vscode.postMessage({
+              command: 'updateIssue',
+              issueId: ${issue.id},
+              updated: issueUpdated,
+              changes: changes,
+            });
+          }
+
+          function readField(el) {
+            const type = el.getAttribute('data-type');
+            if (type === 'multi') {
+              return Array.from(el.selectedOptions).map((o) => Number(o.value));
+            }
+            if (!el.value) {
+              return null;
+            }
+            return type === 'number' || type === 'id' ? Number(el.value) : el.value;
+          }
+
+          document.querySelectorAll('[data-field]').forEach((el) => {
+            const field = el.getAttribute('data-field');
+            const isMulti = el.getAttribute('data-type') === 'multi';
+            const initial = JSON.stringify(readField(el));
+            // 複数選択は選択操作の途中で送信しないよう、フォーカスが外れた時点で反映する
+            el.addEventListener(isMulti ? 'blur' : 'change', () => {
+              const value = readField(el);
+              if (JSON.stringify(value) === initial) {
+                return;
+              }
+              postUpdate({ [field]: value });
+            });
+          });
 
           document.addEventListener('click', function(event) {
             const target = event.target;
@@ -397,6 +499,27 @@ export class IssueWebview {
               return;
             }
 
+            if (target.closest('#editDescriptionBtn')) {
+              event.preventDefault();
+              document.getElementById('descriptionView').style.display = 'none';
+              document.getElementById('descriptionEditor').classList.add('editing');
+              document.getElementById('descriptionInput').focus();
+              return;
+            }
+
+            if (target.closest('#cancelDescriptionBtn')) {
+              event.preventDefault();
+              document.getElementById('descriptionView').style.display = '';
+              document.getElementById('descriptionEditor').classList.remove('editing');
+              return;
+            }
+
+            if (target.closest('#saveDescriptionBtn')) {
+              event.preventDefault();
+              postUpdate({ description: document.getElementById('descriptionInput').value });
+              return;
+            }
+
             if (target.closest('#addStarBtn')) {
               event.preventDefault();
               vscode.postMessage({ command: 'addStar', issueId: ${issue.id} });
@@ -417,6 +540,109 @@ export class IssueWebview {
       </html>`;
   }
 
+  /**
+   * Build the details grid with inline edit controls
+   */
+  private static buildEditableDetails(
+    issue: Entity.Issue.Issue,
+    issueTypeName: string,
+    options: IssueEditOptions
+  ): string {
+    const esc = WebviewHelper.escapeHtml;
+    const selectedMilestones = new Set((issue.milestone || []).map((m) => m.id));
+    // 選択肢はアーカイブ済みを除いているが、課題に設定済みのものは保存時に外れないよう残す
+    const milestoneOptions = [
+      ...options.versions,
+      ...(issue.milestone || []).filter((m) => !options.versions.some((v) => v.id === m.id)),
+    ];
+    const selectedCategories = new Set((issue.category || []).map((c) => c.id));
+
+    const option = (value: number | string, label: string, selected: boolean) =>
+      `<option value="${value}"${selected ? ' selected' : ''}>${esc(label)}</option>`;
+    const select = (field: string, type: 'id' | 'multi', optionsHtml: string) =>
+      `<select data-field="${field}" data-type="${type}"${
+        type === 'multi' ? ' multiple' : ''
+      }>${optionsHtml}</select>`;
+    const hours = (field: string, value: number | undefined) =>
+      `<input type="number" min="0" step="0.25" data-field="${field}" data-type="number" value="${
+        value ?? ''
+      }">`;
+
+    const items: Array<{ label: string; html: string }> = [
+      {
+        label: '状態',
+        html: select(
+          'statusId',
+          'id',
+          options.statuses.map((s) => option(s.id, s.name, s.id === issue.status?.id)).join('')
+        ),
+      },
+      {
+        label: '優先度',
+        html: select(
+          'priorityId',
+          'id',
+          options.priorities.map((p) => option(p.id, p.name, p.id === issue.priority?.id)).join('')
+        ),
+      },
+      {
+        label: '担当',
+        html: select(
+          'assigneeId',
+          'id',
+          option('', '未割当', !issue.assignee) +
+            options.users.map((u) => option(u.id, u.name, u.id === issue.assignee?.id)).join('')
+        ),
+      },
+      {
+        label: '期日',
+        html: `<input type="date" data-field="dueDate" data-type="date" value="${
+          issue.dueDate ? issue.dueDate.substring(0, 10) : ''
+        }">`,
+      },
+      {
+        label: 'マイルストーン',
+        html: select(
+          'milestoneId',
+          'multi',
+          milestoneOptions
+            .map((v) =>
+              option(
+                v.id,
+                v.archived ? `${v.name} (アーカイブ済み)` : v.name,
+                selectedMilestones.has(v.id)
+              )
+            )
+            .join('')
+        ),
+      },
+      {
+        label: 'カテゴリ',
+        html: select(
+          'categoryId',
+          'multi',
+          options.categories
+            .map((cat) => option(cat.id, cat.name, selectedCategories.has(cat.id)))
+            .join('')
+        ),
+      },
+      { label: '予定時間', html: hours('estimatedHours', issue.estimatedHours) },
+      { label: '実績時間', html: hours('actualHours', issue.actualHours) },
+    ];
+    if (issueTypeName) {
+      items.unshift({ label: '種別', html: esc(issueTypeName) });
+    }
+
+    return items
+      .map(
+        (d) =>
+          `<span class="detail-label">${esc(d.label)}</span><span class="detail-value">${
+            d.html
+          }</span>`
+      )
+      .join('');
+  }
+
   /**
    * Get CSS class for status badge
    */
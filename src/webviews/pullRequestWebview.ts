@@ -0,0 +1,413 @@
+import * as vscode from 'vscode';
+import { Entity } from 'backlog-js';
+import { WebviewHelper } from './common';
+import { MarkdownRenderer } from '../utils/markdownRenderer';
+import { BacklogApiService } from '../services/backlogApi';
+import { resolveBacklogImages } from '../utils/imageResolver';
+
+/**
+ * Pull request webview content generator
+ */
+export class PullRequestWebview {
+  private static markdownRenderer = MarkdownRenderer.getInstance();
+
+  /**
+   * Generate pull request webview content.
+   * 変更ファイルはローカルの clone から求めるため、表示後に files メッセージで受け取る。
+   */
+  static async getWebviewContent(
+    webview: vscode.Webview,
+    extensionUri: vscode.Uri,
+    projectKey: string,
+    repoName: string,
+    pr: Entity.PullRequest.PullRequest,
+    comments: Entity.PullRequest.Comment[],
+    baseUrl?: string,
+    backlogApi?: BacklogApiService
+  ): Promise<string> {
+    const nonce = WebviewHelper.getNonce();
+    const esc = WebviewHelper.escapeHtml;
+
+    const fullBaseUrl = baseUrl
+      ? baseUrl.startsWith('http')
+        ? baseUrl
+        : `https://${baseUrl}`
+      : null;
+    const prUrl = fullBaseUrl
+      ? `${fullBaseUrl}/git/${projectKey}/${repoName}/pullRequests/${pr.number}`
+      : null;
+
+    const description = await resolveBacklogImages(pr.description || '', backlogApi);
+    const descriptionHtml = description ? this.markdownRenderer.renderMarkdown(description) : '';
+
+    const commentsHtml = await Promise.all(
+      comments.map(async (comment) => {
+        const content = comment.content
+          ? this.markdownRenderer.renderMarkdown(
+              await resolveBacklogImages(comment.content, backlogApi)
+            )
+          : '';
+        const changes = (comment.changeLog || [])
+          .map(
+            (change) =>
+              `<span class="change-chip"><span class="field-name">${esc(change.field)}</span> ${esc(
+                change.originalValue || ''
+              )} &rarr; ${esc(change.newValue || '')}</span>`
+          )
+          .join('');
+        if (!content && !changes) {
+          return '';
+        }
+        return `<div class="timeline-entry">
+          <div class="timeline-header">
+            <span class="timeline-author">${esc(comment.createdUser?.name || '')}</span>
+            <span class="timeline-date">${new Date(comment.created).toLocaleString('ja-JP')}</span>
+          </div>
+          ${changes ? `<div class="timeline-changes">${changes}</div>` : ''}
+          ${content ? `<div class="timeline-content markdown-content">${content}</div>` : ''}
+        </div>`;
+      })
+    );
+    const timeline = commentsHtml.filter(Boolean);
+
+    const details: Array<{ label: string; value: string }> = [
+      { label: 'ブランチ', value: `${pr.branch} → ${pr.base}` },
+      { label: '担当', value: pr.assignee?.name || '未割当' },
+      { label: '作成者', value: pr.createdUser?.name || '' },
+      { label: '作成日', value: new Date(pr.created).toLocaleString('ja-JP') },
+    ];
+    if (pr.updated) {
+      details.push({ label: '更新日', value: new Date(pr.updated).toLocaleString('ja-JP') });
+    }
+
+    const additionalStyles = `
+        .pr-details-grid {
+          display: grid;
+          grid-template-columns: auto 1fr auto 1fr;
+          gap: 6px 12px;
+          padding: 12px 16px;
+          background: var(--vscode-editor-inactiveSelectionBackground);
+          border-radius: 6px;
+          margin-bottom: 16px;
+          font-size: 0.9em;
+        }
+        .pr-details-grid .detail-label {
+          color: var(--vscode-descriptionForeground);
+          font-weight: 500;
+          white-space: nowrap;
+        }
+
+        .pr-section { margin-bottom: 16px; }
+        .pr-section h3 {
+          display: flex;
+          justify-content: space-between;
+          align-items: center;
+          font-size: 1em;
+          font-weight: 600;
+          margin: 0 0 8px 0;
+          padding-bottom: 6px;
+          border-bottom: 1px solid var(--vscode-panel-border);
+        }
+        .pr-section .markdown-content {
+          background: transparent;
+          border: none;
+          padding: 0;
+        }
+
+        /* Changed files */
+        .files-status {
+          font-size: 0.9em;
+          color: var(--vscode-descriptionForeground);
+        }
+        .file-list { list-style: none; margin: 0; padding: 0; }
+        .file-item {
+          display: flex;
+          gap: 8px;
+          align-items: baseline;
+          padding: 3px 6px;
+          border-radius: 3px;
+          cursor: pointer;
+          font-family: var(--vscode-editor-font-family);
+          font-size: 0.9em;
+        }
+        .file-item:hover { background: var(--vscode-list-hoverBackground); }
+        .file-status {
+          width: 1.2em;
+          font-weight: 600;
+          text-align: center;
+        }
+        .file-status.A { color: var(--vscode-gitDecoration-addedResourceForeground); }
+        .file-status.M { color: var(--vscode-gitDecoration-modifiedResourceForeground); }
+        .file-status.D { color: var(--vscode-gitDecoration-deletedResourceForeground); }
+        .file-status.R { color: var(--vscode-gitDecoration-renamedResourceForeground); }
+        .file-old-path { color: var(--vscode-descriptionForeground); }
+
+        /* Comments */
+        .timeline-entry {
+          padding: 10px 0;
+          border-bottom: 1px solid var(--vscode-panel-border);
+        }
+        .timeline-header {
+          display: flex;
+          justify-content: space-between;
+          align-items: center;
+          margin-bottom: 6px;
+          font-size: 0.85em;
+        }
+        .timeline-author {
+          font-weight: 600;
+          color: var(--vscode-textLink-foreground);
+        }
+        .timeline-date { color: var(--vscode-descriptionForeground); }
+        .timeline-changes {
+          display: flex;
+          flex-wrap: wrap;
+          gap: 6px;
+          font-size: 0.85em;
+          margin-bottom: 4px;
+        }
+        .change-chip {
+          padding: 1px 6px;
+          border: 1px solid var(--vscode-panel-border);
+          border-radius: 10px;
+        }
+        .change-chip .field-name { font-weight: 600; }
+        .timeline-content.markdown-content {
+          background: transparent;
+          border: none;
+          padding: 0;
+        }
+
+        .comment-form textarea {
+          width: 100%;
+          box-sizing: border-box;
+          min-height: 100px;
+          margin-top: 12px;
+          background: var(--vscode-input-background);
+          color: var(--vscode-input-foreground);
+          border: 1px solid var(--vscode-input-border, var(--vscode-panel-border));
+          font-family: var(--vscode-editor-font-family);
+          font-size: var(--vscode-editor-font-size);
+          padding: 6px;
+        }
+        .comment-actions {
+          display: flex;
+          justify-content: flex-end;
+          margin-top: 6px;
+        }
+        .comment-form.sending { opacity: 0.6; pointer-events: none; }
+    `;
+
+    return `<!DOCTYPE html>
+      <html lang="ja">
+      ${WebviewHelper.getHtmlHead(
+        webview,
+        extensionUri,
+        `PR #${pr.number}`,
+        additionalStyles,
+        nonce
+      )}
+      <body>
+        <div class="webview-header">
+          <h1>
+            ${esc(pr.summary)}
+            <button class="refresh-button" id="refreshButton" title="更新">
+              <span class="codicon codicon-refresh"></span>
+            </button>
+          </h1>
+          <div class="webview-meta">
+            <span class="meta-item">⚡ Backlog</span>
+            <span class="key-badge">${esc(`${repoName} #${pr.number}`)}</span>
+            <span class="status-badge ${this.getStatusClass(pr.status)}">${esc(
+      pr.status?.name || ''
+    )}</span>
+            ${
+              prUrl
+                ? `<a href="#" class="external-link" data-url="${esc(prUrl)}">Open in Backlog</a>`
+                : ''
+            }
+            ${
+              pr.issue?.issueKey
+                ? `<a href="#" class="external-link" id="openIssueBtn">${esc(
+                    pr.issue.issueKey
+                  )}</a>`
+                : ''
+            }
+          </div>
+        </div>
+
+        <div class="pr-details-grid">
+          ${details
+            .map(
+              (d) =>
+                `<span class="detail-label">${esc(d.label)}</span><span class="detail-value">${esc(
+                  d.value
+                )}</span>`
+            )
+            .join('')}
+        </div>
+
+        ${
+          descriptionHtml
+            ? `<div class="pr-section">
+          <h3>説明</h3>
+          <div class="markdown-content">${descriptionHtml}</div>
+        </div>`
+            : ''
+        }
+
+        <div class="pr-section">
+          <h3>
+            <span>変更ファイル <span id="fileCount"></span></span>
+            <a href="#" class="external-link" id="fetchBtn" title="git fetch してから差分を取り直す">Fetch</a>
+          </h3>
+          <div class="files-status" id="filesStatus">ローカルの clone を確認しています...</div>
+          <ul class="file-list" id="fileList"></ul>
+        </div>
+
+        <div class="pr-section">
+          <h3>コメント (${timeline.length})</h3>
+          ${timeline.join('')}
+          <div class="comment-form" id="commentForm">
+            <textarea id="commentInput" placeholder="コメントを入力 (Ctrl+Enter で送信)"></textarea>
+            <div class="comment-actions">
+              <button class="refresh-button" id="postCommentBtn">コメントする</button>
+            </div>
+          </div>
+        </div>
+
+        <script nonce="${nonce}">
+          const vscode = acquireVsCodeApi();
+          const filesStatus = document.getElementById('filesStatus');
+          const fileList = document.getElementById('fileList');
+          const fileCount = document.getElementById('fileCount');
+          const commentForm = document.getElementById('commentForm');
+          const commentInput = document.getElementById('commentInput');
+
+          function renderFiles(msg) {
+            fileList.textContent = '';
+            fileCount.textContent = '';
+            if (msg.state !== 'ok') {
+              filesStatus.textContent = msg.message;
+              filesStatus.hidden = false;
+              return;
+            }
+            fileCount.textContent = '(' + msg.files.length + ')';
+            filesStatus.textContent = msg.files.length === 0 ? '変更はありません' : msg.message || '';
+            filesStatus.hidden = !filesStatus.textContent;
+            msg.files.forEach((file, index) => {
+              const li = document.createElement('li');
+              li.className = 'file-item';
+              li.setAttribute('data-index', String(index));
+              li.title = 'クリックで差分を表示';
+              const status = document.createElement('span');
+              status.className = 'file-status ' + file.status;
+              status.textContent = file.status;
+              const name = document.createElement('span');
+              name.textContent = file.path;
+              li.append(status, name);
+              if (file.oldPath) {
+                const old = document.createElement('span');
+                old.className = 'file-old-path';
+                old.textContent = '← ' + file.oldPath;
+                li.append(old);
+              }
+              fileList.append(li);
+            });
+          }
+
+          function postComment() {
+            const content = commentInput.value.trim();
+            if (!content) {
+              return;
+            }
+            commentForm.classList.add('sending');
+            vscode.postMessage({ command: 'postComment', content: content });
+          }
+
+          window.addEventListener('message', (event) => {
+            const msg = event.data;
+            if (msg.type === 'files') {
+              renderFiles(msg);
+            } else if (msg.type === 'commentFailed') {
+              commentForm.classList.remove('sending');
+            }
+          });
+
+          commentInput.addEventListener('keydown', (event) => {
+            if (event.key === 'Enter' && (event.ctrlKey || event.metaKey)) {
+              event.preventDefault();
+              postComment();
+            }
+          });
+
+          document.addEventListener('click', (event) => {
+            const target = event.target;
+
+            if (target.closest('#refreshButton')) {
+              event.preventDefault();
+              vscode.postMessage({ command: 'refresh' });
+              return;
+            }
+
+            if (target.closest('#fetchBtn')) {
+              event.preventDefault();
+              filesStatus.textContent = 'fetch しています...';
+              filesStatus.hidden = false;
+              vscode.postMessage({ command: 'fetch' });
+              return;
+            }
+
+            if (target.closest('#postCommentBtn')) {
+              event.preventDefault();
+              postComment();
+              return;
+            }
+
+            if (target.closest('#openIssueBtn')) {
+              event.preventDefault();
+              vscode.postMessage({ command: 'openIssue' });
+              return;
+            }
+
+            const fileItem = target.closest('.file-item');
+            if (fileItem) {
+              vscode.postMessage({
+                command: 'openDiff',
+                index: Number(fileItem.getAttribute('data-index')),
+              });
+              return;
+            }
+
+            const linkTarget = target.closest('a[data-url]');
+            if (linkTarget) {
+              event.preventDefault();
+              const url = linkTarget.getAttribute('data-url');
+              if (url) {
+                vscode.postMessage({ command: 'openExternal', url: url });
+              }
+            }
+          });
+
+          vscode.postMessage({ command: 'loadFiles' });
+        </script>
+      </body>
+      </html>`;
+  }
+
+  /**
+   * PR のステータス（1: Open / 2: Closed / 3: Merged）をバッジの CSS クラスにする
+   */
+  private static getStatusClass(status: Entity.PullRequest.Status): string {
+    switch (status?.id) {
+      case 1:
+        return 'open';
+      case 2:
+        return 'closed';
+      case 3:
+        return 'resolved';
+      default:
+        return '';
+    }
+  }
+}
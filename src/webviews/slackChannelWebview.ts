@@ -0,0 +1,314 @@
+import * as vscode from 'vscode';
+import { SlackChannel, SlackMessage } from '../types/workspace';
+import { WebviewHelper } from './common';
+import {
+  emojiHtml,
+  renderSlackMessageBody,
+  slackMessageTextStyles,
+  slackRichContentScript,
+} from './slackMessageContent';
+
+export class SlackChannelWebview {
+  /**
+   * チャンネル履歴の画面。古い方向へは上端までスクロールすると loadOlder を要求する。
+   */
+  static getWebviewContent(
+    webview: vscode.Webview,
+    extensionUri: vscode.Uri,
+    channel: SlackChannel,
+    messages: SlackMessage[],
+    hasMore: boolean,
+    slackUrl?: string | null
+  ): string {
+    const nonce = WebviewHelper.getNonce();
+    const title = channelTitle(channel);
+
+    const openInSlackBtn = slackUrl
+      ? `<a href="#" class="external-link link-slack" data-url="${WebviewHelper.escapeHtml(
+          slackUrl
+        )}">Slack で開く</a>`
+      : '';
+
+    const additionalStyles = `
+      ${slackMessageTextStyles}
+
+      .channel-content {
+        padding: 0 var(--webview-space-xl) var(--webview-space-2xl);
+      }
+
+      .history-sentinel {
+        padding: var(--webview-space-md) 0;
+        text-align: center;
+        font-size: var(--webview-font-size-sm);
+        color: var(--vscode-descriptionForeground);
+      }
+
+      .day-separator {
+        display: flex;
+        align-items: center;
+        gap: var(--webview-space-sm);
+        margin: var(--webview-space-lg) 0 var(--webview-space-sm);
+        font-size: var(--webview-font-size-xs);
+        font-weight: 600;
+        color: var(--vscode-descriptionForeground);
+      }
+
+      .day-separator::before,
+      .day-separator::after {
+        content: '';
+        flex: 1;
+        height: 1px;
+        background: var(--vscode-panel-border);
+      }
+
+      .comment {
+        padding: var(--webview-space-sm) 0;
+      }
+
+      .comment-header {
+        display: flex;
+        align-items: baseline;
+        gap: var(--webview-space-sm);
+        margin-bottom: var(--webview-space-xs);
+      }
+
+      .comment-author {
+        font-weight: 600;
+        font-size: var(--webview-font-size-sm);
+        color: var(--vscode-textLink-foreground);
+      }
+
+      .comment-date,
+      .message-edited {
+        font-size: var(--webview-font-size-xs);
+        color: var(--vscode-descriptionForeground);
+      }
+
+      .reactions-row {
+        display: flex;
+        flex-wrap: wrap;
+        gap: 4px;
+        margin-top: var(--webview-space-xs);
+      }
+
+      .reaction-chip {
+        display: inline-flex;
+        align-items: center;
+        gap: 4px;
+        padding: 1px 6px;
+        border: 1px solid var(--vscode-panel-border);
+        border-radius: 12px;
+        font-size: var(--webview-font-size-xs);
+      }
+
+      .thread-link {
+        display: inline-block;
+        margin-top: var(--webview-space-xs);
+        font-size: var(--webview-font-size-sm);
+        color: var(--vscode-textLink-foreground);
+        cursor: pointer;
+      }
+
+      .thread-link:hover {
+        text-decoration: underline;
+      }
+
+      .comment.flash {
+        animation: flash 1.5s ease-out;
+      }
+
+      @keyframes flash {
+        from { background: var(--vscode-editor-findMatchHighlightBackground); }
+        to { background: transparent; }
+      }
+    `;
+
+    const head = WebviewHelper.getHtmlHead(webview, extensionUri, title, additionalStyles, nonce);
+
+    return `<!DOCTYPE html>
+<html lang="ja">
+<head>
+  ${head}
+</head>
+<body>
+  <div class="webview-header">
+    <h1>${WebviewHelper.escapeHtml(title)}</h1>
+    <div class="webview-meta">
+      <span class="meta-item source-slack">💬 Slack</span>
+      ${openInSlackBtn}
+      <a href="#" class="external-link" id="reloadBtn">再読み込み</a>
+    </div>
+  </div>
+
+  <div class="channel-content">
+    <div class="history-sentinel" id="sentinel">${
+      hasMore ? '読み込み中...' : 'これより前のメッセージはありません'
+    }</div>
+    <div class="channel-messages" id="messages">${SlackChannelWebview.renderMessages(
+      messages
+    )}</div>
+  </div>
+
+  <script nonce="${nonce}">
+    const vscode = acquireVsCodeApi();
+    ${slackRichContentScript}
+    const sentinel = document.getElementById('sentinel');
+    const list = document.getElementById('messages');
+    let hasMore = ${hasMore};
+    let loading = false;
+
+    function htmlToNodes(html) {
+      const template = document.createElement('template');
+      template.innerHTML = html.trim();
+      return template.content;
+    }
+
+    // 同じ日付の区切りが続いたら後ろ側を消す（前後のページを繋いだ時に重複する）
+    function dedupeDaySeparators() {
+      let lastDay = null;
+      for (const el of list.querySelectorAll('.day-separator')) {
+        const day = el.getAttribute('data-day');
+        if (day === lastDay) {
+          el.remove();
+        }
+        lastDay = day;
+      }
+    }
+
+    function requestOlder() {
+      if (!hasMore || loading) {
+        return;
+      }
+      loading = true;
+      vscode.postMessage({ command: 'loadOlder' });
+    }
+
+    new IntersectionObserver((entries) => {
+      if (entries.some((e) => e.isIntersecting)) {
+        requestOlder();
+      }
+    }).observe(sentinel);
+
+    window.addEventListener('message', (event) => {
+      const msg = event.data;
+      if (msg.type === 'prepend') {
+        // 先頭に足してもスクロール位置が動かないよう、増えた高さ分だけずらす
+        const before = document.documentElement.scrollHeight;
+        list.prepend(htmlToNodes(msg.html));
+        dedupeDaySeparators();
+        window.scrollBy(0, document.documentElement.scrollHeight - before);
+        hasMore = msg.hasMore;
+        loading = false;
+        sentinel.textContent = hasMore ? '読み込み中...' : 'これより前のメッセージはありません';
+      } else if (msg.type === 'append') {
+        const atBottom =
+          window.innerHeight + window.scrollY >= document.documentElement.scrollHeight - 40;
+        const nodes = htmlToNodes(msg.html);
+        nodes.querySelectorAll('.comment').forEach((el) => el.classList.add('flash'));
+        list.append(nodes);
+        dedupeDaySeparators();
+        if (atBottom) {
+          window.scrollTo(0, document.documentElement.scrollHeight);
+        }
+      } else if (msg.type === 'loadFailed') {
+        loading = false;
+        sentinel.textContent = '読み込みに失敗しました';
+      }
+    });
+
+    document.addEventListener('click', (event) => {
+      const target = event.target;
+
+      const threadLink = target.closest('.thread-link');
+      if (threadLink) {
+        event.preventDefault();
+        vscode.postMessage({
+          command: 'openThread',
+          ts: threadLink.getAttribute('data-ts'),
+          sender: threadLink.getAttribute('data-sender'),
+        });
+        return;
+      }
+
+      if (target.closest('#reloadBtn')) {
+        event.preventDefault();
+        vscode.postMessage({ command: 'reload' });
+        return;
+      }
+
+      const linkTarget = target.closest('a[data-url]');
+      if (linkTarget) {
+        event.preventDefault();
+        const url = linkTarget.getAttribute('data-url');
+        if (url) {
+          vscode.postMessage({ command: 'openExternal', url });
+        }
+      }
+    });
+
+    window.scrollTo(0, document.documentElement.scrollHeight);
+  </script>
+</body>
+</html>`;
+  }
+
+  /**
+   * 古い順のメッセージを日付区切り付きの HTML にする。prepend / append の差分にも使う。
+   */
+  static renderMessages(messages: SlackMessage[]): string {
+    let lastDay = '';
+    return messages
+      .map((msg) => {
+        const date = new Date(parseFloat(msg.ts) * 1000);
+        const day = date.toLocaleDateString('ja-JP', {
+          year: 'numeric',
+          month: 'short',
+          day: 'numeric',
+          weekday: 'short',
+        });
+        const separator =
+          day !== lastDay ? `<div class="day-separator" data-day="${day}">${day}</div>` : '';
+        lastDay = day;
+        return separator + buildMessageHtml(msg, date);
+      })
+      .join('');
+  }
+}
+
+function channelTitle(channel: SlackChannel): string {
+  return channel.is_im || channel.is_mpim ? channel.name : `#${channel.name}`;
+}
+
+function buildMessageHtml(msg: SlackMessage, date: Date): string {
+  const time = date.toLocaleTimeString('ja-JP', { hour: '2-digit', minute: '2-digit' });
+  const sender = WebviewHelper.escapeHtml(msg.userName || msg.user || 'Unknown');
+
+  const reactions = (msg.reactions || [])
+    .map(
+      (r) =>
+        `<span class="reaction-chip" title=":${WebviewHelper.escapeHtml(r.name)}:">${emojiHtml(
+          r.name
+        )} ${r.count}</span>`
+    )
+    .join('');
+
+  // スレッドの親だけ返信数を出し、クリックでスレッド画面を開く
+  const threadLink =
+    msg.reply_count && msg.thread_ts === msg.ts
+      ? `<a class="thread-link" data-ts="${WebviewHelper.escapeHtml(
+          msg.ts
+        )}" data-sender="${sender}">💬 ${msg.reply_count}件の返信</a>`
+      : '';
+
+  return `
+    <div class="comment" data-ts="${WebviewHelper.escapeHtml(msg.ts)}">
+      <div class="comment-header">
+        <span class="comment-author">${sender}</span>
+        <span class="comment-date" title="${date.toLocaleString('ja-JP')}">${time}</span>
+        ${msg.edited ? '<span class="message-edited">(編集済み)</span>' : ''}
+      </div>
+      ${renderSlackMessageBody(msg)}
+      ${reactions ? `<div class="reactions-row">${reactions}</div>` : ''}
+      ${threadLink}
+    </div>`;
+}
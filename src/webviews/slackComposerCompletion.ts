@@ -0,0 +1,253 @@
+/**
+ * Slack の返信欄・投稿欄で使う補完（:絵文字: と @ユーザー / @グループ）。
+ * 候補データは拡張側の SlackApiService.getComposerCompletions から受け取る。
+ */
+
+export const slackCompletionStyles = `
+      .slack-completion {
+        position: fixed;
+        z-index: 1000;
+        min-width: 220px;
+        max-width: 360px;
+        max-height: 240px;
+        overflow-y: auto;
+        background: var(--vscode-editorSuggestWidget-background, var(--vscode-editor-background));
+        border: 1px solid var(--vscode-editorSuggestWidget-border, var(--vscode-panel-border));
+        border-radius: 4px;
+        box-shadow: 0 4px 12px rgba(0, 0, 0, 0.3);
+        font-size: 12px;
+      }
+
+      .slack-completion[hidden] {
+        display: none;
+      }
+
+      .slack-completion-item {
+        display: flex;
+        align-items: center;
+        gap: 6px;
+        padding: 3px 8px;
+        cursor: pointer;
+        white-space: nowrap;
+        overflow: hidden;
+        text-overflow: ellipsis;
+      }
+
+      .slack-completion-item.selected {
+        background: var(--vscode-editorSuggestWidget-selectedBackground, var(--vscode-list-activeSelectionBackground));
+        color: var(--vscode-editorSuggestWidget-selectedForeground, var(--vscode-list-activeSelectionForeground));
+      }
+
+      .slack-completion-item img {
+        width: 16px;
+        height: 16px;
+        object-fit: contain;
+      }
+
+      .slack-completion-detail {
+        color: var(--vscode-descriptionForeground);
+      }
+`;
+
+/**
+ * attachSlackCompletion(textarea, requestData) を定義するスクリプト。
+ * 戻り値の setData で候補を渡し、送信前に encode で @名前 を <@U…> / <!subteam^…> に変換する。
+ * Enter / Tab / 矢印キーを横取りするので、送信用の keydown より先に呼ぶこと。
+ */
+export const slackCompletionScript = `
+    function attachSlackCompletion(textarea, requestData) {
+      const MAX_ITEMS = 8;
+      let data = null;
+      let requested = false;
+      let items = [];
+      let selected = 0;
+      let trigger = null;
+      // 挿入した表示名 → Slack のトークン
+      const mentions = new Map();
+
+      const list = document.createElement('div');
+      list.className = 'slack-completion';
+      list.hidden = true;
+      document.body.appendChild(list);
+
+      function escapeText(text) {
+        const div = document.createElement('div');
+        div.textContent = text;
+        return div.innerHTML;
+      }
+
+      function ensureData() {
+        if (!requested) {
+          requested = true;
+          requestData();
+        }
+      }
+
+      function findTrigger() {
+        const before = textarea.value.slice(0, textarea.selectionStart);
+        const m = /(^|\\s)([:@])([^\\s:@]*)$/.exec(before);
+        if (!m) {
+          return null;
+        }
+        // 絵文字は 2 文字入力してから候補を出す（Slack と同じ）
+        if (m[2] === ':' && m[3].length < 2) {
+          return null;
+        }
+        return { char: m[2], query: m[3].toLowerCase(), start: before.length - m[3].length - 1 };
+      }
+
+      function rank(name, query) {
+        const lower = name.toLowerCase();
+        return lower.startsWith(query) ? 0 : lower.includes(query) ? 1 : -1;
+      }
+
+      function search(t) {
+        if (!data) {
+          return [];
+        }
+        const scored = [];
+        if (t.char === ':') {
+          for (const e of data.emoji) {
+            const r = rank(e.name, t.query);
+            if (r >= 0) {
+              scored.push({ r, item: { kind: 'emoji', label: e.name, emoji: e } });
+            }
+          }
+        } else {
+          for (const u of data.users) {
+            const r = Math.max(rank(u.name, t.query), rank(u.realName || '', t.query));
+            if (r >= 0) {
+              scored.push({ r, item: { kind: 'user', label: u.name, detail: u.realName, id: u.id } });
+            }
+          }
+          for (const g of data.groups) {
+            const r = Math.max(rank(g.handle, t.query), rank(g.name, t.query));
+            if (r >= 0) {
+              scored.push({ r, item: { kind: 'group', label: g.handle, detail: g.name, id: g.id } });
+            }
+          }
+        }
+        scored.sort((a, b) => a.r - b.r || a.item.label.length - b.item.label.length);
+        return scored.slice(0, MAX_ITEMS).map((s) => s.item);
+      }
+
+      function render() {
+        list.innerHTML = items
+          .map((item, i) => {
+            let icon = '';
+            if (item.kind === 'emoji') {
+              icon = item.emoji.url
+                ? '<img src="' + escapeText(item.emoji.url) + '" alt="" />'
+                : '<span>' + (item.emoji.char || '') + '</span>';
+            } else {
+              icon = '<span>' + (item.kind === 'group' ? '👥' : '👤') + '</span>';
+            }
+            const label = item.kind === 'emoji' ? ':' + item.label + ':' : '@' + item.label;
+            const detail = item.detail && item.detail !== item.label
+              ? ' <span class="slack-completion-detail">' + escapeText(item.detail) + '</span>'
+              : '';
+            return '<div class="slack-completion-item' + (i === selected ? ' selected' : '') +
+              '" data-index="' + i + '">' + icon + '<span>' + escapeText(label) + '</span>' + detail + '</div>';
+          })
+          .join('');
+        const rect = textarea.getBoundingClientRect();
+        list.style.left = rect.left + 'px';
+        // 下に入りきらない時は入力欄の上に出す
+        const below = window.innerHeight - rect.bottom;
+        list.hidden = false;
+        list.style.top = (below >= list.offsetHeight + 4
+          ? rect.bottom + 2
+          : Math.max(0, rect.top - list.offsetHeight - 2)) + 'px';
+      }
+
+      function close() {
+        list.hidden = true;
+        items = [];
+        trigger = null;
+      }
+
+      function update() {
+        trigger = findTrigger();
+        if (!trigger) {
+          close();
+          return;
+        }
+        ensureData();
+        items = search(trigger);
+        selected = 0;
+        if (items.length === 0) {
+          list.hidden = true;
+          return;
+        }
+        render();
+      }
+
+      function accept(item) {
+        let insert;
+        if (item.kind === 'emoji') {
+          insert = ':' + item.label + ': ';
+        } else {
+          insert = '@' + item.label + ' ';
+          mentions.set(item.label, item.kind === 'user' ? '<@' + item.id + '>' : '<!subteam^' + item.id + '>');
+        }
+        const value = textarea.value;
+        const end = textarea.selectionStart;
+        textarea.value = value.slice(0, trigger.start) + insert + value.slice(end);
+        const caret = trigger.start + insert.length;
+        textarea.setSelectionRange(caret, caret);
+        close();
+        textarea.dispatchEvent(new Event('input'));
+        textarea.focus();
+      }
+
+      textarea.addEventListener('focus', ensureData);
+      textarea.addEventListener('input', update);
+      textarea.addEventListener('blur', () => setTimeout(close, 150));
+      textarea.addEventListener('keydown', (e) => {
+        if (list.hidden || items.length === 0 || e.ctrlKey || e.metaKey) {
+          return;
+        }
+        if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+          selected = (selected + (e.key === 'ArrowDown' ? 1 : items.length - 1)) % items.length;
+          render();
+        } else if (e.key === 'Enter' || e.key === 'Tab') {
+          accept(items[selected]);
+        } else if (e.key === 'Escape') {
+          close();
+        } else {
+          return;
+        }
+        e.preventDefault();
+        e.stopImmediatePropagation();
+      });
+      list.addEventListener('mousedown', (e) => {
+        const el = e.target.closest('.slack-completion-item');
+        if (el) {
+          e.preventDefault();
+          accept(items[Number(el.getAttribute('data-index'))]);
+        }
+      });
+
+      return {
+        setData(value) {
+          data = value;
+          if (trigger) {
+            update();
+          }
+        },
+        // 長い名前から置き換えて、前方一致する短い名前に食われないようにする
+        encode(text) {
+          const labels = [...mentions.keys()].sort((a, b) => b.length - a.length);
+          let result = text;
+          for (const label of labels) {
+            result = result.split('@' + label).join(mentions.get(label));
+          }
+          return result;
+        },
+        reset() {
+          mentions.clear();
+          close();
+        },
+      };
+    }
+`;
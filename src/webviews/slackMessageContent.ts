@@ -0,0 +1,587 @@
+import {
+  SlackAttachment,
+  SlackBlock,
+  SlackBlockElement,
+  SlackFile,
+  SlackMessage,
+  SlackTextObject,
+} from '../types/workspace';
+import { convertSlackEmoji, getCustomEmojiUrl } from '../utils/slackEmoji';
+import { WebviewHelper } from './common';
+
+/** Slack 本文 (renderSlackMessageBody の出力) 用のスタイル。スレッド画面とチャンネル画面で共有する */
+export const slackMessageTextStyles = `
+      /* Message text styling */
+      .message-text {
+        word-break: break-word;
+        line-height: 1.6;
+        color: var(--vscode-foreground);
+      }
+
+      .slack-custom-emoji {
+        display: inline-block;
+        width: 1.4em;
+        height: 1.4em;
+        object-fit: contain;
+        vertical-align: middle;
+      }
+
+      .message-text blockquote {
+        border-left: 3px solid var(--vscode-textBlockQuote-border);
+        background: var(--vscode-textBlockQuote-background);
+        margin: var(--webview-space-xs) 0;
+        padding: var(--webview-space-xs) var(--webview-space-md);
+        font-style: italic;
+      }
+
+      .message-text a {
+        color: var(--vscode-textLink-foreground);
+        text-decoration: none;
+      }
+
+      .message-text a:hover {
+        color: var(--vscode-textLink-activeForeground);
+        text-decoration: underline;
+      }
+
+      .message-text .slack-mention {
+        background: var(--vscode-badge-background);
+        color: var(--vscode-badge-foreground);
+        padding: 1px 4px;
+        border-radius: 3px;
+        font-weight: 600;
+      }
+
+      .message-text code {
+        background: var(--vscode-textCodeBlock-background);
+        color: var(--vscode-textPreformat-foreground);
+        padding: 2px 4px;
+        border-radius: 3px;
+        font-family: var(--webview-mono-font-family);
+        font-size: 0.9em;
+      }
+
+      .message-text pre {
+        background: var(--vscode-textCodeBlock-background);
+        border: 1px solid var(--vscode-panel-border);
+        border-radius: var(--webview-radius-md);
+        padding: var(--webview-space-sm);
+        margin: var(--webview-space-xs) 0;
+        overflow-x: auto;
+      }
+
+      .message-text pre code {
+        background: transparent;
+        padding: 0;
+        font-size: var(--webview-font-size-sm);
+      }
+
+      .message-text strong {
+        font-weight: 600;
+      }
+
+      .message-text em {
+        font-style: italic;
+      }
+
+      .message-text s {
+        text-decoration: line-through;
+        opacity: 0.7;
+      }
+
+      /* Block Kit / attachments / files */
+      .block-header {
+        font-size: var(--webview-font-size-base);
+        font-weight: 700;
+        margin: var(--webview-space-xs) 0;
+      }
+
+      .block-section {
+        display: flex;
+        gap: var(--webview-space-md);
+        margin: var(--webview-space-xs) 0;
+      }
+
+      .block-section-body {
+        flex: 1;
+        min-width: 0;
+      }
+
+      .block-fields {
+        display: grid;
+        grid-template-columns: 1fr 1fr;
+        gap: var(--webview-space-xs) var(--webview-space-md);
+        margin-top: var(--webview-space-xs);
+      }
+
+      .block-field.wide {
+        grid-column: 1 / -1;
+      }
+
+      .block-context {
+        display: flex;
+        flex-wrap: wrap;
+        align-items: center;
+        gap: var(--webview-space-xs);
+        font-size: var(--webview-font-size-xs);
+        color: var(--vscode-descriptionForeground);
+        margin: var(--webview-space-xs) 0;
+      }
+
+      .block-element-image,
+      .attachment-icon {
+        width: 16px;
+        height: 16px;
+        border-radius: 3px;
+        vertical-align: middle;
+      }
+
+      .block-accessory .block-element-image {
+        width: 72px;
+        height: 72px;
+      }
+
+      .block-divider {
+        border: none;
+        border-top: 1px solid var(--vscode-panel-border);
+        margin: var(--webview-space-sm) 0;
+      }
+
+      .block-actions {
+        display: flex;
+        flex-wrap: wrap;
+        gap: var(--webview-space-xs);
+        margin: var(--webview-space-xs) 0;
+      }
+
+      .block-button {
+        display: inline-block;
+        padding: 2px 10px;
+        border: 1px solid var(--vscode-panel-border);
+        border-radius: 4px;
+        font-size: var(--webview-font-size-sm);
+        color: var(--vscode-foreground);
+        text-decoration: none;
+        cursor: default;
+      }
+
+      a.block-button {
+        cursor: pointer;
+      }
+
+      .block-button.primary {
+        background: var(--vscode-button-background);
+        color: var(--vscode-button-foreground);
+        border-color: transparent;
+      }
+
+      .block-button.danger {
+        color: var(--vscode-errorForeground);
+        border-color: var(--vscode-errorForeground);
+      }
+
+      .block-image-title {
+        font-size: var(--webview-font-size-sm);
+        font-weight: 600;
+      }
+
+      .slack-image {
+        display: block;
+        max-width: 100%;
+        max-height: 360px;
+        margin: var(--webview-space-xs) 0;
+        border-radius: var(--webview-radius-md);
+      }
+
+      .slack-attachment {
+        display: flex;
+        gap: var(--webview-space-md);
+        margin: var(--webview-space-sm) 0;
+        padding: var(--webview-space-xs) var(--webview-space-md);
+        border-left: 4px solid var(--vscode-panel-border);
+        border-radius: 0 var(--webview-radius-md) var(--webview-radius-md) 0;
+        background: var(--vscode-textBlockQuote-background);
+      }
+
+      .attachment-main {
+        flex: 1;
+        min-width: 0;
+      }
+
+      .attachment-service,
+      .attachment-author,
+      .attachment-footer,
+      .attachment-field-title {
+        font-size: var(--webview-font-size-xs);
+        color: var(--vscode-descriptionForeground);
+      }
+
+      .attachment-field-title {
+        font-weight: 600;
+      }
+
+      .attachment-title {
+        display: block;
+        font-weight: 600;
+        color: var(--vscode-textLink-foreground);
+        text-decoration: none;
+      }
+
+      .attachment-thumb {
+        width: 64px;
+        height: 64px;
+        object-fit: cover;
+        border-radius: var(--webview-radius-md);
+      }
+
+      .slack-files {
+        display: flex;
+        flex-wrap: wrap;
+        gap: var(--webview-space-sm);
+        margin-top: var(--webview-space-xs);
+      }
+
+      .slack-file-image {
+        display: inline-flex;
+        flex-direction: column;
+        text-decoration: none;
+      }
+
+      .slack-file-caption,
+      .slack-file-size {
+        font-size: var(--webview-font-size-xs);
+        color: var(--vscode-descriptionForeground);
+      }
+
+      .slack-file {
+        display: inline-flex;
+        align-items: center;
+        gap: var(--webview-space-xs);
+        padding: var(--webview-space-xs) var(--webview-space-md);
+        border: 1px solid var(--vscode-panel-border);
+        border-radius: var(--webview-radius-md);
+        color: var(--vscode-foreground);
+        text-decoration: none;
+      }
+`;
+
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+export function formatSlackMessage(text: string): string {
+  if (!text) return '';
+
+  // First decode HTML entities that Slack API might send
+  let formatted = text
+    .replace(/&amp;/g, '&')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"');
+
+  // Now escape HTML for safe display
+  formatted = escapeHtml(formatted);
+
+  // Format blockquotes (lines starting with >)
+  formatted = formatted.replace(/^&gt;\s?(.*)$/gm, '<blockquote>$1</blockquote>');
+
+  // Merge consecutive blockquotes
+  formatted = formatted.replace(/(<\/blockquote>\n<blockquote>)/g, '\n');
+
+  // Format Slack links with label: <URL|label>
+  formatted = formatted.replace(
+    /&lt;(https?:\/\/[^|&gt;]+)\|([^&gt;]+)&gt;/g,
+    '<a href="$1">$2</a>'
+  );
+  // Format Slack links without label: <URL>
+  formatted = formatted.replace(/&lt;(https?:\/\/[^&gt;]+)&gt;/g, '<a href="$1">$1</a>');
+
+  // Format mentions with display name: <@USER_ID|Display Name>
+  formatted = formatted.replace(
+    /&lt;@[A-Z0-9]+\|([^&gt;]+)&gt;/g,
+    '<span class="slack-mention">@$1</span>'
+  );
+  // Format mentions without display name: <@USER_ID>
+  formatted = formatted.replace(/&lt;@([A-Z0-9]+)&gt;/g, '<span class="slack-mention">@$1</span>');
+
+  // Format Slack channel mentions: <#CHANNEL_ID|channel-name>
+  formatted = formatted.replace(
+    /&lt;#[A-Z0-9]+\|([^&gt;]+)&gt;/g,
+    '<span class="slack-mention">#$1</span>'
+  );
+
+  // Format plain text URLs (not already wrapped in Slack format)
+  // Match http:// or https:// URLs that are not already inside <a> tags
+  // Note: &amp; must be included as part of URL since & was escaped to &amp; by escapeHtml
+  formatted = formatted.replace(
+    /(?<!href=")(https?:\/\/[^\s<>]*[^\s<>.,:;!?\])'"」』）])/g,
+    (_, url) => {
+      const href = url.replace(/&amp;/g, '&');
+      return `<a href="${href}">${url}</a>`;
+    }
+  );
+
+  // Format Slack markdown
+  // Code blocks first (before inline code): ```text```
+  formatted = formatted.replace(/```([^`]+)```/g, '<pre><code>$1</code></pre>');
+  // Inline code: `text`
+  formatted = formatted.replace(/`([^`]+)`/g, '<code>$1</code>');
+  // Bold: *text*
+  formatted = formatted.replace(/\*([^*\n]+)\*/g, '<strong>$1</strong>');
+  // Italic: _text_
+  formatted = formatted.replace(/_([^_\n]+)_/g, '<em>$1</em>');
+  // Strikethrough: ~text~
+  formatted = formatted.replace(/~([^~\n]+)~/g, '<s>$1</s>');
+
+  // Convert line breaks to <br>
+  formatted = formatted.replace(/\n/g, '<br>');
+
+  return formatted;
+}
+
+/**
+ * 本文・Block Kit・attachment・ファイルをまとめた HTML。
+ * Block Kit を持つメッセージ（bot 投稿など）は text が要約でしかないのでブロックを優先して描画する。
+ */
+export function renderSlackMessageBody(msg: SlackMessage): string {
+  const richBlocks = (msg.blocks || []).filter((b) => b.type !== 'rich_text');
+  const body =
+    richBlocks.length > 0
+      ? renderBlocks(richBlocks)
+      : formatSlackMessage(msg.text || (msg.rawText ?? ''));
+  const attachments = (msg.attachments || []).map(renderAttachment).join('');
+  const files = (msg.files || []).map(renderFile).join('');
+  return renderCustomEmoji(
+    `<div class="message-text">${body}</div>${attachments}${
+      files ? `<div class="slack-files">${files}</div>` : ''
+    }`
+  );
+}
+
+/**
+ * リアクションやピッカー用の絵文字 1 つ分の HTML。カスタム絵文字は画像にする。
+ */
+export function emojiHtml(name: string): string {
+  const url = getCustomEmojiUrl(name);
+  if (url) {
+    return `<img class="slack-custom-emoji" src="${escapeHtml(url)}" alt=":${escapeHtml(
+      name
+    )}:" />`;
+  }
+  return escapeHtml(convertSlackEmoji(`:${name}:`));
+}
+
+/** convertSlackEmoji で変換されずに残った :name: のうち、カスタム絵文字を画像にする（タグの外だけ） */
+function renderCustomEmoji(html: string): string {
+  return html.replace(
+    /(^|>)([^<]+)/g,
+    (_, open: string, text: string) =>
+      open +
+      text.replace(/(?<![a-zA-Z0-9:/]):([\w+-]+):/g, (match, name: string) =>
+        getCustomEmojiUrl(name) ? emojiHtml(name) : match
+      )
+  );
+}
+
+/**
+ * attachment の色付けスクリプト。CSP で style 属性が使えないため data-color から JS で設定する。
+ * 差分で追加された要素にも効くよう MutationObserver で監視する。
+ */
+export const slackRichContentScript = `
+    (function () {
+      function applyColors(root) {
+        root.querySelectorAll('[data-color]').forEach(function (el) {
+          el.style.borderLeftColor = el.getAttribute('data-color');
+        });
+      }
+      applyColors(document);
+      new MutationObserver(function (mutations) {
+        mutations.forEach(function (m) {
+          m.addedNodes.forEach(function (node) {
+            if (node.nodeType === 1) {
+              applyColors(node.parentElement || node);
+            }
+          });
+        });
+      }).observe(document.body, { childList: true, subtree: true });
+    })();
+`;
+
+const ATTACHMENT_COLORS: Record<string, string> = {
+  good: '#2eb886',
+  warning: '#daa038',
+  danger: '#a30200',
+};
+
+function attachmentColor(color: string | undefined): string | undefined {
+  if (!color) {
+    return undefined;
+  }
+  if (ATTACHMENT_COLORS[color]) {
+    return ATTACHMENT_COLORS[color];
+  }
+  const hex = color.replace(/^#/, '');
+  return /^[0-9a-fA-F]{3}([0-9a-fA-F]{3})?$/.test(hex) ? `#${hex}` : undefined;
+}
+
+function renderTextObject(obj: SlackTextObject | string | undefined): string {
+  if (!obj) {
+    return '';
+  }
+  if (typeof obj === 'string') {
+    return escapeHtml(convertSlackEmoji(obj));
+  }
+  return obj.type === 'mrkdwn'
+    ? formatSlackMessage(convertSlackEmoji(obj.text))
+    : escapeHtml(convertSlackEmoji(obj.text));
+}
+
+function renderImage(url: string | undefined, alt: string | undefined, className: string): string {
+  if (!url || !/^https:\/\//.test(url)) {
+    return '';
+  }
+  return `<img class="${className}" src="${escapeHtml(url)}" alt="${escapeHtml(alt || '')}" />`;
+}
+
+/** actions ブロックの要素は操作できないので、ボタンの見た目だけ出す（URL 付きは開ける） */
+function renderElement(el: SlackBlockElement): string {
+  switch (el.type) {
+    case 'button': {
+      // Slack のボタンスタイルは primary / danger のみ
+      const styleClass = el.style === 'primary' || el.style === 'danger' ? ` ${el.style}` : '';
+      const label = renderTextObject(el.text);
+      return el.url
+        ? `<a href="#" class="block-button${styleClass}" data-url="${escapeHtml(
+            el.url
+          )}">${label}</a>`
+        : `<span class="block-button${styleClass}" title="VS Code からは操作できません">${label}</span>`;
+    }
+    case 'image':
+      return renderImage(el.image_url, el.alt_text, 'block-element-image');
+    case 'mrkdwn':
+    case 'plain_text':
+      return `<span>${renderTextObject({ type: el.type, text: String(el.text ?? '') })}</span>`;
+    default:
+      // select / datepicker などはプレースホルダーだけ出す
+      return el.placeholder
+        ? `<span class="block-button select">${renderTextObject(el.placeholder)} ▾</span>`
+        : '';
+  }
+}
+
+function renderBlocks(blocks: SlackBlock[]): string {
+  return blocks
+    .map((block) => {
+      switch (block.type) {
+        case 'header':
+          return `<div class="block-header">${renderTextObject(block.text)}</div>`;
+        case 'section': {
+          const fields = (block.fields || [])
+            .map((f) => `<div class="block-field">${renderTextObject(f)}</div>`)
+            .join('');
+          const accessory = block.accessory
+            ? `<div class="block-accessory">${renderElement(block.accessory)}</div>`
+            : '';
+          return `<div class="block-section">
+              <div class="block-section-body">
+                ${block.text ? `<div>${renderTextObject(block.text)}</div>` : ''}
+                ${fields ? `<div class="block-fields">${fields}</div>` : ''}
+              </div>
+              ${accessory}
+            </div>`;
+        }
+        case 'context':
+          return `<div class="block-context">${(block.elements || [])
+            .map(renderElement)
+            .join('')}</div>`;
+        case 'divider':
+          return '<hr class="block-divider" />';
+        case 'image':
+          return `<div class="block-image">
+              ${
+                block.title
+                  ? `<div class="block-image-title">${renderTextObject(block.title)}</div>`
+                  : ''
+              }
+              ${renderImage(block.image_url, block.alt_text, 'slack-image')}
+            </div>`;
+        case 'actions':
+          return `<div class="block-actions">${(block.elements || [])
+            .map(renderElement)
+            .join('')}</div>`;
+        default:
+          return '';
+      }
+    })
+    .join('');
+}
+
+function renderAttachment(a: SlackAttachment): string {
+  const color = attachmentColor(a.color);
+  const isUnfurl = !!(a.from_url || a.original_url);
+  const title = a.title
+    ? a.title_link
+      ? `<a href="#" class="attachment-title" data-url="${escapeHtml(a.title_link)}">${escapeHtml(
+          a.title
+        )}</a>`
+      : `<div class="attachment-title">${escapeHtml(a.title)}</div>`
+    : '';
+  const fields = (a.fields || [])
+    .map(
+      (f) => `<div class="block-field${f.short ? '' : ' wide'}">
+          <div class="attachment-field-title">${escapeHtml(f.title)}</div>
+          <div>${formatSlackMessage(convertSlackEmoji(f.value))}</div>
+        </div>`
+    )
+    .join('');
+
+  const pretext = a.pretext
+    ? `<div class="message-text">${formatSlackMessage(convertSlackEmoji(a.pretext))}</div>`
+    : '';
+  return `${pretext}<div class="slack-attachment${isUnfurl ? ' unfurl' : ''}"${
+    color ? ` data-color="${color}"` : ''
+  }>
+      <div class="attachment-main">
+        ${
+          a.service_name
+            ? `<div class="attachment-service">${renderImage(
+                a.service_icon,
+                '',
+                'attachment-icon'
+              )}${escapeHtml(a.service_name)}</div>`
+            : ''
+        }
+        ${a.author_name ? `<div class="attachment-author">${escapeHtml(a.author_name)}</div>` : ''}
+        ${title}
+        ${
+          a.text
+            ? `<div class="message-text">${formatSlackMessage(convertSlackEmoji(a.text))}</div>`
+            : ''
+        }
+        ${fields ? `<div class="block-fields">${fields}</div>` : ''}
+        ${a.blocks ? renderBlocks(a.blocks) : ''}
+        ${renderImage(a.image_url, a.title, 'slack-image')}
+        ${a.footer ? `<div class="attachment-footer">${escapeHtml(a.footer)}</div>` : ''}
+      </div>
+      ${a.image_url ? '' : renderImage(a.thumb_url, a.title, 'attachment-thumb')}
+    </div>`;
+}
+
+function renderFile(f: SlackFile): string {
+  const name = escapeHtml(f.title || f.name);
+  const link = f.permalink ? ` data-url="${escapeHtml(f.permalink)}"` : '';
+  if (f.previewDataUri) {
+    return `<a href="#" class="slack-file-image"${link} title="${name}">
+        <img class="slack-image" src="${f.previewDataUri}" alt="${name}" />
+        <span class="slack-file-caption">${name}</span>
+      </a>`;
+  }
+  const size = f.size
+    ? `<span class="slack-file-size">${WebviewHelper.formatFileSize(f.size)}</span>`
+    : '';
+  return `<a href="#" class="slack-file"${link}>📄 ${name}${size}</a>`;
+}
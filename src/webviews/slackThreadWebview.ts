@@ -1,7 +1,15 @@
 import * as vscode from 'vscode';
 import { SlackMessage, SlackReaction } from '../types/workspace';
-import { convertSlackEmoji } from '../utils/slackEmoji';
+import { listEmojiShortcodes } from '../utils/slackEmoji';
 import { WebviewHelper } from './common';
+import { slackCompletionScript, slackCompletionStyles } from './slackComposerCompletion';
+import {
+  emojiHtml,
+  escapeHtml,
+  renderSlackMessageBody,
+  slackMessageTextStyles,
+  slackRichContentScript,
+} from './slackMessageContent';
 
 export class SlackThreadWebview {
   static getWebviewContent(
@@ -11,7 +19,8 @@ export class SlackThreadWebview {
     title: string,
     slackUrl?: string | null,
     contextBefore: SlackMessage[] = [],
-    contextAfter: SlackMessage[] = []
+    contextAfter: SlackMessage[] = [],
+    selfUserId?: string | null
   ): string {
     const nonce = WebviewHelper.getNonce();
 
@@ -28,16 +37,22 @@ export class SlackThreadWebview {
         ? '<div class="thread-separator"><span>📍 スレッド開始</span></div>'
         : '';
 
-    const parentHtml = parentMessage ? buildMessageHtml(parentMessage, 'thread-parent') : '';
+    const parentHtml = parentMessage
+      ? buildMessageHtml(parentMessage, 'thread-parent', selfUserId)
+      : '';
 
-    const repliesHtml = replies.map((msg) => buildMessageHtml(msg, 'thread-reply')).join('');
+    const repliesHtml = replies
+      .map((msg) => buildMessageHtml(msg, 'thread-reply', selfUserId))
+      .join('');
 
-    const repliesLabel =
-      replies.length > 0
-        ? `<div class="thread-replies-header">
-            <div class="thread-replies-label">💬 ${replies.length}件の返信</div>
-          </div>`
-        : '';
+    // 返信が 0 件でも置いておき、差分更新で件数を書き換える
+    const repliesLabel = `<div class="thread-replies-header" id="repliesHeader"${
+      replies.length > 0 ? '' : ' hidden'
+    }>
+            <div class="thread-replies-label">💬 <span id="replyCount">${
+              replies.length
+            }</span>件の返信</div>
+          </div>`;
 
     const threadSeparatorAfter =
       contextAfter.length > 0
@@ -113,75 +128,9 @@ export class SlackThreadWebview {
         padding: var(--webview-space-md) 0;
       }
 
-      /* Message text styling */
-      .message-text {
-        word-break: break-word;
-        line-height: 1.6;
-        color: var(--vscode-foreground);
-      }
+      ${slackMessageTextStyles}
 
-      .message-text blockquote {
-        border-left: 3px solid var(--vscode-textBlockQuote-border);
-        background: var(--vscode-textBlockQuote-background);
-        margin: var(--webview-space-xs) 0;
-        padding: var(--webview-space-xs) var(--webview-space-md);
-        font-style: italic;
-      }
-
-      .message-text a {
-        color: var(--vscode-textLink-foreground);
-        text-decoration: none;
-      }
-
-      .message-text a:hover {
-        color: var(--vscode-textLink-activeForeground);
-        text-decoration: underline;
-      }
-
-      .message-text .slack-mention {
-        background: var(--vscode-badge-background);
-        color: var(--vscode-badge-foreground);
-        padding: 1px 4px;
-        border-radius: 3px;
-        font-weight: 600;
-      }
-
-      .message-text code {
-        background: var(--vscode-textCodeBlock-background);
-        color: var(--vscode-textPreformat-foreground);
-        padding: 2px 4px;
-        border-radius: 3px;
-        font-family: var(--webview-mono-font-family);
-        font-size: 0.9em;
-      }
-
-      .message-text pre {
-        background: var(--vscode-textCodeBlock-background);
-        border: 1px solid var(--vscode-panel-border);
-        border-radius: var(--webview-radius-md);
-        padding: var(--webview-space-sm);
-        margin: var(--webview-space-xs) 0;
-        overflow-x: auto;
-      }
-
-      .message-text pre code {
-        background: transparent;
-        padding: 0;
-        font-size: var(--webview-font-size-sm);
-      }
-
-      .message-text strong {
-        font-weight: 600;
-      }
-
-      .message-text em {
-        font-style: italic;
-      }
-
-      .message-text s {
-        text-decoration: line-through;
-        opacity: 0.7;
-      }
+      ${slackCompletionStyles}
 
       /* Context messages - muted appearance */
       .context-message {
@@ -250,7 +199,7 @@ export class SlackThreadWebview {
         border: 1px solid var(--vscode-panel-border);
         border-radius: 12px;
         font-size: var(--webview-font-size-sm);
-        cursor: default;
+        cursor: pointer;
       }
 
       .reaction-emoji {
@@ -381,6 +330,134 @@ export class SlackThreadWebview {
         font-size: var(--webview-font-size-xs);
         color: var(--vscode-descriptionForeground);
       }
+
+      /* Own message actions */
+      .comment-meta {
+        display: inline-flex;
+        align-items: baseline;
+        gap: var(--webview-space-sm);
+      }
+
+      .message-edited {
+        font-size: var(--webview-font-size-xs);
+        color: var(--vscode-descriptionForeground);
+      }
+
+      .message-actions {
+        display: none;
+        gap: var(--webview-space-xs);
+      }
+
+      .comment:hover .message-actions {
+        display: inline-flex;
+      }
+
+      .message-actions button,
+      .edit-actions button {
+        background: transparent;
+        border: none;
+        color: var(--vscode-textLink-foreground);
+        cursor: pointer;
+        font-size: var(--webview-font-size-xs);
+        padding: 0 2px;
+      }
+
+      .message-actions button:hover {
+        text-decoration: underline;
+      }
+
+      .message-edit-box {
+        width: 100%;
+        min-height: 60px;
+        box-sizing: border-box;
+        font-family: inherit;
+        font-size: var(--webview-font-size-sm);
+        background: var(--vscode-input-background);
+        color: var(--vscode-input-foreground);
+        border: 1px solid var(--vscode-focusBorder);
+        border-radius: 4px;
+        padding: var(--webview-space-xs);
+      }
+
+      .edit-actions {
+        display: flex;
+        justify-content: flex-end;
+        gap: var(--webview-space-sm);
+        margin-top: var(--webview-space-xs);
+      }
+
+      .reaction-chip.reacted {
+        border-color: var(--vscode-focusBorder);
+        background: var(--vscode-list-activeSelectionBackground);
+      }
+
+      .comment.flash {
+        animation: flash 1.5s ease-out;
+      }
+
+      @keyframes flash {
+        from { background: var(--vscode-editor-findMatchHighlightBackground); }
+        to { background: transparent; }
+      }
+
+      /* Reply composer */
+      .reply-composer {
+        position: sticky;
+        bottom: 0;
+        background: var(--vscode-editor-background);
+        border-top: 1px solid var(--vscode-panel-border);
+        padding: var(--webview-space-md) var(--webview-space-xl);
+      }
+
+      .reply-composer textarea {
+        width: 100%;
+        min-height: 56px;
+        box-sizing: border-box;
+        resize: vertical;
+        font-family: inherit;
+        font-size: var(--webview-font-size-sm);
+        background: var(--vscode-input-background);
+        color: var(--vscode-input-foreground);
+        border: 1px solid var(--vscode-input-border, var(--vscode-panel-border));
+        border-radius: 4px;
+        padding: var(--webview-space-sm);
+      }
+
+      .reply-composer textarea:focus {
+        outline: none;
+        border-color: var(--vscode-focusBorder);
+      }
+
+      .composer-actions {
+        display: flex;
+        align-items: center;
+        gap: var(--webview-space-md);
+        margin-top: var(--webview-space-sm);
+        font-size: var(--webview-font-size-sm);
+      }
+
+      .composer-actions .spacer {
+        flex: 1;
+      }
+
+      .composer-actions button {
+        padding: 4px 12px;
+        border: none;
+        border-radius: 2px;
+        cursor: pointer;
+        background: var(--vscode-button-background);
+        color: var(--vscode-button-foreground);
+      }
+
+      .composer-actions button.secondary {
+        background: var(--vscode-button-secondaryBackground);
+        color: var(--vscode-button-secondaryForeground);
+      }
+
+      .composer-actions button:disabled {
+        opacity: 0.5;
+        cursor: default;
+      }
     `;
 
     const head = WebviewHelper.getHtmlHead(webview, extensionUri, title, additionalStyles, nonce);
@@ -411,6 +488,16 @@ export class SlackThreadWebview {
     ${afterHtml}
   </div>
 
+  <div class="reply-composer">
+    <textarea id="replyText" placeholder="返信を入力... (Ctrl+Enter で送信)"></textarea>
+    <div class="composer-actions">
+      <label><input type="checkbox" id="replyBroadcast" /> チャンネルにも投稿する</label>
+      <span class="spacer"></span>
+      <button class="secondary" id="attachBtn" title="ワークスペースのファイルをスレッドに添付">📎 ファイルを添付</button>
+      <button id="replyBtn">返信</button>
+    </div>
+  </div>
+
   <div class="emoji-picker-overlay" id="emojiOverlay"></div>
   <div class="emoji-picker" id="emojiPicker">
     <input type="text" class="emoji-picker-search" id="emojiSearch" placeholder="絵文字を検索..." />
@@ -419,17 +506,28 @@ export class SlackThreadWebview {
 
   <script nonce="${nonce}">
     const vscode = acquireVsCodeApi();
+    ${slackRichContentScript}
     const EMOJIS = ${JSON.stringify(QUICK_EMOJIS)};
+    const CUSTOM_EMOJIS = ${JSON.stringify(
+      listEmojiShortcodes()
+        .filter((e) => e.url)
+        .map((e) => ({ shortcode: e.name, url: e.url }))
+    )};
     let pickerChannel = '';
     let pickerTs = '';
 
     function renderEmojiGrid(filter) {
       const grid = document.getElementById('emojiGrid');
+      // 検索時はワークスペースのカスタム絵文字も候補に含める
       const filtered = filter
-        ? EMOJIS.filter(e => e.shortcode.includes(filter.toLowerCase()))
+        ? EMOJIS.concat(CUSTOM_EMOJIS)
+            .filter(e => e.shortcode.includes(filter.toLowerCase()))
+            .slice(0, 64)
         : EMOJIS;
       grid.innerHTML = filtered.map(e =>
-        '<button class="emoji-item" data-shortcode="' + e.shortcode + '" title=":' + e.shortcode + ':">' + e.emoji + '</button>'
+        '<button class="emoji-item" data-shortcode="' + e.shortcode + '" title=":' + e.shortcode + ':">' +
+        (e.url ? '<img class="slack-custom-emoji" src="' + e.url + '" alt="" />' : e.emoji) +
+        '</button>'
       ).join('');
     }
 
@@ -469,9 +567,148 @@ export class SlackThreadWebview {
       }
     });
 
+    ${slackCompletionScript}
+
+    const replyText = document.getElementById('replyText');
+    const replyBtn = document.getElementById('replyBtn');
+    const attachBtn = document.getElementById('attachBtn');
+    const completion = attachSlackCompletion(replyText, () =>
+      vscode.postMessage({ command: 'requestCompletions' })
+    );
+
+    function setSending(sending) {
+      replyBtn.disabled = sending;
+      attachBtn.disabled = sending;
+    }
+
+    function sendReply() {
+      const text = replyText.value.trim();
+      if (!text) {
+        return;
+      }
+      setSending(true);
+      vscode.postMessage({
+        command: 'reply',
+        text: completion.encode(text),
+        broadcast: document.getElementById('replyBroadcast').checked,
+      });
+    }
+
+    replyBtn.addEventListener('click', sendReply);
+    replyText.addEventListener('keydown', (e) => {
+      if (e.key === 'Enter' && (e.ctrlKey || e.metaKey)) {
+        e.preventDefault();
+        sendReply();
+      }
+    });
+    attachBtn.addEventListener('click', () => {
+      setSending(true);
+      vscode.postMessage({ command: 'attachFile', text: completion.encode(replyText.value.trim()) });
+    });
+
+    function findMessage(ts) {
+      return document.querySelector('.comment[data-ts="' + ts + '"]');
+    }
+
+    function startEdit(comment) {
+      const textEl = comment.querySelector('.message-text');
+      if (!textEl || comment.querySelector('.message-edit-box')) {
+        return;
+      }
+      const box = document.createElement('textarea');
+      box.className = 'message-edit-box';
+      box.value = comment.getAttribute('data-raw') || '';
+      const actions = document.createElement('div');
+      actions.className = 'edit-actions';
+      actions.innerHTML =
+        '<button data-action="cancel">キャンセル</button><button data-action="save">保存</button>';
+      textEl.hidden = true;
+      textEl.after(box, actions);
+      box.focus();
+      actions.addEventListener('click', (e) => {
+        const action = e.target.getAttribute('data-action');
+        if (action === 'save' && box.value.trim()) {
+          vscode.postMessage({
+            command: 'editMessage',
+            ts: comment.getAttribute('data-ts'),
+            text: box.value,
+          });
+        }
+        if (action === 'save' || action === 'cancel') {
+          box.remove();
+          actions.remove();
+          textEl.hidden = false;
+        }
+      });
+    }
+
+    // 拡張側からの差分更新
+    window.addEventListener('message', (event) => {
+      const msg = event.data;
+      if (msg.type === 'patch') {
+        const container = document.querySelector('.thread-messages');
+        for (const item of msg.upserts) {
+          const wrapper = document.createElement('div');
+          wrapper.innerHTML = item.html.trim();
+          const el = wrapper.firstElementChild;
+          const existing = findMessage(item.ts);
+          if (existing) {
+            // 編集中のメッセージは上書きしない
+            if (!existing.querySelector('.message-edit-box')) {
+              existing.replaceWith(el);
+            }
+          } else {
+            container.appendChild(el);
+            el.classList.add('flash');
+          }
+        }
+        for (const ts of msg.removed) {
+          const el = findMessage(ts);
+          if (el) {
+            el.remove();
+          }
+        }
+        document.getElementById('replyCount').textContent = msg.replyCount;
+        document.getElementById('repliesHeader').hidden = msg.replyCount === 0;
+      } else if (msg.type === 'replySent') {
+        replyText.value = '';
+        completion.reset();
+        setSending(false);
+      } else if (msg.type === 'replyFailed') {
+        setSending(false);
+      } else if (msg.type === 'completions') {
+        completion.setData(msg.data);
+      }
+    });
+
     document.addEventListener('click', (event) => {
       const target = event.target;
 
+      const actionBtn = target.closest('.message-actions button');
+      if (actionBtn) {
+        event.preventDefault();
+        const comment = actionBtn.closest('.comment');
+        if (actionBtn.getAttribute('data-action') === 'edit') {
+          startEdit(comment);
+        } else {
+          vscode.postMessage({ command: 'deleteMessage', ts: comment.getAttribute('data-ts') });
+        }
+        return;
+      }
+
+      const chip = target.closest('.reaction-chip');
+      if (chip) {
+        event.preventDefault();
+        const row = chip.closest('.reactions-row');
+        vscode.postMessage({
+          command: chip.classList.contains('reacted') ? 'removeReaction' : 'addReaction',
+          channel: row.getAttribute('data-channel'),
+          timestamp: row.getAttribute('data-ts'),
+          name: chip.getAttribute('data-name'),
+        });
+        return;
+      }
+
       if (target.closest('.add-reaction-btn')) {
         event.preventDefault();
         event.stopPropagation();
@@ -500,9 +737,24 @@ export class SlackThreadWebview {
 </body>
 </html>`;
   }
+
+  /**
+   * 差分更新用に 1 メッセージ分の HTML を返す。
+   */
+  static renderMessage(
+    msg: SlackMessage,
+    className: 'thread-parent' | 'thread-reply',
+    selfUserId?: string | null
+  ): string {
+    return buildMessageHtml(msg, className, selfUserId);
+  }
 }
 
-function buildMessageHtml(msg: SlackMessage, className: string): string {
+function buildMessageHtml(
+  msg: SlackMessage,
+  className: string,
+  selfUserId?: string | null
+): string {
   const date = new Date(parseFloat(msg.ts) * 1000);
   const time = date.toLocaleTimeString('ja-JP', {
     hour: '2-digit',
@@ -516,18 +768,31 @@ function buildMessageHtml(msg: SlackMessage, className: string): string {
     minute: '2-digit',
   });
   const sender = msg.userName || msg.user || 'Unknown';
-  const text = formatSlackMessage(msg.text);
 
-  const reactionsHtml = buildReactionsHtml(msg.reactions, msg.channel, msg.ts);
+  const reactionsHtml = buildReactionsHtml(msg.reactions, msg.channel, msg.ts, selfUserId);
+
+  // 自分のメッセージだけ編集・削除できる
+  const isOwn = !!selfUserId && msg.user === selfUserId;
+  const ownActions = isOwn
+    ? `<span class="message-actions">
+          <button data-action="edit" title="編集">編集</button>
+          <button data-action="delete" title="削除">削除</button>
+        </span>`
+    : '';
+  const rawAttr = isOwn ? ` data-raw="${escapeHtml(msg.rawText ?? msg.text)}"` : '';
 
   return `
-    <div class="comment ${className}">
+    <div class="comment ${className}" data-ts="${escapeHtml(msg.ts)}"${rawAttr}>
       <div class="comment-header">
         <span class="comment-author">${escapeHtml(sender)}</span>
-        <span class="comment-date" title="${fullDate}">${time}</span>
+        <span class="comment-meta">
+          ${ownActions}
+          ${msg.edited ? '<span class="message-edited">(編集済み)</span>' : ''}
+          <span class="comment-date" title="${fullDate}">${time}</span>
+        </span>
       </div>
       <div class="comment-content">
-        <div class="message-text">${text}</div>
+        ${renderSlackMessageBody(msg)}
         ${reactionsHtml}
       </div>
     </div>`;
@@ -563,101 +828,31 @@ const QUICK_EMOJIS = [
 function buildReactionsHtml(
   reactions: SlackReaction[] | undefined,
   channel: string,
-  ts: string
+  ts: string,
+  selfUserId?: string | null
 ): string {
   const chips = (reactions || [])
     .map((r) => {
-      const emoji = convertSlackEmoji(`:${r.name}:`);
-      return `<span class="reaction-chip" title=":${escapeHtml(
-        r.name
-      )}:"><span class="reaction-emoji">${emoji}</span><span class="reaction-count">${
+      const emoji = emojiHtml(r.name);
+      // 自分が付けたリアクションはクリックで外す
+      const reacted = !!selfUserId && r.users.includes(selfUserId);
+      const name = escapeHtml(r.name);
+      return `<span class="reaction-chip${
+        reacted ? ' reacted' : ''
+      }" data-name="${name}" title=":${name}:${
+        reacted ? ' (クリックで外す)' : ''
+      }"><span class="reaction-emoji">${emoji}</span><span class="reaction-count">${
         r.count
       }</span></span>`;
     })
     .join('');
 
-  return `<div class="reactions-row">
+  return `<div class="reactions-row" data-channel="${escapeHtml(channel)}" data-ts="${escapeHtml(
+    ts
+  )}">
     ${chips}
     <button class="add-reaction-btn" title="リアクションを追加" data-channel="${escapeHtml(
       channel
     )}" data-ts="${escapeHtml(ts)}">+</button>
   </div>`;
 }
-
-function escapeHtml(text: string): string {
-  return text
-    .replace(/&/g, '&amp;')
-    .replace(/</g, '&lt;')
-    .replace(/>/g, '&gt;')
-    .replace(/"/g, '&quot;');
-}
-
-function formatSlackMessage(text: string): string {
-  if (!text) return '';
-
-  // First decode HTML entities that Slack API might send
-  let formatted = text
-    .replace(/&amp;/g, '&')
-    .replace(/&lt;/g, '<')
-    .replace(/&gt;/g, '>')
-    .replace(/&quot;/g, '"');
-
-  // Now escape HTML for safe display
-  formatted = escapeHtml(formatted);
-
-  // Format blockquotes (lines starting with >)
-  formatted = formatted.replace(/^&gt;\s?(.*)$/gm, '<blockquote>$1</blockquote>');
-
-  // Merge consecutive blockquotes
-  formatted = formatted.replace(/(<\/blockquote>\n<blockquote>)/g, '\n');
-
-  // Format Slack links with label: <URL|label>
-  formatted = formatted.replace(
-    /&lt;(https?:\/\/[^|&gt;]+)\|([^&gt;]+)&gt;/g,
-    '<a href="$1">$2</a>'
-  );
-  // Format Slack links without label: <URL>
-  formatted = formatted.replace(/&lt;(https?:\/\/[^&gt;]+)&gt;/g, '<a href="$1">$1</a>');
-
-  // Format mentions with display name: <@USER_ID|Display Name>
-  formatted = formatted.replace(
-    /&lt;@[A-Z0-9]+\|([^&gt;]+)&gt;/g,
-    '<span class="slack-mention">@$1</span>'
-  );
-  // Format mentions without display name: <@USER_ID>
-  formatted = formatted.replace(/&lt;@([A-Z0-9]+)&gt;/g, '<span class="slack-mention">@$1</span>');
-
-  // Format Slack channel mentions: <#CHANNEL_ID|channel-name>
-  formatted = formatted.replace(
-    /&lt;#[A-Z0-9]+\|([^&gt;]+)&gt;/g,
-    '<span class="slack-mention">#$1</span>'
-  );
-
-  // Format plain text URLs (not already wrapped in Slack format)
-  // Match http:// or https:// URLs that are not already inside <a> tags
-  // Note: &amp; must be included as part of URL since & was escaped to &amp; by escapeHtml
-  formatted = formatted.replace(
-    /(?<!href=")(https?:\/\/[^\s<>]*[^\s<>.,:;!?\])'"」』）])/g,
-    (_, url) => {
-      const href = url.replace(/&amp;/g, '&');
-      return `<a href="${href}">${url}</a>`;
-    }
-  );
-
-  // Format Slack markdown
-  // Code blocks first (before inline code): ```text```
-  formatted = formatted.replace(/```([^`]+)```/g, '<pre><code>$1</code></pre>');
-  // Inline code: `text`
-  formatted = formatted.replace(/`([^`]+)`/g, '<code>$1</code>');
-  // Bold: *text*
-  formatted = formatted.replace(/\*([^*\n]+)\*/g, '<strong>$1</strong>');
-  // Italic: _text_
-  formatted = formatted.replace(/_([^_\n]+)_/g, '<em>$1</em>');
-  // Strikethrough: ~text~
-  formatted = formatted.replace(/~([^~\n]+)~/g, '<s>$1</s>');
-
-  // Convert line breaks to <br>
-  formatted = formatted.replace(/\n/g, '<br>');
-
-  return formatted;
-}